@@ -0,0 +1,233 @@
+/**
+ * Oxford 3000 Import Pipeline
+ *
+ * Extracts the headwords from the bundled Oxford 3000 PDF and writes a
+ * versioned, validated JSON word bank to src/data/oxford3000.json.
+ *
+ * Usage: npm run import:oxford3000
+ *
+ * Definitions and examples are not part of the PDF; they are filled in by
+ * a separate enrichment step.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, resolve } from 'path';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+const WORD_BANK_VERSION = '1.0.0';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const sourcePath = resolve(root, 'src/assets/The_Oxford_3000_by_CEFR_level.pdf');
+const outputPath = resolve(root, 'src/data/oxford3000.json');
+
+const LEVELS = ['A1', 'A2', 'B1', 'B2'];
+
+// PDF abbreviations mapped to the part-of-speech names used throughout the app
+const PARTS_OF_SPEECH = {
+  'n.': 'noun',
+  'v.': 'verb',
+  'adj.': 'adjective',
+  'adv.': 'adverb',
+  'prep.': 'preposition',
+  'conj.': 'conjunction',
+  'det.': 'determiner',
+  'pron.': 'pronoun',
+  'exclam.': 'exclamation',
+  'number': 'number',
+  'modal v.': 'modal verb',
+  'auxiliary v.': 'auxiliary verb',
+  'indefinite article': 'indefinite article',
+  'definite article': 'definite article',
+  'infinitive marker': 'infinitive marker'
+};
+
+// Sanity bounds for the extracted list; anything outside means the layout changed
+const MIN_EXPECTED_WORDS = 2900;
+const MAX_EXPECTED_WORDS = 3100;
+
+const HEADING_FONT_SIZE = 18;
+const BODY_FONT_SIZE = 9;
+
+/**
+ * Reads every text run of the PDF and groups it into lines, in reading order
+ * (page by page, column by column, top to bottom).
+ */
+const extractLines = async (data) => {
+  const doc = await getDocument({ data, useSystemFonts: false }).promise;
+  const lines = [];
+
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+    const page = await doc.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const items = content.items.filter(item => 'str' in item && item.str.trim() && !item.str.includes('Oxford 3000'));
+
+    // Headwords are set in their own (bold) font; their x positions mark the columns
+    const bodyFont = items.find(item => Math.round(item.transform[0]) === BODY_FONT_SIZE && /^[a-z]/.test(item.str))?.fontName;
+    const columnStarts = [...new Set(items
+      .filter(item => item.fontName === bodyFont || Math.round(item.transform[0]) === HEADING_FONT_SIZE)
+      .map(item => Math.round(item.transform[4])))]
+      .sort((a, b) => a - b);
+
+    const pageLines = new Map();
+
+    items.forEach(item => {
+      const size = Math.round(item.transform[0]);
+      if (size !== BODY_FONT_SIZE && size !== HEADING_FONT_SIZE) return;
+
+      const x = Math.round(item.transform[4]);
+      const y = Math.round(item.transform[5]);
+      const column = columnStarts.filter(start => start <= x + 1).length - 1;
+      if (column < 0) return;
+
+      const key = `${column}:${y}`;
+      if (!pageLines.has(key)) {
+        pageLines.set(key, { column, y, x, parts: [] });
+      }
+      pageLines.get(key).parts.push({
+        text: item.str,
+        x,
+        isHeadword: item.fontName === bodyFont,
+        isHeading: size === HEADING_FONT_SIZE
+      });
+    });
+
+    Array.from(pageLines.values())
+      .sort((a, b) => a.column - b.column || b.y - a.y)
+      .forEach(line => {
+        line.parts.sort((a, b) => a.x - b.x);
+        lines.push(line);
+      });
+  }
+
+  return lines;
+};
+
+const parsePartsOfSpeech = (text) => {
+  return text
+    .split(/[,/]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => PARTS_OF_SPEECH[part] || part);
+};
+
+const parseEntries = (lines) => {
+  const entries = [];
+  let level = null;
+
+  lines.forEach(line => {
+    const text = line.parts.map(part => part.text).join('').replace(/\s+/g, ' ').trim();
+
+    if (line.parts[0].isHeading) {
+      if (LEVELS.includes(text)) {
+        level = text;
+      }
+      return;
+    }
+
+    if (!level || /©|\d+ \/ \d+/.test(text)) return;
+
+    const headword = line.parts.filter(part => part.isHeadword).map(part => part.text).join('').trim();
+    let rest = line.parts.filter(part => !part.isHeadword).map(part => part.text).join('').trim();
+
+    // Homographs carry a short sense gloss, e.g. "bank (money) n."
+    const senseMatch = rest.match(/^\(([^)]+)\)\s*/);
+    const sense = senseMatch ? senseMatch[1] : undefined;
+    if (senseMatch) {
+      rest = rest.slice(senseMatch[0].length);
+    }
+
+    // Lines without a headword continue the previous entry's parts of speech
+    if (!headword) {
+      const previous = entries[entries.length - 1];
+      if (previous) {
+        previous.partsOfSpeech.push(...parsePartsOfSpeech(rest));
+      }
+      return;
+    }
+
+    // Numbered homographs, e.g. "tear1" (from the eye) and "tear2" (rip)
+    const homographMatch = headword.match(/(\d+)$/);
+
+    // Learners type and say each variant of "a, an" on its own, with a plain apostrophe in "o’clock"
+    const variants = headword.replace(/\d+$/, '').replace(/[’‘]/g, "'").split(',').map(word => word.trim()).filter(Boolean);
+
+    variants.forEach(word => {
+      entries.push({
+        word,
+        level,
+        ...(homographMatch ? { homograph: Number(homographMatch[1]) } : {}),
+        ...(sense ? { sense } : {}),
+        partsOfSpeech: parsePartsOfSpeech(rest)
+      });
+    });
+  });
+
+  return entries;
+};
+
+const validateEntries = (entries) => {
+  const errors = [];
+  const knownParts = new Set(Object.values(PARTS_OF_SPEECH));
+  const seen = new Set();
+
+  entries.forEach((entry, index) => {
+    const label = `#${index + 1} "${entry.word}"`;
+
+    if (!entry.word || !/^[a-zA-Z]/.test(entry.word)) {
+      errors.push(`${label}: invalid headword`);
+    }
+    if (!LEVELS.includes(entry.level)) {
+      errors.push(`${label}: invalid level ${entry.level}`);
+    }
+    if (!entry.partsOfSpeech.length) {
+      errors.push(`${label}: missing part of speech`);
+    }
+    entry.partsOfSpeech
+      .filter(part => !knownParts.has(part))
+      .forEach(part => errors.push(`${label}: unknown part of speech "${part}"`));
+
+    const key = `${entry.word}|${entry.homograph || ''}|${entry.sense || ''}|${entry.level}`;
+    if (seen.has(key)) {
+      errors.push(`${label}: duplicate entry at ${entry.level}`);
+    }
+    seen.add(key);
+  });
+
+  const headwords = new Set(entries.map(entry => entry.word)).size;
+  if (headwords < MIN_EXPECTED_WORDS || headwords > MAX_EXPECTED_WORDS) {
+    errors.push(`Expected ${MIN_EXPECTED_WORDS}-${MAX_EXPECTED_WORDS} headwords, found ${headwords}`);
+  }
+
+  return errors;
+};
+
+const main = async () => {
+  const data = new Uint8Array(readFileSync(sourcePath));
+  const entries = parseEntries(await extractLines(data));
+  const errors = validateEntries(entries);
+
+  if (errors.length) {
+    console.error(`Oxford 3000 import failed with ${errors.length} error(s):`);
+    errors.slice(0, 50).forEach(error => console.error(`  - ${error}`));
+    process.exit(1);
+  }
+
+  const wordBank = {
+    version: WORD_BANK_VERSION,
+    source: 'The_Oxford_3000_by_CEFR_level.pdf',
+    levels: LEVELS,
+    count: entries.length,
+    entries
+  };
+
+  writeFileSync(outputPath, JSON.stringify(wordBank, null, 2) + '\n');
+
+  const perLevel = LEVELS.map(level => `${level}: ${entries.filter(entry => entry.level === level).length}`).join(', ');
+  console.log(`Wrote ${entries.length} entries (${perLevel}) to ${outputPath}`);
+};
+
+main().catch(error => {
+  console.error('Oxford 3000 import failed:', error);
+  process.exit(1);
+});
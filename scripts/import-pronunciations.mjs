@@ -0,0 +1,84 @@
+/**
+ * Pronunciation Table Import
+ *
+ * Looks up every word of the built-in decks in the CMU Pronouncing Dictionary
+ * and writes the table the pronunciation scorer compares attempts with to
+ * src/data/pronunciations.ts.
+ *
+ * Usage: npm run import:pronunciations
+ *
+ * Run it again after changing a built-in deck. Words the dictionary does not
+ * have are listed and left to the scorer's letter-to-sound rules.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, resolve } from 'path';
+import { dictionary } from 'cmu-pronouncing-dictionary';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const oxford3000Path = resolve(root, 'src/data/oxford3000.json');
+const oxford5000Path = resolve(root, 'src/data/oxford5000.ts');
+const outputPath = resolve(root, 'src/data/pronunciations.ts');
+
+// Recognizers split words into "a" ("a bandon"), so it is always in the table
+const EXTRA_WORDS = ['a'];
+
+// The Oxford lists use British spellings the American dictionary only has in their American form
+const AMERICAN_SPELLINGS = {
+  analyse: 'analyze',
+  jewellery: 'jewelry',
+  offence: 'offense'
+};
+
+// Headwords of both built-in decks; the Oxford 5000 starter set is TypeScript, so its words are read off the source
+const readDeckWords = () => {
+  const oxford3000 = JSON.parse(readFileSync(oxford3000Path, 'utf8')).entries.map(entry => entry.word);
+  const oxford5000 = Array.from(readFileSync(oxford5000Path, 'utf8').matchAll(/word: "([^"]+)"/g), match => match[1]);
+  return [...oxford3000, ...oxford5000, ...EXTRA_WORDS];
+};
+
+// Single words as the scorer sees them: "o'clock" and "T-shirt" are looked up one part at a time
+const splitWords = (text) => {
+  return text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .split(/[^a-z']+/)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+};
+
+const main = () => {
+  const words = Array.from(new Set(readDeckWords().flatMap(splitWords))).sort();
+  const lines = [];
+  const missing = [];
+
+  words.forEach(word => {
+    const phonemes = dictionary[word] || dictionary[AMERICAN_SPELLINGS[word]];
+    if (phonemes) {
+      // The scorer drops apostrophes before looking a word up, as answer matching does
+      lines.push(`${word.replace(/'/g, '').toUpperCase()}  ${phonemes}`);
+    } else {
+      missing.push(word);
+    }
+  });
+
+  const output = [
+    '// Generated by scripts/import-pronunciations.mjs from the CMU Pronouncing Dictionary; do not edit by hand.',
+    '// Each line is the word, two spaces, then ARPAbet phonemes with stress digits on vowels',
+    '// (1 primary, 2 secondary, 0 unstressed). Covers every word of the built-in decks the',
+    '// dictionary has; other words fall back to letter-to-sound rules.',
+    'export const pronunciationTable = `',
+    ...lines,
+    '`;',
+    ''
+  ].join('\n');
+
+  writeFileSync(outputPath, output);
+  console.log(`Wrote ${lines.length} pronunciations to ${outputPath}`);
+  if (missing.length) {
+    console.log(`Not in the dictionary (${missing.length}): ${missing.join(', ')}`);
+  }
+};
+
+main();
@@ -0,0 +1,359 @@
+/**
+ * Classroom Quiz Relay
+ *
+ * A small WebSocket relay for the classroom quiz. The teacher's screen hosts a
+ * room and runs the game; students' phones join with the room code. The relay
+ * only passes messages between them, so it needs no AI keys or cloud service
+ * and runs on any machine on the school network.
+ *
+ * Usage: npm run build && npm run classroom
+ *
+ * It also serves the built app from dist/, so students can open the join link
+ * it prints. Set CLASSROOM_PORT to listen on another port than 8787.
+ *
+ * Only pages the relay served itself may connect, so a web page open on some
+ * machine on the network cannot host or join rooms. To use the relay from the
+ * Vite dev server, list its origin in CLASSROOM_ALLOWED_ORIGINS (comma separated),
+ * e.g. CLASSROOM_ALLOWED_ORIGINS=http://localhost:5173.
+ */
+
+import { createServer } from 'http';
+import { createHash, randomBytes, randomInt } from 'crypto';
+import { readFile } from 'fs/promises';
+import { networkInterfaces } from 'os';
+import { fileURLToPath } from 'url';
+import { dirname, extname, resolve, sep } from 'path';
+
+const PORT = Number(process.env.CLASSROOM_PORT) || 8787;
+const ALLOWED_ORIGINS = (process.env.CLASSROOM_ALLOWED_ORIGINS || '')
+  .split(',')
+  .map(origin => origin.trim().toLowerCase())
+  .filter(Boolean);
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const distPath = resolve(root, 'dist');
+
+// Fixed by RFC 6455 for the handshake
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Letters that cannot be mistaken for digits or each other when read off a projector
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const CODE_LENGTH = 4;
+
+const MAX_PLAYERS = 60;
+const MAX_NAME_LENGTH = 20;
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+// Phones that sleep drop off without closing the socket; unanswered pings find them
+const HEARTBEAT_MS = 15000;
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm'
+};
+
+// Browsers always send the page's origin on a WebSocket handshake; it must be this relay or an allowed one
+const isAllowedOrigin = (request) => {
+  const origin = request.headers.origin;
+  if (!origin) return false;
+  try {
+    const { host, origin: normalized } = new URL(origin);
+    return host.toLowerCase() === String(request.headers.host || '').toLowerCase() || ALLOWED_ORIGINS.includes(normalized.toLowerCase());
+  } catch {
+    return false;
+  }
+};
+
+// Host and player payloads are passed on unread, so they are only kept to plain objects of a bounded size
+const isRelayablePayload = (payload) => {
+  return payload !== null && typeof payload === 'object' && !Array.isArray(payload) &&
+    Buffer.byteLength(JSON.stringify(payload)) <= MAX_MESSAGE_BYTES;
+};
+
+// code -> { host, players: Map<name, connection>, rejoinTokens: Map<name, token> }. A name
+// keeps its token while the room is open, so only the student who took it can come back as it
+const rooms = new Map();
+
+const createRoomCode = () => {
+  let code;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_LETTERS[randomInt(CODE_LETTERS.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+// Addresses students on the same network can reach this machine at
+const getJoinUrls = (code) => {
+  return Object.values(networkInterfaces())
+    .flat()
+    .filter(address => address && address.family === 'IPv4' && !address.internal)
+    .map(address => `http://${address.address}:${PORT}/?room=${code}`);
+};
+
+/**
+ * Wraps an upgraded socket in the parts of RFC 6455 a browser uses: masked
+ * text frames (possibly fragmented), ping/pong and close.
+ */
+const createConnection = (socket, onMessage, onClose) => {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let isAlive = true;
+  let isClosed = false;
+
+  const sendFrame = (opcode, payload) => {
+    if (isClosed) return;
+    const length = payload.length;
+    const header = length < 126 ? Buffer.from([0x80 | opcode, length])
+      : length < 65536 ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => {
+        const size = Buffer.alloc(8);
+        size.writeBigUInt64BE(BigInt(length));
+        return size;
+      })()]);
+    socket.write(Buffer.concat([header, payload]));
+  };
+
+  const close = (code = 1000) => {
+    if (isClosed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    sendFrame(0x8, payload);
+    isClosed = true;
+    socket.end();
+  };
+
+  const connection = {
+    send: (message) => sendFrame(0x1, Buffer.from(JSON.stringify(message))),
+    close
+  };
+
+  // Parses every complete frame in the buffer; a partial one waits for more data
+  const readFrames = () => {
+    while (buffer.length >= 2) {
+      const isFinal = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const isMasked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      // Browsers always mask; anything else is not a browser
+      if (!isMasked) return close(1002);
+      if (length > MAX_MESSAGE_BYTES) return close(1009);
+      if (buffer.length < offset + 4 + length) return;
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) return close();
+      if (opcode === 0x9) {
+        sendFrame(0xa, payload);
+        continue;
+      }
+      if (opcode === 0xa) {
+        isAlive = true;
+        continue;
+      }
+
+      fragments.push(payload);
+      if (fragments.reduce((total, fragment) => total + fragment.length, 0) > MAX_MESSAGE_BYTES) return close(1009);
+      if (!isFinal) continue;
+
+      const text = Buffer.concat(fragments).toString('utf8');
+      fragments = [];
+      try {
+        onMessage(JSON.parse(text));
+      } catch {
+        connection.send({ type: 'error', message: 'Messages must be JSON.' });
+      }
+    }
+  };
+
+  const heartbeat = setInterval(() => {
+    if (!isAlive) {
+      socket.destroy();
+      return;
+    }
+    isAlive = false;
+    sendFrame(0x9, Buffer.alloc(0));
+  }, HEARTBEAT_MS);
+
+  socket.on('data', chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+    readFrames();
+  });
+  socket.on('error', () => socket.destroy());
+  socket.on('close', () => {
+    isClosed = true;
+    clearInterval(heartbeat);
+    onClose();
+  });
+
+  return connection;
+};
+
+/**
+ * Room bookkeeping for one socket. A host gets a fresh room; a player joins one
+ * under a name no one else has taken, or rejoins under their own name with the
+ * token they were given the first time. After that the relay only
+ * forwards: host messages to every player, player messages to the host with
+ * the player's name attached.
+ */
+const handleClient = (socket) => {
+  let role = null;
+  let roomCode = null;
+  let playerName = null;
+
+  const connection = createConnection(socket, message => {
+    const room = roomCode ? rooms.get(roomCode) : null;
+
+    switch (message?.type) {
+      case 'host_room': {
+        if (role) return connection.send({ type: 'error', message: 'Already in a room.' });
+        role = 'host';
+        roomCode = createRoomCode();
+        rooms.set(roomCode, { host: connection, players: new Map(), rejoinTokens: new Map() });
+        connection.send({ type: 'room_created', code: roomCode, joinUrls: getJoinUrls(roomCode) });
+        console.log(`Room ${roomCode} opened`);
+        return;
+      }
+
+      case 'join_room': {
+        if (role) return connection.send({ type: 'error', message: 'Already in a room.' });
+        const code = String(message.code || '').trim().toUpperCase();
+        const name = String(message.name || '').trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH);
+        const target = rooms.get(code);
+        if (!target) return connection.send({ type: 'error', message: `There is no room ${code || 'with that code'}.` });
+        if (!name) return connection.send({ type: 'error', message: 'Enter your name to join.' });
+
+        // A taken name only opens with its token, which replaces a connection that has not dropped yet
+        const taken = Array.from(target.rejoinTokens.keys()).find(existing => existing.toLowerCase() === name.toLowerCase());
+        if (taken && message.rejoinToken !== target.rejoinTokens.get(taken)) {
+          return connection.send({ type: 'error', message: `Someone called ${taken} is already playing. Pick another name.` });
+        }
+        if (!taken && target.rejoinTokens.size >= MAX_PLAYERS) return connection.send({ type: 'error', message: 'This room is full.' });
+
+        role = 'player';
+        roomCode = code;
+        playerName = taken || name;
+        const rejoinToken = taken ? target.rejoinTokens.get(taken) : randomBytes(16).toString('hex');
+        const stale = target.players.get(playerName);
+        target.rejoinTokens.set(playerName, rejoinToken);
+        target.players.set(playerName, connection);
+        stale?.close();
+        connection.send({ type: 'joined', code, name: playerName, rejoinToken });
+        target.host.send({ type: 'player_joined', name: playerName });
+        return;
+      }
+
+      case 'to_players':
+        if (role !== 'host' || !room) return;
+        if (!isRelayablePayload(message.payload)) return connection.send({ type: 'error', message: 'Payloads must be JSON objects of at most 16 KB.' });
+        room.players.forEach(player => player.send({ type: 'from_host', payload: message.payload }));
+        return;
+
+      case 'to_host':
+        if (role !== 'player' || !room) return;
+        if (!isRelayablePayload(message.payload)) return connection.send({ type: 'error', message: 'Payloads must be JSON objects of at most 16 KB.' });
+        room.host.send({ type: 'from_player', name: playerName, payload: message.payload });
+        return;
+
+      default:
+        connection.send({ type: 'error', message: `Unknown message type "${message?.type}".` });
+    }
+  }, () => {
+    const room = roomCode ? rooms.get(roomCode) : null;
+    if (!room) return;
+
+    if (role === 'host') {
+      room.players.forEach(player => {
+        player.send({ type: 'room_closed' });
+        player.close();
+      });
+      rooms.delete(roomCode);
+      console.log(`Room ${roomCode} closed`);
+    } else if (role === 'player' && room.players.get(playerName) === connection) {
+      room.players.delete(playerName);
+      room.host.send({ type: 'player_left', name: playerName });
+    }
+  });
+};
+
+// Serves the built app, with index.html for any path that is not a file
+const serveApp = async (request, response) => {
+  let path;
+  try {
+    path = decodeURIComponent(new URL(request.url, 'http://localhost').pathname);
+  } catch {
+    response.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+    response.end('Bad request.');
+    return;
+  }
+  const filePath = resolve(distPath, `.${path}`);
+  const isInside = filePath === distPath || filePath.startsWith(distPath + sep);
+
+  try {
+    const file = isInside && extname(filePath) ? await readFile(filePath) : await readFile(resolve(distPath, 'index.html'));
+    const type = isInside && extname(filePath) ? CONTENT_TYPES[extname(filePath)] : CONTENT_TYPES['.html'];
+    response.writeHead(200, { 'Content-Type': type || 'application/octet-stream' });
+    response.end(file);
+  } catch {
+    response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    response.end('Not found. Run "npm run build" before starting the relay to serve the app.');
+  }
+};
+
+// A failed request must never take the relay, and every room on it, down with it
+const server = createServer((request, response) => {
+  serveApp(request, response).catch(error => {
+    console.error(`Failed to serve ${request.url}:`, error);
+    if (!response.headersSent) response.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+    response.end();
+  });
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  if (!isAllowedOrigin(request)) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n'
+  ].join('\r\n'));
+  handleClient(socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`Classroom relay listening on port ${PORT}`);
+  getJoinUrls('').forEach(url => console.log(`  Open ${url.replace(/\?room=$/, '')} on this network`));
+});
@@ -1,28 +1,124 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { GameSetup } from './components/GameSetup';
 import { GameInterface } from './components/GameInterface';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { DeckManager } from './components/DeckManager';
+import { PronunciationPractice } from './components/PronunciationPractice';
+import { SessionSummary } from './components/SessionSummary';
+import { ReversePractice } from './components/ReversePractice';
+import { SpellingDictation } from './components/SpellingDictation';
+import { WordUsePractice } from './components/WordUsePractice';
+import { ClassroomHost } from './components/ClassroomHost';
+import { ClassroomPlayer } from './components/ClassroomPlayer';
 import { useGameState } from './hooks/useGameState';
-import { AIService } from './services/aiService';
-import { SpeechService, SpeechMode } from './services/speechService';
-import { getRandomWord } from './data/oxford3000';
+import { createOfflineExercise } from './services/clueEngine';
+import { evaluateAnswer, evaluateHypotheses, HeardAnswer, needsConfirmation } from './services/answerEvaluator';
+import { ExerciseQueue, QueuedExercise, getChallengeSpeechText } from './services/exerciseQueue';
+import { AIService, getDefaultLLMSettings, getTokenBudgets } from './services/aiService';
+import { LLMProviderSettings, createLLMProvider } from './services/llmProviders';
+import { SpeechService, SpeechMode, getCharacterBudgets } from './services/speechService';
+import { SpeechDelivery, DEFAULT_SPEECH_DELIVERY } from './services/ttsProviders';
+import { VoiceCommand, DeliveryIntent, parseVoiceCommand, adjustDelivery } from './services/voiceCommands';
+import { Hint, buildHint, getNextHintTier } from './services/hintEngine';
+import { getHintPenalty } from './services/scoring';
+import { SessionMode, createSessionRecord, getTimeRemaining, isSessionOver } from './services/sessionModes';
+import { SessionRecord } from './services/progressStore';
+import { UsageLedger, BudgetStatus } from './services/usageLedger';
+import { CacheNamespace, NamespaceStats } from './services/contentCache';
 import { logEnvironmentStatus } from './config/environment.config.js';
+import { LevelFilter } from './types/vocabulary';
 
-type AppState = 'setup' | 'playing' | 'listening_for_answer' | 'feedback' | 'listening_for_command';
+type AppState = 'setup' | 'dashboard' | 'decks' | 'pronunciation' | 'reverse' | 'dictation' | 'word_use' | 'classroom_host' | 'classroom_player' | 'playing' | 'listening_for_answer' | 'confirming_answer' | 'listening_for_confirmation' | 'feedback' | 'listening_for_command' | 'paused';
+
+// The states a spoken command can come from, and return to once it is handled
+type CommandState = 'listening_for_answer' | 'listening_for_command';
+
+const DELIVERY_CONFIRMATIONS: Record<DeliveryIntent, string> = {
+  slower: 'Okay, I\'ll speak more slowly.',
+  faster: 'Okay, I\'ll speak faster.',
+  louder: 'Okay, I\'ll speak louder.',
+  quieter: 'Okay, I\'ll speak more quietly.'
+};
+
+const DELIVERY_LIMITS: Record<DeliveryIntent, string> = {
+  slower: 'I\'m already speaking as slowly as I can.',
+  faster: 'I\'m already speaking as fast as I can.',
+  louder: 'I\'m already at full volume. Try turning up your device.',
+  quieter: 'I\'m already speaking as quietly as I can.'
+};
 
 function App() {
-  const [appState, setAppState] = useState<AppState>('setup');
-  const [openAIKey, setOpenAIKey] = useState(() => {
-    return import.meta.env.VITE_OPENAI_API_KEY || localStorage.getItem('openai_key') || '';
+  // Students open a join link such as /?room=ABCD on their phones and land straight on the join form
+  const [joinRoomCode] = useState(() => new URLSearchParams(window.location.search).get('room') || '');
+  const [appState, setAppState] = useState<AppState>(() => joinRoomCode ? 'classroom_player' : 'setup');
+  const [llmSettings, setLLMSettings] = useState<LLMProviderSettings>(() => {
+    const saved = localStorage.getItem('llm_settings');
+    if (saved) {
+      try {
+        return JSON.parse(saved);
+      } catch (error) {
+        console.warn('Ignoring unreadable AI provider settings:', error);
+      }
+    }
+    // Keys saved before provider selection existed were always OpenAI keys
+    const defaults = getDefaultLLMSettings();
+    return { ...defaults, apiKey: defaults.apiKey || localStorage.getItem('openai_key') || '' };
   });
   const [elevenLabsKey, setElevenLabsKey] = useState(() => {
     return import.meta.env.VITE_ELEVENLABS_API_KEY || localStorage.getItem('elevenlabs_key') || '';
   });
+  const [browserVoice, setBrowserVoice] = useState(() => localStorage.getItem('browserVoice') || '');
+  const [speechDelivery, setSpeechDelivery] = useState<SpeechDelivery>(() => {
+    const saved = localStorage.getItem('speechDelivery');
+    if (saved) {
+      try {
+        return { ...DEFAULT_SPEECH_DELIVERY, ...JSON.parse(saved) };
+      } catch (error) {
+        console.warn('Ignoring unreadable speech delivery settings:', error);
+      }
+    }
+    return DEFAULT_SPEECH_DELIVERY;
+  });
   const [aiService, setAIService] = useState<AIService | null>(null);
   const [speechService, setSpeechService] = useState<SpeechService | null>(null);
   const [isListening, setIsListening] = useState(false);
+  // A voice answer heard with low confidence, waiting for "did you say ...?" to be answered
+  const [pendingAnswer, setPendingAnswer] = useState<HeardAnswer | null>(null);
   const [currentInstruction, setCurrentInstruction] = useState('');
+  // Where "pause" was said, so resuming picks up there
+  const [pausedFrom, setPausedFrom] = useState<CommandState>('listening_for_answer');
+  // Set when a session ends; the summary replaces the game until another session starts
+  const [finishedSession, setFinishedSession] = useState<SessionRecord | null>(null);
+  // Counts exercises shown, so a hint that arrives after the learner has moved on can be dropped
+  const exerciseId = useRef(0);
 
-  const { gameState, updateGameState, updateStats, resetGame, nextWord } = useGameState();
+  const {
+    gameState,
+    updateGameState,
+    updateStats,
+    recordAttempt,
+    startSession,
+    resetGame,
+    nextWord,
+    reviewScheduler,
+    progressStore,
+    learnerProfile,
+    deckRegistry,
+    activeDeck,
+    decks,
+    saveDeck,
+    saveWordEnrichment,
+    deleteDeck
+  } = useGameState();
+  const [exerciseQueue] = useState(() => new ExerciseQueue(reviewScheduler));
+  const [usageLedger] = useState(() => new UsageLedger({ ...getTokenBudgets(), ...getCharacterBudgets() }));
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus[]>([]);
+  const [cacheStats, setCacheStats] = useState<Record<CacheNamespace, NamespaceStats> | null>(null);
+
+  // Full speech uses the most characters, so it is spoken as concise speech while the budget runs low.
+  // The saved choice stays as it is and applies again once the budget recovers
+  const isSpeechBudgetLow = budgetStatus.some(status => status.metric === 'characters' && status.level !== 'ok');
+  const effectiveSpeechMode: SpeechMode = isSpeechBudgetLow && gameState.speechMode === 'full' ? 'concise' : gameState.speechMode;
 
   // Log environment status in development
   useEffect(() => {
@@ -31,63 +127,125 @@ function App() {
 
   // Initialize services when keys change
   useEffect(() => {
-    if (openAIKey) {
-      setAIService(new AIService(openAIKey));
-      localStorage.setItem('openai_key', openAIKey);
-    }
-  }, [openAIKey]);
+    const configError = createLLMProvider(llmSettings).validate();
+    setAIService(configError ? null : new AIService(llmSettings, usageLedger));
+    localStorage.setItem('llm_settings', JSON.stringify(llmSettings));
+  }, [llmSettings, usageLedger]);
 
   useEffect(() => {
-    const service = new SpeechService(elevenLabsKey, gameState.speechMode);
+    const service = new SpeechService(elevenLabsKey, effectiveSpeechMode, usageLedger);
     setSpeechService(service);
     if (elevenLabsKey) {
       localStorage.setItem('elevenlabs_key', elevenLabsKey);
     }
-  }, [elevenLabsKey, gameState.speechMode]);
+  }, [elevenLabsKey, effectiveSpeechMode, usageLedger]);
+
+  // Remaining budget shown on the setup screen, refreshed after every recorded use
+  useEffect(() => {
+    const refresh = () => setBudgetStatus([...usageLedger.getStatus('tokens'), ...usageLedger.getStatus('characters')]);
+    refresh();
+    return usageLedger.subscribe(refresh);
+  }, [usageLedger]);
+
+  // Cache reuse on the setup screen, read again each time it is shown
+  useEffect(() => {
+    if (appState !== 'setup' || !speechService) return;
+    speechService.getCacheStats()
+      .then(stats => setCacheStats(stats.persistent))
+      .catch(error => console.warn('Failed to read cache statistics:', error));
+  }, [appState, speechService]);
+
+  // The browser voice speaks whenever ElevenLabs is unavailable
+  useEffect(() => {
+    speechService?.setBrowserVoice(browserVoice);
+    localStorage.setItem('browserVoice', browserVoice);
+  }, [speechService, browserVoice]);
+
+  // "Slower", "louder" and friends apply to every voice and stay set across sessions
+  useEffect(() => {
+    speechService?.setDelivery(speechDelivery);
+    localStorage.setItem('speechDelivery', JSON.stringify(speechDelivery));
+  }, [speechService, speechDelivery]);
+
+  // Upcoming exercises are prefetched for the current services, deck, level and speech mode
+  useEffect(() => {
+    exerciseQueue.setServices(aiService, speechService);
+  }, [exerciseQueue, aiService, speechService]);
+
+  useEffect(() => {
+    exerciseQueue.setContext({ deck: activeDeck, level: gameState.selectedLevel, speechMode: effectiveSpeechMode });
+  }, [exerciseQueue, activeDeck, gameState.selectedLevel, effectiveSpeechMode]);
 
   // Update speech service mode when it changes
   useEffect(() => {
     if (speechService) {
-      speechService.setSpeechMode(gameState.speechMode);
+      speechService.setSpeechMode(effectiveSpeechMode);
     }
-  }, [speechService, gameState.speechMode]);
+  }, [speechService, effectiveSpeechMode]);
 
   // Conversational flow management
   useEffect(() => {
     const handleConversationalFlow = async () => {
-      if (!speechService) return;
+      // Speech still finishing when a session ends must not start the microphone again
+      if (!speechService || finishedSession) return;
 
       switch (appState) {
         case 'listening_for_answer':
           // Only start listening if speech mode is not disabled
-          if (!isListening && gameState.speechMode !== 'disabled') {
+          if (!isListening && effectiveSpeechMode !== 'disabled') {
             startListeningForAnswer();
           }
           break;
 
+        case 'confirming_answer':
+          if (pendingAnswer) {
+            const question = `Did you say "${pendingAnswer.transcript}"?`;
+            setCurrentInstruction(`${question} Say yes or no.`);
+            try {
+              await speechService.speakText(question);
+            } catch (error) {
+              console.error('Speech synthesis error:', error);
+            }
+            setAppState('listening_for_confirmation');
+          }
+          break;
+
+        case 'listening_for_confirmation':
+          if (!isListening) {
+            startListeningForConfirmation();
+          }
+          break;
+
         case 'feedback':
           if (gameState.isCorrect !== null) {
             // Use optimized feedback based on speech mode
             let feedbackText = '';
+            const word = gameState.currentWord?.word;
+
+            // Accepted answers that were not exact say what was off
+            const conciseNote = gameState.answerVerdict === 'close' ? ' Close enough.'
+              : gameState.answerVerdict === 'wrong_form' ? ' Mind the form.' : '';
+            const fullNote = gameState.answerVerdict === 'close' ? ' That was very close, so it counts.'
+              : gameState.answerVerdict === 'wrong_form' ? ` You used another form of the word; the blank needs exactly "${word}".` : '';
             
-            if (gameState.speechMode === 'concise') {
+            if (effectiveSpeechMode === 'concise') {
               feedbackText = gameState.isCorrect 
-                ? `Correct! The word was ${gameState.currentWord?.word}. Say next word or go home.`
+                ? `Correct! The word was ${gameState.currentWord?.word}.${conciseNote} Say next word or go home.`
                 : `Incorrect. The word was ${gameState.currentWord?.word}. Say next word or go home.`;
-            } else if (gameState.speechMode === 'full') {
+            } else if (effectiveSpeechMode === 'full') {
               feedbackText = gameState.isCorrect 
-                ? `Excellent work! The correct word was ${gameState.currentWord?.word}. Say "next word" to continue, or say "go home" to return to the main menu.`
+                ? `Excellent work! The correct word was ${gameState.currentWord?.word}.${fullNote} Say "next word" to continue, or say "go home" to return to the main menu.`
                 : `Not quite right. The correct word was ${gameState.currentWord?.word}. Don't worry, let's try another one. Say "next word" to continue, or say "go home" to return to the main menu.`;
             } else {
               // For disabled mode, set a simple instruction
               feedbackText = gameState.isCorrect 
-                ? `Correct! The word was ${gameState.currentWord?.word}.`
+                ? `Correct! The word was ${gameState.currentWord?.word}.${conciseNote}`
                 : `Incorrect. The word was ${gameState.currentWord?.word}.`;
             }
             
             setCurrentInstruction(feedbackText);
             
-            if (gameState.speechMode !== 'disabled') {
+            if (effectiveSpeechMode !== 'disabled') {
               try {
                 await speechService.speakText(feedbackText);
               } catch (error) {
@@ -101,7 +259,7 @@ function App() {
 
         case 'listening_for_command':
           // Only start listening if speech mode is not disabled
-          if (!isListening && gameState.speechMode !== 'disabled') {
+          if (!isListening && effectiveSpeechMode !== 'disabled') {
             startListeningForCommand();
           }
           break;
@@ -109,192 +267,156 @@ function App() {
     };
 
     handleConversationalFlow();
-  }, [appState, speechService, gameState.isCorrect, gameState.currentWord, gameState.speechMode, isListening]);
-
-  const startListeningForCommand = useCallback(async () => {
-    if (!speechService || isListening || gameState.speechMode === 'disabled') return;
-
-    setIsListening(true);
-    
-    try {
-      const transcript = await speechService.startListening();
-      setIsListening(false);
-      
-      const command = transcript.toLowerCase().trim();
-      
-      // Process voice commands
-      if (command.includes('next word') && appState === 'listening_for_command') {
-        handleNextWord();
-      } else if (command.includes('go home')) {
-        handleCompleteReset();
-      } else {
-        // Unrecognized command - use concise response
-        const errorMessage = gameState.speechMode === 'concise' 
-          ? 'Try again. Say next word or go home.'
-          : 'I didn\'t understand that command. Please say "next word" to continue or "go home" to return to the main menu.';
-        
-        setCurrentInstruction(errorMessage);
-        await speechService.speakText(errorMessage);
-        setAppState('listening_for_command');
-      }
-      
-    } catch (error) {
-      console.error('Speech recognition error:', error);
-      setIsListening(false);
-      setAppState('listening_for_command');
-    }
-  }, [speechService, isListening, appState, gameState.speechMode]);
-
-  const startListeningForAnswer = useCallback(async () => {
-    if (!speechService || isListening || gameState.speechMode === 'disabled') return;
-
-    setIsListening(true);
-    
-    try {
-      const transcript = await speechService.startListening();
-      setIsListening(false);
-      
-      // This is an answer attempt during gameplay
-      const command = transcript.toLowerCase().trim();
-      const isCorrect = command === gameState.currentWord?.word.toLowerCase();
-      updateGameState({ lastAnswer: transcript, selectedChoice: transcript });
-      updateStats(isCorrect);
-      setAppState('feedback');
-      
-    } catch (error) {
-      console.error('Speech recognition error:', error);
-      setIsListening(false);
-      setAppState('listening_for_answer');
-    }
-  }, [speechService, isListening, gameState.currentWord, updateGameState, updateStats, gameState.speechMode]);
+  }, [appState, speechService, gameState.isCorrect, gameState.answerVerdict, gameState.currentWord, effectiveSpeechMode, isListening, pendingAnswer, finishedSession]);
 
   // Handle manual answer submission for disabled speech mode
   const handleManualAnswer = useCallback((answer: string) => {
-    if (!gameState.currentWord || gameState.speechMode !== 'disabled') return;
+    if (!gameState.currentWord || effectiveSpeechMode !== 'disabled') return;
     
-    const isCorrect = answer.toLowerCase().trim() === gameState.currentWord.word.toLowerCase();
+    const evaluation = evaluateAnswer(answer, gameState.currentWord.word, 'typed', activeDeck.words.map(entry => entry.word));
     updateGameState({ lastAnswer: answer, selectedChoice: answer });
-    updateStats(isCorrect);
+    updateStats(evaluation, answer, 'typed');
     setAppState('feedback');
-  }, [gameState.currentWord, gameState.speechMode, updateGameState, updateStats]);
+  }, [gameState.currentWord, effectiveSpeechMode, updateGameState, updateStats, activeDeck]);
 
   // Handle multiple choice selection
   const handleMultipleChoiceAnswer = useCallback((selectedOption: string) => {
     if (!gameState.currentWord) return;
     
-    const isCorrect = selectedOption.toLowerCase().trim() === gameState.currentWord.word.toLowerCase();
+    const evaluation = evaluateAnswer(selectedOption, gameState.currentWord.word, 'multiple_choice');
+    // A tapped option replaces a spoken answer still waiting for confirmation
+    setPendingAnswer(null);
     updateGameState({ lastAnswer: selectedOption, selectedChoice: selectedOption });
-    updateStats(isCorrect);
+    updateStats(evaluation, selectedOption, 'multiple_choice');
     setAppState('feedback');
   }, [gameState.currentWord, updateGameState, updateStats]);
 
-  const startGame = useCallback(async () => {
+  // Builds a round on demand when the prefetch queue has nothing ready
+  const buildExercise = useCallback(async (): Promise<QueuedExercise> => {
+    // The app picks the word: due reviews (especially missed words) first, then new words from the deck
+    const exclude = [...exerciseQueue.getQueuedWords(), ...(gameState.currentWord ? [gameState.currentWord.word] : [])];
+    const word = reviewScheduler.getNextWord(activeDeck, gameState.selectedLevel, exclude);
+
     try {
-      // Use AI service to get word and clue
+      // Use AI service to write the clue for the chosen word
       if (aiService) {
-        console.log('Using AI service to generate word and clue...');
-        const wordAndClue = await aiService.fetchWordAndClue(gameState.selectedLevel);
-        
-        updateGameState({ 
-          currentWord: wordAndClue.word,
-          currentClue: wordAndClue.clue,
-          isPlaying: true,
-          showAnswer: false,
-          isCorrect: null,
-          lastAnswer: '',
-          multipleChoiceOptions: wordAndClue.multipleChoiceOptions,
-          selectedChoice: null
-        });
-
-        // Optimize instruction based on speech mode
-        let instruction = '';
-        if (gameState.speechMode === 'concise') {
-          instruction = 'Listen to the clue, then choose your answer or speak it.';
-        } else if (gameState.speechMode === 'full') {
-          instruction = 'Listen carefully to the clue and context, then select your answer from the options below or speak it clearly.';
-        } else {
-          instruction = 'Read the clue and context below, then select your answer from the multiple choice options.';
-        }
-        
-        setCurrentInstruction(instruction);
-        setAppState('playing');
-        
-        // Create optimized speech text based on mode
-        let speechText = '';
-        if (gameState.speechMode === 'concise') {
-          speechText = `Challenge: ${wordAndClue.clue}. This ${wordAndClue.word.partOfSpeech} means "${wordAndClue.word.definition}". Choose your answer.`;
-        } else if (gameState.speechMode === 'full') {
-          speechText = `Let's begin. Here is your vocabulary challenge: ${wordAndClue.clue}. For context: This is a ${wordAndClue.word.partOfSpeech} that means "${wordAndClue.word.definition}". Now, what word fits in the blank? You can select from the options below or speak your answer clearly.`;
-        }
-        
-        // Start speech synthesis if not disabled
-        if (speechService && gameState.speechMode !== 'disabled') {
-          try {
-            await speechService.speakText(speechText);
-            setAppState('listening_for_answer');
-          } catch (error) {
-            console.error('Speech synthesis error:', error);
-            setAppState('listening_for_answer');
-          }
-        } else {
-          // For disabled mode, go directly to listening_for_answer state but don't actually listen
-          setAppState('listening_for_answer');
-        }
-      } else {
-        throw new Error('AI service not available');
+        console.log(`Using AI service to generate a clue for "${word.word}"...`);
+        const wordAndClue = await aiService.fetchClueForWord(word, gameState.selectedLevel, activeDeck);
+        return { ...wordAndClue, isOffline: false };
       }
+      throw new Error('AI service not available');
     } catch (error) {
-      console.error('Failed to start game:', error);
-      
-      // Fallback to Oxford 3000 words
-      const word = getRandomWord(gameState.selectedLevel === 'ALL' ? undefined : gameState.selectedLevel);
-      const fallbackClue = `This word means "${word.definition}". Complete this sentence: "${word.example.replace(word.word, '____')}"`;
-      
-      // Generate simple multiple choice options for fallback
-      const allWords = [word.word, 'example', 'answer', 'question'];
-      const shuffledOptions = allWords.sort(() => Math.random() - 0.5);
-      
-      updateGameState({ 
-        currentWord: word,
-        currentClue: fallbackClue,
-        isPlaying: true,
-        showAnswer: false,
-        isCorrect: null,
-        lastAnswer: '',
-        multipleChoiceOptions: shuffledOptions,
-        selectedChoice: null
-      });
-
-      const instruction = gameState.speechMode === 'disabled' 
+      console.error('Failed to generate clue, using offline clue:', error);
+      // Offline exercise for the same word
+      return { ...createOfflineExercise(word, gameState.selectedLevel, activeDeck), isOffline: true };
+    }
+  }, [gameState.selectedLevel, gameState.currentWord, aiService, reviewScheduler, activeDeck, exerciseQueue]);
+
+  const startGame = useCallback(async () => {
+    exerciseId.current += 1;
+    const exercise = exerciseQueue.take(gameState.currentWord?.word) || await buildExercise();
+    setPendingAnswer(null);
+
+    updateGameState(prev => ({
+      currentWord: exercise.word,
+      currentClue: exercise.clue,
+      isPlaying: true,
+      showAnswer: false,
+      isCorrect: null,
+      answerVerdict: null,
+      lastAnswer: '',
+      multipleChoiceOptions: exercise.multipleChoiceOptions,
+      selectedChoice: null,
+      roundStartedAt: Date.now(),
+      revealedHints: [],
+      lastScore: null,
+      sessionStartedAt: prev.sessionStartedAt ?? Date.now()
+    }));
+
+    // Get the following rounds ready while this one is played
+    exerciseQueue.fill(exercise.word.word);
+
+    // Optimize instruction based on speech mode
+    let instruction = '';
+    if (exercise.isOffline) {
+      instruction = effectiveSpeechMode === 'disabled' 
         ? 'Read the clue and context below, then select your answer from the options.'
         : 'Listen carefully to the clue, then choose your answer or speak it clearly.';
-      
-      setCurrentInstruction(instruction);
-      setAppState('playing');
-      
-      // Fallback speech without high-quality synthesis
-      const fallbackSpeechText = gameState.speechMode === 'concise'
-        ? `Challenge: ${fallbackClue}. Choose your answer.`
-        : `Let's begin with a vocabulary challenge. ${fallbackClue}. Please select your answer from the options or speak it clearly.`;
-      
-      if (speechService && gameState.speechMode !== 'disabled') {
-        try {
-          await speechService.speakText(fallbackSpeechText);
-          setAppState('listening_for_answer');
-        } catch (speechError) {
-          console.error('Speech synthesis also failed:', speechError);
-          setAppState('listening_for_answer');
-        }
-      } else {
-        setAppState('listening_for_answer');
+    } else if (effectiveSpeechMode === 'concise') {
+      instruction = 'Listen to the clue, then choose your answer or speak it.';
+    } else if (effectiveSpeechMode === 'full') {
+      instruction = 'Listen carefully to the clue and context, then select your answer from the options below or speak it clearly.';
+    } else {
+      instruction = 'Read the clue and context below, then select your answer from the multiple choice options.';
+    }
+    
+    setCurrentInstruction(instruction);
+    setAppState('playing');
+    
+    // Start speech synthesis if not disabled; prefetched rounds already have their audio
+    if (speechService && effectiveSpeechMode !== 'disabled') {
+      try {
+        await speechService.speakText(getChallengeSpeechText(exercise, effectiveSpeechMode));
+      } catch (error) {
+        console.error('Speech synthesis error:', error);
       }
+      // The answer time, and its speed bonus, only start once the clue has been heard
+      updateGameState({ roundStartedAt: Date.now() });
     }
-  }, [gameState.selectedLevel, gameState.speechMode, aiService, speechService, updateGameState]);
 
+    // For disabled mode, go directly to listening_for_answer state but don't actually listen
+    setAppState('listening_for_answer');
+  }, [effectiveSpeechMode, gameState.currentWord, speechService, updateGameState, exerciseQueue, buildExercise]);
+
+  // Ends the session where it stands and shows its summary; a word still being answered is left out
+  const finishSession = useCallback(() => {
+    if (gameState.sessionStartedAt === null) return;
+
+    speechService?.stopListening();
+    speechService?.stopSpeaking();
+    setIsListening(false);
+    setPendingAnswer(null);
+
+    const session = createSessionRecord(
+      gameState.sessionMode,
+      activeDeck.id,
+      gameState.selectedLevel,
+      gameState.sessionStartedAt,
+      gameState.sessionWords
+    );
+    setFinishedSession(session);
+    progressStore.recordSession(session).catch(error => console.warn('Failed to save session:', error));
+  }, [gameState.sessionMode, gameState.sessionStartedAt, gameState.sessionWords, gameState.selectedLevel, activeDeck, speechService, progressStore]);
+
+  const handleStartSession = useCallback(() => {
+    setFinishedSession(null);
+    startSession();
+    // Leave any listening state behind before the first word is ready
+    setAppState('playing');
+    startGame();
+  }, [startSession, startGame]);
+
+  // A lesson ends when the learner moves on from its last word
   const handleNextWord = useCallback(() => {
+    if (gameState.sessionStartedAt !== null &&
+        isSessionOver(gameState.sessionMode, gameState.sessionStartedAt, gameState.sessionWords.length)) {
+      finishSession();
+      return;
+    }
     nextWord();
     startGame();
-  }, [nextWord, startGame]);
+  }, [gameState.sessionMode, gameState.sessionStartedAt, gameState.sessionWords.length, nextWord, startGame, finishSession]);
+
+  // A sprint ends when its time is up, even in the middle of a word
+  useEffect(() => {
+    if (finishedSession || gameState.sessionStartedAt === null) return;
+
+    const timeRemaining = getTimeRemaining(gameState.sessionMode, gameState.sessionStartedAt);
+    if (timeRemaining === null) return;
+
+    const timeout = setTimeout(finishSession, timeRemaining);
+    return () => clearTimeout(timeout);
+  }, [finishedSession, gameState.sessionMode, gameState.sessionStartedAt, finishSession]);
 
   // Complete reset function that stops all processes and refreshes the app
   const handleCompleteReset = useCallback(() => {
@@ -311,7 +433,7 @@ function App() {
     setIsListening(false);
     
     // Clear all timeouts and intervals
-    const highestTimeoutId = setTimeout(() => {}, 0);
+    const highestTimeoutId = window.setTimeout(() => {}, 0);
     for (let i = 0; i < highestTimeoutId; i++) {
       clearTimeout(i);
       clearInterval(i);
@@ -332,30 +454,448 @@ function App() {
     handleCompleteReset();
   }, [handleCompleteReset]);
 
-  const handleLevelChange = useCallback((level: 'A1' | 'A2' | 'B1' | 'B2' | 'ALL') => {
+  // Reveals the next hint for the current word; the synonym and second example come from the AI provider when there is one
+  const handleHint = useCallback(async (): Promise<Hint | null> => {
+    const word = gameState.currentWord;
+    const tier = getNextHintTier(gameState.revealedHints.map(hint => hint.tier));
+    if (!word || !tier) return null;
+    const requestedFor = exerciseId.current;
+
+    const extras = (tier === 'synonym' || tier === 'example') && aiService
+      ? await aiService.generateHintExtras(word, gameState.currentClue).catch(error => {
+          console.warn('Failed to generate hint, using the word list:', error);
+          return null;
+        })
+      : null;
+
+    if (exerciseId.current !== requestedFor) return null;
+
+    const hint = buildHint(tier, word, gameState.currentClue, extras);
+    updateGameState(prev => ({ revealedHints: [...prev.revealedHints, hint] }));
+    return hint;
+  }, [gameState.currentWord, gameState.currentClue, gameState.revealedHints, aiService, updateGameState]);
+
+  const handleResume = useCallback(() => {
+    setCurrentInstruction(pausedFrom === 'listening_for_answer' ? 'Say your answer when you are ready.' : 'Say next word or go home.');
+    setAppState(pausedFrom);
+  }, [pausedFrom]);
+
+  // Carries out a spoken command, then goes back to listening where it was said unless the command moved on
+  const handleVoiceCommand = useCallback(async (command: VoiceCommand, commandState: CommandState) => {
+    const word = gameState.currentWord;
+    const isAnswering = commandState === 'listening_for_answer';
+
+    const say = async (text: string) => {
+      setCurrentInstruction(text);
+      if (!speechService) return;
+      try {
+        await speechService.speakText(text);
+      } catch (error) {
+        console.error('Speech synthesis error:', error);
+      }
+    };
+
+    switch (command.intent) {
+      case 'go_home':
+        handleCompleteReset();
+        return;
+
+      case 'next_word':
+      case 'skip':
+        // A skipped word is not graded, so it stays due for review
+        setAppState('playing');
+        handleNextWord();
+        return;
+
+      case 'pause':
+        setPausedFrom(commandState);
+        setCurrentInstruction('Paused. Tap resume when you are ready.');
+        setAppState('paused');
+        return;
+
+      case 'repeat':
+        await say(isAnswering ? gameState.currentClue : currentInstruction);
+        break;
+
+      case 'spell':
+        // Spelling the word while it is being guessed would give the answer away
+        await say(!word ? '' : isAnswering
+          ? 'I can spell the word once you have answered. Say "hint" for a clue.'
+          : `${word.word} is spelled ${word.word.toUpperCase().split('').join(', ')}.`);
+        break;
+
+      case 'hint': {
+        if (!isAnswering) {
+          await say(word ? `The word was ${word.word}.` : '');
+          break;
+        }
+        const hint = await handleHint();
+        await say(hint
+          ? `${hint.speech} That hint costs ${word ? getHintPenalty(hint.tier, word.level) : 0} points.`
+          : 'There are no more hints for this word.');
+        break;
+      }
+
+      case 'meaning':
+        await say(!word ? '' : word.definition
+          ? `It's a ${word.partOfSpeech} that means "${word.definition}".`
+          : `It's a ${word.partOfSpeech}. I don't have a definition for it yet.`);
+        break;
+
+      case 'slower':
+      case 'faster':
+      case 'louder':
+      case 'quieter': {
+        const delivery = adjustDelivery(speechDelivery, command.intent);
+        if (delivery) {
+          // Applied straight away so the confirmation already sounds different
+          speechService?.setDelivery(delivery);
+          setSpeechDelivery(delivery);
+        }
+        await say(delivery ? DELIVERY_CONFIRMATIONS[command.intent] : DELIVERY_LIMITS[command.intent]);
+        break;
+      }
+
+      case 'score': {
+        const { correctAnswers, totalAttempted, currentStreak } = gameState.gameStats;
+        await say(`You have ${correctAnswers} of ${totalAttempted} right, and a streak of ${currentStreak}.`);
+        break;
+      }
+
+      case 'change_level':
+        if (command.level && activeDeck.levelScheme.includes(command.level)) {
+          updateGameState({ selectedLevel: command.level });
+          await say(`Switched to level ${command.level}. It starts with the next word.`);
+        } else {
+          await say(`The ${activeDeck.name} deck has no ${command.level} words.`);
+        }
+        break;
+    }
+
+    setAppState(commandState);
+  }, [gameState.currentWord, gameState.currentClue, gameState.gameStats, currentInstruction, speechService, speechDelivery, activeDeck, updateGameState, handleCompleteReset, handleNextWord, handleHint]);
+
+  const startListeningForCommand = useCallback(async () => {
+    if (!speechService || isListening || effectiveSpeechMode === 'disabled') return;
+
+    setIsListening(true);
+    
+    try {
+      const { transcript } = await speechService.startListening();
+
+      // Stay "listening" while the command is answered, so the mic doesn't reopen mid-sentence
+      const command = parseVoiceCommand(transcript);
+      if (command) {
+        await handleVoiceCommand(command, 'listening_for_command');
+        setIsListening(false);
+        return;
+      }
+
+      setIsListening(false);
+      // Unrecognized command - use concise response
+      const errorMessage = effectiveSpeechMode === 'concise' 
+        ? 'Try again. Say next word or go home.'
+        : 'I didn\'t understand that command. Please say "next word" to continue or "go home" to return to the main menu.';
+      
+      setCurrentInstruction(errorMessage);
+      await speechService.speakText(errorMessage);
+      setAppState('listening_for_command');
+      
+    } catch (error) {
+      console.error('Speech recognition error:', error);
+      setIsListening(false);
+      setAppState('listening_for_command');
+    }
+  }, [speechService, isListening, effectiveSpeechMode, handleVoiceCommand]);
+
+  const submitVoiceAnswer = useCallback((answer: HeardAnswer) => {
+    setPendingAnswer(null);
+    updateGameState({ lastAnswer: answer.transcript, selectedChoice: answer.transcript });
+    updateStats(answer.evaluation, answer.transcript, 'voice');
+    setAppState('feedback');
+  }, [updateGameState, updateStats]);
+
+  // "No" discards the heard answer and listens again, without counting an attempt
+  const handleConfirmAnswer = useCallback(async (confirmed: boolean) => {
+    if (!pendingAnswer) return;
+
+    if (confirmed) {
+      submitVoiceAnswer(pendingAnswer);
+      return;
+    }
+
+    setPendingAnswer(null);
+    const retryText = 'Okay, please say your answer again.';
+    setCurrentInstruction(retryText);
+    if (speechService) {
+      try {
+        await speechService.speakText(retryText);
+      } catch (error) {
+        console.error('Speech synthesis error:', error);
+      }
+    }
+    setAppState('listening_for_answer');
+  }, [pendingAnswer, submitVoiceAnswer, speechService]);
+
+  const startListeningForConfirmation = useCallback(async () => {
+    if (!speechService || isListening) return;
+
+    setIsListening(true);
+
+    try {
+      const { transcript } = await speechService.startListening();
+      setIsListening(false);
+
+      if (/\b(yes|yeah|yep|correct|right|sure)\b/.test(transcript)) {
+        handleConfirmAnswer(true);
+      } else if (/\b(no|nope|wrong)\b/.test(transcript)) {
+        handleConfirmAnswer(false);
+      } else {
+        // Ask the question again
+        setAppState('confirming_answer');
+      }
+    } catch (error) {
+      console.error('Speech recognition error:', error);
+      setIsListening(false);
+      setAppState('listening_for_confirmation');
+    }
+  }, [speechService, isListening, handleConfirmAnswer]);
+
+  const startListeningForAnswer = useCallback(async () => {
+    if (!speechService || isListening || effectiveSpeechMode === 'disabled') return;
+
+    setIsListening(true);
+    
+    try {
+      const heard = await speechService.startListening();
+      
+      // This is an answer attempt during gameplay; any confident hypothesis may match
+      if (!gameState.currentWord) {
+        setIsListening(false);
+        return;
+      }
+      const answer = evaluateHypotheses(heard.alternatives, gameState.currentWord.word, activeDeck.words.map(entry => entry.word));
+
+      // "Repeat" or "hint" is a command rather than a wrong answer, unless it is the word itself
+      const command = answer.evaluation.isCorrect ? null : parseVoiceCommand(heard.transcript, true);
+      if (command) {
+        await handleVoiceCommand(command, 'listening_for_answer');
+        setIsListening(false);
+        return;
+      }
+      setIsListening(false);
+
+      // Unsure recognitions are read back to the learner before they are graded, right or wrong
+      if (needsConfirmation(answer)) {
+        setPendingAnswer(answer);
+        setAppState('confirming_answer');
+        return;
+      }
+
+      submitVoiceAnswer(answer);
+      
+    } catch (error) {
+      console.error('Speech recognition error:', error);
+      setIsListening(false);
+      setAppState('listening_for_answer');
+    }
+  }, [speechService, isListening, gameState.currentWord, effectiveSpeechMode, activeDeck, submitVoiceAnswer, handleVoiceCommand]);
+
+  const handleLevelChange = useCallback((level: LevelFilter) => {
     updateGameState({ selectedLevel: level });
   }, [updateGameState]);
 
+  const handleDeckChange = useCallback((deckId: string) => {
+    const deck = deckRegistry.getDeck(deckId);
+    // Keep the selected level only if the new deck uses it
+    const selectedLevel = gameState.selectedLevel === 'ALL' || deck.levelScheme.includes(gameState.selectedLevel)
+      ? gameState.selectedLevel
+      : 'ALL';
+    updateGameState({ activeDeckId: deck.id, selectedLevel });
+  }, [deckRegistry, gameState.selectedLevel, updateGameState]);
+
   const handleSpeechModeChange = useCallback((mode: SpeechMode) => {
     updateGameState({ speechMode: mode });
   }, [updateGameState]);
 
+  const handleSessionModeChange = useCallback((mode: SessionMode) => {
+    updateGameState({ sessionMode: mode });
+  }, [updateGameState]);
+
   if (appState === 'setup') {
     return (
       <div key="setup" className="animate-fade-in">
         <GameSetup
           selectedLevel={gameState.selectedLevel}
           speechMode={gameState.speechMode}
+          effectiveSpeechMode={effectiveSpeechMode}
+          sessionMode={gameState.sessionMode}
+          decks={decks}
+          activeDeck={activeDeck}
+          llmSettings={llmSettings}
+          browserVoice={browserVoice}
+          budgetStatus={budgetStatus}
+          cacheStats={cacheStats}
           onLevelChange={handleLevelChange}
           onSpeechModeChange={handleSpeechModeChange}
-          onStartGame={startGame}
+          onSessionModeChange={handleSessionModeChange}
+          onDeckChange={handleDeckChange}
+          onStartGame={handleStartSession}
+          onPracticePronunciation={() => setAppState('pronunciation')}
+          onPracticeMeanings={() => setAppState('reverse')}
+          onPracticeSpelling={() => setAppState('dictation')}
+          onPracticeWordUse={() => setAppState('word_use')}
+          onHostClassroom={() => setAppState('classroom_host')}
+          onJoinClassroom={() => setAppState('classroom_player')}
+          onShowDashboard={() => setAppState('dashboard')}
+          onManageDecks={() => setAppState('decks')}
+          onLLMSettingsChange={setLLMSettings}
+          onBrowserVoiceChange={setBrowserVoice}
+        />
+      </div>
+    );
+  }
+
+  if (appState === 'dashboard') {
+    return (
+      <div key="dashboard" className="animate-fade-in">
+        <ProgressDashboard
+          progressStore={progressStore}
+          reviewScheduler={reviewScheduler}
+          learnerProfile={learnerProfile}
+          deck={activeDeck}
+          onBack={() => setAppState('setup')}
+        />
+      </div>
+    );
+  }
+
+  if (appState === 'decks') {
+    return (
+      <div key="decks" className="animate-fade-in">
+        <DeckManager
+          decks={decks}
+          getDeck={(deckId) => deckRegistry.getDeck(deckId)}
+          onSaveDeck={saveDeck}
+          onDeleteDeck={deleteDeck}
+          onBack={() => setAppState('setup')}
+        />
+      </div>
+    );
+  }
+
+  if (appState === 'pronunciation') {
+    return (
+      <div key="pronunciation" className="animate-fade-in">
+        <PronunciationPractice
+          speechService={speechService}
+          progressStore={progressStore}
+          reviewScheduler={reviewScheduler}
+          deck={activeDeck}
+          level={gameState.selectedLevel}
+          onBack={() => setAppState('setup')}
+        />
+      </div>
+    );
+  }
+
+  if (finishedSession) {
+    return (
+      <div key="summary" className="animate-fade-in">
+        <SessionSummary
+          session={finishedSession}
+          progressStore={progressStore}
+          onPlayAgain={handleStartSession}
+          onGoHome={handleCompleteReset}
+        />
+      </div>
+    );
+  }
+
+  if (appState === 'reverse') {
+    return (
+      <div key="reverse" className="animate-fade-in">
+        <ReversePractice
+          speechService={speechService}
+          aiService={aiService}
+          speechMode={effectiveSpeechMode}
+          reviewScheduler={reviewScheduler}
+          deck={activeDeck}
+          level={gameState.selectedLevel}
+          onAttempt={recordAttempt}
+          onBack={() => setAppState('setup')}
+        />
+      </div>
+    );
+  }
+
+  if (appState === 'dictation') {
+    return (
+      <div key="dictation" className="animate-fade-in">
+        <SpellingDictation
+          speechService={speechService}
+          reviewScheduler={reviewScheduler}
+          deck={activeDeck}
+          level={gameState.selectedLevel}
+          onAttempt={recordAttempt}
+          onBack={() => setAppState('setup')}
+        />
+      </div>
+    );
+  }
+
+  if (appState === 'word_use') {
+    return (
+      <div key="word_use" className="animate-fade-in">
+        <WordUsePractice
+          speechService={speechService}
+          aiService={aiService}
+          speechMode={effectiveSpeechMode}
+          reviewScheduler={reviewScheduler}
+          deck={activeDeck}
+          level={gameState.selectedLevel}
+          onEnrich={saveWordEnrichment}
+          onAttempt={recordAttempt}
+          onBack={() => setAppState('setup')}
+        />
+      </div>
+    );
+  }
+
+  if (appState === 'classroom_host') {
+    return (
+      <div key="classroom_host" className="animate-fade-in">
+        <ClassroomHost
+          speechService={speechService}
+          aiService={aiService}
+          speechMode={effectiveSpeechMode}
+          deck={activeDeck}
+          level={gameState.selectedLevel}
+          onBack={() => setAppState('setup')}
+        />
+      </div>
+    );
+  }
+
+  if (appState === 'classroom_player') {
+    return (
+      <div key="classroom_player" className="animate-fade-in">
+        <ClassroomPlayer
+          initialRoomCode={joinRoomCode}
+          onBack={() => {
+            // Drop the join link so a reload opens the home screen
+            window.history.replaceState(null, '', window.location.pathname);
+            setAppState('setup');
+          }}
         />
       </div>
     );
   }
 
   // Render GameInterface for ALL game-related states
-  if (appState === 'playing' || appState === 'listening_for_answer' || appState === 'feedback' || appState === 'listening_for_command') {
+  if (appState === 'playing' || appState === 'listening_for_answer' || appState === 'confirming_answer' ||
+      appState === 'listening_for_confirmation' || appState === 'feedback' || appState === 'listening_for_command' ||
+      appState === 'paused') {
     return (
       <div key="game" className="animate-fade-in">
         <GameInterface
@@ -363,18 +903,30 @@ function App() {
           currentWord={gameState.currentWord}
           isListening={isListening}
           isCorrect={gameState.isCorrect}
-          showAnswer={appState === 'feedback' || appState === 'listening_for_command'}
+          answerVerdict={gameState.answerVerdict}
+          showAnswer={appState === 'feedback' || appState === 'listening_for_command' || (appState === 'paused' && pausedFrom === 'listening_for_command')}
           lastAnswer={gameState.lastAnswer}
           stats={gameState.gameStats}
           currentInstruction={currentInstruction}
           appState={appState}
-          speechMode={gameState.speechMode}
+          speechMode={effectiveSpeechMode}
           multipleChoiceOptions={gameState.multipleChoiceOptions}
           selectedChoice={gameState.selectedChoice}
           onNextWord={handleNextWord}
           onGoHome={handleCompleteReset}
           onManualAnswer={handleManualAnswer}
           onMultipleChoiceAnswer={handleMultipleChoiceAnswer}
+          pendingTranscript={pendingAnswer ? pendingAnswer.transcript : null}
+          onConfirmAnswer={handleConfirmAnswer}
+          onResume={handleResume}
+          revealedHints={gameState.revealedHints}
+          lastScore={gameState.lastScore}
+          learnerProfile={learnerProfile}
+          onHint={handleHint}
+          sessionMode={gameState.sessionMode}
+          sessionStartedAt={gameState.sessionStartedAt}
+          wordsAnswered={gameState.sessionWords.length}
+          onEndSession={finishSession}
         />
       </div>
     );
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Database } from 'lucide-react';
+import { CacheNamespace, NamespaceStats } from '../services/contentCache';
+
+interface CacheStatsProps {
+  stats: Record<CacheNamespace, NamespaceStats> | null;
+}
+
+const namespaceLabels: Record<CacheNamespace, string> = {
+  llm: 'AI clues',
+  audio: 'Speech audio'
+};
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const CacheStats: React.FC<CacheStatsProps> = ({ stats }) => {
+  // Nothing to show until something has been looked up in the cache
+  const isEmpty = (entry: NamespaceStats) => entry.hits + entry.misses === 0 && entry.entries === 0;
+  if (!stats || (isEmpty(stats.llm) && isEmpty(stats.audio))) {
+    return null;
+  }
+
+  return (
+    <div className="liquid-glass-instruction-card mt-4 animate-fade-in-up" style={{ animationDelay: '0.4s' }}>
+      <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center justify-center gap-2">
+        <Database className="w-4 h-4" />
+        Saved Content
+      </h3>
+
+      <div className="space-y-1">
+        {(Object.keys(namespaceLabels) as CacheNamespace[]).map(namespace => {
+          const { entries, bytes, maxBytes, hits, misses, hitRate } = stats[namespace];
+          return (
+            <div key={namespace} className="flex justify-between text-xs text-gray-600">
+              <span>{namespaceLabels[namespace]}</span>
+              <span title={`${entries} saved, ${formatMegabytes(bytes)} of ${formatMegabytes(maxBytes)}`}>
+                {hits} reused / {misses} fetched{hitRate !== null && <span className="font-medium text-gray-900"> ({hitRate}%)</span>}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
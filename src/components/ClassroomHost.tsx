@@ -0,0 +1,488 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, Flag, Play, Trophy, Users, Wifi } from 'lucide-react';
+import { SpeechService, SpeechMode } from '../services/speechService';
+import { AIService } from '../services/aiService';
+import { createOfflineExercise } from '../services/clueEngine';
+import { getDeckWords } from '../services/deckRegistry';
+import {
+  ClassroomConnection,
+  getRelayUrl,
+  HostMessage,
+  LeaderboardEntry,
+  OPTION_COLORS,
+  PlayerAnswer,
+  QUESTION_DURATION_MS,
+  rankLeaderboard,
+  RelayMessage,
+  saveRelayUrl,
+  scoreClassroomAnswer
+} from '../services/classroomQuiz';
+import { Deck, LevelFilter, Word } from '../types/vocabulary';
+
+interface ClassroomHostProps {
+  speechService: SpeechService | null;
+  aiService: AIService | null;
+  speechMode: SpeechMode;
+  deck: Deck;
+  level: LevelFilter;
+  onBack: () => void;
+}
+
+type HostPhase = 'setup' | 'connecting' | 'lobby' | 'loading' | 'question' | 'reveal' | 'finished' | 'closed';
+
+interface PlayerState {
+  name: string;
+  isConnected: boolean;
+  points: number;
+  correctAnswers: number;
+  correctAnswerMs: number;
+}
+
+interface HostQuestion {
+  id: number;
+  number: number;
+  word: Word;
+  clue: string;
+  options: string[];
+  startedAt: number;
+}
+
+// Answers as they arrive, before the question is scored
+interface ReceivedAnswer {
+  option: string;
+  latencyMs: number;
+}
+
+// Players shown on the shared screen after each question; the final board shows everyone
+const LEADERBOARD_PREVIEW = 5;
+
+const toLeaderboard = (players: Record<string, PlayerState>): LeaderboardEntry[] => {
+  return rankLeaderboard(Object.values(players).map(({ name, points, correctAnswers, correctAnswerMs }) => ({
+    name, points, correctAnswers, correctAnswerMs
+  })));
+};
+
+export const ClassroomHost: React.FC<ClassroomHostProps> = ({
+  speechService,
+  aiService,
+  speechMode,
+  deck,
+  level,
+  onBack
+}) => {
+  const [phase, setPhase] = useState<HostPhase>('setup');
+  const [relayUrl, setRelayUrl] = useState(getRelayUrl);
+  const [error, setError] = useState<string | null>(null);
+  const [roomCode, setRoomCode] = useState('');
+  const [joinUrls, setJoinUrls] = useState<string[]>([]);
+  const [players, setPlayers] = useState<Record<string, PlayerState>>({});
+  const [question, setQuestion] = useState<HostQuestion | null>(null);
+  const [answers, setAnswers] = useState<Record<string, ReceivedAnswer>>({});
+  const [results, setResults] = useState<Record<string, PlayerAnswer>>({});
+  const [now, setNow] = useState(Date.now());
+  const connection = useRef<ClassroomConnection | null>(null);
+  // The relay calls back into whatever the latest render's handler is
+  const handleRelayMessage = useRef<(message: RelayMessage) => void>(() => {});
+
+  const canSpeak = speechService !== null && speechMode !== 'disabled';
+  const connectedPlayers = Object.values(players).filter(player => player.isConnected);
+  const leaderboard = toLeaderboard(players);
+
+  useEffect(() => {
+    return () => {
+      connection.current?.close();
+      speechService?.stopSpeaking();
+    };
+  }, [speechService]);
+
+  const say = useCallback(async (text: string) => {
+    if (!canSpeak || !speechService) return;
+    try {
+      await speechService.speakText(text);
+    } catch (error) {
+      console.error('Speech synthesis error:', error);
+    }
+  }, [canSpeak, speechService]);
+
+  const broadcast = (payload: HostMessage) => {
+    connection.current?.send({ type: 'to_players', payload });
+  };
+
+  // Sent when a question starts, and again to anyone who joins while it is open
+  const sendQuestion = (current: HostQuestion) => {
+    broadcast({
+      kind: 'question',
+      questionId: current.id,
+      number: current.number,
+      options: current.options,
+      durationMs: Math.max(QUESTION_DURATION_MS - (Date.now() - current.startedAt), 0)
+    });
+  };
+
+  handleRelayMessage.current = (message: RelayMessage) => {
+    switch (message.type) {
+      case 'room_created':
+        setRoomCode(message.code);
+        setJoinUrls(message.joinUrls);
+        setPhase('lobby');
+        return;
+
+      // Players who drop out and rejoin under the same name keep their points
+      case 'player_joined':
+        setPlayers(prev => ({
+          ...prev,
+          [message.name]: prev[message.name]
+            ? { ...prev[message.name], isConnected: true }
+            : { name: message.name, isConnected: true, points: 0, correctAnswers: 0, correctAnswerMs: 0 }
+        }));
+        if (phase === 'question' && question) {
+          sendQuestion(question);
+        }
+        return;
+
+      case 'player_left':
+        setPlayers(prev => prev[message.name] ? { ...prev, [message.name]: { ...prev[message.name], isConnected: false } } : prev);
+        return;
+
+      // Only the first answer to the open question counts
+      case 'from_player': {
+        const { name, payload } = message;
+        if (phase !== 'question' || !question || payload?.kind !== 'answer' || payload.questionId !== question.id) return;
+        if (!question.options.includes(payload.option)) return;
+        const answer = { option: payload.option, latencyMs: Date.now() - question.startedAt };
+        setAnswers(prev => prev[name] ? prev : { ...prev, [name]: answer });
+        return;
+      }
+
+      case 'error':
+        setError(message.message);
+        return;
+
+      default:
+        return;
+    }
+  };
+
+  const handleOpenRoom = async () => {
+    setError(null);
+    setPhase('connecting');
+    saveRelayUrl(relayUrl);
+
+    const next = new ClassroomConnection(
+      message => handleRelayMessage.current(message),
+      () => {
+        setError('The connection to the classroom relay was lost.');
+        setPhase('closed');
+      }
+    );
+    try {
+      await next.connect(relayUrl);
+      connection.current = next;
+      next.send({ type: 'host_room' });
+    } catch (connectError) {
+      setError((connectError as Error).message);
+      setPhase('setup');
+    }
+  };
+
+  // The clue comes from the AI provider when there is one; otherwise from the offline clue engine
+  const handleNextQuestion = async () => {
+    setPhase('loading');
+    setResults({});
+    setAnswers({});
+
+    const exercise = aiService
+      ? await aiService.fetchWordAndClue(level, deck).catch(fetchError => {
+          console.warn('Failed to generate a classroom question, using an offline clue:', fetchError);
+          return null;
+        })
+      : null;
+    const levelWords = getDeckWords(deck, level);
+    const pool = levelWords.length ? levelWords : deck.words;
+    const { word, clue, multipleChoiceOptions } = exercise
+      || createOfflineExercise(pool[Math.floor(Math.random() * pool.length)], level, deck);
+
+    const next: HostQuestion = {
+      id: Date.now(),
+      number: (question?.number ?? 0) + 1,
+      word,
+      clue,
+      options: multipleChoiceOptions,
+      startedAt: Date.now()
+    };
+    setQuestion(next);
+    setNow(next.startedAt);
+    setPhase('question');
+    sendQuestion(next);
+    say(clue);
+  };
+
+  // Scores every answer to the question, adds it to the totals and shows everyone the result
+  const revealAnswer = useCallback(() => {
+    if (!question) return;
+
+    const scored: Record<string, PlayerAnswer> = {};
+    Object.entries(answers).forEach(([name, answer]) => {
+      const isCorrect = answer.option === question.word.word;
+      scored[name] = { option: answer.option, isCorrect, points: scoreClassroomAnswer(isCorrect, answer.latencyMs, QUESTION_DURATION_MS) };
+    });
+
+    const updated = { ...players };
+    Object.entries(scored).forEach(([name, result]) => {
+      const player = updated[name];
+      if (!player) return;
+      updated[name] = {
+        ...player,
+        points: player.points + result.points,
+        correctAnswers: player.correctAnswers + (result.isCorrect ? 1 : 0),
+        correctAnswerMs: player.correctAnswerMs + (result.isCorrect ? answers[name].latencyMs : 0)
+      };
+    });
+
+    setPlayers(updated);
+    setResults(scored);
+    setPhase('reveal');
+    connection.current?.send({
+      type: 'to_players',
+      payload: { kind: 'reveal', questionId: question.id, answer: question.word.word, answers: scored, leaderboard: toLeaderboard(updated) }
+    });
+    say(`The answer is ${question.word.word}.`);
+  }, [question, answers, players, say]);
+
+  const handleEndQuiz = () => {
+    broadcast({ kind: 'finished', leaderboard });
+    setPhase('finished');
+  };
+
+  // Countdown for the open question
+  useEffect(() => {
+    if (phase !== 'question') return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  // The question closes when time is up or everyone still connected has answered
+  useEffect(() => {
+    if (phase !== 'question' || !question) return;
+    const isTimeUp = now - question.startedAt >= QUESTION_DURATION_MS;
+    const connected = Object.values(players).filter(player => player.isConnected);
+    const everyoneAnswered = connected.length > 0 && connected.every(player => answers[player.name]);
+    if (isTimeUp || everyoneAnswered) {
+      revealAnswer();
+    }
+  }, [phase, question, now, players, answers, revealAnswer]);
+
+  const timeLeftMs = question ? Math.max(QUESTION_DURATION_MS - (now - question.startedAt), 0) : 0;
+
+  const getLeaderboard = (entries: LeaderboardEntry[]) => (
+    <ol className="space-y-2">
+      {entries.map(entry => (
+        <li key={entry.name} className="flex items-center justify-between text-sm text-gray-800">
+          <span className="flex items-center gap-2">
+            <span className={`w-6 text-center font-bold ${entry.rank === 1 ? 'text-orange-500' : 'text-gray-500'}`}>{entry.rank}</span>
+            <span className={players[entry.name]?.isConnected ? 'font-medium' : 'font-light text-gray-500'}>{entry.name}</span>
+          </span>
+          <span className="text-xs text-gray-600">
+            {entry.correctAnswers} correct · <span className="font-medium text-gray-900">{entry.points}</span>
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 p-3 flex flex-col">
+      <div className="max-w-2xl mx-auto w-full flex flex-col min-h-screen">
+        {/* Header */}
+        <div className="liquid-glass-header mb-4 py-3 px-4 animate-slide-up">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+              title="Close the room and go back"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span className="font-light text-sm">Back</span>
+            </button>
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Users className="w-4 h-4 text-blue-500" />
+              Classroom Quiz
+            </div>
+            <div className="text-xs text-gray-600 font-light">
+              {roomCode ? <>Room <span className="font-bold text-gray-900 tracking-widest">{roomCode}</span></> : deck.name}
+            </div>
+          </div>
+        </div>
+
+        <div className="liquid-glass-game-card flex-1 flex flex-col p-6 animate-scale-in">
+          {error && (
+            <div className="liquid-glass-feedback-card liquid-glass-feedback-incorrect mb-4 text-sm text-red-800">{error}</div>
+          )}
+
+          {/* Connecting to the relay */}
+          {(phase === 'setup' || phase === 'connecting') && (
+            <div className="flex flex-col gap-4">
+              <p className="text-sm text-gray-700 font-light">
+                Start the relay on this computer with <code className="font-mono text-xs">npm run classroom</code>, then open a room.
+                Students join from their phones on the same network with the room code.
+              </p>
+              <label className="text-xs font-medium text-gray-600">
+                Relay address
+                <input
+                  type="text"
+                  value={relayUrl}
+                  onChange={(e) => setRelayUrl(e.target.value)}
+                  className="mt-1 w-full px-4 py-3 rounded-xl border border-gray-300 bg-white/80 backdrop-blur-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm font-normal"
+                />
+              </label>
+              <button
+                onClick={handleOpenRoom}
+                disabled={phase === 'connecting' || !relayUrl.trim()}
+                className="w-full bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-3 px-6 rounded-2xl font-medium hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-xl flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <Wifi className="w-5 h-5" />
+                {phase === 'connecting' ? 'Connecting...' : 'Open room'}
+              </button>
+            </div>
+          )}
+
+          {/* Waiting for students */}
+          {phase === 'lobby' && (
+            <div className="flex flex-col gap-4 text-center">
+              <div>
+                <div className="text-xs text-gray-600 font-light">Join with room code</div>
+                <div className="text-5xl font-bold tracking-widest text-gray-900 my-2">{roomCode}</div>
+                {joinUrls.map(url => (
+                  <div key={url} className="text-sm text-blue-700 font-mono break-all">{url}</div>
+                ))}
+              </div>
+              <div className="liquid-glass-instruction-card">
+                <div className="text-xs text-gray-600 mb-2">{connectedPlayers.length} joined</div>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {connectedPlayers.map(player => (
+                    <span key={player.name} className="px-3 py-1 rounded-full bg-white/60 text-sm text-gray-800">{player.name}</span>
+                  ))}
+                </div>
+              </div>
+              <button
+                onClick={handleNextQuestion}
+                disabled={!connectedPlayers.length}
+                className="w-full bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-3 px-6 rounded-2xl font-medium hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-xl flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <Play className="w-5 h-5" />
+                Start quiz
+              </button>
+            </div>
+          )}
+
+          {phase === 'loading' && (
+            <div className="liquid-glass-instruction-card text-center">
+              <p className="text-gray-700 text-sm font-light">Preparing the next question...</p>
+            </div>
+          )}
+
+          {/* The clue and the options, with a count of answers so far */}
+          {(phase === 'question' || phase === 'reveal') && question && (
+            <div className="flex flex-col gap-4">
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <span>Question {question.number}</span>
+                {phase === 'question'
+                  ? <span>{Object.keys(answers).length}/{connectedPlayers.length} answered · {Math.ceil(timeLeftMs / 1000)}s</span>
+                  : <span>{Object.values(results).filter(result => result.isCorrect).length}/{Object.keys(results).length} correct</span>}
+              </div>
+              {phase === 'question' && (
+                <div className="w-full h-1.5 bg-white/40 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500 transition-all duration-200" style={{ width: `${(timeLeftMs / QUESTION_DURATION_MS) * 100}%` }} />
+                </div>
+              )}
+              <div key={`clue-${question.id}`} className="liquid-glass-clue-card text-center animate-fade-in-up">
+                <p className="text-xl text-gray-900 leading-relaxed">{question.clue}</p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {question.options.map((option, index) => {
+                  const isAnswer = option === question.word.word;
+                  const picks = Object.values(phase === 'reveal' ? results : answers).filter(answer => answer.option === option).length;
+                  return (
+                    <div
+                      key={option}
+                      className={`bg-gradient-to-r ${OPTION_COLORS[index % OPTION_COLORS.length]} text-white p-4 rounded-2xl font-medium text-lg flex items-center justify-between transition-opacity ${
+                        phase === 'reveal' && !isAnswer ? 'opacity-40' : ''
+                      }`}
+                    >
+                      <span>{option}</span>
+                      {phase === 'reveal' && <span className="text-sm">{isAnswer ? '✓ ' : ''}{picks}</span>}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {phase === 'reveal' && (
+                <>
+                  <div className="liquid-glass-card p-5">
+                    <h3 className="text-sm font-medium text-gray-700 mb-3">Leaderboard</h3>
+                    {getLeaderboard(leaderboard.slice(0, LEADERBOARD_PREVIEW))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      onClick={handleNextQuestion}
+                      className="bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-3 px-6 rounded-2xl font-medium hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-xl flex items-center justify-center gap-2"
+                    >
+                      Next question
+                      <ArrowRight className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={handleEndQuiz}
+                      className="liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium flex items-center justify-center gap-2"
+                    >
+                      <Flag className="w-4 h-4" />
+                      End quiz
+                    </button>
+                  </div>
+                </>
+              )}
+
+              {phase === 'question' && (
+                <button
+                  onClick={revealAnswer}
+                  className="liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium"
+                >
+                  Show answer now
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Final standings */}
+          {phase === 'finished' && (
+            <div className="flex flex-col gap-4">
+              <div className="text-center">
+                <Trophy className="w-8 h-8 text-orange-500 mx-auto mb-2" />
+                <h2 className="text-2xl font-light text-gray-900 tracking-tight">
+                  {leaderboard.length ? `${leaderboard.filter(entry => entry.rank === 1).map(entry => entry.name).join(' and ')} wins!` : 'Quiz over'}
+                </h2>
+              </div>
+              <div className="liquid-glass-card p-5">
+                {getLeaderboard(leaderboard)}
+              </div>
+              <button
+                onClick={onBack}
+                className="w-full liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium"
+              >
+                Close room
+              </button>
+            </div>
+          )}
+
+          {phase === 'closed' && (
+            <button
+              onClick={onBack}
+              className="w-full liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium"
+            >
+              Back to Home
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,311 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, LogIn, Trophy, Users } from 'lucide-react';
+import {
+  ClassroomConnection,
+  getRelayUrl,
+  LeaderboardEntry,
+  OPTION_COLORS,
+  PlayerAnswer,
+  RelayMessage
+} from '../services/classroomQuiz';
+
+interface ClassroomPlayerProps {
+  // From a join link such as /?room=ABCD
+  initialRoomCode: string;
+  onBack: () => void;
+}
+
+type PlayerPhase = 'join' | 'joining' | 'waiting' | 'question' | 'answered' | 'reveal' | 'finished' | 'closed';
+
+interface PlayerQuestion {
+  id: number;
+  number: number;
+  options: string[];
+  endsAt: number;
+}
+
+interface PlayerReveal {
+  answer: string;
+  // Missing when the player did not answer in time
+  result: PlayerAnswer | null;
+}
+
+// The player's place on the leaderboard after the last question
+interface PlayerStanding {
+  entry: LeaderboardEntry;
+  playerCount: number;
+}
+
+const PLAYER_NAME_KEY = 'classroomName';
+const REJOIN_KEY = 'classroomRejoin';
+
+// The room, name and token from the last join, so a dropped phone can come back as the same player
+interface SavedRejoin {
+  code: string;
+  name: string;
+  token: string;
+}
+
+const getRejoinToken = (code: string, name: string): string | undefined => {
+  try {
+    const saved: SavedRejoin | null = JSON.parse(localStorage.getItem(REJOIN_KEY) || 'null');
+    return saved && saved.code === code && saved.name.toLowerCase() === name.toLowerCase() ? saved.token : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const ClassroomPlayer: React.FC<ClassroomPlayerProps> = ({ initialRoomCode, onBack }) => {
+  const [phase, setPhase] = useState<PlayerPhase>('join');
+  const [roomCode, setRoomCode] = useState(initialRoomCode.toUpperCase());
+  const [name, setName] = useState(() => localStorage.getItem(PLAYER_NAME_KEY) || '');
+  const [error, setError] = useState<string | null>(null);
+  const [question, setQuestion] = useState<PlayerQuestion | null>(null);
+  const [choice, setChoice] = useState<string | null>(null);
+  const [reveal, setReveal] = useState<PlayerReveal | null>(null);
+  const [standing, setStanding] = useState<PlayerStanding | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const connection = useRef<ClassroomConnection | null>(null);
+  // The relay calls back into whatever the latest render's handler is
+  const handleRelayMessage = useRef<(message: RelayMessage) => void>(() => {});
+
+  useEffect(() => {
+    return () => connection.current?.close();
+  }, []);
+
+  handleRelayMessage.current = (message: RelayMessage) => {
+    switch (message.type) {
+      case 'joined':
+        setName(message.name);
+        localStorage.setItem(REJOIN_KEY, JSON.stringify({ code: message.code, name: message.name, token: message.rejoinToken }));
+        setPhase('waiting');
+        return;
+
+      case 'error':
+        // Errors before joining (wrong code, name taken) leave the join form open to try again
+        setError(message.message);
+        if (phase === 'joining') {
+          connection.current?.close();
+          setPhase('join');
+        }
+        return;
+
+      case 'room_closed':
+        connection.current?.close();
+        localStorage.removeItem(REJOIN_KEY);
+        setError('The teacher closed the room.');
+        setPhase('closed');
+        return;
+
+      case 'from_host': {
+        const { payload } = message;
+        if (payload.kind === 'question') {
+          // The question is sent again when someone joins late; an answer already given stands
+          if (question?.id === payload.questionId) return;
+          setQuestion({ id: payload.questionId, number: payload.number, options: payload.options, endsAt: Date.now() + payload.durationMs });
+          setChoice(null);
+          setReveal(null);
+          setNow(Date.now());
+          setPhase('question');
+        } else {
+          const entry = payload.leaderboard.find(candidate => candidate.name === name);
+          setStanding(entry ? { entry, playerCount: payload.leaderboard.length } : null);
+          if (payload.kind === 'reveal') {
+            setReveal({ answer: payload.answer, result: payload.answers[name] || null });
+          }
+          setPhase(payload.kind === 'reveal' ? 'reveal' : 'finished');
+        }
+        return;
+      }
+
+      default:
+        return;
+    }
+  };
+
+  const handleJoin = async () => {
+    const code = roomCode.trim().toUpperCase();
+    const playerName = name.trim();
+    if (!code || !playerName) return;
+
+    setError(null);
+    setPhase('joining');
+    localStorage.setItem(PLAYER_NAME_KEY, playerName);
+
+    const next = new ClassroomConnection(
+      message => handleRelayMessage.current(message),
+      () => {
+        setError('Lost the connection to the classroom. Join again on this phone with the same name to keep your points.');
+        setPhase('join');
+      }
+    );
+    try {
+      await next.connect(getRelayUrl());
+      connection.current = next;
+      next.send({ type: 'join_room', code, name: playerName, rejoinToken: getRejoinToken(code, playerName) });
+    } catch (connectError) {
+      setError((connectError as Error).message);
+      setPhase('join');
+    }
+  };
+
+  const handleChoose = (option: string) => {
+    if (!question || phase !== 'question' || now >= question.endsAt) return;
+    setChoice(option);
+    setPhase('answered');
+    connection.current?.send({ type: 'to_host', payload: { kind: 'answer', questionId: question.id, option } });
+  };
+
+  // Countdown for the open question
+  useEffect(() => {
+    if (phase !== 'question') return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  const secondsLeft = question ? Math.max(Math.ceil((question.endsAt - now) / 1000), 0) : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 p-3 flex flex-col">
+      <div className="max-w-md mx-auto w-full flex flex-col min-h-screen">
+        {/* Header */}
+        <div className="liquid-glass-header mb-4 py-3 px-4 animate-slide-up">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+              title="Leave the classroom quiz"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span className="font-light text-sm">Leave</span>
+            </button>
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Users className="w-4 h-4 text-blue-500" />
+              {phase === 'join' || phase === 'joining' ? 'Join a Quiz' : name}
+            </div>
+            <div className="text-xs text-gray-600 font-light">
+              {standing ? <>{standing.entry.points} points</> : roomCode}
+            </div>
+          </div>
+        </div>
+
+        <div className="liquid-glass-game-card flex-1 flex flex-col p-6 animate-scale-in">
+          {error && (
+            <div className="liquid-glass-feedback-card liquid-glass-feedback-incorrect mb-4 text-sm text-red-800">{error}</div>
+          )}
+
+          {(phase === 'join' || phase === 'joining') && (
+            <div className="flex flex-col gap-4">
+              <label className="text-xs font-medium text-gray-600">
+                Room code
+                <input
+                  type="text"
+                  value={roomCode}
+                  onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                  maxLength={4}
+                  autoCapitalize="characters"
+                  className="mt-1 w-full px-4 py-3 rounded-xl border border-gray-300 bg-white/80 backdrop-blur-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-2xl text-center font-bold tracking-widest"
+                />
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                Your name
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleJoin()}
+                  maxLength={20}
+                  className="mt-1 w-full px-4 py-3 rounded-xl border border-gray-300 bg-white/80 backdrop-blur-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm font-normal"
+                />
+              </label>
+              <button
+                onClick={handleJoin}
+                disabled={phase === 'joining' || !roomCode.trim() || !name.trim()}
+                className="w-full bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-3 px-6 rounded-2xl font-medium hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-xl flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <LogIn className="w-5 h-5" />
+                {phase === 'joining' ? 'Joining...' : 'Join'}
+              </button>
+            </div>
+          )}
+
+          {phase === 'waiting' && (
+            <div className="liquid-glass-instruction-card text-center">
+              <p className="text-gray-700 text-sm font-light">You're in! Watch the shared screen; the options appear here when the first question starts.</p>
+            </div>
+          )}
+
+          {/* Options only: the clue is on the shared screen */}
+          {(phase === 'question' || phase === 'answered') && question && (
+            <div className="flex flex-col gap-4 flex-1">
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <span>Question {question.number}</span>
+                <span>{secondsLeft}s</span>
+              </div>
+              <div className="grid grid-cols-2 gap-3 flex-1">
+                {question.options.map((option, index) => (
+                  <button
+                    key={option}
+                    onClick={() => handleChoose(option)}
+                    disabled={phase !== 'question' || secondsLeft === 0}
+                    className={`bg-gradient-to-r ${OPTION_COLORS[index % OPTION_COLORS.length]} text-white p-4 rounded-2xl font-medium text-lg min-h-24 transition-opacity ${
+                      phase === 'answered' && option !== choice ? 'opacity-30' : ''
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+              {phase === 'answered' && (
+                <p className="text-center text-sm text-gray-700 font-light">Answer locked in. Waiting for the others...</p>
+              )}
+            </div>
+          )}
+
+          {phase === 'reveal' && reveal && (
+            <div
+              className={`liquid-glass-feedback-card text-center animate-fade-in-up ${
+                reveal.result?.isCorrect ? 'liquid-glass-feedback-correct' : 'liquid-glass-feedback-incorrect'
+              }`}
+            >
+              <div className={`font-medium text-lg mb-2 ${reveal.result?.isCorrect ? 'text-green-800' : 'text-red-800'}`}>
+                {reveal.result?.isCorrect ? `✓ Correct! +${reveal.result.points}` : reveal.result ? '✗ Not this time' : 'Too late!'}
+              </div>
+              <div className="text-gray-700 text-sm mb-2">
+                The answer was <span className="font-medium">"{reveal.answer}"</span>
+              </div>
+              {standing && (
+                <div className="text-xs text-gray-600">
+                  You are number {standing.entry.rank} of {standing.playerCount}
+                </div>
+              )}
+            </div>
+          )}
+
+          {phase === 'finished' && (
+            <div className="text-center flex flex-col gap-3 animate-fade-in-up">
+              <Trophy className={`w-10 h-10 mx-auto ${standing?.entry.rank === 1 ? 'text-orange-500' : 'text-gray-400'}`} />
+              <h2 className="text-2xl font-light text-gray-900 tracking-tight">
+                {standing ? `You finished number ${standing.entry.rank} of ${standing.playerCount}` : 'Quiz over'}
+              </h2>
+              {standing && (
+                <p className="text-sm text-gray-700">
+                  {standing.entry.points} points · {standing.entry.correctAnswers} correct
+                </p>
+              )}
+            </div>
+          )}
+
+          {(phase === 'finished' || phase === 'closed') && (
+            <button
+              onClick={onBack}
+              className="mt-4 w-full liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium"
+            >
+              Back to Home
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
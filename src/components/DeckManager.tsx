@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Layers, Upload, Download, Trash2, AlertTriangle, Check } from 'lucide-react';
+import { Deck, DeckSummary, WordField, WordLevel } from '../types/vocabulary';
+import { createDeckId } from '../services/deckRegistry';
+import {
+  CsvColumnMapping,
+  ImportFormat,
+  ImportResult,
+  DEFAULT_IMPORT_LEVELS,
+  detectImportFormat,
+  guessCsvMapping,
+  parseDelimited,
+  importCsv,
+  importAnkiText,
+  importApkg,
+  importJson
+} from '../services/deckImporters';
+import { exportDeckCsv, exportDeckAnkiText, exportDeckJson, downloadFile } from '../services/deckExporters';
+
+interface DeckManagerProps {
+  decks: DeckSummary[];
+  getDeck: (deckId: string) => Deck;
+  onSaveDeck: (deck: Omit<Deck, 'source'>) => Deck;
+  onDeleteDeck: (deckId: string) => void;
+  onBack: () => void;
+}
+
+const mappableFields: { field: WordField; label: string }[] = [
+  { field: 'word', label: 'Word' },
+  { field: 'level', label: 'Level' },
+  { field: 'definition', label: 'Definition' },
+  { field: 'example', label: 'Example' },
+  { field: 'partOfSpeech', label: 'Part of speech' }
+];
+
+const formatLabels: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  'anki-text': 'Anki text',
+  apkg: 'Anki package',
+  json: 'VocAIbulary JSON'
+};
+
+export const DeckManager: React.FC<DeckManagerProps> = ({
+  decks,
+  getDeck,
+  onSaveDeck,
+  onDeleteDeck,
+  onBack
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<ImportFormat | null>(null);
+  const [fileText, setFileText] = useState('');
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [defaultLevel, setDefaultLevel] = useState<WordLevel | ''>('');
+  const [deckName, setDeckName] = useState('');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [message, setMessage] = useState('');
+
+  // Re-run the import whenever the file, the column mapping or the default level changes
+  useEffect(() => {
+    if (!file || !format) return;
+
+    const options = { mapping, defaultLevel: defaultLevel || undefined };
+    const run = async (): Promise<ImportResult> => {
+      switch (format) {
+        case 'csv': return importCsv(fileText, options);
+        case 'anki-text': return importAnkiText(fileText, options);
+        case 'json': return importJson(fileText, options);
+        case 'apkg': return importApkg(await file.arrayBuffer(), options);
+      }
+    };
+
+    run()
+      .then(importResult => {
+        setResult(importResult);
+        if (importResult.deckName) {
+          setDeckName(name => name || importResult.deckName || '');
+        }
+      })
+      .catch(error => {
+        console.error('Deck import failed:', error);
+        setResult({ words: [], errors: [{ row: 0, message: error.message }], duplicates: [] });
+      });
+  }, [file, format, fileText, mapping, defaultLevel]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    const detected = detectImportFormat(selected.name);
+    setMessage(detected ? '' : 'Unsupported file type. Use .csv, .txt, .tsv, .apkg or .json.');
+    setResult(null);
+    setFormat(detected);
+    setDeckName(selected.name.replace(/\.[^.]+$/, ''));
+
+    const text = detected && detected !== 'apkg' ? await selected.text() : '';
+    if (detected === 'csv') {
+      const headers = parseDelimited(text.replace(/^\uFEFF/, ''))[0] || [];
+      setCsvHeaders(headers);
+      setMapping(guessCsvMapping(headers));
+    } else {
+      setCsvHeaders([]);
+      setMapping({});
+    }
+
+    setFileText(text);
+    setFile(selected);
+  };
+
+  const handleMappingChange = (field: WordField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (!result?.words.length || !file) return;
+
+    try {
+      const saved = onSaveDeck({
+        id: createDeckId(deckName),
+        name: deckName.trim(),
+        description: `Imported from ${file.name}`,
+        language: 'en',
+        levelScheme: DEFAULT_IMPORT_LEVELS,
+        words: result.words
+      });
+      setMessage(`Saved "${saved.name}" with ${saved.words.length} words.`);
+      setFile(null);
+      setFormat(null);
+      setResult(null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to save deck.');
+    }
+  };
+
+  const handleExport = (deckId: string, exportFormat: 'json' | 'csv' | 'anki-text') => {
+    const deck = getDeck(deckId);
+    const baseName = deck.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+    if (exportFormat === 'json') {
+      downloadFile(`${baseName}.json`, exportDeckJson(deck), 'application/json');
+    } else if (exportFormat === 'csv') {
+      downloadFile(`${baseName}.csv`, exportDeckCsv(deck), 'text/csv');
+    } else {
+      downloadFile(`${baseName}-anki.txt`, exportDeckAnkiText(deck), 'text/plain');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 p-3 flex flex-col">
+      <div className="max-w-md mx-auto w-full flex flex-col gap-4">
+        {/* Header */}
+        <div className="liquid-glass-header py-3 px-4 animate-slide-up">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+              title="Back to Home"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span className="font-light text-sm">Back</span>
+            </button>
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Layers className="w-4 h-4 text-blue-500" />
+              Decks
+            </div>
+          </div>
+        </div>
+
+        {/* Deck List */}
+        <div className="liquid-glass-card p-5 animate-fade-in-up">
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Your decks</h3>
+          <div className="space-y-3">
+            {decks.map(deck => (
+              <div key={deck.id} className="liquid-glass-instruction-card p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{deck.name}</div>
+                    <div className="text-xs text-gray-500 font-light">
+                      {deck.wordCount} words · {deck.levelScheme.join(', ')}
+                    </div>
+                  </div>
+                  {deck.source === 'user' && (
+                    <button
+                      onClick={() => onDeleteDeck(deck.id)}
+                      className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-white/40 transition-colors"
+                      title="Delete deck"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {(['json', 'csv', 'anki-text'] as const).map(exportFormat => (
+                    <button
+                      key={exportFormat}
+                      onClick={() => handleExport(deck.id, exportFormat)}
+                      className="flex-1 liquid-glass-button border border-white/30 hover:border-white/50 py-1 px-2 rounded-lg text-xs text-gray-700 flex items-center justify-center gap-1"
+                    >
+                      <Download className="w-3 h-3" />
+                      {exportFormat === 'anki-text' ? 'Anki' : exportFormat.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Import */}
+        <div className="liquid-glass-card p-5 mb-4 animate-fade-in-up" style={{ animationDelay: '0.1s' }}>
+          <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center gap-2">
+            <Upload className="w-4 h-4 text-blue-500" />
+            Import a deck
+          </h3>
+
+          <input
+            type="file"
+            accept=".csv,.txt,.tsv,.apkg,.json"
+            onChange={handleFileChange}
+            className="w-full text-xs text-gray-600 mb-3"
+          />
+          <p className="text-xs text-gray-500 font-light mb-3">
+            CSV with a header row, Anki plain-text export (.txt), Anki package (.apkg) or a VocAIbulary JSON deck.
+          </p>
+
+          {file && format && (
+            <div className="space-y-3">
+              <div className="text-xs text-gray-600">
+                Format: <span className="font-medium">{formatLabels[format]}</span>
+              </div>
+
+              <input
+                type="text"
+                value={deckName}
+                onChange={(e) => setDeckName(e.target.value)}
+                placeholder="Deck name"
+                className="w-full px-3 py-2 rounded-xl border border-gray-300 bg-white/80 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all"
+              />
+
+              {/* Column mapping for CSV files */}
+              {format === 'csv' && (
+                <div className="grid grid-cols-2 gap-2">
+                  {mappableFields.map(({ field, label }) => (
+                    <label key={field} className="text-xs text-gray-600">
+                      {label}
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        className="w-full mt-1 px-2 py-1 rounded-lg border border-gray-300 bg-white/80 text-xs"
+                      >
+                        <option value="">Not present</option>
+                        {csvHeaders.map((header, index) => (
+                          <option key={`${header}-${index}`} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <label className="block text-xs text-gray-600">
+                Level for rows without one
+                <select
+                  value={defaultLevel}
+                  onChange={(e) => setDefaultLevel(e.target.value as WordLevel | '')}
+                  className="w-full mt-1 px-2 py-1 rounded-lg border border-gray-300 bg-white/80 text-xs"
+                >
+                  <option value="">None (report as errors)</option>
+                  {DEFAULT_IMPORT_LEVELS.map(level => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </label>
+
+              {result && (
+                <div className="liquid-glass-instruction-card p-3 text-xs text-gray-700 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Check className="w-3 h-3 text-green-600" />
+                    {result.words.length} words ready to import
+                  </div>
+                  {result.duplicates.length > 0 && (
+                    <div className="text-gray-600">
+                      Skipped {result.duplicates.length} duplicates: {result.duplicates.slice(0, 8).join(', ')}
+                      {result.duplicates.length > 8 ? '…' : ''}
+                    </div>
+                  )}
+                  {result.errors.length > 0 && (
+                    <div>
+                      <div className="flex items-center gap-2 text-red-700 mb-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        {result.errors.length} rows could not be imported
+                      </div>
+                      <ul className="max-h-32 overflow-y-auto space-y-1 text-red-700 font-light">
+                        {result.errors.slice(0, 50).map((error, index) => (
+                          <li key={`${error.row}-${index}`}>{error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <button
+                onClick={handleSave}
+                disabled={!result?.words.length || !deckName.trim()}
+                className="w-full bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-2 px-4 rounded-xl text-sm font-medium hover:from-blue-600 hover:to-indigo-700 disabled:from-gray-300 disabled:to-gray-300 disabled:cursor-not-allowed transition-all"
+              >
+                Save deck
+              </button>
+            </div>
+          )}
+
+          {message && (
+            <p className="text-xs text-gray-700 mt-3">{message}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
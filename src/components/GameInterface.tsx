@@ -1,26 +1,26 @@
-import React, { useState } from 'react';
-import { Target, Home, BookOpen, Volume2, VolumeX, ArrowRight, Volume1, Check } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Target, Home, BookOpen, Volume2, VolumeX, ArrowRight, Volume1, Check, Play, Lightbulb, Star, Flag, Timer } from 'lucide-react';
 import { SpeechMode } from '../services/speechService';
-
-interface Word {
-  word: string;
-  level: 'A1' | 'A2' | 'B1' | 'B2';
-  definition: string;
-  example: string;
-  partOfSpeech: string;
-}
+import { AnswerVerdict } from '../services/answerEvaluator';
+import { Hint, HINT_LABELS, getNextHintTier, isDefinitionHidden } from '../services/hintEngine';
+import { ScoreBreakdown, getHintPenalty, getLearnerLevel } from '../services/scoring';
+import { LearnerProfile } from '../services/progressStore';
+import { SessionMode, SESSION_MODES, getTimeRemaining } from '../services/sessionModes';
+import { Word } from '../types/vocabulary';
 
 interface GameInterfaceProps {
   currentClue: string;
   currentWord: Word | null;
   isListening: boolean;
   isCorrect: boolean | null;
+  answerVerdict: AnswerVerdict | null;
   showAnswer: boolean;
   lastAnswer: string;
   stats: {
     correctAnswers: number;
     totalAttempted: number;
     currentStreak: number;
+    points: number;
   };
   currentInstruction: string;
   appState: string;
@@ -31,6 +31,21 @@ interface GameInterfaceProps {
   onGoHome: () => void;
   onManualAnswer: (answer: string) => void;
   onMultipleChoiceAnswer: (answer: string) => void;
+  // What was heard of a low-confidence voice answer waiting for the learner to confirm it
+  pendingTranscript: string | null;
+  onConfirmAnswer: (confirmed: boolean) => void;
+  // Leaves the pause started by saying "pause"
+  onResume: () => void;
+  revealedHints: Hint[];
+  lastScore: ScoreBreakdown | null;
+  // Lifetime XP and learner level for the header
+  learnerProfile: LearnerProfile | null;
+  onHint: () => Promise<unknown>;
+  sessionMode: SessionMode;
+  sessionStartedAt: number | null;
+  wordsAnswered: number;
+  // Ends an endless session and shows its summary
+  onEndSession: () => void;
 }
 
 export const GameInterface: React.FC<GameInterfaceProps> = ({
@@ -38,6 +53,7 @@ export const GameInterface: React.FC<GameInterfaceProps> = ({
   currentWord,
   isListening,
   isCorrect,
+  answerVerdict,
   showAnswer,
   lastAnswer,
   stats,
@@ -49,9 +65,33 @@ export const GameInterface: React.FC<GameInterfaceProps> = ({
   onNextWord,
   onGoHome,
   onManualAnswer,
-  onMultipleChoiceAnswer
+  onMultipleChoiceAnswer,
+  pendingTranscript,
+  onConfirmAnswer,
+  onResume,
+  revealedHints,
+  lastScore,
+  learnerProfile,
+  onHint,
+  sessionMode,
+  sessionStartedAt,
+  wordsAnswered,
+  onEndSession
 }) => {
   const [manualAnswer, setManualAnswer] = useState('');
+  const [isLoadingHint, setIsLoadingHint] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const { durationMs, wordCount } = SESSION_MODES[sessionMode];
+
+  // Only a timed session needs the clock to tick
+  useEffect(() => {
+    if (durationMs === undefined) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [durationMs]);
+
+  const learnerLevel = learnerProfile ? getLearnerLevel(learnerProfile.xp) : null;
 
   const accuracy = stats.totalAttempted > 0 ? Math.round((stats.correctAnswers / stats.totalAttempted) * 100) : 0;
 
@@ -65,6 +105,11 @@ export const GameInterface: React.FC<GameInterfaceProps> = ({
     setManualAnswer('');
   };
 
+  const handleHintClick = () => {
+    setIsLoadingHint(true);
+    onHint().finally(() => setIsLoadingHint(false));
+  };
+
   const handleMultipleChoiceClick = (option: string) => {
     if (showAnswer) return; // Prevent clicking after answer is shown
     onMultipleChoiceAnswer(option);
@@ -72,6 +117,16 @@ export const GameInterface: React.FC<GameInterfaceProps> = ({
 
   const getAnswerFeedback = () => {
     if (!showAnswer || isCorrect === null || !currentWord) return null;
+
+    // Accepted but not exact answers get their own heading and a note on what was off
+    const isExact = answerVerdict === 'exact' || answerVerdict === null;
+    const heading = !isCorrect
+      ? '✗ Not quite right'
+      : answerVerdict === 'close'
+      ? '✓ Close enough!'
+      : answerVerdict === 'wrong_form'
+      ? '✓ Right word, different form'
+      : '✓ Excellent!';
     
     return (
       <div 
@@ -80,15 +135,37 @@ export const GameInterface: React.FC<GameInterfaceProps> = ({
           isCorrect ? 'liquid-glass-feedback-correct' : 'liquid-glass-feedback-incorrect'
         }`}
       >
-        <div className={`font-medium text-lg mb-3 ${isCorrect ? 'text-green-800' : 'text-red-800'}`}>
-          {isCorrect ? '✓ Excellent!' : '✗ Not quite right'}
+        <div className={`font-medium text-lg mb-3 ${!isCorrect ? 'text-red-800' : isExact ? 'text-green-800' : 'text-amber-800'}`}>
+          {heading}
         </div>
+        {isCorrect && answerVerdict === 'close' && (
+          <div className="text-amber-800 text-xs mb-2">
+            {speechMode === 'disabled' ? 'Check the spelling' : 'It sounded very close'} - counted as correct.
+          </div>
+        )}
+        {isCorrect && answerVerdict === 'wrong_form' && (
+          <div className="text-amber-800 text-xs mb-2">
+            That is another form of the word; the blank needs exactly "{currentWord.word}".
+          </div>
+        )}
         <div className="text-gray-700 mb-2 text-sm">
           You {speechMode === 'disabled' ? 'selected' : 'said'}: <span className="font-medium">"{lastAnswer}"</span>
         </div>
         <div className="text-gray-700 text-sm mb-3">
           Correct answer: <span className="font-medium">"{currentWord.word}"</span>
         </div>
+        {lastScore && isCorrect && (
+          <div className="text-gray-700 text-xs mb-2">
+            <span className="font-medium text-blue-600">+{lastScore.total} points</span>
+            {' '}({[
+              `${lastScore.base} for ${currentWord.level}`,
+              lastScore.speedBonus > 0 && `+${lastScore.speedBonus} speed`,
+              lastScore.hintPenalty > 0 && `-${lastScore.hintPenalty} hints`,
+              lastScore.answerMultiplier < 1 && `x${lastScore.answerMultiplier} answer`,
+              lastScore.streakMultiplier > 1 && `x${lastScore.streakMultiplier.toFixed(1)} streak`
+            ].filter(Boolean).join(', ')})
+          </div>
+        )}
         
         {/* Word Learning Context */}
         <div className="border-t border-gray-200 pt-3 mt-3">
@@ -123,6 +200,104 @@ export const GameInterface: React.FC<GameInterfaceProps> = ({
     );
   };
 
+  const getAnswerConfirmation = () => {
+    if (pendingTranscript === null || showAnswer) return null;
+
+    return (
+      <div className="liquid-glass-instruction-card mb-4 animate-scale-in">
+        <div className="text-sm text-gray-700 mb-3">
+          Did you say <span className="font-medium text-gray-900">"{pendingTranscript}"</span>?
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onConfirmAnswer(true)}
+            className="flex-1 bg-blue-500 text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-blue-600 transition-colors flex items-center justify-center gap-2"
+          >
+            <Check className="w-4 h-4" />
+            Yes
+          </button>
+          <button
+            onClick={() => onConfirmAnswer(false)}
+            className="flex-1 liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-2 px-4 rounded-lg text-sm font-medium transition-colors"
+          >
+            No, try again
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const getPausedCard = () => {
+    if (appState !== 'paused') return null;
+
+    return (
+      <div className="liquid-glass-instruction-card mb-4 animate-scale-in">
+        <div className="text-sm text-gray-700 mb-3">Paused. The microphone is off.</div>
+        <button
+          onClick={onResume}
+          className="w-full bg-blue-500 text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-blue-600 transition-colors flex items-center justify-center gap-2"
+        >
+          <Play className="w-4 h-4" />
+          Resume
+        </button>
+      </div>
+    );
+  };
+
+  const getSessionProgress = () => {
+    if (sessionStartedAt === null) return null;
+
+    const timeRemaining = getTimeRemaining(sessionMode, sessionStartedAt, now);
+    if (timeRemaining !== null && durationMs !== undefined) {
+      const seconds = Math.ceil(timeRemaining / 1000);
+      return (
+        <div className="mb-4 animate-fade-in">
+          <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+            <span className="flex items-center gap-1"><Timer className="w-3 h-3" />{SESSION_MODES[sessionMode].label}</span>
+            <span className={`font-medium ${seconds <= 10 ? 'text-red-600' : 'text-gray-700'}`}>{seconds}s</span>
+          </div>
+          <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-300 ${seconds <= 10 ? 'bg-red-400' : 'bg-gradient-to-r from-blue-400 to-indigo-500'}`}
+              style={{ width: `${(timeRemaining / durationMs) * 100}%` }}
+            />
+          </div>
+        </div>
+      );
+    }
+
+    if (wordCount !== undefined) {
+      return (
+        <div className="mb-4 animate-fade-in">
+          <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+            <span>{SESSION_MODES[sessionMode].label}</span>
+            <span className="font-medium text-gray-700">{wordsAnswered}/{wordCount} words</span>
+          </div>
+          <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-blue-400 to-indigo-500 transition-all duration-300"
+              style={{ width: `${(wordsAnswered / wordCount) * 100}%` }}
+            />
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center justify-between text-xs text-gray-600 mb-4 animate-fade-in">
+        <span>{SESSION_MODES[sessionMode].label} · {wordsAnswered} {wordsAnswered === 1 ? 'word' : 'words'}</span>
+        <button
+          onClick={onEndSession}
+          className="flex items-center gap-1 hover:text-blue-600 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+          title="Finish and see the summary"
+        >
+          <Flag className="w-3 h-3" />
+          End session
+        </button>
+      </div>
+    );
+  };
+
   const getWordContext = () => {
     if (!currentWord || showAnswer) return null;
     
@@ -140,14 +315,46 @@ export const GameInterface: React.FC<GameInterfaceProps> = ({
           <div>
             <span className="font-medium text-gray-800">Level:</span> {currentWord.level}
           </div>
-          <div>
-            <span className="font-medium text-gray-800">Meaning:</span> {currentWord.definition}
-          </div>
+          {!isDefinitionHidden(currentWord.level) && (
+            <div>
+              <span className="font-medium text-gray-800">Meaning:</span> {currentWord.definition}
+            </div>
+          )}
         </div>
       </div>
     );
   };
 
+  const getHints = () => {
+    if (!currentWord || showAnswer || appState === 'paused') return null;
+    const nextTier = getNextHintTier(revealedHints.map(hint => hint.tier));
+
+    return (
+      <div className="liquid-glass-context-card mb-4 animate-fade-in-up" style={{ animationDelay: '0.25s' }}>
+        {revealedHints.length > 0 && (
+          <ul className="space-y-1 mb-3 text-sm text-gray-700 text-left">
+            {revealedHints.map(hint => (
+              <li key={hint.tier}>
+                <span className="font-medium text-gray-800">{HINT_LABELS[hint.tier]}:</span>{' '}
+                <span className={hint.tier === 'pattern' ? 'font-mono' : ''}>{hint.text}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          onClick={handleHintClick}
+          disabled={!nextTier || isLoadingHint}
+          className="w-full liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-2 px-4 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Lightbulb className="w-4 h-4 text-amber-500" />
+          {nextTier
+            ? `${isLoadingHint ? 'Getting hint...' : `Hint: ${HINT_LABELS[nextTier].toLowerCase()}`} (-${getHintPenalty(nextTier, currentWord.level)} points)`
+            : 'No more hints'}
+        </button>
+      </div>
+    );
+  };
+
   const getMultipleChoiceOptions = () => {
     if (!multipleChoiceOptions.length || showAnswer) return null;
 
@@ -230,6 +437,20 @@ export const GameInterface: React.FC<GameInterfaceProps> = ({
               <div className="text-xs text-gray-600 font-light">
                 Streak: <span className="font-bold text-orange-500">{stats.currentStreak}</span>
               </div>
+
+              <div className="text-xs text-gray-600 font-light">
+                Points: <span className="font-bold text-blue-600">{stats.points}</span>
+              </div>
+
+              {learnerLevel && (
+                <div
+                  className="flex items-center gap-1 text-xs text-gray-600 font-light"
+                  title={`${learnerLevel.xpIntoLevel}/${learnerLevel.xpForNextLevel} XP to level ${learnerLevel.level + 1}`}
+                >
+                  <Star className="w-3 h-3 text-yellow-500" />
+                  <span className="font-bold text-gray-700">Lv {learnerLevel.level}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -238,6 +459,9 @@ export const GameInterface: React.FC<GameInterfaceProps> = ({
         <div className="liquid-glass-game-card flex-1 flex flex-col justify-between p-6 animate-scale-in">
           {/* Clue Section */}
           <div className="text-center">
+            {/* Countdown, lesson progress or the endless session's word count */}
+            {getSessionProgress()}
+
             <h2 className="text-2xl font-light text-gray-900 mb-4 tracking-tight animate-fade-in-up">
               {speechMode === 'disabled' ? 'Read & Choose' : 'Listen & Respond'}
             </h2>
@@ -265,6 +489,15 @@ export const GameInterface: React.FC<GameInterfaceProps> = ({
             {/* Word Context - Only show during gameplay, not during feedback */}
             {getWordContext()}
 
+            {/* Hints, each costing points */}
+            {getHints()}
+
+            {/* Said "pause" */}
+            {getPausedCard()}
+
+            {/* "Did you say ...?" for answers the recognizer was unsure about */}
+            {getAnswerConfirmation()}
+
             {/* Multiple Choice Options */}
             {getMultipleChoiceOptions()}
 
@@ -1,24 +1,83 @@
-import React, { useState } from 'react';
-import { BookOpen, Play, Volume2, VolumeX, Volume1, Settings, ChevronDown } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { BookOpen, Play, Volume2, VolumeX, Volume1, Settings, ChevronDown, BarChart3, Layers, Mic, Timer, BookOpenCheck, PenLine, Puzzle, Users } from 'lucide-react';
 import { LevelPicker } from './LevelPicker';
+import { ProviderSettings } from './ProviderSettings';
+import { UsageBudget } from './UsageBudget';
+import { CacheStats } from './CacheStats';
 import { SpeechMode } from '../services/speechService';
+import { LLMProviderSettings } from '../services/llmProviders';
+import { loadBrowserVoices } from '../services/ttsProviders';
+import { BudgetStatus } from '../services/usageLedger';
+import { CacheNamespace, NamespaceStats } from '../services/contentCache';
+import { SessionMode, SESSION_MODES, SESSION_MODE_ORDER } from '../services/sessionModes';
+import { Deck, DeckSummary, LevelFilter } from '../types/vocabulary';
 
 interface GameSetupProps {
-  selectedLevel: 'A1' | 'A2' | 'B1' | 'B2' | 'ALL';
+  selectedLevel: LevelFilter;
   speechMode: SpeechMode;
-  onLevelChange: (level: 'A1' | 'A2' | 'B1' | 'B2' | 'ALL') => void;
+  // What is spoken right now: concise instead of full while the speech budget is low
+  effectiveSpeechMode: SpeechMode;
+  sessionMode: SessionMode;
+  decks: DeckSummary[];
+  activeDeck: Deck;
+  llmSettings: LLMProviderSettings;
+  browserVoice: string;
+  budgetStatus: BudgetStatus[];
+  // Reuse of saved clues and audio; null until it has been read
+  cacheStats: Record<CacheNamespace, NamespaceStats> | null;
+  onLevelChange: (level: LevelFilter) => void;
   onSpeechModeChange: (mode: SpeechMode) => void;
+  onSessionModeChange: (mode: SessionMode) => void;
+  onDeckChange: (deckId: string) => void;
   onStartGame: () => void;
+  onPracticePronunciation: () => void;
+  onPracticeMeanings: () => void;
+  onPracticeSpelling: () => void;
+  onPracticeWordUse: () => void;
+  onHostClassroom: () => void;
+  onJoinClassroom: () => void;
+  onShowDashboard: () => void;
+  onManageDecks: () => void;
+  onLLMSettingsChange: (settings: LLMProviderSettings) => void;
+  onBrowserVoiceChange: (voiceURI: string) => void;
 }
 
 export const GameSetup: React.FC<GameSetupProps> = ({
   selectedLevel,
   speechMode,
+  effectiveSpeechMode,
+  sessionMode,
+  decks,
+  activeDeck,
+  llmSettings,
+  browserVoice,
+  budgetStatus,
+  cacheStats,
   onLevelChange,
   onSpeechModeChange,
-  onStartGame
+  onSessionModeChange,
+  onDeckChange,
+  onStartGame,
+  onPracticePronunciation,
+  onPracticeMeanings,
+  onPracticeSpelling,
+  onPracticeWordUse,
+  onHostClassroom,
+  onJoinClassroom,
+  onShowDashboard,
+  onManageDecks,
+  onLLMSettingsChange,
+  onBrowserVoiceChange
 }) => {
   const [showSpeechMenu, setShowSpeechMenu] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  // English voices only; the game speaks nothing else
+  useEffect(() => {
+    loadBrowserVoices().then(available => {
+      setVoices(available.filter(voice => voice.lang.toLowerCase().startsWith('en')));
+    });
+  }, []);
 
   const speechModes = [
     {
@@ -104,6 +163,25 @@ export const GameSetup: React.FC<GameSetupProps> = ({
                   );
                 })}
               </div>
+
+              {speechMode !== 'disabled' && voices.length > 0 && (
+                <label className="block text-xs text-gray-600 mt-3">
+                  Browser voice
+                  <select
+                    value={browserVoice}
+                    onChange={(e) => onBrowserVoiceChange(e.target.value)}
+                    className="w-full mt-1 px-3 py-2 rounded-xl border border-gray-300 bg-white/80 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all"
+                  >
+                    <option value="">Automatic</option>
+                    {voices.map(voice => (
+                      <option key={voice.voiceURI} value={voice.voiceURI}>
+                        {voice.name} ({voice.lang})
+                      </option>
+                    ))}
+                  </select>
+                  <span className="block mt-1 text-gray-500 font-light">Used when ElevenLabs is not configured or unavailable</span>
+                </label>
+              )}
             </div>
           </>
         )}
@@ -163,18 +241,79 @@ export const GameSetup: React.FC<GameSetupProps> = ({
             <h1 className="text-3xl font-light text-gray-900 mb-2 tracking-tight animate-fade-in-up">
               Voc<span className="text-blue-500 font-medium">AI</span>bulary
             </h1>
-            <p className="text-gray-600 font-light text-sm animate-fade-in-up" style={{ animationDelay: '0.1s' }}>Master the Oxford 3000 words with AI-powered learning</p>
+            <p className="text-gray-600 font-light text-sm animate-fade-in-up" style={{ animationDelay: '0.1s' }}>Master the {activeDeck.name} words with AI-powered learning</p>
           </div>
         </div>
 
+        {/* Deck Picker */}
+        {decks.length > 1 && (
+          <div className="mb-6 animate-fade-in-up" style={{ animationDelay: '0.15s' }}>
+            <h2 className="text-base font-medium text-gray-700 mb-3 text-center flex items-center justify-center gap-2">
+              <Layers className="w-4 h-4" />
+              Word Deck
+            </h2>
+            <div className="flex flex-wrap justify-center gap-2">
+              {decks.map(deck => {
+                const isSelected = deck.id === activeDeck.id;
+
+                return (
+                  <button
+                    key={deck.id}
+                    onClick={() => onDeckChange(deck.id)}
+                    className={`px-3 py-2 rounded-xl text-xs transition-all duration-200 ${
+                      isSelected
+                        ? 'bg-white border-2 border-blue-200 shadow-lg text-gray-900 font-medium'
+                        : 'liquid-glass-button border border-white/30 hover:border-white/50 text-gray-600'
+                    }`}
+                    title={deck.description}
+                  >
+                    {deck.name}
+                    <span className="ml-1 text-gray-400">({deck.wordCount})</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Level Picker */}
         <div className="mb-6 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
           <LevelPicker
             selectedLevel={selectedLevel}
+            levelScheme={activeDeck.levelScheme}
             onLevelChange={onLevelChange}
           />
         </div>
 
+        {/* Session Mode Picker */}
+        <div className="mb-6 animate-fade-in-up" style={{ animationDelay: '0.25s' }}>
+          <h2 className="text-base font-medium text-gray-700 mb-3 text-center flex items-center justify-center gap-2">
+            <Timer className="w-4 h-4" />
+            Session
+          </h2>
+          <div className="grid grid-cols-2 gap-2">
+            {SESSION_MODE_ORDER.map(mode => {
+              const isSelected = mode === sessionMode;
+
+              return (
+                <button
+                  key={mode}
+                  onClick={() => onSessionModeChange(mode)}
+                  className={`px-3 py-2 rounded-xl text-xs transition-all duration-200 ${
+                    isSelected
+                      ? 'bg-white border-2 border-blue-200 shadow-lg text-gray-900 font-medium'
+                      : 'liquid-glass-button border border-white/30 hover:border-white/50 text-gray-600'
+                  }`}
+                  title={SESSION_MODES[mode].description}
+                >
+                  {SESSION_MODES[mode].label}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 text-center mt-2 font-light">{SESSION_MODES[sessionMode].description}</p>
+        </div>
+
         {/* Start Button */}
         <button
           onClick={onStartGame}
@@ -185,6 +324,99 @@ export const GameSetup: React.FC<GameSetupProps> = ({
           Start Learning
         </button>
 
+        {/* Reverse Practice Button - the word is given and its meaning is the answer */}
+        <button
+          onClick={onPracticeMeanings}
+          className="w-full mt-3 liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium flex items-center justify-center gap-2 animate-fade-in-up"
+          style={{ animationDelay: '0.32s' }}
+          title="See a word and pick or explain what it means"
+        >
+          <BookOpenCheck className="w-5 h-5" />
+          Practice Meanings
+        </button>
+
+        {/* Pronunciation Practice Button - the word has to be spoken to be repeated */}
+        <button
+          onClick={onPracticePronunciation}
+          disabled={speechMode === 'disabled'}
+          className="w-full mt-3 liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium flex items-center justify-center gap-2 animate-fade-in-up disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ animationDelay: '0.33s' }}
+          title={speechMode === 'disabled' ? 'Turn speech on to practice pronunciation' : 'Repeat words after the app and get a score'}
+        >
+          <Mic className="w-5 h-5" />
+          Practice Pronunciation
+        </button>
+
+        {/* Spelling Dictation Button - the word is only ever heard */}
+        <button
+          onClick={onPracticeSpelling}
+          disabled={speechMode === 'disabled'}
+          className="w-full mt-3 liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium flex items-center justify-center gap-2 animate-fade-in-up disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ animationDelay: '0.34s' }}
+          title={speechMode === 'disabled' ? 'Turn speech on to hear the words for dictation' : 'Hear a word and spell it'}
+        >
+          <PenLine className="w-5 h-5" />
+          Spelling Dictation
+        </button>
+
+        {/* Word Use Button - word forms, collocations and synonyms from enriched words */}
+        <button
+          onClick={onPracticeWordUse}
+          className="w-full mt-3 liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium flex items-center justify-center gap-2 animate-fade-in-up"
+          style={{ animationDelay: '0.345s' }}
+          title="Pick the right word form, collocation or synonym"
+        >
+          <Puzzle className="w-5 h-5" />
+          Practice Word Use
+        </button>
+
+        {/* Classroom Quiz Button - this screen hosts, students answer on their phones */}
+        <button
+          onClick={onHostClassroom}
+          className="w-full mt-3 liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium flex items-center justify-center gap-2 animate-fade-in-up"
+          style={{ animationDelay: '0.348s' }}
+          title="Run a live quiz for a class on the local network"
+        >
+          <Users className="w-5 h-5" />
+          Host Classroom Quiz
+        </button>
+        <button
+          onClick={onJoinClassroom}
+          className="w-full mt-2 text-xs text-gray-600 hover:text-blue-600 transition-colors font-light animate-fade-in-up"
+          style={{ animationDelay: '0.348s' }}
+        >
+          Join a classroom quiz with a room code
+        </button>
+
+        {/* Progress Dashboard Button */}
+        <button
+          onClick={onShowDashboard}
+          className="w-full mt-3 liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium flex items-center justify-center gap-2 animate-fade-in-up"
+          style={{ animationDelay: '0.35s' }}
+        >
+          <BarChart3 className="w-5 h-5" />
+          View Progress
+        </button>
+
+        {/* Deck Manager Button */}
+        <button
+          onClick={onManageDecks}
+          className="w-full mt-3 liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium flex items-center justify-center gap-2 animate-fade-in-up"
+          style={{ animationDelay: '0.38s' }}
+        >
+          <Layers className="w-5 h-5" />
+          Manage Decks
+        </button>
+
+        {/* AI Provider Settings */}
+        <ProviderSettings settings={llmSettings} onSettingsChange={onLLMSettingsChange} />
+
+        {/* Token and character budgets shared by everyone using these keys */}
+        <UsageBudget statuses={budgetStatus} />
+
+        {/* How often clues and audio came from the cache instead of a paid request */}
+        <CacheStats stats={cacheStats} />
+
         {/* Current Speech Mode Info */}
         <div className="liquid-glass-instruction-card mt-4 animate-fade-in-up" style={{ animationDelay: '0.4s' }}>
           <div className="text-center">
@@ -200,6 +432,11 @@ export const GameSetup: React.FC<GameSetupProps> = ({
                 : 'Full speech mode uses more API tokens but provides the best learning experience.'
               }
             </p>
+            {effectiveSpeechMode !== speechMode && (
+              <p className="text-amber-700 text-xs leading-relaxed font-medium mt-2">
+                Speech characters are running low, so speech is concise until the budget resets.
+              </p>
+            )}
           </div>
         </div>
       </div>
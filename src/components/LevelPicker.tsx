@@ -1,12 +1,24 @@
 import React, { useRef, useEffect, useState } from 'react';
+import { LevelFilter, WordLevel } from '../types/vocabulary';
 
 interface LevelPickerProps {
-  selectedLevel: 'A1' | 'A2' | 'B1' | 'B2' | 'ALL';
-  onLevelChange: (level: 'A1' | 'A2' | 'B1' | 'B2' | 'ALL') => void;
+  selectedLevel: LevelFilter;
+  levelScheme: WordLevel[];
+  onLevelChange: (level: LevelFilter) => void;
 }
 
+const allLevels = [
+  { value: 'ALL' as const, label: 'All Levels', description: 'Mixed difficulty', color: 'from-purple-400 to-pink-400' },
+  { value: 'A1' as const, label: 'A1 - Beginner', description: 'Basic everyday words', color: 'from-green-400 to-emerald-400' },
+  { value: 'A2' as const, label: 'A2 - Elementary', description: 'Common situations', color: 'from-blue-400 to-cyan-400' },
+  { value: 'B1' as const, label: 'B1 - Intermediate', description: 'Work and study topics', color: 'from-yellow-400 to-orange-400' },
+  { value: 'B2' as const, label: 'B2 - Upper-Intermediate', description: 'Complex ideas', color: 'from-red-400 to-pink-400' },
+  { value: 'C1' as const, label: 'C1 - Advanced', description: 'Academic and professional language', color: 'from-indigo-400 to-violet-500' }
+];
+
 export const LevelPicker: React.FC<LevelPickerProps> = ({
   selectedLevel,
+  levelScheme,
   onLevelChange
 }) => {
   const pickerRef = useRef<HTMLDivElement>(null);
@@ -16,13 +28,8 @@ export const LevelPicker: React.FC<LevelPickerProps> = ({
   const [scrollTop, setScrollTop] = useState(0);
   const [scrollTimeout, setScrollTimeout] = useState<NodeJS.Timeout | null>(null);
 
-  const levels = [
-    { value: 'ALL' as const, label: 'All Levels', description: 'Mixed difficulty', color: 'from-purple-400 to-pink-400' },
-    { value: 'A1' as const, label: 'A1 - Beginner', description: 'Basic everyday words', color: 'from-green-400 to-emerald-400' },
-    { value: 'A2' as const, label: 'A2 - Elementary', description: 'Common situations', color: 'from-blue-400 to-cyan-400' },
-    { value: 'B1' as const, label: 'B1 - Intermediate', description: 'Work and study topics', color: 'from-yellow-400 to-orange-400' },
-    { value: 'B2' as const, label: 'B2 - Upper-Intermediate', description: 'Complex ideas', color: 'from-red-400 to-pink-400' }
-  ];
+  // Only offer the levels used by the active deck
+  const levels = allLevels.filter(level => level.value === 'ALL' || levelScheme.includes(level.value));
 
   const selectedIndex = levels.findIndex(level => level.value === selectedLevel);
 
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, BarChart3, Flame, Target, Trophy, AlertTriangle, Download, Star } from 'lucide-react';
+import { ProgressStore, AttemptRecord, LearnerProfile, getLevelAccuracy } from '../services/progressStore';
+import { ReviewScheduler } from '../services/reviewScheduler';
+import { getDailyAccuracy, getStreakHistory, getMasteredByLevel, getHardestWords } from '../services/progressAnalytics';
+import { getDeckWords } from '../services/deckRegistry';
+import { getLearnerLevel } from '../services/scoring';
+import { exportAttemptsCsv, downloadFile } from '../services/deckExporters';
+import { Deck } from '../types/vocabulary';
+
+interface ProgressDashboardProps {
+  progressStore: ProgressStore;
+  reviewScheduler: ReviewScheduler;
+  learnerProfile: LearnerProfile | null;
+  deck: Deck;
+  onBack: () => void;
+}
+
+const levelColors = {
+  A1: 'from-green-400 to-emerald-400',
+  A2: 'from-blue-400 to-cyan-400',
+  B1: 'from-yellow-400 to-orange-400',
+  B2: 'from-red-400 to-pink-400',
+  C1: 'from-indigo-400 to-violet-500'
+};
+
+export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({
+  progressStore,
+  reviewScheduler,
+  learnerProfile,
+  deck,
+  onBack
+}) => {
+  const [attempts, setAttempts] = useState<AttemptRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    progressStore.getAttempts()
+      .then(setAttempts)
+      .catch(error => console.warn('Failed to load attempt history:', error))
+      .finally(() => setIsLoading(false));
+  }, [progressStore, learnerProfile]);
+
+  const dailyAccuracy = getDailyAccuracy(attempts);
+  const streakHistory = getStreakHistory(attempts).slice(-20);
+  const longestRun = Math.max(1, ...streakHistory.map(run => run.length));
+  const deckWords = new Set(deck.words.map(word => word.word.toLowerCase()));
+  const masteredByLevel = getMasteredByLevel(
+    reviewScheduler.getCards().filter(card => deckWords.has(card.word.word.toLowerCase()))
+  );
+  const hardestWords = getHardestWords(attempts);
+  const levelAccuracy = learnerProfile ? getLevelAccuracy(learnerProfile) : null;
+  const learnerLevel = getLearnerLevel(learnerProfile?.xp ?? 0);
+
+  const overallAccuracy = learnerProfile && learnerProfile.totalAttempted > 0
+    ? Math.round((learnerProfile.correctAnswers / learnerProfile.totalAttempted) * 100)
+    : 0;
+
+  const handleExportResults = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`vocaibulary-results-${date}.csv`, exportAttemptsCsv(attempts), 'text/csv');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 p-3 flex flex-col">
+      <div className="max-w-md mx-auto w-full flex flex-col gap-4">
+        {/* Header */}
+        <div className="liquid-glass-header py-3 px-4 animate-slide-up">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+              title="Back to Home"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span className="font-light text-sm">Back</span>
+            </button>
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <BarChart3 className="w-4 h-4 text-blue-500" />
+              Progress
+            </div>
+            <button
+              onClick={handleExportResults}
+              disabled={!attempts.length}
+              className="flex items-center gap-1 text-xs text-gray-600 hover:text-blue-600 disabled:text-gray-300 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+              title="Export all attempts as CSV"
+            >
+              <Download className="w-4 h-4" />
+              Export
+            </button>
+          </div>
+        </div>
+
+        {/* Lifetime Totals */}
+        <div className="grid grid-cols-3 gap-3 animate-fade-in-up">
+          <div className="liquid-glass-instruction-card p-4 text-center">
+            <Target className="w-4 h-4 text-blue-500 mx-auto mb-1" />
+            <div className="text-lg font-medium text-gray-900">{overallAccuracy}%</div>
+            <div className="text-xs text-gray-600 font-light">
+              {learnerProfile?.correctAnswers ?? 0}/{learnerProfile?.totalAttempted ?? 0} correct
+            </div>
+          </div>
+          <div className="liquid-glass-instruction-card p-4 text-center">
+            <Flame className="w-4 h-4 text-orange-500 mx-auto mb-1" />
+            <div className="text-lg font-medium text-gray-900">{learnerProfile?.currentStreak ?? 0}</div>
+            <div className="text-xs text-gray-600 font-light">Current streak</div>
+          </div>
+          <div className="liquid-glass-instruction-card p-4 text-center">
+            <Trophy className="w-4 h-4 text-yellow-500 mx-auto mb-1" />
+            <div className="text-lg font-medium text-gray-900">{learnerProfile?.bestStreak ?? 0}</div>
+            <div className="text-xs text-gray-600 font-light">Best streak</div>
+          </div>
+        </div>
+
+        {/* Learner Level */}
+        <div className="liquid-glass-card p-5 animate-fade-in-up" style={{ animationDelay: '0.05s' }}>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Star className="w-4 h-4 text-yellow-500" />
+              Level {learnerLevel.level}
+            </h3>
+            <span className="text-xs text-gray-600 font-light">{learnerProfile?.xp ?? 0} XP</span>
+          </div>
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-yellow-400 to-orange-400"
+              style={{ width: `${(learnerLevel.xpIntoLevel / learnerLevel.xpForNextLevel) * 100}%` }}
+            />
+          </div>
+          <div className="text-xs text-gray-500 font-light mt-2">
+            {learnerLevel.xpForNextLevel - learnerLevel.xpIntoLevel} XP to level {learnerLevel.level + 1}
+          </div>
+        </div>
+
+        {/* Accuracy Over Time */}
+        <div className="liquid-glass-card p-5 animate-fade-in-up" style={{ animationDelay: '0.1s' }}>
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Accuracy (last 14 days)</h3>
+          <div className="flex items-end gap-1 h-24">
+            {dailyAccuracy.map(day => (
+              <div
+                key={day.date}
+                className="flex-1 flex flex-col justify-end h-full"
+                title={day.attempted > 0 ? `${day.date}: ${day.accuracy}% of ${day.attempted}` : `${day.date}: no practice`}
+              >
+                <div
+                  className={`rounded-t ${day.attempted > 0 ? 'bg-gradient-to-t from-blue-500 to-indigo-400' : 'bg-gray-200'}`}
+                  style={{ height: day.attempted > 0 ? `${Math.max(4, day.accuracy)}%` : '4%' }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 font-light mt-2">
+            <span>{dailyAccuracy[0]?.date.slice(5)}</span>
+            <span>Today</span>
+          </div>
+        </div>
+
+        {/* Words Mastered per Level */}
+        <div className="liquid-glass-card p-5 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Words mastered by level ({deck.name})</h3>
+          <div className="space-y-3">
+            {deck.levelScheme.map(level => {
+              const total = getDeckWords(deck, level).length;
+              const mastered = masteredByLevel[level];
+              const percent = total > 0 ? Math.min(100, Math.round((mastered / total) * 100)) : 0;
+              const accuracy = levelAccuracy?.[level];
+
+              return (
+                <div key={level}>
+                  <div className="flex justify-between text-xs text-gray-700 mb-1">
+                    <span className="font-medium">{level}</span>
+                    <span className="font-light">
+                      {mastered}/{total} mastered{accuracy !== null && accuracy !== undefined ? ` · ${accuracy}% accuracy` : ''}
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-white/50 overflow-hidden">
+                    <div className={`h-full rounded-full bg-gradient-to-r ${levelColors[level]}`} style={{ width: `${percent}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Streak History */}
+        <div className="liquid-glass-card p-5 animate-fade-in-up" style={{ animationDelay: '0.3s' }}>
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Streak history</h3>
+          {streakHistory.length ? (
+            <div className="flex items-end gap-1 h-20">
+              {streakHistory.map((run, index) => (
+                <div
+                  key={`${run.endedAt}-${index}`}
+                  className="flex-1 rounded-t bg-gradient-to-t from-orange-500 to-yellow-400"
+                  style={{ height: `${Math.max(8, (run.length / longestRun) * 100)}%` }}
+                  title={`${run.length} in a row`}
+                />
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500 font-light">No streaks yet. Answer a few words correctly in a row!</p>
+          )}
+        </div>
+
+        {/* Hardest Words */}
+        <div className="liquid-glass-card p-5 mb-4 animate-fade-in-up" style={{ animationDelay: '0.4s' }}>
+          <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-red-500" />
+            Hardest words
+          </h3>
+          {hardestWords.length ? (
+            <ol className="space-y-2">
+              {hardestWords.map((entry, index) => (
+                <li key={entry.word} className="flex items-center justify-between text-sm text-gray-700">
+                  <span>
+                    <span className="text-gray-400 mr-2">{index + 1}.</span>
+                    <span className="font-medium">{entry.word}</span>
+                    <span className="text-xs text-gray-500 ml-2">{entry.level}</span>
+                  </span>
+                  <span className="text-xs font-light">
+                    {entry.failureRate}% missed ({entry.failed}/{entry.attempted})
+                  </span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-xs text-gray-500 font-light">
+              {isLoading ? 'Loading history...' : 'No missed words yet.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, Mic, RotateCcw, Volume2 } from 'lucide-react';
+import { SpeechService } from '../services/speechService';
+import { ProgressStore, PronunciationRecord } from '../services/progressStore';
+import { ReviewScheduler } from '../services/reviewScheduler';
+import { scorePronunciation, PronunciationScore } from '../services/pronunciationScorer';
+import { Deck, LevelFilter, Word } from '../types/vocabulary';
+
+interface PronunciationPracticeProps {
+  speechService: SpeechService | null;
+  progressStore: ProgressStore;
+  reviewScheduler: ReviewScheduler;
+  deck: Deck;
+  level: LevelFilter;
+  onBack: () => void;
+}
+
+type PracticePhase = 'speaking' | 'listening' | 'scored' | 'missed';
+
+const getScoreLabel = (score: number): { label: string; color: string } => {
+  if (score >= 85) return { label: 'Excellent', color: 'text-green-600' };
+  if (score >= 65) return { label: 'Good', color: 'text-blue-600' };
+  if (score >= 40) return { label: 'Getting there', color: 'text-amber-600' };
+  return { label: 'Keep practicing', color: 'text-red-600' };
+};
+
+export const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({
+  speechService,
+  progressStore,
+  reviewScheduler,
+  deck,
+  level,
+  onBack
+}) => {
+  const [word, setWord] = useState<Word | null>(null);
+  const [phase, setPhase] = useState<PracticePhase>('speaking');
+  const [result, setResult] = useState<PronunciationScore | null>(null);
+  const [record, setRecord] = useState<PronunciationRecord | null>(null);
+  // Rounds still running when the learner leaves must not update the screen
+  const isMounted = useRef(true);
+  const hasStarted = useRef(false);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+      speechService?.stopListening();
+      speechService?.stopSpeaking();
+    };
+  }, [speechService]);
+
+  // Says the word, listens to the learner repeat it, then scores and stores the attempt
+  const practiceWord = useCallback(async (target: Word) => {
+    if (!speechService) return;
+
+    setWord(target);
+    setResult(null);
+    setPhase('speaking');
+
+    try {
+      await speechService.speakText(target.word);
+    } catch (error) {
+      console.error('Speech synthesis error:', error);
+    }
+    if (!isMounted.current) return;
+
+    setPhase('listening');
+    try {
+      const heard = await speechService.startListening();
+      if (!isMounted.current) return;
+
+      const score = scorePronunciation(heard, target.word);
+      setResult(score);
+      setPhase('scored');
+
+      const saved = await progressStore.recordPronunciation(target.word, target.level, score.score, Date.now())
+        .catch(error => {
+          console.warn('Failed to save pronunciation score:', error);
+          return null;
+        });
+      if (isMounted.current) {
+        setRecord(saved);
+      }
+
+      await speechService.speakText(`${getScoreLabel(score.score).label}. ${score.score} out of 100.`);
+    } catch (error) {
+      console.error('Speech recognition error:', error);
+      if (isMounted.current) {
+        setPhase('missed');
+      }
+    }
+  }, [speechService, progressStore]);
+
+  const handleNextWord = useCallback(() => {
+    const next = reviewScheduler.getNextWord(deck, level, word ? [word.word] : []);
+    setRecord(null);
+    progressStore.getPronunciation(next.word)
+      .then(saved => isMounted.current && setRecord(saved))
+      .catch(error => console.warn('Failed to load pronunciation score:', error));
+    practiceWord(next);
+  }, [reviewScheduler, deck, level, word, progressStore, practiceWord]);
+
+  // Start with a word as soon as the screen opens
+  useEffect(() => {
+    if (!hasStarted.current) {
+      hasStarted.current = true;
+      handleNextWord();
+    }
+  }, [handleNextWord]);
+
+  const handleHearAgain = () => {
+    if (word && speechService) {
+      speechService.speakText(word.word).catch(error => console.error('Speech synthesis error:', error));
+    }
+  };
+
+  const isBusy = phase === 'speaking' || phase === 'listening';
+  const instruction = {
+    speaking: 'Listen to the word...',
+    listening: 'Now say the word clearly.',
+    scored: 'Try the word again or move on to the next one.',
+    missed: 'I didn\'t catch that. Tap "Try again" and say the word.'
+  }[phase];
+
+  const getScoreCard = () => {
+    if (phase !== 'scored' || !result) return null;
+    const { label, color } = getScoreLabel(result.score);
+
+    return (
+      <div className="liquid-glass-instruction-card mb-4 animate-scale-in">
+        <div className={`text-3xl font-medium ${color}`}>{result.score}</div>
+        <div className={`text-sm font-medium mb-3 ${color}`}>{label}</div>
+
+        <div className="text-xs text-gray-600 mb-3">
+          {result.heardAs ? <>Heard as <span className="font-medium text-gray-800">"{result.heardAs}"</span></> : 'Nothing like the word was heard'}
+          {' · '}{Math.round(result.confidence * 100)}% sure
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-1 mb-3">
+          {result.comparison.map((phoneme, index) => (
+            <span
+              key={`${phoneme.target}-${index}`}
+              className={`px-1.5 py-0.5 rounded text-xs font-mono ${
+                phoneme.matches ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+              }`}
+              title={phoneme.matches ? 'Matched' : phoneme.heard ? `Heard ${phoneme.heard}` : 'Missing'}
+            >
+              {phoneme.target}
+            </span>
+          ))}
+        </div>
+
+        {record && (
+          <div className="text-xs text-gray-600 font-light">
+            Best {record.bestScore} · Average {record.averageScore} · {record.attempts} {record.attempts === 1 ? 'try' : 'tries'}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 p-3 flex flex-col">
+      <div className="max-w-md mx-auto w-full flex flex-col min-h-screen">
+        {/* Header */}
+        <div className="liquid-glass-header mb-4 py-3 px-4 animate-slide-up">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+              title="Back to Home"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span className="font-light text-sm">Back</span>
+            </button>
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Mic className="w-4 h-4 text-blue-500" />
+              Pronunciation
+            </div>
+          </div>
+        </div>
+
+        <div className="liquid-glass-game-card flex-1 flex flex-col justify-between p-6 animate-scale-in">
+          <div className="text-center">
+            <h2 className="text-2xl font-light text-gray-900 mb-4 tracking-tight animate-fade-in-up">
+              Listen & Repeat
+            </h2>
+
+            {word && (
+              <div key={`word-${word.word}`} className="liquid-glass-clue-card mb-4 animate-fade-in-up">
+                <div className="text-2xl font-medium text-gray-900 mb-1">{word.word}</div>
+                <div className="text-xs text-gray-600 font-light">
+                  {word.partOfSpeech} · {word.level}
+                  {record && phase !== 'scored' && ` · best so far ${record.bestScore}`}
+                </div>
+              </div>
+            )}
+
+            {getScoreCard()}
+          </div>
+
+          <div className="flex flex-col items-center gap-4">
+            <div
+              className={`w-20 h-20 rounded-full flex items-center justify-center transition-all duration-500 ${
+                phase === 'listening'
+                  ? 'bg-gradient-to-r from-red-400 to-pink-500 animate-pulse shadow-xl shadow-red-200'
+                  : 'bg-gradient-to-r from-blue-400 to-indigo-500 shadow-lg shadow-blue-200'
+              }`}
+            >
+              <Mic className="w-6 h-6 text-white" />
+            </div>
+
+            <div key={`instruction-${phase}`} className="liquid-glass-instruction-card animate-fade-in-up">
+              <p className="text-gray-800 leading-relaxed font-light text-sm text-center">{instruction}</p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 w-full">
+              <button
+                onClick={handleHearAgain}
+                disabled={isBusy}
+                className="liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+              >
+                <Volume2 className="w-4 h-4" />
+                Hear it
+              </button>
+              <button
+                onClick={() => word && practiceWord(word)}
+                disabled={isBusy || !word}
+                className="liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Try again
+              </button>
+              <button
+                onClick={handleNextWord}
+                disabled={isBusy}
+                className="bg-blue-500 text-white py-2 px-3 rounded-lg text-sm font-medium hover:bg-blue-600 disabled:bg-gray-300 transition-colors flex items-center justify-center gap-1"
+              >
+                Next
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Cpu, ChevronDown, Check, AlertTriangle } from 'lucide-react';
+import { getDefaultLLMSettings } from '../services/aiService';
+import { LLMAuthStyle, LLMProviderId, LLMProviderSettings, LLM_PROVIDER_LABELS, createLLMProvider } from '../services/llmProviders';
+
+interface ProviderSettingsProps {
+  settings: LLMProviderSettings;
+  onSettingsChange: (settings: LLMProviderSettings) => void;
+}
+
+const providerHints: Record<LLMProviderId, string> = {
+  openai: 'api.openai.com with an sk- key',
+  anthropic: 'Claude models with an sk-ant- key',
+  'openai-compatible': 'Azure, OpenRouter, Ollama, llama.cpp or any /chat/completions server'
+};
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ settings, onSettingsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<LLMProviderSettings>(settings);
+
+  const activeError = createLLMProvider(settings).validate();
+  const draftError = createLLMProvider(draft).validate();
+
+  const handleProviderSelect = (provider: LLMProviderId) => {
+    setDraft(provider === settings.provider ? settings : getDefaultLLMSettings(provider));
+  };
+
+  const handleSave = () => {
+    onSettingsChange(draft);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="mt-3 animate-fade-in-up" style={{ animationDelay: '0.4s' }}>
+      <button
+        onClick={() => {
+          setDraft(settings);
+          setIsOpen(!isOpen);
+        }}
+        className="w-full liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium flex items-center justify-center gap-2"
+      >
+        <Cpu className="w-5 h-5" />
+        AI Provider
+        <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      <p className={`text-xs text-center mt-2 font-light ${activeError ? 'text-amber-700' : 'text-gray-600'}`}>
+        {activeError
+          ? 'No AI provider configured - using offline clues'
+          : `${LLM_PROVIDER_LABELS[settings.provider]} · ${settings.model}`}
+      </p>
+
+      {isOpen && (
+        <div className="liquid-glass-instruction-card p-4 mt-3 space-y-3 animate-scale-in">
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(LLM_PROVIDER_LABELS) as LLMProviderId[]).map(provider => {
+              const isSelected = draft.provider === provider;
+
+              return (
+                <button
+                  key={provider}
+                  onClick={() => handleProviderSelect(provider)}
+                  className={`px-2 py-2 rounded-xl text-xs transition-all duration-200 ${
+                    isSelected
+                      ? 'bg-white border-2 border-blue-200 shadow-lg text-gray-900 font-medium'
+                      : 'liquid-glass-button border border-white/30 hover:border-white/50 text-gray-600'
+                  }`}
+                >
+                  {LLM_PROVIDER_LABELS[provider]}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 font-light">{providerHints[draft.provider]}</p>
+
+          <label className="block text-xs text-gray-600">
+            API key{draft.provider === 'openai-compatible' ? ' (optional)' : ''}
+            <input
+              type="password"
+              value={draft.apiKey}
+              onChange={(e) => setDraft({ ...draft, apiKey: e.target.value.trim() })}
+              autoComplete="off"
+              className="w-full mt-1 px-3 py-2 rounded-xl border border-gray-300 bg-white/80 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all"
+            />
+          </label>
+
+          <label className="block text-xs text-gray-600">
+            Base URL
+            <input
+              type="url"
+              value={draft.baseURL}
+              onChange={(e) => setDraft({ ...draft, baseURL: e.target.value.trim() })}
+              className="w-full mt-1 px-3 py-2 rounded-xl border border-gray-300 bg-white/80 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all"
+            />
+          </label>
+
+          <label className="block text-xs text-gray-600">
+            Model
+            <input
+              type="text"
+              value={draft.model}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value.trim() })}
+              className="w-full mt-1 px-3 py-2 rounded-xl border border-gray-300 bg-white/80 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all"
+            />
+          </label>
+
+          {/* Azure OpenAI takes the key in an "api-key" header and needs an api-version */}
+          {draft.provider === 'openai-compatible' && (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block text-xs text-gray-600">
+                Key header
+                <select
+                  value={draft.authStyle || 'bearer'}
+                  onChange={(e) => setDraft({ ...draft, authStyle: e.target.value as LLMAuthStyle })}
+                  className="w-full mt-1 px-3 py-2 rounded-xl border border-gray-300 bg-white/80 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all"
+                >
+                  <option value="bearer">Bearer token</option>
+                  <option value="api-key">api-key (Azure)</option>
+                </select>
+              </label>
+              <label className="block text-xs text-gray-600">
+                API version
+                <input
+                  type="text"
+                  value={draft.apiVersion || ''}
+                  onChange={(e) => setDraft({ ...draft, apiVersion: e.target.value.trim() })}
+                  placeholder="e.g. 2024-10-21"
+                  className="w-full mt-1 px-3 py-2 rounded-xl border border-gray-300 bg-white/80 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all"
+                />
+              </label>
+            </div>
+          )}
+
+          {draftError ? (
+            <p className="text-xs text-red-700 flex items-center gap-2">
+              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+              {draftError}
+            </p>
+          ) : (
+            <p className="text-xs text-green-700 flex items-center gap-2">
+              <Check className="w-3 h-3 flex-shrink-0" />
+              Settings look good
+            </p>
+          )}
+
+          <button
+            onClick={handleSave}
+            disabled={!!draftError}
+            className="w-full bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-2 px-4 rounded-xl text-sm font-medium hover:from-blue-600 hover:to-indigo-700 disabled:from-gray-300 disabled:to-gray-300 disabled:cursor-not-allowed transition-all"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
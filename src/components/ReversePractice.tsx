@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, BookOpenCheck, Mic, Volume2 } from 'lucide-react';
+import { SpeechService, SpeechMode } from '../services/speechService';
+import { AIService } from '../services/aiService';
+import { AttemptRecord, AnswerMode } from '../services/progressStore';
+import { ReviewScheduler } from '../services/reviewScheduler';
+import { AnswerVerdict } from '../services/answerEvaluator';
+import { ScoreBreakdown, scoreAnswer } from '../services/scoring';
+import {
+  ExplanationGrade,
+  EXPLANATION_VERDICTS,
+  getDefinitionOptions,
+  getReverseWords,
+  gradeExplanationOffline
+} from '../services/reverseExercise';
+import { Deck, LevelFilter, Word } from '../types/vocabulary';
+
+interface ReversePracticeProps {
+  speechService: SpeechService | null;
+  aiService: AIService | null;
+  speechMode: SpeechMode;
+  reviewScheduler: ReviewScheduler;
+  deck: Deck;
+  level: LevelFilter;
+  onAttempt: (attempt: AttemptRecord) => void;
+  onBack: () => void;
+}
+
+type ReversePhase = 'asking' | 'listening' | 'grading' | 'answered' | 'missed';
+
+interface ReverseResult {
+  isCorrect: boolean;
+  answer: string;
+  // Only for explanations; a picked definition is simply right or wrong
+  grade: ExplanationGrade | null;
+  score: ScoreBreakdown;
+}
+
+export const ReversePractice: React.FC<ReversePracticeProps> = ({
+  speechService,
+  aiService,
+  speechMode,
+  reviewScheduler,
+  deck,
+  level,
+  onAttempt,
+  onBack
+}) => {
+  const [word, setWord] = useState<Word | null>(null);
+  const [options, setOptions] = useState<string[]>([]);
+  const [phase, setPhase] = useState<ReversePhase>('asking');
+  const [explanation, setExplanation] = useState('');
+  const [result, setResult] = useState<ReverseResult | null>(null);
+  const [streak, setStreak] = useState(0);
+  const [askedAt, setAskedAt] = useState(0);
+  // Rounds still running when the learner leaves must not update the screen
+  const isMounted = useRef(true);
+  const hasStarted = useRef(false);
+
+  const reverseDeck = useMemo(() => ({ ...deck, words: getReverseWords(deck, level) }), [deck, level]);
+  const canSpeak = speechService !== null && speechMode !== 'disabled';
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+      speechService?.stopListening();
+      speechService?.stopSpeaking();
+    };
+  }, [speechService]);
+
+  const say = useCallback(async (text: string) => {
+    if (!canSpeak || !speechService) return;
+    try {
+      await speechService.speakText(text);
+    } catch (error) {
+      console.error('Speech synthesis error:', error);
+    }
+  }, [canSpeak, speechService]);
+
+  const handleNextWord = useCallback(() => {
+    if (!reverseDeck.words.length) return;
+
+    const next = reviewScheduler.getNextWord(reverseDeck, level, word ? [word.word] : []);
+    setWord(next);
+    setOptions(getDefinitionOptions(next, level, reverseDeck));
+    setResult(null);
+    setExplanation('');
+    setPhase('asking');
+    setAskedAt(Date.now());
+    say(`What does "${next.word}" mean?`);
+  }, [reviewScheduler, reverseDeck, level, word, say]);
+
+  // Start with a word as soon as the screen opens
+  useEffect(() => {
+    if (!hasStarted.current) {
+      hasStarted.current = true;
+      handleNextWord();
+    }
+  }, [handleNextWord]);
+
+  // Scores the answer, feeds it into the review schedule and the attempt history, then reads out the meaning
+  const finishRound = useCallback((answer: string, answerMode: AnswerMode, verdict: AnswerVerdict, grade: ExplanationGrade | null) => {
+    if (!word) return;
+
+    const isCorrect = verdict !== 'wrong';
+    const timestamp = Date.now();
+    const latencyMs = timestamp - askedAt;
+    const score = scoreAnswer({
+      level: word.level,
+      isCorrect,
+      verdict,
+      answerMode,
+      latencyMs,
+      hintsUsed: [],
+      streak: isCorrect ? streak + 1 : 0
+    });
+
+    reviewScheduler.recordReview(word, isCorrect);
+    onAttempt({
+      word: word.word.toLowerCase(),
+      level: word.level,
+      exerciseType: 'reverse',
+      answerMode,
+      answer,
+      isCorrect,
+      verdict,
+      points: score.total,
+      timestamp,
+      latencyMs
+    });
+
+    setStreak(isCorrect ? streak + 1 : 0);
+    setResult({ isCorrect, answer, grade, score });
+    setPhase('answered');
+
+    const opening = !isCorrect ? 'Not quite.' : verdict === 'close' ? 'Partly right.' : 'Correct!';
+    say(`${opening} ${grade?.feedback ?? ''} "${word.word}" means ${word.definition}.`);
+  }, [word, askedAt, streak, reviewScheduler, onAttempt, say]);
+
+  const isAnswering = phase === 'asking' || phase === 'missed';
+
+  const handleChoose = (option: string) => {
+    if (!word || !isAnswering) return;
+    const isCorrect = option === word.definition.trim();
+    finishRound(option, 'multiple_choice', isCorrect ? 'exact' : 'wrong', null);
+  };
+
+  // The AI provider grades explanations when there is one; otherwise key words are compared with the definition
+  const gradeExplanation = useCallback(async (text: string, answerMode: AnswerMode) => {
+    if (!word) return;
+
+    setPhase('grading');
+    const grade = aiService
+      ? await aiService.gradeExplanation(word, text).catch(error => {
+          console.warn('Failed to grade explanation, grading offline:', error);
+          return gradeExplanationOffline(text, word);
+        })
+      : gradeExplanationOffline(text, word);
+
+    if (isMounted.current) {
+      finishRound(text, answerMode, EXPLANATION_VERDICTS[grade.verdict], grade);
+    }
+  }, [word, aiService, finishRound]);
+
+  const handleExplainAloud = async () => {
+    if (!speechService || !word) return;
+
+    setPhase('listening');
+    try {
+      const { transcript } = await speechService.startListening();
+      if (!isMounted.current) return;
+      setExplanation(transcript);
+      await gradeExplanation(transcript, 'voice');
+    } catch (error) {
+      console.error('Speech recognition error:', error);
+      if (isMounted.current) {
+        setPhase('missed');
+      }
+    }
+  };
+
+  const handleExplainTyped = () => {
+    if (explanation.trim()) {
+      gradeExplanation(explanation.trim(), 'typed');
+    }
+  };
+
+  const getResultCard = () => {
+    if (phase !== 'answered' || !result || !word) return null;
+    const isPartial = result.grade?.verdict === 'partial';
+
+    return (
+      <div
+        className={`liquid-glass-feedback-card mb-4 animate-fade-in-up ${
+          result.isCorrect ? 'liquid-glass-feedback-correct' : 'liquid-glass-feedback-incorrect'
+        }`}
+      >
+        <div className={`font-medium text-lg mb-3 ${!result.isCorrect ? 'text-red-800' : isPartial ? 'text-amber-800' : 'text-green-800'}`}>
+          {!result.isCorrect ? '✗ Not quite right' : isPartial ? '✓ Partly right' : '✓ Excellent!'}
+        </div>
+        {result.grade && (
+          <div className="text-gray-700 text-sm mb-2">
+            {result.grade.feedback}
+            {result.grade.isOffline && <span className="block text-xs text-gray-500 mt-1">Graded offline by comparing key words</span>}
+          </div>
+        )}
+        <div className="text-gray-700 text-sm mb-2">
+          You {result.grade ? 'explained' : 'picked'}: <span className="font-medium">"{result.answer}"</span>
+        </div>
+        <div className="text-gray-700 text-sm mb-2">
+          <span className="font-medium">{word.word}</span> ({word.partOfSpeech}) means "{word.definition}"
+        </div>
+        {word.example && <div className="text-xs text-gray-600 italic mb-2">Example: "{word.example}"</div>}
+        {result.isCorrect && <div className="text-xs font-medium text-blue-600">+{result.score.total} points</div>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 p-3 flex flex-col">
+      <div className="max-w-md mx-auto w-full flex flex-col min-h-screen">
+        {/* Header */}
+        <div className="liquid-glass-header mb-4 py-3 px-4 animate-slide-up">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+              title="Back to Home"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span className="font-light text-sm">Back</span>
+            </button>
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <BookOpenCheck className="w-4 h-4 text-blue-500" />
+              Meanings
+            </div>
+            <div className="text-xs text-gray-600 font-light">
+              Streak: <span className="font-bold text-orange-500">{streak}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="liquid-glass-game-card flex-1 flex flex-col justify-between p-6 animate-scale-in">
+          <div className="text-center">
+            <h2 className="text-2xl font-light text-gray-900 mb-4 tracking-tight animate-fade-in-up">
+              What does it mean?
+            </h2>
+
+            {!reverseDeck.words.length && (
+              <div className="liquid-glass-instruction-card mb-4">
+                <p className="text-gray-700 text-sm font-light">
+                  None of the words in {deck.name} have a definition yet, so there is nothing to ask about.
+                </p>
+              </div>
+            )}
+
+            {word && (
+              <div key={`word-${word.word}`} className="liquid-glass-clue-card mb-4 animate-fade-in-up">
+                <div className="flex items-center justify-center gap-2">
+                  <span className="text-2xl font-medium text-gray-900">{word.word}</span>
+                  {canSpeak && (
+                    <button
+                      onClick={() => say(word.word)}
+                      className="text-gray-500 hover:text-blue-600 transition-colors p-1 rounded-lg hover:bg-white/20"
+                      title="Hear the word"
+                    >
+                      <Volume2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <div className="text-xs text-gray-600 font-light">{word.partOfSpeech} · {word.level}</div>
+              </div>
+            )}
+
+            {getResultCard()}
+
+            {/* Definitions to pick from */}
+            {word && isAnswering && (
+              <div className="space-y-2 mb-4 animate-fade-in-up" style={{ animationDelay: '0.1s' }}>
+                {options.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => handleChoose(option)}
+                    className="w-full liquid-glass-button border border-white/30 hover:border-blue-400/50 p-3 rounded-xl transition-all duration-200 hover:shadow-lg hover:bg-white/40 text-gray-800 text-sm text-left"
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col items-center gap-4">
+            {word && (isAnswering || phase === 'listening' || phase === 'grading') && (
+              <div className="w-full">
+                <div className="text-xs text-gray-600 text-center mb-2">
+                  {phase === 'listening' ? 'Listening... explain the word in your own words.'
+                    : phase === 'grading' ? 'Checking your explanation...'
+                    : phase === 'missed' ? 'I didn\'t catch that. Try again, or pick a definition.'
+                    : 'Or explain it in your own words for full points'}
+                </div>
+                {canSpeak ? (
+                  <button
+                    onClick={handleExplainAloud}
+                    disabled={!isAnswering}
+                    className={`w-full py-3 px-4 rounded-xl text-sm font-medium transition-colors flex items-center justify-center gap-2 ${
+                      phase === 'listening'
+                        ? 'bg-gradient-to-r from-red-400 to-pink-500 text-white animate-pulse'
+                        : 'bg-blue-500 text-white hover:bg-blue-600 disabled:bg-gray-300'
+                    }`}
+                  >
+                    <Mic className="w-4 h-4" />
+                    Explain aloud
+                  </button>
+                ) : (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={explanation}
+                      onChange={(e) => setExplanation(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleExplainTyped()}
+                      disabled={!isAnswering}
+                      placeholder="It means..."
+                      className="flex-1 px-4 py-3 rounded-xl border border-gray-300 bg-white/80 backdrop-blur-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-sm"
+                    />
+                    <button
+                      onClick={handleExplainTyped}
+                      disabled={!isAnswering || !explanation.trim()}
+                      className="bg-blue-500 text-white px-4 py-3 rounded-xl font-medium hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+                    >
+                      <ArrowRight className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {phase === 'answered' && (
+              <button
+                onClick={handleNextWord}
+                className="w-full bg-blue-500 text-white py-3 px-4 rounded-xl text-sm font-medium hover:bg-blue-600 transition-colors flex items-center justify-center gap-2"
+              >
+                Next word
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Flag, Home, RotateCcw, Target, Star } from 'lucide-react';
+import { ProgressStore, SessionRecord } from '../services/progressStore';
+import { SESSION_MODES } from '../services/sessionModes';
+
+interface SessionSummaryProps {
+  session: SessionRecord;
+  progressStore: ProgressStore;
+  onPlayAgain: () => void;
+  onGoHome: () => void;
+}
+
+// Earlier runs shown for comparison
+const PREVIOUS_RUNS = 5;
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const getAccuracy = (session: SessionRecord): number => {
+  return session.words.length > 0 ? Math.round((session.correctAnswers / session.words.length) * 100) : 0;
+};
+
+export const SessionSummary: React.FC<SessionSummaryProps> = ({
+  session,
+  progressStore,
+  onPlayAgain,
+  onGoHome
+}) => {
+  const [previousRuns, setPreviousRuns] = useState<SessionRecord[]>([]);
+
+  // Only runs of the same mode and deck are comparable
+  useEffect(() => {
+    progressStore.getSessions()
+      .then(sessions => setPreviousRuns(sessions
+        .filter(run => run.mode === session.mode && run.deckId === session.deckId && run.startedAt !== session.startedAt)
+        .reverse()))
+      .catch(error => console.warn('Failed to load earlier sessions:', error));
+  }, [progressStore, session]);
+
+  const bestPoints = previousRuns.length > 0 ? Math.max(...previousRuns.map(run => run.points)) : null;
+  const isNewBest = bestPoints !== null && session.points > bestPoints;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 p-3 flex flex-col">
+      <div className="max-w-md mx-auto w-full flex flex-col gap-4">
+        {/* Header */}
+        <div className="liquid-glass-header py-3 px-4 animate-slide-up">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onGoHome}
+              className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+              title="Return to Home"
+            >
+              <Home className="w-4 h-4" />
+              <span className="font-light text-sm">Home</span>
+            </button>
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Flag className="w-4 h-4 text-blue-500" />
+              {SESSION_MODES[session.mode].label} complete
+            </div>
+          </div>
+        </div>
+
+        {/* Session Totals */}
+        <div className="grid grid-cols-3 gap-3 animate-fade-in-up">
+          <div className="liquid-glass-instruction-card p-4 text-center">
+            <Target className="w-4 h-4 text-blue-500 mx-auto mb-1" />
+            <div className="text-lg font-medium text-gray-900">{session.correctAnswers}/{session.words.length}</div>
+            <div className="text-xs text-gray-600 font-light">{getAccuracy(session)}% correct</div>
+          </div>
+          <div className="liquid-glass-instruction-card p-4 text-center">
+            <Star className="w-4 h-4 text-yellow-500 mx-auto mb-1" />
+            <div className="text-lg font-medium text-gray-900">{session.points}</div>
+            <div className="text-xs text-gray-600 font-light">Points</div>
+          </div>
+          <div className="liquid-glass-instruction-card p-4 text-center">
+            <Clock className="w-4 h-4 text-orange-500 mx-auto mb-1" />
+            <div className="text-lg font-medium text-gray-900">{formatDuration(session.endedAt - session.startedAt)}</div>
+            <div className="text-xs text-gray-600 font-light">Time</div>
+          </div>
+        </div>
+
+        {bestPoints !== null && (
+          <div className="liquid-glass-instruction-card text-center text-sm animate-fade-in-up">
+            {isNewBest
+              ? <span className="font-medium text-green-700">New best! {session.points - bestPoints} points more than your previous best.</span>
+              : <span className="text-gray-700">Your best {SESSION_MODES[session.mode].label.toLowerCase()} is {bestPoints} points.</span>}
+          </div>
+        )}
+
+        {/* Every Word Attempted */}
+        <div className="liquid-glass-card p-5 animate-fade-in-up" style={{ animationDelay: '0.1s' }}>
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Words this session</h3>
+          {session.words.length === 0 ? (
+            <p className="text-xs text-gray-500 font-light">No words were answered.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500 text-left">
+                  <th className="font-medium pb-2">Correct answer</th>
+                  <th className="font-medium pb-2">Your answer</th>
+                  <th className="font-medium pb-2 text-right">Points</th>
+                </tr>
+              </thead>
+              <tbody>
+                {session.words.map((entry, index) => (
+                  <tr key={`${entry.word}-${index}`} className="border-t border-gray-200">
+                    <td className="py-1.5 font-medium text-gray-800">{entry.word}</td>
+                    <td className={`py-1.5 ${entry.isCorrect ? 'text-green-700' : 'text-red-700'}`}>
+                      {entry.isCorrect ? '✓' : '✗'} {entry.answer}
+                    </td>
+                    <td className="py-1.5 text-right text-gray-700">{entry.points}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Earlier Runs */}
+        {previousRuns.length > 0 && (
+          <div className="liquid-glass-card p-5 animate-fade-in-up" style={{ animationDelay: '0.15s' }}>
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Earlier runs</h3>
+            <ul className="space-y-2">
+              {previousRuns.slice(0, PREVIOUS_RUNS).map(run => (
+                <li key={run.id ?? run.startedAt} className="flex items-center justify-between text-xs text-gray-700">
+                  <span className="text-gray-500">{new Date(run.startedAt).toLocaleDateString()}</span>
+                  <span>{run.correctAnswers}/{run.words.length} correct</span>
+                  <span className={`font-medium ${run.points === bestPoints ? 'text-orange-500' : 'text-gray-800'}`}>
+                    {run.points} points
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
+          <button
+            onClick={onPlayAgain}
+            className="bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-3 px-6 rounded-2xl font-medium hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-xl flex items-center justify-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Play again
+          </button>
+          <button
+            onClick={onGoHome}
+            className="liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-3 px-6 rounded-2xl font-medium flex items-center justify-center gap-2"
+          >
+            <Home className="w-4 h-4" />
+            Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
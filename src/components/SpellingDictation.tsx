@@ -0,0 +1,335 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, Mic, PenLine, Volume2, MessageSquareText } from 'lucide-react';
+import { SpeechService } from '../services/speechService';
+import { AttemptRecord, AnswerMode } from '../services/progressStore';
+import { ReviewScheduler } from '../services/reviewScheduler';
+import { ScoreBreakdown, scoreAnswer } from '../services/scoring';
+import { SpellingDiffPart, diffSpelling, getSpokenSpelling, isSpelledCorrectly } from '../services/spellingDictation';
+import { Deck, LevelFilter, Word } from '../types/vocabulary';
+
+interface SpellingDictationProps {
+  speechService: SpeechService | null;
+  reviewScheduler: ReviewScheduler;
+  deck: Deck;
+  level: LevelFilter;
+  onAttempt: (attempt: AttemptRecord) => void;
+  onBack: () => void;
+}
+
+type DictationPhase = 'speaking' | 'spelling' | 'listening' | 'answered' | 'missed';
+
+interface DictationResult {
+  isCorrect: boolean;
+  attempt: string;
+  diff: SpellingDiffPart[];
+  score: ScoreBreakdown;
+}
+
+const DIFF_STYLES: Record<SpellingDiffPart['op'], string> = {
+  match: 'bg-green-100 text-green-700',
+  wrong: 'bg-red-100 text-red-700',
+  missing: 'bg-amber-100 text-amber-700',
+  extra: 'bg-red-100 text-red-700 line-through'
+};
+
+const DIFF_TITLES: Record<SpellingDiffPart['op'], string> = {
+  match: 'Right',
+  wrong: 'Wrong letter',
+  missing: 'Left out',
+  extra: 'Not in the word'
+};
+
+// Spaces in multi-word entries need something visible in the diff
+const showLetter = (letter: string | null): string => (letter === null ? '·' : letter === ' ' ? '␣' : letter);
+
+export const SpellingDictation: React.FC<SpellingDictationProps> = ({
+  speechService,
+  reviewScheduler,
+  deck,
+  level,
+  onAttempt,
+  onBack
+}) => {
+  const [word, setWord] = useState<Word | null>(null);
+  const [phase, setPhase] = useState<DictationPhase>('speaking');
+  const [spelling, setSpelling] = useState('');
+  const [result, setResult] = useState<DictationResult | null>(null);
+  const [streak, setStreak] = useState(0);
+  const [askedAt, setAskedAt] = useState(0);
+  // Rounds still running when the learner leaves must not update the screen
+  const isMounted = useRef(true);
+  const hasStarted = useRef(false);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+      speechService?.stopListening();
+      speechService?.stopSpeaking();
+    };
+  }, [speechService]);
+
+  const say = useCallback(async (text: string) => {
+    if (!speechService) return;
+    try {
+      await speechService.speakText(text);
+    } catch (error) {
+      console.error('Speech synthesis error:', error);
+    }
+  }, [speechService]);
+
+  const handleNextWord = useCallback(async () => {
+    const next = reviewScheduler.getNextWord(deck, level, word ? [word.word] : []);
+    setWord(next);
+    setSpelling('');
+    setResult(null);
+    setPhase('speaking');
+
+    await say(next.word);
+    if (isMounted.current) {
+      setPhase('spelling');
+      // Time to answer starts once the word has been heard
+      setAskedAt(Date.now());
+    }
+  }, [reviewScheduler, deck, level, word, say]);
+
+  // Start with a word as soon as the screen opens
+  useEffect(() => {
+    if (!hasStarted.current) {
+      hasStarted.current = true;
+      handleNextWord();
+    }
+  }, [handleNextWord]);
+
+  // Compares the spelling letter by letter, then scores it and feeds it into the review schedule and history
+  const checkSpelling = useCallback((attempt: string, answerMode: AnswerMode) => {
+    if (!word) return;
+
+    const isCorrect = isSpelledCorrectly(attempt, word.word);
+    const timestamp = Date.now();
+    const latencyMs = timestamp - askedAt;
+    const score = scoreAnswer({
+      level: word.level,
+      isCorrect,
+      verdict: isCorrect ? 'exact' : 'wrong',
+      answerMode,
+      latencyMs,
+      hintsUsed: [],
+      streak: isCorrect ? streak + 1 : 0
+    });
+
+    reviewScheduler.recordReview(word, isCorrect);
+    onAttempt({
+      word: word.word.toLowerCase(),
+      level: word.level,
+      exerciseType: 'dictation',
+      answerMode,
+      answer: attempt,
+      isCorrect,
+      verdict: isCorrect ? 'exact' : 'wrong',
+      points: score.total,
+      timestamp,
+      latencyMs
+    });
+
+    setStreak(isCorrect ? streak + 1 : 0);
+    setResult({ isCorrect, attempt, diff: diffSpelling(attempt, word.word), score });
+    setPhase('answered');
+
+    const letters = word.word.toUpperCase().split('').filter(letter => letter !== ' ').join(', ');
+    say(isCorrect ? 'Correct!' : `Not quite. ${word.word} is spelled ${letters}.`);
+  }, [word, askedAt, streak, reviewScheduler, onAttempt, say]);
+
+  const isSpelling = phase === 'spelling' || phase === 'missed';
+
+  const handleSubmitTyped = () => {
+    if (isSpelling && spelling.trim()) {
+      checkSpelling(spelling.trim(), 'typed');
+    }
+  };
+
+  // Letters are spelled one by one and joined; a whole word would be spelled by the recognizer, not the learner
+  const handleSpellAloud = async () => {
+    if (!speechService) return;
+
+    setPhase('listening');
+    try {
+      const heard = await speechService.startListening();
+      if (!isMounted.current) return;
+
+      const spelled = getSpokenSpelling(heard);
+      if (!spelled) {
+        setPhase('missed');
+        return;
+      }
+      setSpelling(spelled);
+      checkSpelling(spelled, 'voice');
+    } catch (error) {
+      console.error('Speech recognition error:', error);
+      if (isMounted.current) {
+        setPhase('missed');
+      }
+    }
+  };
+
+  const instruction = {
+    speaking: 'Listen to the word...',
+    spelling: 'Type the word, or spell it aloud letter by letter.',
+    listening: 'Listening... say each letter: "a, b, a, n, d, o, n".',
+    answered: result?.isCorrect ? 'Well spelled! Move on to the next word.' : 'Check the letters below, then move on.',
+    missed: 'I didn\'t hear separate letters. Spell the word one letter at a time, or type it.'
+  }[phase];
+
+  const getResultCard = () => {
+    if (phase !== 'answered' || !result || !word) return null;
+
+    return (
+      <div
+        className={`liquid-glass-feedback-card mb-4 animate-fade-in-up ${
+          result.isCorrect ? 'liquid-glass-feedback-correct' : 'liquid-glass-feedback-incorrect'
+        }`}
+      >
+        <div className={`font-medium text-lg mb-3 ${result.isCorrect ? 'text-green-800' : 'text-red-800'}`}>
+          {result.isCorrect ? '✓ Well spelled!' : '✗ Not quite right'}
+        </div>
+
+        {!result.isCorrect && (
+          <div className="mb-3">
+            <div className="flex flex-wrap justify-center gap-0.5 font-mono text-sm">
+              {result.diff.map((part, index) => (
+                <div key={index} className={`flex flex-col items-center rounded px-1 ${DIFF_STYLES[part.op]}`} title={DIFF_TITLES[part.op]}>
+                  <span>{showLetter(part.typed)}</span>
+                  <span className="font-medium">{showLetter(part.expected)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-gray-500 mt-2">Top: your spelling · Bottom: the word</div>
+          </div>
+        )}
+
+        <div className="text-gray-700 text-sm mb-2">
+          <span className="font-medium">{word.word}</span> ({word.partOfSpeech}){word.definition && ` - ${word.definition}`}
+        </div>
+        {word.example && <div className="text-xs text-gray-600 italic mb-2">Example: "{word.example}"</div>}
+        {result.isCorrect && <div className="text-xs font-medium text-blue-600">+{result.score.total} points</div>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 p-3 flex flex-col">
+      <div className="max-w-md mx-auto w-full flex flex-col min-h-screen">
+        {/* Header */}
+        <div className="liquid-glass-header mb-4 py-3 px-4 animate-slide-up">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+              title="Back to Home"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span className="font-light text-sm">Back</span>
+            </button>
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <PenLine className="w-4 h-4 text-blue-500" />
+              Dictation
+            </div>
+            <div className="text-xs text-gray-600 font-light">
+              Streak: <span className="font-bold text-orange-500">{streak}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="liquid-glass-game-card flex-1 flex flex-col justify-between p-6 animate-scale-in">
+          <div className="text-center">
+            <h2 className="text-2xl font-light text-gray-900 mb-4 tracking-tight animate-fade-in-up">
+              Listen & Spell
+            </h2>
+
+            {word && (
+              <div key={`word-${word.word}`} className="liquid-glass-clue-card mb-4 animate-fade-in-up">
+                <div className="text-xs text-gray-600 font-light mb-3">
+                  {word.partOfSpeech} · {word.level}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => say(word.word)}
+                    disabled={phase === 'speaking' || phase === 'listening'}
+                    className="liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+                  >
+                    <Volume2 className="w-4 h-4" />
+                    Hear word
+                  </button>
+                  <button
+                    onClick={() => say(word.example)}
+                    disabled={!word.example || phase === 'speaking' || phase === 'listening'}
+                    className="liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+                    title={word.example ? 'Hear the word in its example sentence' : 'This word has no example sentence'}
+                  >
+                    <MessageSquareText className="w-4 h-4" />
+                    In a sentence
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {getResultCard()}
+          </div>
+
+          <div className="flex flex-col items-center gap-4">
+            <div key={`instruction-${phase}`} className="liquid-glass-instruction-card animate-fade-in-up">
+              <p className="text-gray-800 leading-relaxed font-light text-sm text-center">{instruction}</p>
+            </div>
+
+            {phase !== 'answered' ? (
+              <div className="w-full">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={spelling}
+                    onChange={(e) => setSpelling(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSubmitTyped()}
+                    disabled={!isSpelling}
+                    placeholder="Type the word..."
+                    autoComplete="off"
+                    autoCorrect="off"
+                    autoCapitalize="off"
+                    spellCheck={false}
+                    className="flex-1 px-4 py-3 rounded-xl border border-gray-300 bg-white/80 backdrop-blur-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-center"
+                  />
+                  <button
+                    onClick={handleSubmitTyped}
+                    disabled={!isSpelling || !spelling.trim()}
+                    className="bg-blue-500 text-white px-4 py-3 rounded-xl font-medium hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+                  >
+                    <ArrowRight className="w-4 h-4" />
+                  </button>
+                </div>
+                <button
+                  onClick={handleSpellAloud}
+                  disabled={!isSpelling}
+                  className={`w-full mt-2 py-2 px-4 rounded-xl text-sm font-medium transition-colors flex items-center justify-center gap-2 ${
+                    phase === 'listening'
+                      ? 'bg-gradient-to-r from-red-400 to-pink-500 text-white animate-pulse'
+                      : 'liquid-glass-button border border-white/30 hover:border-white/50 text-gray-700 disabled:opacity-50'
+                  }`}
+                >
+                  <Mic className="w-4 h-4" />
+                  Spell aloud
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={handleNextWord}
+                className="w-full bg-blue-500 text-white py-3 px-4 rounded-xl text-sm font-medium hover:bg-blue-600 transition-colors flex items-center justify-center gap-2"
+              >
+                Next word
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
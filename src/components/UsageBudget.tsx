@@ -0,0 +1,68 @@
+import React from 'react';
+import { Gauge, AlertTriangle } from 'lucide-react';
+import { BudgetStatus, BudgetLevel } from '../services/usageLedger';
+
+interface UsageBudgetProps {
+  statuses: BudgetStatus[];
+}
+
+const metricLabels: Record<BudgetStatus['metric'], string> = {
+  tokens: 'AI tokens',
+  characters: 'Speech characters'
+};
+
+const barColors: Record<BudgetLevel, string> = {
+  ok: 'bg-green-500',
+  warning: 'bg-amber-500',
+  exceeded: 'bg-red-500'
+};
+
+const formatAmount = (amount: number): string => amount.toLocaleString();
+
+export const UsageBudget: React.FC<UsageBudgetProps> = ({ statuses }) => {
+  if (!statuses.length) {
+    return null;
+  }
+
+  const isLow = (metric: BudgetStatus['metric']) =>
+    statuses.some(status => status.metric === metric && status.level !== 'ok');
+  const savings = [
+    isLow('tokens') && 'only cached clues are generated',
+    isLow('characters') && 'speech is kept concise'
+  ].filter(Boolean);
+
+  return (
+    <div className="liquid-glass-instruction-card mt-4 animate-fade-in-up" style={{ animationDelay: '0.4s' }}>
+      <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center justify-center gap-2">
+        <Gauge className="w-4 h-4" />
+        Remaining Budget
+      </h3>
+
+      <div className="space-y-2">
+        {statuses.map(status => (
+          <div key={`${status.metric}-${status.period}`}>
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>{metricLabels[status.metric]} {status.period === 'day' ? 'today' : 'this month'}</span>
+              <span className={status.level === 'ok' ? '' : 'font-medium text-gray-900'}>
+                {formatAmount(status.remaining)} / {formatAmount(status.limit)}
+              </span>
+            </div>
+            <div className="w-full h-1.5 bg-gray-200 rounded-full mt-1 overflow-hidden">
+              <div
+                className={`h-full rounded-full ${barColors[status.level]}`}
+                style={{ width: `${Math.min(100, (status.used / Math.max(1, status.limit)) * 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {savings.length > 0 && (
+        <p className="text-xs text-amber-700 mt-3 flex items-start gap-2">
+          <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5" />
+          Budget running low: {savings.join(' and ')}.
+        </p>
+      )}
+    </div>
+  );
+};
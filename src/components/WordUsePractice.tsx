@@ -0,0 +1,309 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, Puzzle, Volume2 } from 'lucide-react';
+import { SpeechService, SpeechMode } from '../services/speechService';
+import { AIService } from '../services/aiService';
+import { AttemptRecord } from '../services/progressStore';
+import { ReviewScheduler } from '../services/reviewScheduler';
+import { ScoreBreakdown, scoreAnswer } from '../services/scoring';
+import { BLANK } from '../services/clueEngine';
+import { createEnrichedExercise, EnrichedExercise, ENRICHED_EXERCISE_LABELS, isEnriched } from '../services/wordEnrichment';
+import { Deck, LevelFilter, Word, WordEnrichment } from '../types/vocabulary';
+
+interface WordUsePracticeProps {
+  speechService: SpeechService | null;
+  aiService: AIService | null;
+  speechMode: SpeechMode;
+  reviewScheduler: ReviewScheduler;
+  deck: Deck;
+  level: LevelFilter;
+  onEnrich: (deckId: string, word: string, enrichment: WordEnrichment) => void;
+  onAttempt: (attempt: AttemptRecord) => void;
+  onBack: () => void;
+}
+
+type WordUsePhase = 'loading' | 'asking' | 'answered' | 'unavailable';
+
+interface WordUseResult {
+  isCorrect: boolean;
+  answer: string;
+  score: ScoreBreakdown;
+}
+
+// Words tried before giving up on a question, since some words have no family, collocations or synonyms
+const MAX_WORDS_TRIED = 3;
+
+export const WordUsePractice: React.FC<WordUsePracticeProps> = ({
+  speechService,
+  aiService,
+  speechMode,
+  reviewScheduler,
+  deck,
+  level,
+  onEnrich,
+  onAttempt,
+  onBack
+}) => {
+  const [exercise, setExercise] = useState<EnrichedExercise | null>(null);
+  const [phase, setPhase] = useState<WordUsePhase>('loading');
+  const [result, setResult] = useState<WordUseResult | null>(null);
+  const [streak, setStreak] = useState(0);
+  const [askedAt, setAskedAt] = useState(0);
+  // Rounds still running when the learner leaves must not update the screen
+  const isMounted = useRef(true);
+  const hasStarted = useRef(false);
+
+  // Without an AI provider only words enriched earlier can be asked about
+  const practiceDeck = useMemo(() => aiService ? deck : { ...deck, words: deck.words.filter(isEnriched) }, [aiService, deck]);
+  const canSpeak = speechService !== null && speechMode !== 'disabled';
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+      speechService?.stopSpeaking();
+    };
+  }, [speechService]);
+
+  const say = useCallback(async (text: string) => {
+    if (!canSpeak || !speechService) return;
+    try {
+      await speechService.speakText(text);
+    } catch (error) {
+      console.error('Speech synthesis error:', error);
+    }
+  }, [canSpeak, speechService]);
+
+  // The word as it is, or enriched by the AI provider and saved with the deck first; null when that fails
+  const getEnrichedWord = useCallback(async (word: Word): Promise<Word | null> => {
+    if (isEnriched(word)) return word;
+    if (!aiService) return null;
+
+    try {
+      const enrichment = await aiService.enrichWord(word);
+      onEnrich(deck.id, word.word, enrichment);
+      return { ...word, ...enrichment };
+    } catch (error) {
+      console.warn(`Failed to enrich "${word.word}":`, error);
+      return null;
+    }
+  }, [aiService, deck.id, onEnrich]);
+
+  const handleNextWord = useCallback(async () => {
+    if (!practiceDeck.words.length) {
+      setPhase('unavailable');
+      return;
+    }
+
+    setPhase('loading');
+    setResult(null);
+
+    const tried: string[] = exercise ? [exercise.word.word] : [];
+    for (let attempt = 0; attempt < MAX_WORDS_TRIED; attempt++) {
+      const word = await getEnrichedWord(reviewScheduler.getNextWord(practiceDeck, level, tried));
+      if (!isMounted.current) return;
+
+      const next = word ? createEnrichedExercise(word, deck, level) : null;
+      if (next) {
+        setExercise(next);
+        setPhase('asking');
+        setAskedAt(Date.now());
+        say(next.speech);
+        return;
+      }
+      if (word) tried.push(word.word);
+    }
+
+    setExercise(null);
+    setPhase('unavailable');
+  }, [practiceDeck, deck, level, exercise, reviewScheduler, getEnrichedWord, say]);
+
+  // Start with a word as soon as the screen opens
+  useEffect(() => {
+    if (!hasStarted.current) {
+      hasStarted.current = true;
+      handleNextWord();
+    }
+  }, [handleNextWord]);
+
+  // Scores the choice, feeds it into the review schedule and the attempt history, then reads out the answer
+  const handleChoose = (option: string) => {
+    if (!exercise || phase !== 'asking') return;
+
+    const { word } = exercise;
+    const isCorrect = option === exercise.answer;
+    const timestamp = Date.now();
+    const latencyMs = timestamp - askedAt;
+    const score = scoreAnswer({
+      level: word.level,
+      isCorrect,
+      verdict: isCorrect ? 'exact' : 'wrong',
+      answerMode: 'multiple_choice',
+      latencyMs,
+      hintsUsed: [],
+      streak: isCorrect ? streak + 1 : 0
+    });
+
+    reviewScheduler.recordReview(word, isCorrect);
+    onAttempt({
+      word: word.word.toLowerCase(),
+      level: word.level,
+      exerciseType: exercise.type,
+      answerMode: 'multiple_choice',
+      answer: option,
+      isCorrect,
+      verdict: isCorrect ? 'exact' : 'wrong',
+      points: score.total,
+      timestamp,
+      latencyMs
+    });
+
+    setStreak(isCorrect ? streak + 1 : 0);
+    setResult({ isCorrect, answer: option, score });
+    setPhase('answered');
+    say(`${isCorrect ? 'Correct!' : 'Not quite.'} The answer is ${exercise.answer}.`);
+  };
+
+  const getResultCard = () => {
+    if (phase !== 'answered' || !result || !exercise) return null;
+    const { word } = exercise;
+
+    return (
+      <div
+        className={`liquid-glass-feedback-card mb-4 animate-fade-in-up ${
+          result.isCorrect ? 'liquid-glass-feedback-correct' : 'liquid-glass-feedback-incorrect'
+        }`}
+      >
+        <div className={`font-medium text-lg mb-3 ${result.isCorrect ? 'text-green-800' : 'text-red-800'}`}>
+          {result.isCorrect ? '✓ Excellent!' : '✗ Not quite right'}
+        </div>
+        <div className="text-gray-700 text-sm mb-2">
+          {exercise.text.includes(BLANK)
+            ? <>"{exercise.text.split(BLANK).join(exercise.answer)}"</>
+            : <>The answer is <span className="font-medium">"{exercise.answer}"</span></>}
+        </div>
+        {!result.isCorrect && (
+          <div className="text-gray-700 text-sm mb-2">
+            You picked: <span className="font-medium">"{result.answer}"</span>
+          </div>
+        )}
+        <div className="text-left text-xs text-gray-600 space-y-1 mb-2">
+          {word.family && word.family.length > 0 && (
+            <div>
+              <span className="font-medium text-gray-700">Word family:</span>{' '}
+              {[word.word, ...word.family.map(member => `${member.word} (${member.partOfSpeech})`)].join(', ')}
+            </div>
+          )}
+          {word.collocations && word.collocations.length > 0 && (
+            <div><span className="font-medium text-gray-700">Goes with:</span> {word.collocations.join(', ')}</div>
+          )}
+          {word.synonyms && word.synonyms.length > 0 && (
+            <div><span className="font-medium text-gray-700">Synonyms:</span> {word.synonyms.join(', ')}</div>
+          )}
+          {word.antonyms && word.antonyms.length > 0 && (
+            <div><span className="font-medium text-gray-700">Opposites:</span> {word.antonyms.join(', ')}</div>
+          )}
+        </div>
+        {result.isCorrect && <div className="text-xs font-medium text-blue-600">+{result.score.total} points</div>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 p-3 flex flex-col">
+      <div className="max-w-md mx-auto w-full flex flex-col min-h-screen">
+        {/* Header */}
+        <div className="liquid-glass-header mb-4 py-3 px-4 animate-slide-up">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors duration-200 p-1 rounded-lg hover:bg-white/20"
+              title="Back to Home"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span className="font-light text-sm">Back</span>
+            </button>
+            <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Puzzle className="w-4 h-4 text-blue-500" />
+              Word Use
+            </div>
+            <div className="text-xs text-gray-600 font-light">
+              Streak: <span className="font-bold text-orange-500">{streak}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="liquid-glass-game-card flex-1 flex flex-col justify-between p-6 animate-scale-in">
+          <div className="text-center">
+            <h2 className="text-2xl font-light text-gray-900 mb-4 tracking-tight animate-fade-in-up">
+              {exercise ? ENRICHED_EXERCISE_LABELS[exercise.type] : 'Use the word'}
+            </h2>
+
+            {phase === 'loading' && (
+              <div className="liquid-glass-instruction-card mb-4">
+                <p className="text-gray-700 text-sm font-light">Preparing the next word...</p>
+              </div>
+            )}
+
+            {phase === 'unavailable' && (
+              <div className="liquid-glass-instruction-card mb-4">
+                <p className="text-gray-700 text-sm font-light">
+                  {practiceDeck.words.length
+                    ? 'No word family, collocations or synonyms could be found for the words tried. Try again, or choose another level.'
+                    : `No words in ${deck.name} have word families, collocations or synonyms yet. Set up an AI provider on the home screen to add them.`}
+                </p>
+              </div>
+            )}
+
+            {exercise && phase !== 'loading' && (
+              <div key={`exercise-${exercise.word.word}`} className="liquid-glass-clue-card mb-4 animate-fade-in-up">
+                <div className="text-xs text-gray-600 font-light mb-2">{exercise.instruction}</div>
+                <div className="flex items-center justify-center gap-2">
+                  <span className={`${exercise.type === 'synonym' ? 'text-2xl' : 'text-lg'} font-medium text-gray-900`}>
+                    {exercise.text}
+                  </span>
+                  {canSpeak && (
+                    <button
+                      onClick={() => say(exercise.speech)}
+                      className="text-gray-500 hover:text-blue-600 transition-colors p-1 rounded-lg hover:bg-white/20"
+                      title="Hear the question"
+                    >
+                      <Volume2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <div className="text-xs text-gray-600 font-light">{exercise.word.level}</div>
+              </div>
+            )}
+
+            {getResultCard()}
+
+            {/* Options to pick from */}
+            {exercise && phase === 'asking' && (
+              <div className="grid grid-cols-2 gap-2 mb-4 animate-fade-in-up" style={{ animationDelay: '0.1s' }}>
+                {exercise.options.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => handleChoose(option)}
+                    className="liquid-glass-button border border-white/30 hover:border-blue-400/50 p-3 rounded-xl transition-all duration-200 hover:shadow-lg hover:bg-white/40 text-gray-800 text-sm font-medium"
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {(phase === 'answered' || phase === 'unavailable') && (
+            <button
+              onClick={handleNextWord}
+              className="w-full bg-blue-500 text-white py-3 px-4 rounded-xl text-sm font-medium hover:bg-blue-600 transition-colors flex items-center justify-center gap-2"
+            >
+              {phase === 'unavailable' ? 'Try again' : 'Next word'}
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
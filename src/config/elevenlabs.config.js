@@ -62,7 +62,8 @@ export const elevenLabsConfig = {
   // Rate Limiting - More conservative settings to avoid 429 errors
   rateLimits: {
     requestsPerMinute: 60,        // Reduced from 120 to be more conservative
-    charactersPerMonth: 10000,    // Character limit per month (adjust based on your plan)
+    charactersPerDay: Number(import.meta.env.VITE_TTS_CHARACTER_BUDGET_DAILY) || 1000,      // Character budget per day
+    charactersPerMonth: Number(import.meta.env.VITE_TTS_CHARACTER_BUDGET_MONTHLY) || 10000, // Character limit per month (adjust based on your plan)
     retryAttempts: 5,             // Increased from 3 for better resilience
     retryDelay: 1500,             // Increased from 1000ms for better backoff
   },
@@ -14,11 +14,72 @@ const envSchema = {
     type: 'string',
     description: 'OpenAI API key for AI-powered features'
   },
+  VITE_LLM_PROVIDER: {
+    required: false,
+    type: 'string',
+    default: 'openai',
+    description: 'LLM provider: openai, anthropic or openai-compatible'
+  },
+  VITE_ANTHROPIC_API_KEY: {
+    required: false,
+    type: 'string',
+    description: 'Anthropic API key when using the anthropic provider'
+  },
+  VITE_LLM_BASE_URL: {
+    required: false,
+    type: 'string',
+    description: 'Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1'
+  },
+  VITE_LLM_MODEL: {
+    required: false,
+    type: 'string',
+    description: 'Model name served by the OpenAI-compatible server'
+  },
+  VITE_LLM_API_KEY: {
+    required: false,
+    type: 'string',
+    description: 'Optional API key for the OpenAI-compatible server'
+  },
+  VITE_LLM_AUTH_STYLE: {
+    required: false,
+    type: 'string',
+    default: 'bearer',
+    description: 'How the OpenAI-compatible server takes the key: bearer, or api-key for Azure OpenAI'
+  },
+  VITE_LLM_API_VERSION: {
+    required: false,
+    type: 'string',
+    description: 'api-version query parameter for the OpenAI-compatible server, required by Azure OpenAI'
+  },
   VITE_ELEVENLABS_API_KEY: {
     required: false,
     type: 'string', 
     description: 'ElevenLabs API key for text-to-speech'
   },
+  VITE_TOKEN_BUDGET_DAILY: {
+    required: false,
+    type: 'string',
+    default: '50000',
+    description: 'LLM tokens that may be used per day'
+  },
+  VITE_TOKEN_BUDGET_MONTHLY: {
+    required: false,
+    type: 'string',
+    default: '1000000',
+    description: 'LLM tokens that may be used per month'
+  },
+  VITE_TTS_CHARACTER_BUDGET_DAILY: {
+    required: false,
+    type: 'string',
+    default: '1000',
+    description: 'ElevenLabs characters that may be synthesized per day'
+  },
+  VITE_TTS_CHARACTER_BUDGET_MONTHLY: {
+    required: false,
+    type: 'string',
+    default: '10000',
+    description: 'ElevenLabs characters that may be synthesized per month'
+  },
   VITE_APP_NAME: {
     required: false,
     type: 'string',
@@ -6,12 +6,37 @@
  */
 
 export const openAIConfig = {
+  // Provider: 'openai', 'anthropic' or 'openai-compatible' (Azure, OpenRouter, Ollama, llama.cpp...)
+  provider: import.meta.env.VITE_LLM_PROVIDER || 'openai',
+
   // API Configuration
   apiKey: import.meta.env.VITE_OPENAI_API_KEY,
   baseURL: 'https://api.openai.com/v1',
   
   // Model Settings
   model: 'gpt-3.5-turbo', // Options: 'gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo'
+
+  // Defaults for each provider; the setup screen can override them
+  providers: {
+    openai: {
+      apiKey: import.meta.env.VITE_OPENAI_API_KEY,
+      baseURL: 'https://api.openai.com/v1',
+      model: 'gpt-3.5-turbo'
+    },
+    anthropic: {
+      apiKey: import.meta.env.VITE_ANTHROPIC_API_KEY,
+      baseURL: 'https://api.anthropic.com/v1',
+      model: 'claude-3-5-haiku-latest'
+    },
+    'openai-compatible': {
+      apiKey: import.meta.env.VITE_LLM_API_KEY,
+      baseURL: import.meta.env.VITE_LLM_BASE_URL || 'http://localhost:11434/v1', // Ollama's default
+      model: import.meta.env.VITE_LLM_MODEL || 'llama3.1',
+      // 'bearer', or 'api-key' with an api-version for Azure OpenAI
+      authStyle: import.meta.env.VITE_LLM_AUTH_STYLE || 'bearer',
+      apiVersion: import.meta.env.VITE_LLM_API_VERSION || ''
+    }
+  },
   
   // Generation Parameters
   temperature: 0.7, // Controls randomness (0.0 = deterministic, 1.0 = very random)
@@ -25,7 +50,18 @@ export const openAIConfig = {
     retryAttempts: 3,         // Number of retry attempts on failure
     retryDelay: 1000,         // Initial retry delay in milliseconds
   },
+
+  // Token budgets across every request made with the shared key; near the limit only cached clues are used
+  budgets: {
+    tokensPerDay: Number(import.meta.env.VITE_TOKEN_BUDGET_DAILY) || 50000,
+    tokensPerMonth: Number(import.meta.env.VITE_TOKEN_BUDGET_MONTHLY) || 1000000
+  },
   
+  // Generated exercises that fail validation are sent back to the model this many times in total
+  validation: {
+    maxGenerationAttempts: 3
+  },
+
   // Timeout Settings
   timeout: 30000, // Request timeout in milliseconds (30 seconds)
   
@@ -39,7 +75,8 @@ export const openAIConfig = {
       A1: 'Use simple vocabulary and basic sentence structures suitable for beginners.',
       A2: 'Use elementary vocabulary with slightly more complex sentences.',
       B1: 'Use intermediate vocabulary with varied sentence structures.',
-      B2: 'Use upper-intermediate vocabulary with complex sentence patterns.'
+      B2: 'Use upper-intermediate vocabulary with complex sentence patterns.',
+      C1: 'Use advanced vocabulary and natural, idiomatic sentences.'
     }
   },
   
@@ -60,8 +97,12 @@ export const openAIConfig = {
 export const validateOpenAIConfig = () => {
   const errors = [];
   
-  if (!openAIConfig.apiKey || openAIConfig.apiKey === 'your_openai_api_key_here') {
-    errors.push('OpenAI API key is missing or not configured');
+  const providerConfig = openAIConfig.providers[openAIConfig.provider];
+  if (!providerConfig) {
+    errors.push(`Unknown LLM provider "${openAIConfig.provider}"`);
+  } else if (openAIConfig.provider !== 'openai-compatible' &&
+      (!providerConfig.apiKey || providerConfig.apiKey.includes('your_'))) {
+    errors.push(`${openAIConfig.provider} API key is missing or not configured`);
   }
   
   if (openAIConfig.temperature < 0 || openAIConfig.temperature > 1) {
@@ -80,7 +121,7 @@ export const validateOpenAIConfig = () => {
 
 /**
  * Gets the appropriate system prompt based on difficulty level
- * @param {string} level - The CEFR level (A1, A2, B1, B2)
+ * @param {string} level - The CEFR level (A1, A2, B1, B2, C1)
  * @returns {string} Combined system prompt
  */
 export const getSystemPrompt = (level = 'B1') => {
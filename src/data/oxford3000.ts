@@ -1,12 +1,21 @@
-export interface Word {
+import wordBank from './oxford3000.json';
+import { Word, WordLevel } from '../types/vocabulary';
+
+// One row of the imported word bank (see scripts/import-oxford3000.mjs)
+export interface WordBankEntry {
   word: string;
-  level: 'A1' | 'A2' | 'B1' | 'B2';
-  definition: string;
-  example: string;
-  partOfSpeech: string;
+  level: WordLevel;
+  homograph?: number;
+  sense?: string;
+  partsOfSpeech: string[];
 }
 
-export const oxford3000Words: Word[] = [
+const LEVELS: WordLevel[] = ['A1', 'A2', 'B1', 'B2'];
+
+export const wordBankVersion: string = wordBank.version;
+
+// Hand-written definitions and examples, used until the enrichment step covers the whole list
+const wordEnrichments: Word[] = [
   // A1 Level Words
   { word: "about", level: "A1", definition: "on the subject of; concerning", example: "Tell me about your day.", partOfSpeech: "preposition" },
   { word: "above", level: "A1", definition: "in or to a higher position than something else", example: "The plane flew above the clouds.", partOfSpeech: "preposition" },
@@ -59,48 +68,61 @@ export const oxford3000Words: Word[] = [
   { word: "accurate", level: "B1", definition: "correct in all details; exact", example: "Please provide accurate information.", partOfSpeech: "adjective" },
   { word: "acquire", level: "B1", definition: "buy or obtain an asset or object for oneself", example: "The company plans to acquire new technology.", partOfSpeech: "verb" },
   { word: "adapt", level: "B1", definition: "become adjusted to new conditions", example: "Animals must adapt to survive.", partOfSpeech: "verb" },
-  { word: "adequate", level: "B1", definition: "satisfactory or acceptable in quality or quantity", example: "The salary is adequate for my needs.", partOfSpeech: "adjective" },
   { word: "administration", level: "B1", definition: "the process or activity of running a business or organization", example: "She works in hospital administration.", partOfSpeech: "noun" },
   { word: "adopt", level: "B1", definition: "choose to take up, follow, or use", example: "The company will adopt new policies.", partOfSpeech: "verb" },
-  { word: "agriculture", level: "B1", definition: "the science or practice of farming", example: "Agriculture is important for food production.", partOfSpeech: "noun" },
   { word: "aircraft", level: "B1", definition: "an airplane, helicopter, or other machine capable of flight", example: "The aircraft landed safely.", partOfSpeech: "noun" },
   { word: "alternative", level: "B1", definition: "available as another possibility or choice", example: "We need an alternative solution.", partOfSpeech: "adjective" },
   { word: "amazing", level: "B1", definition: "causing great surprise or wonder; astonishing", example: "The view from the mountain was amazing.", partOfSpeech: "adjective" },
   { word: "analysis", level: "B1", definition: "detailed examination of the elements or structure of something", example: "The analysis revealed interesting patterns.", partOfSpeech: "noun" },
   { word: "ancient", level: "B1", definition: "belonging to the very distant past", example: "They visited ancient ruins in Greece.", partOfSpeech: "adjective" },
   { word: "annual", level: "B1", definition: "occurring once every year", example: "The company holds an annual meeting.", partOfSpeech: "adjective" },
-  { word: "anxiety", level: "B1", definition: "a feeling of worry, nervousness, or unease", example: "She felt anxiety before the exam.", partOfSpeech: "noun" },
   { word: "apparent", level: "B1", definition: "clearly visible or understood; obvious", example: "It was apparent that he was tired.", partOfSpeech: "adjective" },
   { word: "appeal", level: "B1", definition: "make a serious or urgent request", example: "They appeal for donations to help the victims.", partOfSpeech: "verb" },
 
   // B2 Level Words
   { word: "abandon", level: "B2", definition: "cease to support or look after someone; desert", example: "They had to abandon their home due to flooding.", partOfSpeech: "verb" },
-  { word: "abstract", level: "B2", definition: "existing in thought or as an idea but not having a physical existence", example: "Love is an abstract concept.", partOfSpeech: "adjective" },
-  { word: "accelerate", level: "B2", definition: "begin to move more quickly", example: "The car began to accelerate down the highway.", partOfSpeech: "verb" },
-  { word: "accommodate", level: "B2", definition: "provide lodging or sufficient space for", example: "The hotel can accommodate 200 guests.", partOfSpeech: "verb" },
-  { word: "accumulate", level: "B2", definition: "gather together or acquire an increasing number or quantity of", example: "Snow began to accumulate on the ground.", partOfSpeech: "verb" },
   { word: "acknowledge", level: "B2", definition: "accept or admit the existence or truth of", example: "He acknowledged his mistake.", partOfSpeech: "verb" },
-  { word: "advocate", level: "B2", definition: "publicly recommend or support", example: "She advocates for environmental protection.", partOfSpeech: "verb" },
-  { word: "aesthetic", level: "B2", definition: "concerned with beauty or the appreciation of beauty", example: "The building has great aesthetic appeal.", partOfSpeech: "adjective" },
-  { word: "allocate", level: "B2", definition: "distribute resources or duties for a particular purpose", example: "We need to allocate more funds to education.", partOfSpeech: "verb" },
-  { word: "ambiguous", level: "B2", definition: "open to more than one interpretation; not having one obvious meaning", example: "His answer was ambiguous and confusing.", partOfSpeech: "adjective" },
-  { word: "anticipate", level: "B2", definition: "regard as probable; expect or predict", example: "We anticipate a successful outcome.", partOfSpeech: "verb" },
-  { word: "arbitrary", level: "B2", definition: "based on random choice or personal whim", example: "The decision seemed arbitrary and unfair.", partOfSpeech: "adjective" },
-  { word: "articulate", level: "B2", definition: "having or showing the ability to speak fluently and coherently", example: "She's very articulate in her presentations.", partOfSpeech: "adjective" },
-  { word: "assess", level: "B2", definition: "evaluate or estimate the nature, ability, or quality of", example: "Teachers assess students' progress regularly.", partOfSpeech: "verb" },
-  { word: "attribute", level: "B2", definition: "regard something as being caused by", example: "She attributes her success to hard work.", partOfSpeech: "verb" },
-  { word: "authentic", level: "B2", definition: "of undisputed origin; genuine", example: "This is an authentic Italian restaurant.", partOfSpeech: "adjective" },
-  { word: "autonomous", level: "B2", definition: "having the freedom to act independently", example: "The region has autonomous status.", partOfSpeech: "adjective" },
-  { word: "bias", level: "B2", definition: "prejudice in favor of or against one thing", example: "The judge showed bias in his decision.", partOfSpeech: "noun" },
-  { word: "coherent", level: "B2", definition: "logical and consistent", example: "Please give a coherent explanation.", partOfSpeech: "adjective" },
-  { word: "comprehensive", level: "B2", definition: "complete and including everything that is necessary", example: "We need a comprehensive plan.", partOfSpeech: "adjective" }
+  { word: "assess", level: "B2", definition: "evaluate or estimate the nature, ability, or quality of", example: "Teachers assess students' progress regularly.", partOfSpeech: "verb" }
 ];
 
-export const getWordsByLevel = (level: 'A1' | 'A2' | 'B1' | 'B2'): Word[] => {
+const isValidEntry = (entry: { word: string; level: string; partsOfSpeech: string[] }): entry is WordBankEntry => {
+  return Boolean(entry.word) && LEVELS.includes(entry.level as WordLevel) && entry.partsOfSpeech.length > 0;
+};
+
+export const wordBankEntries: WordBankEntry[] = wordBank.entries.filter(isValidEntry);
+
+// One Word per headword, at the lowest level the list introduces it
+const buildWords = (): Word[] => {
+  const enrichmentsByWord = new Map(wordEnrichments.map(word => [word.word.toLowerCase(), word]));
+  const words = new Map<string, Word>();
+
+  wordBankEntries.forEach(entry => {
+    const key = entry.word.toLowerCase();
+    const existing = words.get(key);
+    if (existing && LEVELS.indexOf(existing.level) <= LEVELS.indexOf(entry.level)) {
+      return;
+    }
+
+    const enrichment = enrichmentsByWord.get(key);
+    words.set(key, {
+      word: entry.word,
+      level: entry.level,
+      definition: enrichment?.definition || '',
+      example: enrichment?.example || '',
+      partOfSpeech: enrichment?.partOfSpeech || entry.partsOfSpeech[0]
+    });
+  });
+
+  return Array.from(words.values());
+};
+
+export const oxford3000Words: Word[] = buildWords();
+
+export const getWordsByLevel = (level: WordLevel): Word[] => {
   return oxford3000Words.filter(word => word.level === level);
 };
 
-export const getRandomWord = (level?: 'A1' | 'A2' | 'B1' | 'B2'): Word => {
+export const getRandomWord = (level?: WordLevel): Word => {
   const words = level ? getWordsByLevel(level) : oxford3000Words;
   return words[Math.floor(Math.random() * words.length)];
 };
\ No newline at end of file
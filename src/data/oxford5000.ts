@@ -0,0 +1,28 @@
+import { Word } from '../types/vocabulary';
+
+// Oxford 5000 words beyond the Oxford 3000 (B2-C1), a starter set until the full list is imported
+export const oxford5000Words: Word[] = [
+  // B2 Level Words
+  { word: "adequate", level: "B2", definition: "satisfactory or acceptable in quality or quantity", example: "The salary is adequate for my needs.", partOfSpeech: "adjective" },
+  { word: "agriculture", level: "B2", definition: "the science or practice of farming", example: "Agriculture is important for food production.", partOfSpeech: "noun" },
+  { word: "anxiety", level: "B2", definition: "a feeling of worry, nervousness, or unease", example: "She felt anxiety before the exam.", partOfSpeech: "noun" },
+  { word: "abstract", level: "B2", definition: "existing in thought or as an idea but not having a physical existence", example: "Love is an abstract concept.", partOfSpeech: "adjective" },
+  { word: "accommodate", level: "B2", definition: "provide lodging or sufficient space for", example: "The hotel can accommodate 200 guests.", partOfSpeech: "verb" },
+  { word: "allocate", level: "B2", definition: "distribute resources or duties for a particular purpose", example: "We need to allocate more funds to education.", partOfSpeech: "verb" },
+  { word: "anticipate", level: "B2", definition: "regard as probable; expect or predict", example: "We anticipate a successful outcome.", partOfSpeech: "verb" },
+  { word: "attribute", level: "B2", definition: "regard something as being caused by", example: "She attributes her success to hard work.", partOfSpeech: "verb" },
+  { word: "authentic", level: "B2", definition: "of undisputed origin; genuine", example: "This is an authentic Italian restaurant.", partOfSpeech: "adjective" },
+  { word: "bias", level: "B2", definition: "prejudice in favor of or against one thing", example: "The judge showed bias in his decision.", partOfSpeech: "noun" },
+  { word: "comprehensive", level: "B2", definition: "complete and including everything that is necessary", example: "We need a comprehensive plan.", partOfSpeech: "adjective" },
+
+  // C1 Level Words
+  { word: "accelerate", level: "C1", definition: "begin to move more quickly", example: "The car began to accelerate down the highway.", partOfSpeech: "verb" },
+  { word: "accumulate", level: "C1", definition: "gather together or acquire an increasing number or quantity of", example: "Snow began to accumulate on the ground.", partOfSpeech: "verb" },
+  { word: "advocate", level: "C1", definition: "publicly recommend or support", example: "She advocates for environmental protection.", partOfSpeech: "verb" },
+  { word: "aesthetic", level: "C1", definition: "concerned with beauty or the appreciation of beauty", example: "The building has great aesthetic appeal.", partOfSpeech: "adjective" },
+  { word: "ambiguous", level: "C1", definition: "open to more than one interpretation; not having one obvious meaning", example: "His answer was ambiguous and confusing.", partOfSpeech: "adjective" },
+  { word: "arbitrary", level: "C1", definition: "based on random choice or personal whim", example: "The decision seemed arbitrary and unfair.", partOfSpeech: "adjective" },
+  { word: "articulate", level: "C1", definition: "having or showing the ability to speak fluently and coherently", example: "She's very articulate in her presentations.", partOfSpeech: "adjective" },
+  { word: "autonomous", level: "C1", definition: "having the freedom to act independently", example: "The region has autonomous status.", partOfSpeech: "adjective" },
+  { word: "coherent", level: "C1", definition: "logical and consistent", example: "Please give a coherent explanation.", partOfSpeech: "adjective" }
+];
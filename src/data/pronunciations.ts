@@ -0,0 +1,2995 @@
+// Generated by scripts/import-pronunciations.mjs from the CMU Pronouncing Dictionary; do not edit by hand.
+// Each line is the word, two spaces, then ARPAbet phonemes with stress digits on vowels
+// (1 primary, 2 secondary, 0 unstressed). Covers every word of the built-in decks the
+// dictionary has; other words fall back to letter-to-sound rules.
+export const pronunciationTable = `
+A  AH0
+ABANDON  AH0 B AE1 N D AH0 N
+ABILITY  AH0 B IH1 L AH0 T IY2
+ABLE  EY1 B AH0 L
+ABOUT  AH0 B AW1 T
+ABOVE  AH0 B AH1 V
+ABROAD  AH0 B R AO1 D
+ABSOLUTE  AE1 B S AH0 L UW2 T
+ABSOLUTELY  AE2 B S AH0 L UW1 T L IY0
+ABSTRACT  AE0 B S T R AE1 K T
+ACADEMIC  AE2 K AH0 D EH1 M IH0 K
+ACCELERATE  AE0 K S EH1 L ER0 EY2 T
+ACCEPT  AE0 K S EH1 P T
+ACCEPTABLE  AE0 K S EH1 P T AH0 B AH0 L
+ACCESS  AE1 K S EH2 S
+ACCIDENT  AE1 K S AH0 D AH0 N T
+ACCOMMODATE  AH0 K AA1 M AH0 D EY2 T
+ACCOMMODATION  AH0 K AA2 M AH0 D EY1 SH AH0 N
+ACCOMPANY  AH0 K AH1 M P AH0 N IY0
+ACCORDING  AH0 K AO1 R D IH0 NG
+ACCOUNT  AH0 K AW1 N T
+ACCUMULATE  AH0 K Y UW1 M Y AH0 L EY2 T
+ACCURATE  AE1 K Y ER0 AH0 T
+ACCUSE  AH0 K Y UW1 Z
+ACHIEVE  AH0 CH IY1 V
+ACHIEVEMENT  AH0 CH IY1 V M AH0 N T
+ACKNOWLEDGE  AE0 K N AA1 L IH0 JH
+ACQUIRE  AH0 K W AY1 ER0
+ACROSS  AH0 K R AO1 S
+ACT  AE1 K T
+ACTION  AE1 K SH AH0 N
+ACTIVE  AE1 K T IH0 V
+ACTIVITY  AE0 K T IH1 V AH0 T IY0
+ACTOR  AE1 K T ER0
+ACTRESS  AE1 K T R AH0 S
+ACTUAL  AE1 K CH AH0 W AH0 L
+ACTUALLY  AE1 K CH UW2 AH0 L IY0
+AD  AE1 D
+ADAPT  AH0 D AE1 P T
+ADD  AE1 D
+ADDITION  AH0 D IH1 SH AH0 N
+ADDITIONAL  AH0 D IH1 SH AH0 N AH0 L
+ADDRESS  AE1 D R EH2 S
+ADEQUATE  AE1 D AH0 K W AH0 T
+ADMINISTRATION  AE0 D M IH2 N IH0 S T R EY1 SH AH0 N
+ADMIRE  AE0 D M AY1 R
+ADMIT  AH0 D M IH1 T
+ADOPT  AH0 D AA1 P T
+ADULT  AH0 D AH1 L T
+ADVANCE  AH0 D V AE1 N S
+ADVANCED  AH0 D V AE1 N S T
+ADVANTAGE  AE0 D V AE1 N T IH0 JH
+ADVENTURE  AE0 D V EH1 N CH ER0
+ADVERTISE  AE1 D V ER0 T AY2 Z
+ADVERTISEMENT  AE0 D V ER1 T AH0 Z M AH0 N T
+ADVERTISING  AE1 D V ER0 T AY2 Z IH0 NG
+ADVICE  AE0 D V AY1 S
+ADVISE  AE0 D V AY1 Z
+ADVOCATE  AE1 D V AH0 K AH0 T
+AESTHETIC  EH0 S TH EH1 T IH0 K
+AFFAIR  AH0 F EH1 R
+AFFECT  AH0 F EH1 K T
+AFFORD  AH0 F AO1 R D
+AFRAID  AH0 F R EY1 D
+AFTER  AE1 F T ER0
+AFTERNOON  AE2 F T ER0 N UW1 N
+AFTERWARDS  AE1 F T ER0 W ER0 D Z
+AGAIN  AH0 G EH1 N
+AGAINST  AH0 G EH1 N S T
+AGE  EY1 JH
+AGED  EY1 JH D
+AGENCY  EY1 JH AH0 N S IY0
+AGENDA  AH0 JH EH1 N D AH0
+AGENT  EY1 JH AH0 N T
+AGGRESSIVE  AH0 G R EH1 S IH0 V
+AGO  AH0 G OW1
+AGREE  AH0 G R IY1
+AGREEMENT  AH0 G R IY1 M AH0 N T
+AGRICULTURE  AE1 G R IH0 K AH2 L CH ER0
+AH  AA1
+AHEAD  AH0 HH EH1 D
+AID  EY1 D
+AIM  EY1 M
+AIR  EH1 R
+AIRCRAFT  EH1 R K R AE2 F T
+AIRLINE  EH1 R L AY2 N
+AIRPORT  EH1 R P AO2 R T
+ALARM  AH0 L AA1 R M
+ALBUM  AE1 L B AH0 M
+ALCOHOL  AE1 L K AH0 HH AA2 L
+ALCOHOLIC  AE2 L K AH0 HH AA1 L IH0 K
+ALIVE  AH0 L AY1 V
+ALL  AO1 L
+ALLOCATE  AE1 L AH0 K EY2 T
+ALLOW  AH0 L AW1
+ALMOST  AO1 L M OW2 S T
+ALONE  AH0 L OW1 N
+ALONG  AH0 L AO1 NG
+ALREADY  AO0 L R EH1 D IY0
+ALSO  AO1 L S OW0
+ALTER  AO1 L T ER0
+ALTERNATIVE  AO0 L T ER1 N AH0 T IH0 V
+ALTHOUGH  AO2 L DH OW1
+ALWAYS  AO1 L W EY2 Z
+AMAZED  AH0 M EY1 Z D
+AMAZING  AH0 M EY1 Z IH0 NG
+AMBIGUOUS  AE0 M B IH1 G Y UW0 AH0 S
+AMBITION  AE0 M B IH1 SH AH0 N
+AMBITIOUS  AE0 M B IH1 SH AH0 S
+AMONG  AH0 M AH1 NG
+AMOUNT  AH0 M AW1 N T
+AN  AE1 N
+ANALYSE  AE1 N AH0 L AY2 Z
+ANALYSIS  AH0 N AE1 L AH0 S AH0 S
+ANCIENT  EY1 N CH AH0 N T
+AND  AH0 N D
+ANGER  AE1 NG G ER0
+ANGLE  AE1 NG G AH0 L
+ANGRY  AE1 NG G R IY0
+ANIMAL  AE1 N AH0 M AH0 L
+ANKLE  AE1 NG K AH0 L
+ANNIVERSARY  AE2 N AH0 V ER1 S ER0 IY0
+ANNOUNCE  AH0 N AW1 N S
+ANNOUNCEMENT  AH0 N AW1 N S M AH0 N T
+ANNOY  AH0 N OY1
+ANNOYED  AH0 N OY1 D
+ANNOYING  AH0 N OY1 IH0 NG
+ANNUAL  AE1 N Y UW0 AH0 L
+ANOTHER  AH0 N AH1 DH ER0
+ANSWER  AE1 N S ER0
+ANTICIPATE  AE0 N T IH1 S AH0 P EY2 T
+ANXIETY  AE0 NG Z AY1 AH0 T IY0
+ANXIOUS  AE1 NG K SH AH0 S
+ANY  EH1 N IY0
+ANYBODY  EH1 N IY0 B AH0 D IY0
+ANYONE  EH1 N IY0 W AH2 N
+ANYTHING  EH1 N IY0 TH IH2 NG
+ANYWAY  EH1 N IY0 W EY2
+ANYWHERE  EH1 N IY0 W EH2 R
+APART  AH0 P AA1 R T
+APARTMENT  AH0 P AA1 R T M AH0 N T
+APOLOGIZE  AH0 P AA1 L AH0 JH AY2 Z
+APP  AE1 P
+APPARENT  AH0 P EH1 R AH0 N T
+APPARENTLY  AH0 P EH1 R AH0 N T L IY0
+APPEAL  AH0 P IY1 L
+APPEAR  AH0 P IH1 R
+APPEARANCE  AH0 P IH1 R AH0 N S
+APPLE  AE1 P AH0 L
+APPLICATION  AE2 P L AH0 K EY1 SH AH0 N
+APPLY  AH0 P L AY1
+APPOINTMENT  AH0 P OY1 N T M AH0 N T
+APPRECIATE  AH0 P R IY1 SH IY0 EY2 T
+APPROACH  AH0 P R OW1 CH
+APPROPRIATE  AH0 P R OW1 P R IY0 AH0 T
+APPROVAL  AH0 P R UW1 V AH0 L
+APPROVE  AH0 P R UW1 V
+APPROXIMATELY  AH0 P R AA1 K S AH0 M AH0 T L IY0
+APRIL  EY1 P R AH0 L
+ARBITRARY  AA1 R B AH0 T R EH2 R IY0
+ARCHITECT  AA1 R K AH0 T EH2 K T
+ARCHITECTURE  AA1 R K AH0 T EH2 K CH ER0
+AREA  EH1 R IY0 AH0
+ARGUE  AA1 R G Y UW0
+ARGUMENT  AA1 R G Y AH0 M AH0 N T
+ARISE  ER0 AY1 Z
+ARM  AA1 R M
+ARMED  AA1 R M D
+ARMS  AA1 R M Z
+ARMY  AA1 R M IY0
+AROUND  ER0 AW1 N D
+ARRANGE  ER0 EY1 N JH
+ARRANGEMENT  ER0 EY1 N JH M AH0 N T
+ARREST  ER0 EH1 S T
+ARRIVAL  ER0 AY1 V AH0 L
+ARRIVE  ER0 AY1 V
+ART  AA1 R T
+ARTICLE  AA1 R T AH0 K AH0 L
+ARTICULATE  AA0 R T IH1 K Y AH0 L EY2 T
+ARTIFICIAL  AA2 R T AH0 F IH1 SH AH0 L
+ARTIST  AA1 R T AH0 S T
+ARTISTIC  AA0 R T IH1 S T IH0 K
+AS  AE1 Z
+ASHAMED  AH0 SH EY1 M D
+ASK  AE1 S K
+ASLEEP  AH0 S L IY1 P
+ASPECT  AE1 S P EH2 K T
+ASSESS  AH0 S EH1 S
+ASSESSMENT  AH0 S EH1 S M AH0 N T
+ASSIGNMENT  AH0 S AY1 N M AH0 N T
+ASSIST  AH0 S IH1 S T
+ASSISTANT  AH0 S IH1 S T AH0 N T
+ASSOCIATE  AH0 S OW1 S IY0 AH0 T
+ASSOCIATED  AH0 S OW1 S IY0 EY2 T IH0 D
+ASSOCIATION  AH0 S OW2 S IY0 EY1 SH AH0 N
+ASSUME  AH0 S UW1 M
+AT  AE1 T
+ATHLETE  AE1 TH L IY2 T
+ATMOSPHERE  AE1 T M AH0 S F IH2 R
+ATTACH  AH0 T AE1 CH
+ATTACK  AH0 T AE1 K
+ATTEMPT  AH0 T EH1 M P T
+ATTEND  AH0 T EH1 N D
+ATTENTION  AH0 T EH1 N SH AH0 N
+ATTITUDE  AE1 T AH0 T UW2 D
+ATTRACT  AH0 T R AE1 K T
+ATTRACTION  AH0 T R AE1 K SH AH0 N
+ATTRACTIVE  AH0 T R AE1 K T IH0 V
+ATTRIBUTE  AE1 T R AH0 B Y UW2 T
+AUDIENCE  AA1 D IY0 AH0 N S
+AUGUST  AA1 G AH0 S T
+AUNT  AE1 N T
+AUTHENTIC  AH0 TH EH1 N T IH0 K
+AUTHOR  AO1 TH ER0
+AUTHORITY  AH0 TH AO1 R AH0 T IY0
+AUTONOMOUS  AO0 T AA1 N AH0 M AH0 S
+AUTUMN  AO1 T AH0 M
+AVAILABLE  AH0 V EY1 L AH0 B AH0 L
+AVERAGE  AE1 V ER0 IH0 JH
+AVOID  AH0 V OY1 D
+AWARD  AH0 W AO1 R D
+AWARE  AH0 W EH1 R
+AWAY  AH0 W EY1
+AWFUL  AA1 F AH0 L
+BABY  B EY1 B IY0
+BACK  B AE1 K
+BACKGROUND  B AE1 K G R AW2 N D
+BACKWARDS  B AE1 K W ER0 D Z
+BACTERIA  B AE0 K T IH1 R IY0 AH0
+BAD  B AE1 D
+BADLY  B AE1 D L IY0
+BAG  B AE1 G
+BAKE  B EY1 K
+BALANCE  B AE1 L AH0 N S
+BALL  B AO1 L
+BAN  B AE1 N
+BANANA  B AH0 N AE1 N AH0
+BAND  B AE1 N D
+BANK  B AE1 NG K
+BAR  B AA1 R
+BARRIER  B AE1 R IY0 ER0
+BASE  B EY1 S
+BASEBALL  B EY1 S B AO1 L
+BASED  B EY1 S T
+BASIC  B EY1 S IH0 K
+BASICALLY  B EY1 S IH0 K L IY0
+BASIS  B EY1 S AH0 S
+BASKETBALL  B AE1 S K AH0 T B AO2 L
+BATH  B AE1 TH
+BATHROOM  B AE1 TH R UW2 M
+BATTERY  B AE1 T ER0 IY0
+BATTLE  B AE1 T AH0 L
+BE  B IY1
+BEACH  B IY1 CH
+BEAN  B IY1 N
+BEAR  B EH1 R
+BEAT  B IY1 T
+BEAUTIFUL  B Y UW1 T AH0 F AH0 L
+BEAUTY  B Y UW1 T IY0
+BECAUSE  B IH0 K AO1 Z
+BECOME  B IH0 K AH1 M
+BED  B EH1 D
+BEDROOM  B EH1 D R UW2 M
+BEE  B IY1
+BEEF  B IY1 F
+BEER  B IH1 R
+BEFORE  B IH0 F AO1 R
+BEG  B EH1 G
+BEGIN  B IH0 G IH1 N
+BEGINNING  B IH0 G IH1 N IH0 NG
+BEHAVE  B IH0 HH EY1 V
+BEHAVIOUR  B IH0 HH EY1 V Y ER0
+BEHIND  B IH0 HH AY1 N D
+BEING  B IY1 IH0 NG
+BELIEF  B IH0 L IY1 F
+BELIEVE  B IH0 L IY1 V
+BELL  B EH1 L
+BELONG  B IH0 L AO1 NG
+BELOW  B IH0 L OW1
+BELT  B EH1 L T
+BEND  B EH1 N D
+BENEFIT  B EH1 N AH0 F IH0 T
+BENT  B EH1 N T
+BEST  B EH1 S T
+BET  B EH1 T
+BETTER  B EH1 T ER0
+BETWEEN  B IH0 T W IY1 N
+BEYOND  B IH0 AA1 N D
+BIAS  B AY1 AH0 S
+BICYCLE  B AY1 S IH0 K AH0 L
+BIG  B IH1 G
+BIKE  B AY1 K
+BILL  B IH1 L
+BILLION  B IH1 L Y AH0 N
+BIN  B IH1 N
+BIOLOGY  B AY0 AA1 L AH0 JH IY0
+BIRD  B ER1 D
+BIRTH  B ER1 TH
+BIRTHDAY  B ER1 TH D EY2
+BISCUIT  B IH1 S K AH0 T
+BIT  B IH1 T
+BITE  B AY1 T
+BITTER  B IH1 T ER0
+BLACK  B L AE1 K
+BLAME  B L EY1 M
+BLANK  B L AE1 NG K
+BLIND  B L AY1 N D
+BLOCK  B L AA1 K
+BLOG  B L AO1 G
+BLONDE  B L AA1 N D
+BLOOD  B L AH1 D
+BLOW  B L OW1
+BLUE  B L UW1
+BOARD  B AO1 R D
+BOAT  B OW1 T
+BODY  B AA1 D IY0
+BOIL  B OY1 L
+BOMB  B AA1 M
+BOND  B AA1 N D
+BONE  B OW1 N
+BOOK  B UH1 K
+BOOT  B UW1 T
+BORDER  B AO1 R D ER0
+BORED  B AO1 R D
+BORING  B AO1 R IH0 NG
+BORN  B AO1 R N
+BORROW  B AA1 R OW2
+BOSS  B AA1 S
+BOTH  B OW1 TH
+BOTHER  B AA1 DH ER0
+BOTTLE  B AA1 T AH0 L
+BOTTOM  B AA1 T AH0 M
+BOWL  B OW1 L
+BOX  B AA1 K S
+BOY  B OY1
+BOYFRIEND  B OY1 F R EH2 N D
+BRAIN  B R EY1 N
+BRANCH  B R AE1 N CH
+BRAND  B R AE1 N D
+BRAVE  B R EY1 V
+BREAD  B R EH1 D
+BREAK  B R EY1 K
+BREAKFAST  B R EH1 K F AH0 S T
+BREAST  B R EH1 S T
+BREATH  B R EH1 TH
+BREATHE  B R IY1 DH
+BREATHING  B R IY1 DH IH0 NG
+BRIDE  B R AY1 D
+BRIDGE  B R IH1 JH
+BRIEF  B R IY1 F
+BRIGHT  B R AY1 T
+BRILLIANT  B R IH1 L Y AH0 N T
+BRING  B R IH1 NG
+BROAD  B R AO1 D
+BROADCAST  B R AO1 D K AE2 S T
+BROKEN  B R OW1 K AH0 N
+BROTHER  B R AH1 DH ER0
+BROWN  B R AW1 N
+BRUSH  B R AH1 SH
+BUBBLE  B AH1 B AH0 L
+BUDGET  B AH1 JH IH0 T
+BUILD  B IH1 L D
+BUILDING  B IH1 L D IH0 NG
+BULLET  B UH1 L AH0 T
+BUNCH  B AH1 N CH
+BURN  B ER1 N
+BURY  B EH1 R IY0
+BUS  B AH1 S
+BUSH  B UH1 SH
+BUSINESS  B IH1 Z N AH0 S
+BUSINESSMAN  B IH1 Z N AH0 S M AE2 N
+BUSY  B IH1 Z IY0
+BUT  B AH1 T
+BUTTER  B AH1 T ER0
+BUTTON  B AH1 T AH0 N
+BUY  B AY1
+BY  B AY1
+BYE  B AY1
+CABLE  K EY1 B AH0 L
+CAFE  K AH0 F EY1
+CAKE  K EY1 K
+CALCULATE  K AE1 L K Y AH0 L EY2 T
+CALL  K AO1 L
+CALM  K AA1 M
+CAMERA  K AE1 M ER0 AH0
+CAMP  K AE1 M P
+CAMPAIGN  K AE0 M P EY1 N
+CAMPING  K AE1 M P IH0 NG
+CAMPUS  K AE1 M P AH0 S
+CAN  K AE1 N
+CANCEL  K AE1 N S AH0 L
+CANCER  K AE1 N S ER0
+CANDIDATE  K AE1 N D AH0 D EY0 T
+CANNOT  K AE1 N AA0 T
+CAP  K AE1 P
+CAPABLE  K EY1 P AH0 B AH0 L
+CAPACITY  K AH0 P AE1 S AH0 T IY0
+CAPITAL  K AE1 P AH0 T AH0 L
+CAPTAIN  K AE1 P T AH0 N
+CAPTURE  K AE1 P CH ER0
+CAR  K AA1 R
+CARD  K AA1 R D
+CARE  K EH1 R
+CAREER  K ER0 IH1 R
+CAREFUL  K EH1 R F AH0 L
+CAREFULLY  K EH1 R F AH0 L IY0
+CARELESS  K EH1 R L AH0 S
+CARPET  K AA1 R P AH0 T
+CARROT  K AE1 R AH0 T
+CARRY  K AE1 R IY0
+CARTOON  K AA0 R T UW1 N
+CASE  K EY1 S
+CASH  K AE1 SH
+CAST  K AE1 S T
+CASTLE  K AE1 S AH0 L
+CAT  K AE1 T
+CATCH  K AE1 CH
+CATEGORY  K AE1 T AH0 G AO2 R IY0
+CAUSE  K AA1 Z
+CD  S IY2 D IY1
+CEILING  S IY1 L IH0 NG
+CELEBRATE  S EH1 L AH0 B R EY2 T
+CELEBRATION  S EH2 L AH0 B R EY1 SH AH0 N
+CELEBRITY  S AH0 L EH1 B R IH0 T IY0
+CELL  S EH1 L
+CENT  S EH1 N T
+CENTRAL  S EH1 N T R AH0 L
+CENTRE  S EH1 N T ER0
+CENTURY  S EH1 N CH ER0 IY0
+CEREMONY  S EH1 R AH0 M OW2 N IY0
+CERTAIN  S ER1 T AH0 N
+CERTAINLY  S ER1 T AH0 N L IY0
+CHAIN  CH EY1 N
+CHAIR  CH EH1 R
+CHAIRMAN  CH EH1 R M AH0 N
+CHALLENGE  CH AE1 L AH0 N JH
+CHAMPION  CH AE1 M P IY0 AH0 N
+CHANCE  CH AE1 N S
+CHANGE  CH EY1 N JH
+CHANNEL  CH AE1 N AH0 L
+CHAPTER  CH AE1 P T ER0
+CHARACTER  K EH1 R IH0 K T ER0
+CHARACTERISTIC  K EH2 R AH0 K T ER0 IH1 S T IH0 K
+CHARGE  CH AA1 R JH
+CHARITY  CH EH1 R IH0 T IY0
+CHART  CH AA1 R T
+CHAT  CH AE1 T
+CHEAP  CH IY1 P
+CHEAT  CH IY1 T
+CHECK  CH EH1 K
+CHEERFUL  CH IH1 R F AH0 L
+CHEESE  CH IY1 Z
+CHEF  SH EH1 F
+CHEMICAL  K EH1 M AH0 K AH0 L
+CHEMISTRY  K EH1 M AH0 S T R IY0
+CHEST  CH EH1 S T
+CHICKEN  CH IH1 K AH0 N
+CHIEF  CH IY1 F
+CHILD  CH AY1 L D
+CHILDHOOD  CH AY1 L D HH UH2 D
+CHIP  CH IH1 P
+CHOCOLATE  CH AO1 K L AH0 T
+CHOICE  CH OY1 S
+CHOOSE  CH UW1 Z
+CHURCH  CH ER1 CH
+CIGARETTE  S IH2 G ER0 EH1 T
+CINEMA  S IH1 N AH0 M AH0
+CIRCLE  S ER1 K AH0 L
+CIRCUMSTANCE  S ER1 K AH0 M S T AE2 N S
+CITE  S AY1 T
+CITIZEN  S IH1 T AH0 Z AH0 N
+CITY  S IH1 T IY0
+CIVIL  S IH1 V AH0 L
+CLAIM  K L EY1 M
+CLASS  K L AE1 S
+CLASSIC  K L AE1 S IH0 K
+CLASSICAL  K L AE1 S IH0 K AH0 L
+CLASSROOM  K L AE1 S R UW2 M
+CLAUSE  K L AO1 Z
+CLEAN  K L IY1 N
+CLEAR  K L IH1 R
+CLEARLY  K L IH1 R L IY0
+CLEVER  K L EH1 V ER0
+CLICK  K L IH1 K
+CLIENT  K L AY1 AH0 N T
+CLIMATE  K L AY1 M AH0 T
+CLIMB  K L AY1 M
+CLOCK  K L AA1 K
+CLOSE  K L OW1 S
+CLOSED  K L OW1 Z D
+CLOSELY  K L OW1 S L IY0
+CLOTH  K L AO1 TH
+CLOTHES  K L OW1 DH Z
+CLOTHING  K L OW1 DH IH0 NG
+CLOUD  K L AW1 D
+CLUB  K L AH1 B
+CLUE  K L UW1
+COACH  K OW1 CH
+COAL  K OW1 L
+COAST  K OW1 S T
+COAT  K OW1 T
+CODE  K OW1 D
+COFFEE  K AA1 F IY0
+COHERENT  K OW0 HH IH1 R AH0 N T
+COIN  K OY1 N
+COLD  K OW1 L D
+COLLAPSE  K AH0 L AE1 P S
+COLLEAGUE  K AA1 L IY0 G
+COLLECT  K AH0 L EH1 K T
+COLLECTION  K AH0 L EH1 K SH AH0 N
+COLLEGE  K AA1 L IH0 JH
+COLOUR  K AH1 L ER0
+COLOURED  K AH1 L ER0 D
+COLUMN  K AA1 L AH0 M
+COMBINATION  K AA2 M B AH0 N EY1 SH AH0 N
+COMBINE  K AA1 M B AY0 N
+COME  K AH1 M
+COMEDY  K AA1 M AH0 D IY0
+COMFORT  K AH1 M F ER0 T
+COMFORTABLE  K AH1 M F ER0 T AH0 B AH0 L
+COMMAND  K AH0 M AE1 N D
+COMMENT  K AA1 M EH0 N T
+COMMERCIAL  K AH0 M ER1 SH AH0 L
+COMMISSION  K AH0 M IH1 SH AH0 N
+COMMIT  K AH0 M IH1 T
+COMMITMENT  K AH0 M IH1 T M AH0 N T
+COMMITTEE  K AH0 M IH1 T IY0
+COMMON  K AA1 M AH0 N
+COMMONLY  K AA1 M AH0 N L IY0
+COMMUNICATE  K AH0 M Y UW1 N AH0 K EY2 T
+COMMUNICATION  K AH0 M Y UW2 N AH0 K EY1 SH AH0 N
+COMMUNITY  K AH0 M Y UW1 N AH0 T IY0
+COMPANY  K AH1 M P AH0 N IY2
+COMPARE  K AH0 M P EH1 R
+COMPARISON  K AH0 M P EH1 R AH0 S AH0 N
+COMPETE  K AH0 M P IY1 T
+COMPETITION  K AA2 M P AH0 T IH1 SH AH0 N
+COMPETITIVE  K AH0 M P EH1 T AH0 T IH0 V
+COMPETITOR  K AH0 M P EH1 T AH0 T ER0
+COMPLAIN  K AH0 M P L EY1 N
+COMPLAINT  K AH0 M P L EY1 N T
+COMPLETE  K AH0 M P L IY1 T
+COMPLETELY  K AH0 M P L IY1 T L IY0
+COMPLEX  K AA1 M P L EH0 K S
+COMPLICATED  K AA1 M P L AH0 K EY2 T AH0 D
+COMPONENT  K AH0 M P OW1 N AH0 N T
+COMPREHENSIVE  K AA2 M P R IY0 HH EH1 N S IH0 V
+COMPUTER  K AH0 M P Y UW1 T ER0
+CONCENTRATE  K AA1 N S AH0 N T R EY2 T
+CONCENTRATION  K AA2 N S AH0 N T R EY1 SH AH0 N
+CONCEPT  K AA1 N S EH0 P T
+CONCERN  K AH0 N S ER1 N
+CONCERNED  K AH0 N S ER1 N D
+CONCERT  K AA1 N S ER0 T
+CONCLUDE  K AH0 N K L UW1 D
+CONCLUSION  K AH0 N K L UW1 ZH AH0 N
+CONDITION  K AH0 N D IH1 SH AH0 N
+CONDUCT  K AA1 N D AH0 K T
+CONFERENCE  K AA1 N F ER0 AH0 N S
+CONFIDENCE  K AA1 N F AH0 D AH0 N S
+CONFIDENT  K AA1 N F AH0 D AH0 N T
+CONFIRM  K AH0 N F ER1 M
+CONFLICT  K AA1 N F L IH0 K T
+CONFUSE  K AH0 N F Y UW1 Z
+CONFUSED  K AH0 N F Y UW1 Z D
+CONFUSING  K AH0 N F Y UW1 Z IH0 NG
+CONNECT  K AH0 N EH1 K T
+CONNECTED  K AH0 N EH1 K T IH0 D
+CONNECTION  K AH0 N EH1 K SH AH0 N
+CONSCIOUS  K AA1 N SH AH0 S
+CONSEQUENCE  K AA1 N S AH0 K W AH0 N S
+CONSERVATIVE  K AH0 N S ER1 V AH0 T IH0 V
+CONSIDER  K AH0 N S IH1 D ER0
+CONSIDERATION  K AH0 N S IH2 D ER0 EY1 SH AH0 N
+CONSIST  K AH0 N S IH1 S T
+CONSISTENT  K AH0 N S IH1 S T AH0 N T
+CONSTANT  K AA1 N S T AH0 N T
+CONSTANTLY  K AA1 N S T AH0 N T L IY0
+CONSTRUCT  K AH0 N S T R AH1 K T
+CONSTRUCTION  K AH0 N S T R AH1 K SH AH0 N
+CONSUME  K AH0 N S UW1 M
+CONSUMER  K AH0 N S UW1 M ER0
+CONTACT  K AA1 N T AE2 K T
+CONTAIN  K AH0 N T EY1 N
+CONTAINER  K AH0 N T EY1 N ER0
+CONTEMPORARY  K AH0 N T EH1 M P ER0 EH2 R IY0
+CONTENT  K AA1 N T EH0 N T
+CONTEST  K AA1 N T EH0 S T
+CONTEXT  K AA1 N T EH0 K S T
+CONTINENT  K AA1 N T AH0 N AH0 N T
+CONTINUE  K AH0 N T IH1 N Y UW0
+CONTINUOUS  K AH0 N T IH1 N Y UW0 AH0 S
+CONTRACT  K AA1 N T R AE2 K T
+CONTRAST  K AA1 N T R AE0 S T
+CONTRIBUTE  K AH0 N T R IH1 B Y UW0 T
+CONTRIBUTION  K AA2 N T R AH0 B Y UW1 SH AH0 N
+CONTROL  K AH0 N T R OW1 L
+CONVENIENT  K AH0 N V IY1 N Y AH0 N T
+CONVERSATION  K AA2 N V ER0 S EY1 SH AH0 N
+CONVERT  K AA1 N V ER0 T
+CONVINCE  K AH0 N V IH1 N S
+CONVINCED  K AH0 N V IH1 N S T
+COOK  K UH1 K
+COOKER  K UH1 K ER0
+COOKING  K UH1 K IH0 NG
+COOL  K UW1 L
+COPY  K AA1 P IY0
+CORE  K AO1 R
+CORNER  K AO1 R N ER0
+CORPORATE  K AO1 R P ER0 AH0 T
+CORRECT  K ER0 EH1 K T
+CORRECTLY  K ER0 EH1 K T L IY0
+COST  K AA1 S T
+COSTUME  K AA0 S T UW1 M
+COTTAGE  K AA1 T AH0 JH
+COTTON  K AA1 T AH0 N
+COULD  K UH1 D
+COUNCIL  K AW1 N S AH0 L
+COUNT  K AW1 N T
+COUNTRY  K AH1 N T R IY0
+COUNTRYSIDE  K AH1 N T R IY0 S AY2 D
+COUNTY  K AW1 N T IY0
+COUPLE  K AH1 P AH0 L
+COURAGE  K ER1 AH0 JH
+COURSE  K AO1 R S
+COURT  K AO1 R T
+COUSIN  K AH1 Z AH0 N
+COVER  K AH1 V ER0
+COVERED  K AH1 V ER0 D
+COW  K AW1
+CRASH  K R AE1 SH
+CRAZY  K R EY1 Z IY0
+CREAM  K R IY1 M
+CREATE  K R IY0 EY1 T
+CREATION  K R IY0 EY1 SH AH0 N
+CREATIVE  K R IY0 EY1 T IH0 V
+CREATURE  K R IY1 CH ER0
+CREDIT  K R EH1 D AH0 T
+CREW  K R UW1
+CRIME  K R AY1 M
+CRIMINAL  K R IH1 M AH0 N AH0 L
+CRISIS  K R AY1 S AH0 S
+CRITERION  K R AY0 T IH1 R IY0 AH0 N
+CRITIC  K R IH1 T IH0 K
+CRITICAL  K R IH1 T IH0 K AH0 L
+CRITICISM  K R IH1 T IH0 S IH2 Z AH0 M
+CRITICIZE  K R IH1 T IH0 S AY2 Z
+CROP  K R AA1 P
+CROSS  K R AO1 S
+CROWD  K R AW1 D
+CROWDED  K R AW1 D AH0 D
+CRUCIAL  K R UW1 SH AH0 L
+CRUEL  K R UW1 AH0 L
+CRY  K R AY1
+CULTURAL  K AH1 L CH ER0 AH0 L
+CULTURE  K AH1 L CH ER0
+CUP  K AH1 P
+CUPBOARD  K AH1 B ER0 D
+CURE  K Y UH1 R
+CURLY  K ER1 L IY0
+CURRENCY  K ER1 AH0 N S IY0
+CURRENT  K ER1 AH0 N T
+CURRENTLY  K ER1 AH0 N T L IY0
+CURTAIN  K ER1 T AH0 N
+CURVE  K ER1 V
+CURVED  K ER1 V D
+CUSTOM  K AH1 S T AH0 M
+CUSTOMER  K AH1 S T AH0 M ER0
+CUT  K AH1 T
+CYCLE  S AY1 K AH0 L
+DAD  D AE1 D
+DAILY  D EY1 L IY0
+DAMAGE  D AE1 M AH0 JH
+DANCE  D AE1 N S
+DANCER  D AE1 N S ER0
+DANCING  D AE1 N S IH0 NG
+DANGER  D EY1 N JH ER0
+DANGEROUS  D EY1 N JH ER0 AH0 S
+DARK  D AA1 R K
+DATA  D EY1 T AH0
+DATE  D EY1 T
+DAUGHTER  D AO1 T ER0
+DAY  D EY1
+DEAD  D EH1 D
+DEAL  D IY1 L
+DEAR  D IH1 R
+DEATH  D EH1 TH
+DEBATE  D AH0 B EY1 T
+DEBT  D EH1 T
+DECADE  D EH0 K EY1 D
+DECEMBER  D IH0 S EH1 M B ER0
+DECENT  D IY1 S AH0 N T
+DECIDE  D IH2 S AY1 D
+DECISION  D IH0 S IH1 ZH AH0 N
+DECLARE  D IH0 K L EH1 R
+DECLINE  D IH0 K L AY1 N
+DECORATE  D EH1 K ER0 EY2 T
+DECORATION  D EH2 K ER0 EY1 SH AH0 N
+DECREASE  D IH0 K R IY1 S
+DEEP  D IY1 P
+DEEPLY  D IY1 P L IY0
+DEFEAT  D IH0 F IY1 T
+DEFENCE  D IH0 F EH1 N S
+DEFEND  D IH0 F EH1 N D
+DEFINE  D IH0 F AY1 N
+DEFINITE  D EH1 F AH0 N AH0 T
+DEFINITELY  D EH1 F AH0 N AH0 T L IY0
+DEFINITION  D EH2 F AH0 N IH1 SH AH0 N
+DEGREE  D IH0 G R IY1
+DELAY  D IH0 L EY1
+DELIBERATE  D IH0 L IH1 B ER0 AH0 T
+DELIBERATELY  D IH0 L IH1 B ER0 AH0 T L IY0
+DELICIOUS  D IH0 L IH1 SH AH0 S
+DELIGHT  D IH0 L AY1 T
+DELIGHTED  D IH0 L AY1 T AH0 D
+DELIVER  D IH0 L IH1 V ER0
+DELIVERY  D IH0 L IH1 V ER0 IY0
+DEMAND  D IH0 M AE1 N D
+DEMONSTRATE  D EH1 M AH0 N S T R EY2 T
+DENTIST  D EH1 N T AH0 S T
+DENY  D IH0 N AY1
+DEPARTMENT  D IH0 P AA1 R T M AH0 N T
+DEPARTURE  D IH0 P AA1 R CH ER0
+DEPEND  D IH0 P EH1 N D
+DEPRESSED  D IH0 P R EH1 S T
+DEPRESSING  D IH0 P R EH1 S IH0 NG
+DEPTH  D EH1 P TH
+DESCRIBE  D IH0 S K R AY1 B
+DESCRIPTION  D IH0 S K R IH1 P SH AH0 N
+DESERT  D EH1 Z ER0 T
+DESERVE  D IH0 Z ER1 V
+DESIGN  D IH0 Z AY1 N
+DESIGNER  D IH0 Z AY1 N ER0
+DESIRE  D IH0 Z AY1 ER0
+DESK  D EH1 S K
+DESPERATE  D EH1 S P R IH0 T
+DESPITE  D IH0 S P AY1 T
+DESTINATION  D EH2 S T AH0 N EY1 SH AH0 N
+DESTROY  D IH0 S T R OY1
+DETAIL  D IH0 T EY1 L
+DETAILED  D IH0 T EY1 L D
+DETECT  D IH0 T EH1 K T
+DETECTIVE  D IH0 T EH1 K T IH0 V
+DETERMINE  D AH0 T ER1 M AH0 N
+DETERMINED  D IH0 T ER1 M AH0 N D
+DEVELOP  D IH0 V EH1 L AH0 P
+DEVELOPMENT  D IH0 V EH1 L AH0 P M AH0 N T
+DEVICE  D IH0 V AY1 S
+DIAGRAM  D AY1 AH0 G R AE2 M
+DIALOGUE  D AY1 AH0 L AO2 G
+DIAMOND  D AY1 M AH0 N D
+DIARY  D AY1 ER0 IY0
+DICTIONARY  D IH1 K SH AH0 N EH2 R IY0
+DIE  D AY1
+DIET  D AY1 AH0 T
+DIFFERENCE  D IH1 F ER0 AH0 N S
+DIFFERENT  D IH1 F ER0 AH0 N T
+DIFFERENTLY  D IH1 F R AH0 N T L IY0
+DIFFICULT  D IH1 F AH0 K AH0 L T
+DIFFICULTY  D IH1 F AH0 K AH0 L T IY0
+DIG  D IH1 G
+DIGITAL  D IH1 JH AH0 T AH0 L
+DINNER  D IH1 N ER0
+DIRECT  D ER0 EH1 K T
+DIRECTION  D ER0 EH1 K SH AH0 N
+DIRECTLY  D ER0 EH1 K T L IY0
+DIRECTOR  D ER0 EH1 K T ER0
+DIRT  D ER1 T
+DIRTY  D ER1 T IY0
+DISADVANTAGE  D IH2 S AH0 D V AE1 N T IH0 JH
+DISAGREE  D IH0 S AH0 G R IY1
+DISAPPEAR  D IH2 S AH0 P IH1 R
+DISAPPOINTED  D IH2 S AH0 P OY1 N T IH0 D
+DISAPPOINTING  D IH2 S AH0 P OY1 N T IH0 NG
+DISASTER  D IH0 Z AE1 S T ER0
+DISC  D IH1 S K
+DISCIPLINE  D IH1 S AH0 P L AH0 N
+DISCOUNT  D IH0 S K AW1 N T
+DISCOVER  D IH0 S K AH1 V ER0
+DISCOVERY  D IH0 S K AH1 V ER0 IY0
+DISCUSS  D IH0 S K AH1 S
+DISCUSSION  D IH0 S K AH1 SH AH0 N
+DISEASE  D IH0 Z IY1 Z
+DISH  D IH1 SH
+DISHONEST  D IH0 S AA1 N AH0 S T
+DISLIKE  D IH0 S L AY1 K
+DISMISS  D IH0 S M IH1 S
+DISPLAY  D IH0 S P L EY1
+DISTANCE  D IH1 S T AH0 N S
+DISTRIBUTE  D IH0 S T R IH1 B Y UW0 T
+DISTRIBUTION  D IH2 S T R AH0 B Y UW1 SH AH0 N
+DISTRICT  D IH1 S T R IH0 K T
+DIVIDE  D IH0 V AY1 D
+DIVISION  D IH0 V IH1 ZH AH0 N
+DIVORCED  D IH0 V AO1 R S T
+DO  D UW1
+DOCTOR  D AA1 K T ER0
+DOCUMENT  D AA1 K Y AH0 M EH0 N T
+DOCUMENTARY  D AA2 K Y AH0 M EH1 N T ER0 IY0
+DOG  D AO1 G
+DOLLAR  D AA1 L ER0
+DOMESTIC  D AH0 M EH1 S T IH0 K
+DOMINATE  D AA1 M AH0 N EY2 T
+DONATE  D OW1 N EY2 T
+DOOR  D AO1 R
+DOUBLE  D AH1 B AH0 L
+DOUBT  D AW1 T
+DOWN  D AW1 N
+DOWNLOAD  D AW1 N L OW2 D
+DOWNSTAIRS  D AW1 N S T EH1 R Z
+DOWNWARDS  D AW1 N W ER0 D Z
+DOZEN  D AH1 Z AH0 N
+DRAFT  D R AE1 F T
+DRAG  D R AE1 G
+DRAMA  D R AA1 M AH0
+DRAMATIC  D R AH0 M AE1 T IH0 K
+DRAW  D R AO1
+DRAWING  D R AO1 IH0 NG
+DREAM  D R IY1 M
+DRESS  D R EH1 S
+DRESSED  D R EH1 S T
+DRINK  D R IH1 NG K
+DRIVE  D R AY1 V
+DRIVER  D R AY1 V ER0
+DRIVING  D R AY1 V IH0 NG
+DROP  D R AA1 P
+DRUG  D R AH1 G
+DRUM  D R AH1 M
+DRUNK  D R AH1 NG K
+DRY  D R AY1
+DUE  D UW1
+DURING  D UH1 R IH0 NG
+DUST  D AH1 S T
+DUTY  D UW1 T IY0
+DVD  D IY2 V IY2 D IY1
+EACH  IY1 CH
+EAR  IY1 R
+EARLY  ER1 L IY0
+EARN  ER1 N
+EARTH  ER1 TH
+EARTHQUAKE  ER1 TH K W EY2 K
+EASILY  IY1 Z AH0 L IY0
+EAST  IY1 S T
+EASTERN  IY1 S T ER0 N
+EASY  IY1 Z IY0
+EAT  IY1 T
+ECONOMIC  EH2 K AH0 N AA1 M IH0 K
+ECONOMY  IH0 K AA1 N AH0 M IY0
+EDGE  EH1 JH
+EDIT  EH1 D AH0 T
+EDITION  AH0 D IH1 SH AH0 N
+EDITOR  EH1 D AH0 T ER0
+EDUCATE  EH1 JH AH0 K EY2 T
+EDUCATED  EH1 JH AH0 K EY2 T IH0 D
+EDUCATION  EH2 JH AH0 K EY1 SH AH0 N
+EDUCATIONAL  EH2 JH AH0 K EY1 SH AH0 N AH0 L
+EFFECT  IH0 F EH1 K T
+EFFECTIVE  IH0 F EH1 K T IH0 V
+EFFECTIVELY  IH0 F EH1 K T IH0 V L IY0
+EFFICIENT  IH0 F IH1 SH AH0 N T
+EFFORT  EH1 F ER0 T
+EGG  EH1 G
+EIGHT  EY1 T
+EIGHTEEN  EY0 T IY1 N
+EIGHTY  EY1 T IY0
+EITHER  IY1 DH ER0
+ELDERLY  EH1 L D ER0 L IY0
+ELECT  IH0 L EH1 K T
+ELECTION  IH0 L EH1 K SH AH0 N
+ELECTRIC  IH0 L EH1 K T R IH0 K
+ELECTRICAL  IH0 L EH1 K T R IH0 K AH0 L
+ELECTRICITY  IH0 L EH2 K T R IH1 S AH0 T IY0
+ELECTRONIC  IH2 L EH2 K T R AA1 N IH0 K
+ELEMENT  EH1 L AH0 M AH0 N T
+ELEPHANT  EH1 L AH0 F AH0 N T
+ELEVEN  IH0 L EH1 V AH0 N
+ELSE  EH1 L S
+ELSEWHERE  EH1 L S W EH2 R
+EMAIL  IY0 M EY1 L
+EMBARRASSED  IH0 M B EH1 R AH0 S T
+EMBARRASSING  IH0 M B EH1 R AH0 S IH0 NG
+EMERGE  IH0 M ER1 JH
+EMERGENCY  IH0 M ER1 JH AH0 N S IY0
+EMOTION  IH0 M OW1 SH AH0 N
+EMOTIONAL  IH0 M OW1 SH AH0 N AH0 L
+EMPHASIS  EH1 M F AH0 S AH0 S
+EMPHASIZE  EH1 M F AH0 S AY2 Z
+EMPLOY  EH0 M P L OY1
+EMPLOYEE  EH0 M P L OY1 IY0
+EMPLOYER  EH0 M P L OY1 ER0
+EMPLOYMENT  EH0 M P L OY1 M AH0 N T
+EMPTY  EH1 M P T IY0
+ENABLE  EH0 N EY1 B AH0 L
+ENCOUNTER  IH0 N K AW1 N T ER0
+ENCOURAGE  EH0 N K ER1 IH0 JH
+END  EH1 N D
+ENDING  EH1 N D IH0 NG
+ENEMY  EH1 N AH0 M IY0
+ENERGY  EH1 N ER0 JH IY0
+ENGAGE  EH0 N G EY1 JH
+ENGAGED  EH0 N G EY1 JH D
+ENGINE  EH1 N JH AH0 N
+ENGINEER  EH1 N JH AH0 N IH1 R
+ENGINEERING  EH1 N JH AH0 N IH1 R IH0 NG
+ENHANCE  EH0 N HH AE1 N S
+ENJOY  EH2 N JH OY1
+ENORMOUS  IH0 N AO1 R M AH0 S
+ENOUGH  IH0 N AH1 F
+ENQUIRY  IH0 N K W AY1 R IY2
+ENSURE  EH0 N SH UH1 R
+ENTER  EH1 N T ER0
+ENTERTAIN  EH2 N T ER0 T EY1 N
+ENTERTAINMENT  EH2 N T ER0 T EY1 N M AH0 N T
+ENTHUSIASM  IH0 N TH UW1 Z IY0 AE2 Z AH0 M
+ENTHUSIASTIC  IH0 N TH UW2 Z IY0 AE1 S T IH0 K
+ENTIRE  IH0 N T AY1 ER0
+ENTIRELY  IH0 N T AY1 ER0 L IY0
+ENTRANCE  EH1 N T R AH0 N S
+ENTRY  EH1 N T R IY0
+ENVIRONMENT  IH0 N V AY1 R AH0 N M AH0 N T
+ENVIRONMENTAL  IH0 N V AY2 R AH0 N M EH1 N T AH0 L
+EPISODE  EH1 P AH0 S OW2 D
+EQUAL  IY1 K W AH0 L
+EQUALLY  IY1 K W AH0 L IY0
+EQUIPMENT  IH0 K W IH1 P M AH0 N T
+ERROR  EH1 R ER0
+ESCAPE  IH0 S K EY1 P
+ESPECIALLY  AH0 S P EH1 SH L IY0
+ESSAY  EH0 S EY1
+ESSENTIAL  EH0 S EH1 N SH AH0 L
+ESTABLISH  IH0 S T AE1 B L IH0 SH
+ESTATE  IH0 S T EY1 T
+ESTIMATE  EH1 S T AH0 M AH0 T
+ETHICAL  EH1 TH IH0 K AH0 L
+EURO  Y UW1 R OW0
+EVALUATE  IH0 V AE1 L Y UW0 EY2 T
+EVEN  IY1 V IH0 N
+EVENING  IY1 V N IH0 NG
+EVENT  IH0 V EH1 N T
+EVENTUALLY  IH0 V EH1 N CH AH0 W AH0 L IY0
+EVER  EH1 V ER0
+EVERY  EH1 V ER0 IY0
+EVERYBODY  EH1 V R IY0 B AA2 D IY0
+EVERYDAY  EH1 V R IY0 D EY1
+EVERYONE  EH1 V R IY0 W AH2 N
+EVERYTHING  EH1 V R IY0 TH IH2 NG
+EVERYWHERE  EH1 V R IY0 W EH2 R
+EVIDENCE  EH1 V AH0 D AH0 N S
+EVIL  IY1 V AH0 L
+EXACT  IH0 G Z AE1 K T
+EXACTLY  IH0 G Z AE1 K T L IY0
+EXAM  IH0 G Z AE1 M
+EXAMINATION  IH0 G Z AE2 M AH0 N EY1 SH AH0 N
+EXAMINE  IH0 G Z AE1 M IH0 N
+EXAMPLE  IH0 G Z AE1 M P AH0 L
+EXCELLENT  EH1 K S AH0 L AH0 N T
+EXCEPT  IH0 K S EH1 P T
+EXCHANGE  IH0 K S CH EY1 N JH
+EXCITED  IH0 K S AY1 T AH0 D
+EXCITEMENT  IH0 K S AY1 T M AH0 N T
+EXCITING  IH0 K S AY1 T IH0 NG
+EXCUSE  IH0 K S K Y UW1 S
+EXECUTIVE  IH0 G Z EH1 K Y AH0 T IH0 V
+EXERCISE  EH1 K S ER0 S AY2 Z
+EXHIBITION  EH2 K S AH0 B IH1 SH AH0 N
+EXIST  IH0 G Z IH1 S T
+EXISTENCE  EH0 G Z IH1 S T AH0 N S
+EXPAND  IH0 K S P AE1 N D
+EXPECT  IH0 K S P EH1 K T
+EXPECTATION  EH2 K S P EH0 K T EY1 SH AH0 N
+EXPECTED  IH0 K S P EH1 K T AH0 D
+EXPEDITION  EH2 K S P AH0 D IH1 SH AH0 N
+EXPENSE  IH0 K S P EH1 N S
+EXPENSIVE  IH0 K S P EH1 N S IH0 V
+EXPERIENCE  IH0 K S P IH1 R IY0 AH0 N S
+EXPERIENCED  IH0 K S P IH1 R IY0 AH0 N S T
+EXPERIMENT  IH0 K S P EH1 R AH0 M AH0 N T
+EXPERT  EH1 K S P ER0 T
+EXPLAIN  IH0 K S P L EY1 N
+EXPLANATION  EH2 K S P L AH0 N EY1 SH AH0 N
+EXPLODE  IH0 K S P L OW1 D
+EXPLORATION  EH2 K S P L ER0 EY1 SH AH0 N
+EXPLORE  IH0 K S P L AO1 R
+EXPLOSION  IH0 K S P L OW1 ZH AH0 N
+EXPORT  EH1 K S P AO0 R T
+EXPOSE  IH0 K S P OW1 Z
+EXPRESS  IH0 K S P R EH1 S
+EXPRESSION  IH0 K S P R EH1 SH AH0 N
+EXTEND  IH0 K S T EH1 N D
+EXTENT  IH0 K S T EH1 N T
+EXTERNAL  IH0 K S T ER1 N AH0 L
+EXTRA  EH1 K S T R AH0
+EXTRAORDINARY  EH2 K S T R AH0 AO1 R D AH0 N EH2 R IY0
+EXTREME  EH0 K S T R IY1 M
+EXTREMELY  EH0 K S T R IY1 M L IY0
+EYE  AY1
+FACE  F EY1 S
+FACILITY  F AH0 S IH1 L IH0 T IY0
+FACT  F AE1 K T
+FACTOR  F AE1 K T ER0
+FACTORY  F AE1 K T ER0 IY0
+FAIL  F EY1 L
+FAILURE  F EY1 L Y ER0
+FAIR  F EH1 R
+FAIRLY  F EH1 R L IY0
+FAITH  F EY1 TH
+FALL  F AO1 L
+FALSE  F AO1 L S
+FAMILIAR  F AH0 M IH1 L Y ER0
+FAMILY  F AE1 M AH0 L IY0
+FAMOUS  F EY1 M AH0 S
+FAN  F AE1 N
+FANCY  F AE1 N S IY0
+FANTASTIC  F AE0 N T AE1 S T IH0 K
+FAR  F AA1 R
+FARM  F AA1 R M
+FARMER  F AA1 R M ER0
+FARMING  F AA1 R M IH0 NG
+FASCINATING  F AE1 S AH0 N EY2 T IH0 NG
+FASHION  F AE1 SH AH0 N
+FASHIONABLE  F AE1 SH AH0 N AH0 B AH0 L
+FASHIONED  F AE1 SH AH0 N D
+FAST  F AE1 S T
+FASTEN  F AE1 S AH0 N
+FAT  F AE1 T
+FATHER  F AA1 DH ER0
+FAULT  F AO1 L T
+FAVOUR  F EY1 V ER0
+FAVOURITE  F EY1 V ER0 IH0 T
+FEAR  F IH1 R
+FEATHER  F EH1 DH ER0
+FEATURE  F IY1 CH ER0
+FEBRUARY  F EH1 B Y AH0 W EH2 R IY0
+FEE  F IY1
+FEED  F IY1 D
+FEEDBACK  F IY1 D B AE2 K
+FEEL  F IY1 L
+FEELING  F IY1 L IH0 NG
+FELLOW  F EH1 L OW0
+FEMALE  F IY1 M EY2 L
+FENCE  F EH1 N S
+FESTIVAL  F EH1 S T AH0 V AH0 L
+FEW  F Y UW1
+FICTION  F IH1 K SH AH0 N
+FIELD  F IY1 L D
+FIFTEEN  F IH0 F T IY1 N
+FIFTH  F IH1 F TH
+FIFTY  F IH1 F T IY0
+FIGHT  F AY1 T
+FIGHTING  F AY1 T IH0 NG
+FIGURE  F IH1 G Y ER0
+FILE  F AY1 L
+FILL  F IH1 L
+FILM  F IH1 L M
+FINAL  F AY1 N AH0 L
+FINALLY  F AY1 N AH0 L IY0
+FINANCE  F AH0 N AE1 N S
+FINANCIAL  F AH0 N AE1 N SH AH0 L
+FIND  F AY1 N D
+FINDING  F AY1 N D IH0 NG
+FINE  F AY1 N
+FINGER  F IH1 NG G ER0
+FINISH  F IH1 N IH0 SH
+FIRE  F AY1 ER0
+FIRM  F ER1 M
+FIRST  F ER1 S T
+FIRSTLY  F ER1 S T L IY0
+FISH  F IH1 SH
+FISHING  F IH1 SH IH0 NG
+FIT  F IH1 T
+FITNESS  F IH1 T N AH0 S
+FIVE  F AY1 V
+FIX  F IH1 K S
+FIXED  F IH1 K S T
+FLAG  F L AE1 G
+FLAME  F L EY1 M
+FLASH  F L AE1 SH
+FLAT  F L AE1 T
+FLEXIBLE  F L EH1 K S AH0 B AH0 L
+FLIGHT  F L AY1 T
+FLOAT  F L OW1 T
+FLOOD  F L AH1 D
+FLOOR  F L AO1 R
+FLOUR  F L AW1 ER0
+FLOW  F L OW1
+FLOWER  F L AW1 ER0
+FLU  F L UW1
+FLY  F L AY1
+FLYING  F L AY1 IH0 NG
+FOCUS  F OW1 K AH0 S
+FOLD  F OW1 L D
+FOLDING  F OW1 L D IH0 NG
+FOLK  F OW1 K
+FOLLOW  F AA1 L OW0
+FOLLOWING  F AA1 L OW0 IH0 NG
+FOOD  F UW1 D
+FOOT  F UH1 T
+FOOTBALL  F UH1 T B AO2 L
+FOR  F AO1 R
+FORCE  F AO1 R S
+FOREIGN  F AO1 R AH0 N
+FOREST  F AO1 R AH0 S T
+FOREVER  F ER0 EH1 V ER0
+FORGET  F ER0 G EH1 T
+FORGIVE  F ER0 G IH1 V
+FORK  F AO1 R K
+FORM  F AO1 R M
+FORMAL  F AO1 R M AH0 L
+FORMER  F AO1 R M ER0
+FORTUNATELY  F AO1 R CH AH0 N AH0 T L IY0
+FORTUNE  F AO1 R CH AH0 N
+FORTY  F AO1 R T IY0
+FORWARD  F AO1 R W ER0 D
+FOUND  F AW1 N D
+FOUR  F AO1 R
+FOURTEEN  F AO1 R T IY1 N
+FOURTH  F AO1 R TH
+FRAME  F R EY1 M
+FREE  F R IY1
+FREEDOM  F R IY1 D AH0 M
+FREEZE  F R IY1 Z
+FREQUENCY  F R IY1 K W AH0 N S IY0
+FREQUENTLY  F R IY1 K W AH0 N T L IY0
+FRESH  F R EH1 SH
+FRIDAY  F R AY1 D IY0
+FRIDGE  F R IH1 JH
+FRIEND  F R EH1 N D
+FRIENDLY  F R EH1 N D L IY0
+FRIENDSHIP  F R EH1 N D SH IH0 P
+FRIGHTEN  F R AY1 T AH0 N
+FRIGHTENED  F R AY1 T AH0 N D
+FRIGHTENING  F R AY1 T AH0 N IH0 NG
+FROG  F R AA1 G
+FROM  F R AH1 M
+FRONT  F R AH1 N T
+FROZEN  F R OW1 Z AH0 N
+FRUIT  F R UW1 T
+FRY  F R AY1
+FUEL  F Y UW1 AH0 L
+FULL  F UH1 L
+FULLY  F UH1 L IY0
+FUN  F AH1 N
+FUNCTION  F AH1 NG K SH AH0 N
+FUND  F AH1 N D
+FUNDAMENTAL  F AH2 N D AH0 M EH1 N T AH0 L
+FUNDING  F AH1 N D IH0 NG
+FUNNY  F AH1 N IY0
+FUR  F ER1
+FURNITURE  F ER1 N IH0 CH ER0
+FURTHER  F ER1 DH ER0
+FURTHERMORE  F ER1 DH ER0 M AO2 R
+FUTURE  F Y UW1 CH ER0
+GAIN  G EY1 N
+GALLERY  G AE1 L ER0 IY0
+GAME  G EY1 M
+GANG  G AE1 NG
+GAP  G AE1 P
+GARAGE  G ER0 AA1 ZH
+GARDEN  G AA1 R D AH0 N
+GAS  G AE1 S
+GATE  G EY1 T
+GATHER  G AE1 DH ER0
+GENERAL  JH EH1 N ER0 AH0 L
+GENERALLY  JH EH1 N ER0 AH0 L IY0
+GENERATE  JH EH1 N ER0 EY2 T
+GENERATION  JH EH2 N ER0 EY1 SH AH0 N
+GENEROUS  JH EH1 N ER0 AH0 S
+GENRE  ZH AA1 N R AH0
+GENTLE  JH EH1 N T AH0 L
+GENTLEMAN  JH EH1 N T AH0 L M AH0 N
+GEOGRAPHY  JH IY0 AA1 G R AH0 F IY0
+GET  G EH1 T
+GHOST  G OW1 S T
+GIANT  JH AY1 AH0 N T
+GIFT  G IH1 F T
+GIRL  G ER1 L
+GIRLFRIEND  G ER1 L F R EH2 N D
+GIVE  G IH1 V
+GLAD  G L AE1 D
+GLASS  G L AE1 S
+GLOBAL  G L OW1 B AH0 L
+GLOVE  G L AH1 V
+GO  G OW1
+GOAL  G OW1 L
+GOD  G AA1 D
+GOLD  G OW1 L D
+GOLF  G AA1 L F
+GOOD  G UH1 D
+GOODBYE  G UH2 D B AY1
+GOODS  G UH1 D Z
+GOVERN  G AH1 V ER0 N
+GOVERNMENT  G AH1 V ER0 M AH0 N T
+GRAB  G R AE1 B
+GRADE  G R EY1 D
+GRADUALLY  G R AE1 JH UW0 AH0 L IY0
+GRADUATE  G R AE1 JH AH0 W AH0 T
+GRAIN  G R EY1 N
+GRAND  G R AE1 N D
+GRANDFATHER  G R AE1 N D F AA2 DH ER0
+GRANDMOTHER  G R AE1 N D M AH2 DH ER0
+GRANDPARENT  G R AE1 N D P EH2 R AH0 N T
+GRANT  G R AE1 N T
+GRASS  G R AE1 S
+GRATEFUL  G R EY1 T F AH0 L
+GREAT  G R EY1 T
+GREEN  G R IY1 N
+GREET  G R IY1 T
+GREY  G R EY1
+GROUND  G R AW1 N D
+GROUP  G R UW1 P
+GROW  G R OW1
+GROWTH  G R OW1 TH
+GUARANTEE  G EH2 R AH0 N T IY1
+GUARD  G AA1 R D
+GUESS  G EH1 S
+GUEST  G EH1 S T
+GUIDE  G AY1 D
+GUILTY  G IH1 L T IY0
+GUITAR  G IH0 T AA1 R
+GUN  G AH1 N
+GUY  G AY1
+GYM  JH IH1 M
+HABIT  HH AE1 B AH0 T
+HAIR  HH EH1 R
+HALF  HH AE1 F
+HALL  HH AO1 L
+HAND  HH AE1 N D
+HANDLE  HH AE1 N D AH0 L
+HANG  HH AE1 NG
+HAPPEN  HH AE1 P AH0 N
+HAPPILY  HH AE1 P AH0 L IY0
+HAPPINESS  HH AE1 P IY0 N AH0 S
+HAPPY  HH AE1 P IY0
+HARD  HH AA1 R D
+HARDLY  HH AA1 R D L IY0
+HARM  HH AA1 R M
+HARMFUL  HH AA1 R M F AH0 L
+HAT  HH AE1 T
+HATE  HH EY1 T
+HAVE  HH AE1 V
+HE  HH IY1
+HEAD  HH EH1 D
+HEADACHE  HH EH1 D EY2 K
+HEADLINE  HH EH1 D L AY2 N
+HEALTH  HH EH1 L TH
+HEALTHY  HH EH1 L TH IY0
+HEAR  HH IY1 R
+HEARING  HH IY1 R IH0 NG
+HEART  HH AA1 R T
+HEAT  HH IY1 T
+HEATING  HH IY1 T IH0 NG
+HEAVEN  HH EH1 V AH0 N
+HEAVILY  HH EH1 V AH0 L IY0
+HEAVY  HH EH1 V IY0
+HEEL  HH IY1 L
+HEIGHT  HH AY1 T
+HELICOPTER  HH EH1 L IH0 K AA2 P T ER0
+HELL  HH EH1 L
+HELLO  HH AH0 L OW1
+HELP  HH EH1 L P
+HELPFUL  HH EH1 L P F AH0 L
+HER  HH ER1
+HERE  HH IY1 R
+HERO  HH IH1 R OW0
+HERS  HH ER0 Z
+HERSELF  HH ER0 S EH1 L F
+HESITATE  HH EH1 Z AH0 T EY2 T
+HEY  HH EY1
+HI  HH AY1
+HIDE  HH AY1 D
+HIGH  HH AY1
+HIGHLIGHT  HH AY1 L AY2 T
+HIGHLY  HH AY1 L IY0
+HILL  HH IH1 L
+HIM  HH IH1 M
+HIMSELF  HH IH0 M S EH1 L F
+HIRE  HH AY1 ER0
+HIS  HH IH1 Z
+HISTORIC  HH IH0 S T AO1 R IH0 K
+HISTORICAL  HH IH0 S T AO1 R IH0 K AH0 L
+HISTORY  HH IH1 S T ER0 IY0
+HIT  HH IH1 T
+HOBBY  HH AA1 B IY0
+HOCKEY  HH AA1 K IY0
+HOLD  HH OW1 L D
+HOLE  HH OW1 L
+HOLIDAY  HH AA1 L AH0 D EY2
+HOLLOW  HH AA1 L OW0
+HOLY  HH OW1 L IY0
+HOME  HH OW1 M
+HOMEWORK  HH OW1 M W ER2 K
+HONEST  AA1 N AH0 S T
+HONOUR  AA1 N ER0
+HOPE  HH OW1 P
+HORRIBLE  HH AO1 R AH0 B AH0 L
+HORROR  HH AO1 R ER0
+HORSE  HH AO1 R S
+HOSPITAL  HH AA1 S P IH2 T AH0 L
+HOST  HH OW1 S T
+HOT  HH AA1 T
+HOTEL  HH OW0 T EH1 L
+HOUR  AW1 ER0
+HOUSE  HH AW1 S
+HOUSEHOLD  HH AW1 S HH OW2 L D
+HOUSING  HH AW1 Z IH0 NG
+HOW  HH AW1
+HOWEVER  HH AW2 EH1 V ER0
+HUGE  HH Y UW1 JH
+HUMAN  HH Y UW1 M AH0 N
+HUMOROUS  HH Y UW1 M ER0 AH0 S
+HUMOUR  HH Y UW1 M ER0
+HUNDRED  HH AH1 N D R AH0 D
+HUNGRY  HH AH1 NG G R IY0
+HUNT  HH AH1 N T
+HUNTING  HH AH1 N T IH0 NG
+HURRICANE  HH ER1 AH0 K EY2 N
+HURRY  HH ER1 IY0
+HURT  HH ER1 T
+HUSBAND  HH AH1 Z B AH0 N D
+I  AY1
+ICE  AY1 S
+IDEA  AY0 D IY1 AH0
+IDEAL  AY0 D IY1 L
+IDENTIFY  AY0 D EH1 N T AH0 F AY2
+IDENTITY  AY0 D EH1 N T IH0 T IY2
+IF  IH1 F
+IGNORE  IH2 G N AO1 R
+ILL  IH1 L
+ILLEGAL  IH2 L IY1 G AH0 L
+ILLNESS  IH1 L N AH0 S
+ILLUSTRATE  IH1 L AH0 S T R EY2 T
+ILLUSTRATION  IH2 L AH0 S T R EY1 SH AH0 N
+IMAGE  IH1 M AH0 JH
+IMAGINARY  IH2 M AE1 JH AH0 N EH2 R IY0
+IMAGINATION  IH2 M AE2 JH AH0 N EY1 SH AH0 N
+IMAGINE  IH2 M AE1 JH AH0 N
+IMMEDIATE  IH2 M IY1 D IY2 AH0 T
+IMMEDIATELY  IH2 M IY1 D IY2 AH0 T L IY0
+IMMIGRANT  IH1 M AH0 G R AH0 N T
+IMPACT  IH2 M P AE1 K T
+IMPATIENT  IH2 M P EY1 SH AH0 N T
+IMPLY  IH2 M P L AY1
+IMPORT  IH2 M P AO1 R T
+IMPORTANCE  IH2 M P AO1 R T AH0 N S
+IMPORTANT  IH2 M P AO1 R T AH0 N T
+IMPOSE  IH2 M P OW1 Z
+IMPOSSIBLE  IH2 M P AA1 S AH0 B AH0 L
+IMPRESS  IH2 M P R EH1 S
+IMPRESSED  IH2 M P R EH1 S T
+IMPRESSION  IH2 M P R EH1 SH AH0 N
+IMPRESSIVE  IH2 M P R EH1 S IH0 V
+IMPROVE  IH2 M P R UW1 V
+IMPROVEMENT  IH2 M P R UW1 V M AH0 N T
+IN  IH0 N
+INCH  IH1 N CH
+INCIDENT  IH1 N S AH0 D AH0 N T
+INCLUDE  IH2 N K L UW1 D
+INCLUDED  IH2 N K L UW1 D AH0 D
+INCLUDING  IH2 N K L UW1 D IH0 NG
+INCOME  IH1 N K AH2 M
+INCREASE  IH2 N K R IY1 S
+INCREASINGLY  IH0 N K R IY1 S IH0 NG L IY0
+INCREDIBLE  IH2 N K R EH1 D AH0 B AH0 L
+INCREDIBLY  IH2 N K R EH1 D AH0 B L IY0
+INDEED  IH2 N D IY1 D
+INDEPENDENT  IH2 N D IH0 P EH1 N D AH0 N T
+INDICATE  IH1 N D AH0 K EY2 T
+INDIRECT  IH2 N D ER0 EH1 K T
+INDIVIDUAL  IH2 N D AH0 V IH1 JH AH0 W AH0 L
+INDOOR  IH1 N D AO2 R
+INDOORS  IH1 N D AO2 R Z
+INDUSTRIAL  IH2 N D AH1 S T R IY0 AH0 L
+INDUSTRY  IH1 N D AH0 S T R IY0
+INFECTION  IH2 N F EH1 K SH AH0 N
+INFLUENCE  IH1 N F L UW0 AH0 N S
+INFORM  IH2 N F AO1 R M
+INFORMAL  IH2 N F AO1 R M AH0 L
+INFORMATION  IH2 N F ER0 M EY1 SH AH0 N
+INGREDIENT  IH2 N G R IY1 D IY0 AH0 N T
+INITIAL  IH2 N IH1 SH AH0 L
+INITIALLY  IH2 N IH1 SH AH0 L IY0
+INITIATIVE  IH2 N IH1 SH AH0 T IH0 V
+INJURE  IH1 N JH ER0
+INJURED  IH1 N JH ER0 D
+INJURY  IH1 N JH ER0 IY0
+INNER  IH1 N ER0
+INNOCENT  IH1 N AH0 S AH0 N T
+INSECT  IH1 N S EH2 K T
+INSIDE  IH2 N S AY1 D
+INSIGHT  IH1 N S AY2 T
+INSIST  IH2 N S IH1 S T
+INSPIRE  IH2 N S P AY1 R
+INSTALL  IH2 N S T AO1 L
+INSTANCE  IH1 N S T AH0 N S
+INSTEAD  IH2 N S T EH1 D
+INSTITUTE  IH1 N S T AH0 T UW2 T
+INSTITUTION  IH2 N S T IH0 T UW1 SH AH0 N
+INSTRUCTION  IH2 N S T R AH1 K SH AH0 N
+INSTRUCTOR  IH2 N S T R AH1 K T ER0
+INSTRUMENT  IH1 N S T R AH0 M AH0 N T
+INSURANCE  IH2 N SH UH1 R AH0 N S
+INTELLIGENCE  IH2 N T EH1 L AH0 JH AH0 N S
+INTELLIGENT  IH2 N T EH1 L AH0 JH AH0 N T
+INTEND  IH2 N T EH1 N D
+INTENDED  IH2 N T EH1 N D IH0 D
+INTENSE  IH2 N T EH1 N S
+INTENTION  IH2 N T EH1 N CH AH0 N
+INTEREST  IH1 N T R AH0 S T
+INTERESTED  IH1 N T R AH0 S T IH0 D
+INTERESTING  IH1 N T R AH0 S T IH0 NG
+INTERNAL  IH2 N T ER1 N AH0 L
+INTERNATIONAL  IH2 N T ER0 N AE1 SH AH0 N AH0 L
+INTERNET  IH1 N T ER0 N EH2 T
+INTERPRET  IH2 N T ER1 P R AH0 T
+INTERRUPT  IH2 N T ER0 AH1 P T
+INTERVIEW  IH1 N T ER0 V Y UW2
+INTO  IH1 N T UW0
+INTRODUCE  IH2 N T R AH0 D UW1 S
+INTRODUCTION  IH2 N T R AH0 D AH1 K SH AH0 N
+INVENT  IH2 N V EH1 N T
+INVENTION  IH2 N V EH1 N SH AH0 N
+INVEST  IH2 N V EH1 S T
+INVESTIGATE  IH2 N V EH1 S T AH0 G EY2 T
+INVESTIGATION  IH2 N V EH2 S T AH0 G EY1 SH AH0 N
+INVESTMENT  IH2 N V EH1 S T M AH0 N T
+INVITATION  IH2 N V IH0 T EY1 SH AH0 N
+INVITE  IH2 N V AY1 T
+INVOLVE  IH2 N V AA1 L V
+INVOLVED  IH2 N V AA1 L V D
+IRON  AY1 ER0 N
+ISLAND  AY1 L AH0 N D
+ISSUE  IH1 SH UW0
+IT  IH1 T
+ITEM  AY1 T AH0 M
+ITS  IH1 T S
+ITSELF  IH2 T S EH1 L F
+JACKET  JH AE1 K AH0 T
+JAM  JH AE1 M
+JANUARY  JH AE1 N Y UW0 EH2 R IY0
+JAZZ  JH AE1 Z
+JEANS  JH IY1 N Z
+JEWELLERY  JH UW1 AH0 L R IY0
+JOB  JH AA1 B
+JOIN  JH OY1 N
+JOKE  JH OW1 K
+JOURNAL  JH ER1 N AH0 L
+JOURNALIST  JH ER1 N AH0 L AH0 S T
+JOURNEY  JH ER1 N IY0
+JOY  JH OY1
+JUDGE  JH AH1 JH
+JUDGEMENT  JH AH1 JH M AH0 N T
+JUICE  JH UW1 S
+JULY  JH UW2 L AY1
+JUMP  JH AH1 M P
+JUNE  JH UW1 N
+JUNIOR  JH UW1 N Y ER0
+JUST  JH AH1 S T
+JUSTICE  JH AH1 S T AH0 S
+JUSTIFY  JH AH1 S T AH0 F AY2
+KEEN  K IY1 N
+KEEP  K IY1 P
+KEY  K IY1
+KEYBOARD  K IY1 B AO2 R D
+KICK  K IH1 K
+KID  K IH1 D
+KILL  K IH1 L
+KILLING  K IH1 L IH0 NG
+KILOMETRE  K IH2 L AO1 M AH2 T ER0
+KIND  K AY1 N D
+KING  K IH1 NG
+KISS  K IH1 S
+KITCHEN  K IH1 CH AH0 N
+KNEE  N IY1
+KNIFE  N AY1 F
+KNOCK  N AA1 K
+KNOW  N OW1
+KNOWLEDGE  N AA1 L AH0 JH
+LAB  L AE1 B
+LABEL  L EY1 B AH0 L
+LABORATORY  L AE1 B R AH0 T AO2 R IY0
+LABOUR  L EY1 B ER0
+LACK  L AE1 K
+LADY  L EY1 D IY0
+LAKE  L EY1 K
+LAMP  L AE1 M P
+LAND  L AE1 N D
+LANDSCAPE  L AE1 N D S K EY2 P
+LANGUAGE  L AE1 NG G W AH0 JH
+LAPTOP  L AE1 P T AA2 P
+LARGE  L AA1 R JH
+LARGELY  L AA1 R JH L IY0
+LAST  L AE1 S T
+LATE  L EY1 T
+LATER  L EY1 T ER0
+LATEST  L EY1 T AH0 S T
+LAUGH  L AE1 F
+LAUGHTER  L AE1 F T ER0
+LAUNCH  L AO1 N CH
+LAW  L AO1
+LAWYER  L AO1 Y ER0
+LAY  L EY1
+LAYER  L EY1 ER0
+LAZY  L EY1 Z IY0
+LEAD  L EH1 D
+LEADER  L IY1 D ER0
+LEADERSHIP  L IY1 D ER0 SH IH2 P
+LEADING  L IY1 D IH0 NG
+LEAF  L IY1 F
+LEAGUE  L IY1 G
+LEAN  L IY1 N
+LEARN  L ER1 N
+LEARNING  L ER1 N IH0 NG
+LEAST  L IY1 S T
+LEATHER  L EH1 DH ER0
+LEAVE  L IY1 V
+LECTURE  L EH1 K CH ER0
+LEFT  L EH1 F T
+LEG  L EH1 G
+LEGAL  L IY1 G AH0 L
+LEISURE  L EH1 ZH ER0
+LEMON  L EH1 M AH0 N
+LEND  L EH1 N D
+LENGTH  L EH1 NG K TH
+LESS  L EH1 S
+LESSON  L EH1 S AH0 N
+LET  L EH1 T
+LETTER  L EH1 T ER0
+LEVEL  L EH1 V AH0 L
+LIBRARY  L AY1 B R EH0 R IY2
+LICENCE  L AY1 S AH0 N S
+LIE  L AY1
+LIFE  L AY1 F
+LIFESTYLE  L AY1 F S T AY2 L
+LIFT  L IH1 F T
+LIGHT  L AY1 T
+LIKE  L AY1 K
+LIKELY  L AY1 K L IY0
+LIMIT  L IH1 M AH0 T
+LIMITED  L IH1 M AH0 T AH0 D
+LINE  L AY1 N
+LINK  L IH1 NG K
+LION  L AY1 AH0 N
+LIP  L IH1 P
+LIQUID  L IH1 K W AH0 D
+LIST  L IH1 S T
+LISTEN  L IH1 S AH0 N
+LISTENER  L IH1 S AH0 N ER0
+LITERATURE  L IH1 T ER0 AH0 CH ER0
+LITTLE  L IH1 T AH0 L
+LIVE  L AY1 V
+LIVELY  L AY1 V L IY0
+LIVING  L IH1 V IH0 NG
+LOAD  L OW1 D
+LOAN  L OW1 N
+LOCAL  L OW1 K AH0 L
+LOCATE  L OW1 K EY2 T
+LOCATED  L OW1 K EY2 T AH0 D
+LOCATION  L OW0 K EY1 SH AH0 N
+LOCK  L AA1 K
+LOGICAL  L AA1 JH IH0 K AH0 L
+LONELY  L OW1 N L IY0
+LONG  L AO1 NG
+LOOK  L UH1 K
+LOOSE  L UW1 S
+LORD  L AO1 R D
+LORRY  L AO1 R IY0
+LOSE  L UW1 Z
+LOSS  L AO1 S
+LOST  L AO1 S T
+LOT  L AA1 T
+LOUD  L AW1 D
+LOUDLY  L AW1 D L IY0
+LOVE  L AH1 V
+LOVELY  L AH1 V L IY0
+LOW  L OW1
+LOWER  L OW1 ER0
+LUCK  L AH1 K
+LUCKY  L AH1 K IY0
+LUNCH  L AH1 N CH
+LUNG  L AH1 NG
+LUXURY  L AH1 G ZH ER0 IY0
+MACHINE  M AH0 SH IY1 N
+MAD  M AE1 D
+MAGAZINE  M AE1 G AH0 Z IY2 N
+MAGIC  M AE1 JH IH0 K
+MAIL  M EY1 L
+MAIN  M EY1 N
+MAINLY  M EY1 N L IY0
+MAINTAIN  M EY0 N T EY1 N
+MAJOR  M EY1 JH ER0
+MAJORITY  M AH0 JH AO1 R AH0 T IY0
+MAKE  M EY1 K
+MALE  M EY1 L
+MALL  M AO1 L
+MAN  M AE1 N
+MANAGE  M AE1 N AH0 JH
+MANAGEMENT  M AE1 N AH0 JH M AH0 N T
+MANAGER  M AE1 N AH0 JH ER0
+MANNER  M AE1 N ER0
+MANY  M EH1 N IY0
+MAP  M AE1 P
+MARCH  M AA1 R CH
+MARK  M AA1 R K
+MARKET  M AA1 R K AH0 T
+MARKETING  M AA1 R K AH0 T IH0 NG
+MARRIAGE  M EH1 R IH0 JH
+MARRIED  M EH1 R IY0 D
+MARRY  M EH1 R IY0
+MASS  M AE1 S
+MASSIVE  M AE1 S IH0 V
+MASTER  M AE1 S T ER0
+MATCH  M AE1 CH
+MATCHING  M AE1 CH IH0 NG
+MATERIAL  M AH0 T IH1 R IY0 AH0 L
+MATHEMATICS  M AE2 TH AH0 M AE1 T IH0 K S
+MATHS  AH2 N D IH0 F AY1 N D
+MATTER  M AE1 T ER0
+MAXIMUM  M AE1 K S AH0 M AH0 M
+MAY  M EY1
+MAYBE  M EY1 B IY0
+ME  M IY1
+MEAL  M IY1 L
+MEAN  M IY1 N
+MEANING  M IY1 N IH0 NG
+MEANS  M IY1 N Z
+MEANWHILE  M IY1 N W AY2 L
+MEASURE  M EH1 ZH ER0
+MEASUREMENT  M EH1 ZH ER0 M AH0 N T
+MEAT  M IY1 T
+MEDIA  M IY1 D IY0 AH0
+MEDICAL  M EH1 D AH0 K AH0 L
+MEDICINE  M EH1 D AH0 S AH0 N
+MEDIUM  M IY1 D IY0 AH0 M
+MEET  M IY1 T
+MEETING  M IY1 T IH0 NG
+MELT  M EH1 L T
+MEMBER  M EH1 M B ER0
+MEMORY  M EH1 M ER0 IY0
+MENTAL  M EH1 N T AH0 L
+MENTION  M EH1 N SH AH0 N
+MENU  M EH1 N Y UW0
+MESS  M EH1 S
+MESSAGE  M EH1 S AH0 JH
+METAL  M EH1 T AH0 L
+METHOD  M EH1 TH AH0 D
+METRE  M IY1 T ER0
+MIDDLE  M IH1 D AH0 L
+MIDNIGHT  M IH1 D N AY2 T
+MIGHT  M AY1 T
+MILD  M AY1 L D
+MILE  M AY1 L
+MILITARY  M IH1 L AH0 T EH2 R IY0
+MILK  M IH1 L K
+MILLION  M IH1 L Y AH0 N
+MIND  M AY1 N D
+MINE  M AY1 N
+MINERAL  M IH1 N ER0 AH0 L
+MINIMUM  M IH1 N AH0 M AH0 M
+MINISTER  M IH1 N AH0 S T ER0
+MINOR  M AY1 N ER0
+MINORITY  M AY0 N AO1 R AH0 T IY0
+MINUTE  M IH1 N AH0 T
+MIRROR  M IH1 R ER0
+MISS  M IH1 S
+MISSING  M IH1 S IH0 NG
+MISSION  M IH1 SH AH0 N
+MISTAKE  M IH0 S T EY1 K
+MIX  M IH1 K S
+MIXED  M IH1 K S T
+MIXTURE  M IH1 K S CH ER0
+MOBILE  M OW1 B AH0 L
+MODEL  M AA1 D AH0 L
+MODERN  M AA1 D ER0 N
+MODIFY  M AA1 D AH0 F AY2
+MOMENT  M OW1 M AH0 N T
+MONDAY  M AH1 N D IY0
+MONEY  M AH1 N IY0
+MONITOR  M AA1 N AH0 T ER0
+MONKEY  M AH1 NG K IY0
+MONTH  M AH1 N TH
+MOOD  M UW1 D
+MOON  M UW1 N
+MORAL  M AO1 R AH0 L
+MORE  M AO1 R
+MORNING  M AO1 R N IH0 NG
+MOST  M OW1 S T
+MOSTLY  M OW1 S T L IY0
+MOTHER  M AH1 DH ER0
+MOTOR  M OW1 T ER0
+MOTORCYCLE  M OW1 T ER0 S AY2 K AH0 L
+MOUNT  M AW1 N T
+MOUNTAIN  M AW1 N T AH0 N
+MOUSE  M AW1 S
+MOUTH  M AW1 TH
+MOVE  M UW1 V
+MOVEMENT  M UW1 V M AH0 N T
+MOVIE  M UW1 V IY0
+MUCH  M AH1 CH
+MUD  M AH1 D
+MULTIPLE  M AH1 L T AH0 P AH0 L
+MULTIPLY  M AH1 L T AH0 P L AY2
+MUM  M AH1 M
+MURDER  M ER1 D ER0
+MUSCLE  M AH1 S AH0 L
+MUSEUM  M Y UW0 Z IY1 AH0 M
+MUSIC  M Y UW1 Z IH0 K
+MUSICAL  M Y UW1 Z IH0 K AH0 L
+MUSICIAN  M Y UW0 Z IH1 SH AH0 N
+MUST  M AH1 S T
+MY  M AY1
+MYSELF  M AY2 S EH1 L F
+MYSTERIOUS  M IH0 S T IH1 R IY0 AH0 S
+MYSTERY  M IH1 S T ER0 IY0
+NAIL  N EY1 L
+NAME  N EY1 M
+NARRATIVE  N AE1 R AH0 T IH0 V
+NARROW  N EH1 R OW0
+NATION  N EY1 SH AH0 N
+NATIONAL  N AE1 SH AH0 N AH0 L
+NATIVE  N EY1 T IH0 V
+NATURAL  N AE1 CH ER0 AH0 L
+NATURALLY  N AE1 CH ER0 AH0 L IY0
+NATURE  N EY1 CH ER0
+NEAR  N IH1 R
+NEARLY  N IH1 R L IY0
+NEAT  N IY1 T
+NECESSARILY  N EH2 S AH0 S EH1 R AH0 L IY0
+NECESSARY  N EH1 S AH0 S EH2 R IY0
+NECK  N EH1 K
+NEED  N IY1 D
+NEEDLE  N IY1 D AH0 L
+NEGATIVE  N EH1 G AH0 T IH0 V
+NEIGHBOUR  N EY1 B ER0
+NEIGHBOURHOOD  N EY1 B ER0 HH UH2 D
+NEITHER  N IY1 DH ER0
+NERVE  N ER1 V
+NERVOUS  N ER1 V AH0 S
+NET  N EH1 T
+NETWORK  N EH1 T W ER2 K
+NEVER  N EH1 V ER0
+NEVERTHELESS  N EH2 V ER0 DH AH0 L EH1 S
+NEW  N UW1
+NEWS  N UW1 Z
+NEWSPAPER  N UW1 Z P EY2 P ER0
+NEXT  N EH1 K S T
+NICE  N AY1 S
+NIGHT  N AY1 T
+NIGHTMARE  N AY1 T M EH2 R
+NINE  N AY1 N
+NINETEEN  N AY1 N T IY1 N
+NINETY  N AY1 N T IY0
+NO  N OW1
+NOBODY  N OW1 B AA2 D IY2
+NOISE  N OY1 Z
+NOISY  N OY1 Z IY0
+NONE  N AH1 N
+NOR  N AO1 R
+NORMAL  N AO1 R M AH0 L
+NORMALLY  N AO1 R M AH0 L IY0
+NORTH  N AO1 R TH
+NORTHERN  N AO1 R DH ER0 N
+NOSE  N OW1 Z
+NOT  N AA1 T
+NOTE  N OW1 T
+NOTHING  N AH1 TH IH0 NG
+NOTICE  N OW1 T AH0 S
+NOTION  N OW1 SH AH0 N
+NOVEL  N AA1 V AH0 L
+NOVEMBER  N OW0 V EH1 M B ER0
+NOW  N AW1
+NOWHERE  N OW1 W EH2 R
+NUCLEAR  N UW1 K L IY0 ER0
+NUMBER  N AH1 M B ER0
+NUMEROUS  N UW1 M ER0 AH0 S
+NURSE  N ER1 S
+NUT  N AH1 T
+OCLOCK  AH0 K L AA1 K
+OBEY  OW0 B EY1
+OBJECT  AA1 B JH EH0 K T
+OBJECTIVE  AH0 B JH EH1 K T IH0 V
+OBLIGATION  AA2 B L AH0 G EY1 SH AH0 N
+OBSERVATION  AA2 B Z ER0 V EY1 SH AH0 N
+OBSERVE  AH0 B Z ER1 V
+OBTAIN  AH0 B T EY1 N
+OBVIOUS  AA1 B V IY0 AH0 S
+OBVIOUSLY  AA1 B V IY0 AH0 S L IY0
+OCCASION  AH0 K EY1 ZH AH0 N
+OCCASIONALLY  AH0 K EY1 ZH AH0 N AH0 L IY0
+OCCUR  AH0 K ER1
+OCEAN  OW1 SH AH0 N
+OCTOBER  AA0 K T OW1 B ER0
+ODD  AA1 D
+OF  AH1 V
+OFF  AO1 F
+OFFENCE  AH0 F EH1 N S
+OFFEND  AH0 F EH1 N D
+OFFENSIVE  AH0 F EH1 N S IH0 V
+OFFER  AO1 F ER0
+OFFICE  AO1 F IH0 S
+OFFICER  AO1 F AH0 S ER0
+OFFICIAL  AH0 F IH1 SH AH0 L
+OFTEN  AO1 F AH0 N
+OH  OW1
+OIL  OY1 L
+OK  OW1 K EY1
+OLD  OW1 L D
+ON  AA1 N
+ONCE  W AH1 N S
+ONE  W AH1 N
+ONION  AH1 N Y AH0 N
+ONLINE  AO1 N L AY2 N
+ONLY  OW1 N L IY0
+ONTO  AA1 N T UW0
+OPEN  OW1 P AH0 N
+OPENING  OW1 P AH0 N IH0 NG
+OPERATE  AA1 P ER0 EY2 T
+OPERATION  AA2 P ER0 EY1 SH AH0 N
+OPINION  AH0 P IH1 N Y AH0 N
+OPPONENT  AH0 P OW1 N AH0 N T
+OPPORTUNITY  AA2 P ER0 T UW1 N AH0 T IY0
+OPPOSE  AH0 P OW1 Z
+OPPOSED  AH0 P OW1 Z D
+OPPOSITE  AA1 P AH0 Z AH0 T
+OPPOSITION  AA2 P AH0 Z IH1 SH AH0 N
+OPTION  AA1 P SH AH0 N
+OR  AO1 R
+ORANGE  AO1 R AH0 N JH
+ORDER  AO1 R D ER0
+ORDINARY  AO1 R D AH0 N EH2 R IY0
+ORGAN  AO1 R G AH0 N
+ORGANIZATION  AO2 R G AH0 N AH0 Z EY1 SH AH0 N
+ORGANIZE  AO1 R G AH0 N AY2 Z
+ORGANIZED  AO1 R G AH0 N AY2 Z D
+ORGANIZER  AO1 R G AH0 N AY2 Z ER0
+ORIGIN  AO1 R AH0 JH AH0 N
+ORIGINAL  ER0 IH1 JH AH0 N AH0 L
+ORIGINALLY  ER0 IH1 JH AH0 N AH0 L IY0
+OTHER  AH1 DH ER0
+OTHERWISE  AH1 DH ER0 W AY2 Z
+OUGHT  AO1 T
+OUR  AW1 ER0
+OURS  AW1 ER0 Z
+OURSELVES  AW0 ER0 S EH1 L V Z
+OUT  AW1 T
+OUTCOME  AW1 T K AH2 M
+OUTDOOR  AW1 T D AO2 R
+OUTDOORS  AW1 T D AO1 R Z
+OUTER  AW1 T ER0
+OUTLINE  AW1 T L AY2 N
+OUTSIDE  AW1 T S AY1 D
+OVEN  AH1 V AH0 N
+OVER  OW1 V ER0
+OVERALL  OW1 V ER0 AO2 L
+OWE  OW1
+OWN  OW1 N
+OWNER  OW1 N ER0
+PACE  P EY1 S
+PACK  P AE1 K
+PACKAGE  P AE1 K AH0 JH
+PAGE  P EY1 JH
+PAIN  P EY1 N
+PAINFUL  P EY1 N F AH0 L
+PAINT  P EY1 N T
+PAINTER  P EY1 N T ER0
+PAINTING  P EY1 N T IH0 NG
+PAIR  P EH1 R
+PALACE  P AE1 L AH0 S
+PALE  P EY1 L
+PAN  P AE1 N
+PANEL  P AE1 N AH0 L
+PANTS  P AE1 N T S
+PAPER  P EY1 P ER0
+PARAGRAPH  P AE1 R AH0 G R AE2 F
+PARENT  P EH1 R AH0 N T
+PARK  P AA1 R K
+PARKING  P AA1 R K IH0 NG
+PARLIAMENT  P AA1 R L AH0 M AH0 N T
+PART  P AA1 R T
+PARTICIPANT  P AA0 R T IH1 S AH0 P AH0 N T
+PARTICIPATE  P AA0 R T IH1 S AH0 P EY2 T
+PARTICULAR  P ER0 T IH1 K Y AH0 L ER0
+PARTICULARLY  P AA2 R T IH1 K Y AH0 L ER0 L IY0
+PARTLY  P AA1 R T L IY0
+PARTNER  P AA1 R T N ER0
+PARTY  P AA1 R T IY0
+PASS  P AE1 S
+PASSAGE  P AE1 S AH0 JH
+PASSENGER  P AE1 S AH0 N JH ER0
+PASSION  P AE1 SH AH0 N
+PASSPORT  P AE1 S P AO2 R T
+PAST  P AE1 S T
+PATH  P AE1 TH
+PATIENT  P EY1 SH AH0 N T
+PATTERN  P AE1 T ER0 N
+PAY  P EY1
+PAYMENT  P EY1 M AH0 N T
+PEACE  P IY1 S
+PEACEFUL  P IY1 S F AH0 L
+PEN  P EH1 N
+PENCIL  P EH1 N S AH0 L
+PENNY  P EH1 N IY0
+PENSION  P EH1 N SH AH0 N
+PEOPLE  P IY1 P AH0 L
+PEPPER  P EH1 P ER0
+PER  P ER1
+PERCENTAGE  P ER0 S EH1 N T AH0 JH
+PERFECT  P ER0 F EH1 K T
+PERFECTLY  P ER1 F AH0 K T L IY0
+PERFORM  P ER0 F AO1 R M
+PERFORMANCE  P ER0 F AO1 R M AH0 N S
+PERHAPS  P ER0 HH AE1 P S
+PERIOD  P IH1 R IY0 AH0 D
+PERMANENT  P ER1 M AH0 N AH0 N T
+PERMISSION  P ER0 M IH1 SH AH0 N
+PERMIT  P ER0 M IH1 T
+PERSON  P ER1 S AH0 N
+PERSONAL  P ER1 S IH0 N AH0 L
+PERSONALITY  P ER2 S AH0 N AE1 L IH0 T IY0
+PERSONALLY  P ER1 S AH0 N AH0 L IY0
+PERSPECTIVE  P ER0 S P EH1 K T IH0 V
+PERSUADE  P ER0 S W EY1 D
+PET  P EH1 T
+PETROL  P EH1 T R OW0 L
+PHASE  F EY1 Z
+PHENOMENON  F AH0 N AA1 M AH0 N AA2 N
+PHILOSOPHY  F AH0 L AA1 S AH0 F IY0
+PHONE  F OW1 N
+PHOTO  F OW1 T OW2
+PHOTOGRAPH  F OW1 T AH0 G R AE2 F
+PHOTOGRAPHER  F AH0 T AA1 G R AH0 F ER0
+PHOTOGRAPHY  F AH0 T AA1 G R AH0 F IY0
+PHRASE  F R EY1 Z
+PHYSICAL  F IH1 Z IH0 K AH0 L
+PHYSICS  F IH1 Z IH0 K S
+PIANO  P IY0 AE1 N OW0
+PICK  P IH1 K
+PICTURE  P IH1 K CH ER0
+PIECE  P IY1 S
+PIG  P IH1 G
+PILE  P AY1 L
+PILOT  P AY1 L AH0 T
+PIN  P IH1 N
+PINK  P IH1 NG K
+PIPE  P AY1 P
+PITCH  P IH1 CH
+PLACE  P L EY1 S
+PLAIN  P L EY1 N
+PLAN  P L AE1 N
+PLANE  P L EY1 N
+PLANET  P L AE1 N AH0 T
+PLANNING  P L AE1 N IH0 NG
+PLANT  P L AE1 N T
+PLASTIC  P L AE1 S T IH0 K
+PLATE  P L EY1 T
+PLATFORM  P L AE1 T F AO2 R M
+PLAY  P L EY1
+PLAYER  P L EY1 ER0
+PLEASANT  P L EH1 Z AH0 N T
+PLEASE  P L IY1 Z
+PLEASED  P L IY1 Z D
+PLEASURE  P L EH1 ZH ER0
+PLENTY  P L EH1 N T IY0
+PLOT  P L AA1 T
+PLUS  P L AH1 S
+POCKET  P AA1 K AH0 T
+POEM  P OW1 AH0 M
+POET  P OW1 AH0 T
+POETRY  P OW1 AH0 T R IY0
+POINT  P OY1 N T
+POINTED  P OY1 N T IH0 D
+POISON  P OY1 Z AH0 N
+POISONOUS  P OY1 Z AH0 N AH0 S
+POLICE  P AH0 L IY1 S
+POLICEMAN  P AH0 L IY1 S M AH0 N
+POLICY  P AA1 L AH0 S IY0
+POLITE  P AH0 L AY1 T
+POLITICAL  P AH0 L IH1 T AH0 K AH0 L
+POLITICIAN  P AA2 L AH0 T IH1 SH AH0 N
+POLITICS  P AA1 L AH0 T IH2 K S
+POLLUTION  P AH0 L UW1 SH AH0 N
+POOL  P UW1 L
+POOR  P UW1 R
+POP  P AA1 P
+POPULAR  P AA1 P Y AH0 L ER0
+POPULARITY  P AA2 P Y AH0 L EH1 R AH0 T IY0
+POPULATION  P AA2 P Y AH0 L EY1 SH AH0 N
+PORT  P AO1 R T
+PORTRAIT  P AO1 R T R AH0 T
+POSE  P OW1 Z
+POSITION  P AH0 Z IH1 SH AH0 N
+POSITIVE  P AA1 Z AH0 T IH0 V
+POSSESS  P AH0 Z EH1 S
+POSSESSION  P AH0 Z EH1 SH AH0 N
+POSSIBILITY  P AA2 S AH0 B IH1 L AH0 T IY2
+POSSIBLE  P AA1 S AH0 B AH0 L
+POSSIBLY  P AA1 S AH0 B L IY0
+POST  P OW1 S T
+POSTER  P OW1 S T ER0
+POT  P AA1 T
+POTATO  P AH0 T EY1 T OW2
+POTENTIAL  P AH0 T EH1 N SH AH0 L
+POUND  P AW1 N D
+POUR  P AO1 R
+POVERTY  P AA1 V ER0 T IY0
+POWDER  P AW1 D ER0
+POWER  P AW1 ER0
+POWERFUL  P AW1 ER0 F AH0 L
+PRACTICAL  P R AE1 K T AH0 K AH0 L
+PRACTICE  P R AE1 K T AH0 S
+PRACTISE  P R AE1 K T IH0 S
+PRAISE  P R EY1 Z
+PRAY  P R EY1
+PRAYER  P R EH1 R
+PREDICT  P R IH0 D IH1 K T
+PREDICTION  P R IY0 D IH1 K SH AH0 N
+PREFER  P R AH0 F ER1
+PREGNANT  P R EH1 G N AH0 N T
+PREPARATION  P R EH2 P ER0 EY1 SH AH0 N
+PREPARE  P R IY0 P EH1 R
+PREPARED  P R IY0 P EH1 R D
+PRESENCE  P R EH1 Z AH0 N S
+PRESENT  P R EH1 Z AH0 N T
+PRESENTATION  P R EH2 Z AH0 N T EY1 SH AH0 N
+PRESERVE  P R AH0 Z ER1 V
+PRESIDENT  P R EH1 Z AH0 D EH2 N T
+PRESS  P R EH1 S
+PRESSURE  P R EH1 SH ER0
+PRETEND  P R IY0 T EH1 N D
+PRETTY  P R IH1 T IY0
+PREVENT  P R IH0 V EH1 N T
+PREVIOUS  P R IY1 V IY0 AH0 S
+PREVIOUSLY  P R IY1 V IY0 AH0 S L IY0
+PRICE  P R AY1 S
+PRIEST  P R IY1 S T
+PRIMARY  P R AY1 M EH2 R IY0
+PRIME  P R AY1 M
+PRINCE  P R IH1 N S
+PRINCESS  P R IH1 N S EH0 S
+PRINCIPLE  P R IH1 N S AH0 P AH0 L
+PRINT  P R IH1 N T
+PRINTER  P R IH1 N T ER0
+PRINTING  P R IH1 N T IH0 NG
+PRIORITY  P R AY0 AO1 R AH0 T IY0
+PRISON  P R IH1 Z AH0 N
+PRISONER  P R IH1 Z AH0 N ER0
+PRIVACY  P R AY1 V AH0 S IY0
+PRIVATE  P R AY1 V AH0 T
+PRIZE  P R AY1 Z
+PROBABLY  P R AA1 B AH0 B L IY2
+PROBLEM  P R AA1 B L AH0 M
+PROCEDURE  P R AH0 S IY1 JH ER0
+PROCESS  P R AA1 S EH2 S
+PRODUCE  P R AH0 D UW1 S
+PRODUCER  P R AH0 D UW1 S ER0
+PRODUCT  P R AA1 D AH0 K T
+PRODUCTION  P R AH0 D AH1 K SH AH0 N
+PROFESSION  P R AH0 F EH1 SH AH0 N
+PROFESSIONAL  P R AH0 F EH1 SH AH0 N AH0 L
+PROFESSOR  P R AH0 F EH1 S ER0
+PROFILE  P R OW1 F AY2 L
+PROFIT  P R AA1 F AH0 T
+PROGRAM  P R OW1 G R AE2 M
+PROGRAMME  P R OW1 G R AE2 M
+PROGRESS  P R AA1 G R EH2 S
+PROJECT  P R AA1 JH EH0 K T
+PROMISE  P R AA1 M AH0 S
+PROMOTE  P R AH0 M OW1 T
+PRONOUNCE  P R AH0 N AW1 N S
+PROOF  P R UW1 F
+PROPER  P R AA1 P ER0
+PROPERLY  P R AA1 P ER0 L IY0
+PROPERTY  P R AA1 P ER0 T IY0
+PROPOSAL  P R AH0 P OW1 Z AH0 L
+PROPOSE  P R AH0 P OW1 Z
+PROSPECT  P R AA1 S P EH0 K T
+PROTECT  P R AH0 T EH1 K T
+PROTECTION  P R AH0 T EH1 K SH AH0 N
+PROTEST  P R OW1 T EH2 S T
+PROUD  P R AW1 D
+PROVE  P R UW1 V
+PROVIDE  P R AH0 V AY1 D
+PSYCHOLOGIST  S AY0 K AA1 L AH0 JH AH0 S T
+PSYCHOLOGY  S AY0 K AA1 L AH0 JH IY0
+PUB  P AH1 B
+PUBLIC  P AH1 B L IH0 K
+PUBLICATION  P AH2 B L IH0 K EY1 SH AH0 N
+PUBLISH  P AH1 B L IH0 SH
+PULL  P UH1 L
+PUNISH  P AH1 N IH0 SH
+PUNISHMENT  P AH1 N IH0 SH M AH0 N T
+PUPIL  P Y UW1 P AH0 L
+PURCHASE  P ER1 CH AH0 S
+PURE  P Y UH1 R
+PURPLE  P ER1 P AH0 L
+PURPOSE  P ER1 P AH0 S
+PURSUE  P ER0 S UW1
+PUSH  P UH1 SH
+PUT  P UH1 T
+QUALIFICATION  K W AA2 L AH0 F AH0 K EY1 SH AH0 N
+QUALIFIED  K W AA1 L AH0 F AY2 D
+QUALIFY  K W AA1 L AH0 F AY2
+QUALITY  K W AA1 L AH0 T IY0
+QUANTITY  K W AA1 N T AH0 T IY0
+QUARTER  K W AO1 R T ER0
+QUEEN  K W IY1 N
+QUESTION  K W EH1 S CH AH0 N
+QUEUE  K Y UW1
+QUICK  K W IH1 K
+QUICKLY  K W IH1 K L IY0
+QUIET  K W AY1 AH0 T
+QUIETLY  K W AY1 AH0 T L IY0
+QUIT  K W IH1 T
+QUITE  K W AY1 T
+QUOTATION  K W OW0 T EY1 SH AH0 N
+QUOTE  K W OW1 T
+RACE  R EY1 S
+RACING  R EY1 S IH0 NG
+RADIO  R EY1 D IY0 OW2
+RAILWAY  R EY1 L W EY2
+RAIN  R EY1 N
+RAISE  R EY1 Z
+RANGE  R EY1 N JH
+RANK  R AE1 NG K
+RAPID  R AE1 P AH0 D
+RAPIDLY  R AE1 P AH0 D L IY0
+RARE  R EH1 R
+RARELY  R EH1 R L IY0
+RATE  R EY1 T
+RATHER  R AE1 DH ER0
+RAW  R AA1
+REACH  R IY1 CH
+REACT  R IY0 AE1 K T
+REACTION  R IY0 AE1 K SH AH0 N
+READ  R EH1 D
+READER  R IY1 D ER0
+READING  R IY1 D IH0 NG
+READY  R EH1 D IY0
+REAL  R IY1 L
+REALISTIC  R IY2 AH0 L IH1 S T IH0 K
+REALITY  R IY2 AE1 L AH0 T IY2
+REALIZE  R IY1 AH0 L AY2 Z
+REALLY  R IH1 L IY0
+REASON  R IY1 Z AH0 N
+REASONABLE  R IY1 Z AH0 N AH0 B AH0 L
+RECALL  R IY1 K AO2 L
+RECEIPT  R IH0 S IY1 T
+RECEIVE  R AH0 S IY1 V
+RECENT  R IY1 S AH0 N T
+RECENTLY  R IY1 S AH0 N T L IY0
+RECEPTION  R IH0 S EH1 P SH AH0 N
+RECIPE  R EH1 S AH0 P IY0
+RECOGNIZE  R EH1 K AH0 G N AY2 Z
+RECOMMEND  R EH2 K AH0 M EH1 N D
+RECOMMENDATION  R EH2 K AH0 M AH0 N D EY1 SH AH0 N
+RECORD  R AH0 K AO1 R D
+RECORDING  R AH0 K AO1 R D IH0 NG
+RECOVER  R IH0 K AH1 V ER0
+RECYCLE  R IY0 S AY1 K AH0 L
+RED  R EH1 D
+REDUCE  R AH0 D UW1 S
+REDUCTION  R AH0 D AH1 K SH AH0 N
+REFER  R AH0 F ER1
+REFERENCE  R EH1 F ER0 AH0 N S
+REFLECT  R IH0 F L EH1 K T
+REFUSE  R AH0 F Y UW1 Z
+REGARD  R IH0 G AA1 R D
+REGION  R IY1 JH AH0 N
+REGIONAL  R IY1 JH AH0 N AH0 L
+REGISTER  R EH1 JH IH0 S T ER0
+REGRET  R AH0 G R EH1 T
+REGULAR  R EH1 G Y AH0 L ER0
+REGULARLY  R EH1 G Y AH0 L ER0 L IY0
+REGULATION  R EH2 G Y AH0 L EY1 SH AH0 N
+REJECT  R IH0 JH EH1 K T
+RELATE  R IH0 L EY1 T
+RELATED  R IH0 L EY1 T IH0 D
+RELATION  R IY0 L EY1 SH AH0 N
+RELATIONSHIP  R IY0 L EY1 SH AH0 N SH IH2 P
+RELATIVE  R EH1 L AH0 T IH0 V
+RELATIVELY  R EH1 L AH0 T IH0 V L IY0
+RELAX  R IH0 L AE1 K S
+RELAXED  R IH0 L AE1 K S T
+RELAXING  R IH0 L AE1 K S IH0 NG
+RELEASE  R IY0 L IY1 S
+RELEVANT  R EH1 L AH0 V AH0 N T
+RELIABLE  R IH0 L AY1 AH0 B AH0 L
+RELIEF  R IH0 L IY1 F
+RELIGION  R IH0 L IH1 JH AH0 N
+RELIGIOUS  R IH0 L IH1 JH AH0 S
+RELY  R IH0 L AY1
+REMAIN  R IH0 M EY1 N
+REMARK  R IH0 M AA1 R K
+REMEMBER  R IH0 M EH1 M B ER0
+REMIND  R IY0 M AY1 N D
+REMOTE  R IH0 M OW1 T
+REMOVE  R IY0 M UW1 V
+RENT  R EH1 N T
+REPAIR  R IH0 P EH1 R
+REPEAT  R IH0 P IY1 T
+REPEATED  R IH0 P IY1 T IH0 D
+REPLACE  R IY2 P L EY1 S
+REPLY  R IH0 P L AY1
+REPORT  R IY0 P AO1 R T
+REPORTER  R IH0 P AO1 R T ER0
+REPRESENT  R EH2 P R IH0 Z EH1 N T
+REPRESENTATIVE  R EH2 P R AH0 Z EH1 N T AH0 T IH0 V
+REPUTATION  R EH2 P Y AH0 T EY1 SH AH0 N
+REQUEST  R IH0 K W EH1 S T
+REQUIRE  R IY2 K W AY1 ER0
+REQUIREMENT  R IH0 K W AY1 R M AH0 N T
+RESCUE  R EH1 S K Y UW0
+RESEARCH  R IY0 S ER1 CH
+RESEARCHER  R IY1 S ER0 CH ER0
+RESERVATION  R EH2 Z ER0 V EY1 SH AH0 N
+RESERVE  R IH0 Z ER1 V
+RESIDENT  R EH1 Z IH0 D AH0 N T
+RESIST  R IH0 Z IH1 S T
+RESOLVE  R IY0 Z AA1 L V
+RESORT  R IH0 Z AO1 R T
+RESOURCE  R IY1 S AO0 R S
+RESPECT  R IH0 S P EH1 K T
+RESPOND  R IH0 S P AA1 N D
+RESPONSE  R IH0 S P AA1 N S
+RESPONSIBILITY  R IY0 S P AA2 N S AH0 B IH1 L AH0 T IY0
+RESPONSIBLE  R IY0 S P AA1 N S AH0 B AH0 L
+REST  R EH1 S T
+RESTAURANT  R EH1 S T ER0 AA2 N T
+RESULT  R IH0 Z AH1 L T
+RETAIN  R IH0 T EY1 N
+RETIRE  R IH0 T AY1 R
+RETIRED  R IH0 T AY1 R D
+RETURN  R IH0 T ER1 N
+REVEAL  R IH0 V IY1 L
+REVIEW  R IY2 V Y UW1
+REVISE  R IH0 V AY1 Z
+REVOLUTION  R EH2 V AH0 L UW1 SH AH0 N
+REWARD  R IH0 W AO1 R D
+RHYTHM  R IH1 DH AH0 M
+RICE  R AY1 S
+RICH  R IH1 CH
+RID  R IH1 D
+RIDE  R AY1 D
+RIGHT  R AY1 T
+RING  R IH1 NG
+RISE  R AY1 Z
+RISK  R IH1 S K
+RIVER  R IH1 V ER0
+ROAD  R OW1 D
+ROBOT  R OW1 B AA2 T
+ROCK  R AA1 K
+ROLE  R OW1 L
+ROLL  R OW1 L
+ROMANTIC  R OW0 M AE1 N T IH0 K
+ROOF  R UW1 F
+ROOM  R UW1 M
+ROOT  R UW1 T
+ROPE  R OW1 P
+ROUGH  R AH1 F
+ROUND  R AW1 N D
+ROUTE  R UW1 T
+ROUTINE  R UW0 T IY1 N
+ROW  R OW1
+ROYAL  R OY1 AH0 L
+RUB  R AH1 B
+RUBBER  R AH1 B ER0
+RUBBISH  R AH1 B IH0 SH
+RUDE  R UW1 D
+RUGBY  R AH1 G B IY0
+RULE  R UW1 L
+RUN  R AH1 N
+RUNNER  R AH1 N ER0
+RUNNING  R AH1 N IH0 NG
+RURAL  R UH1 R AH0 L
+RUSH  R AH1 SH
+SAD  S AE1 D
+SADLY  S AE1 D L IY0
+SAFE  S EY1 F
+SAFETY  S EY1 F T IY0
+SAIL  S EY1 L
+SAILING  S EY1 L IH0 NG
+SAILOR  S EY1 L ER0
+SALAD  S AE1 L AH0 D
+SALARY  S AE1 L ER0 IY0
+SALE  S EY1 L
+SALT  S AO1 L T
+SAME  S EY1 M
+SAMPLE  S AE1 M P AH0 L
+SAND  S AE1 N D
+SANDWICH  S AE1 N D W IH0 CH
+SATELLITE  S AE1 T AH0 L AY2 T
+SATISFIED  S AE1 T AH0 S F AY2 D
+SATISFY  S AE1 T AH0 S F AY2
+SATURDAY  S AE1 T ER0 D IY0
+SAUCE  S AO1 S
+SAVE  S EY1 V
+SAVING  S EY1 V IH0 NG
+SAY  S EY1
+SCALE  S K EY1 L
+SCAN  S K AE1 N
+SCARED  S K EH1 R D
+SCARY  S K EH1 R IY0
+SCENE  S IY1 N
+SCHEDULE  S K EH1 JH UH0 L
+SCHEME  S K IY1 M
+SCHOOL  S K UW1 L
+SCIENCE  S AY1 AH0 N S
+SCIENTIFIC  S AY2 AH0 N T IH1 F IH0 K
+SCIENTIST  S AY1 AH0 N T IH0 S T
+SCORE  S K AO1 R
+SCREAM  S K R IY1 M
+SCREEN  S K R IY1 N
+SCRIPT  S K R IH1 P T
+SCULPTURE  S K AH1 L P CH ER0
+SEA  S IY1
+SEARCH  S ER1 CH
+SEASON  S IY1 Z AH0 N
+SEAT  S IY1 T
+SECOND  S EH1 K AH0 N D
+SECONDARY  S EH1 K AH0 N D EH2 R IY0
+SECONDLY  S EH1 K AH0 N D L IY0
+SECRET  S IY1 K R AH0 T
+SECRETARY  S EH1 K R AH0 T EH2 R IY0
+SECTION  S EH1 K SH AH0 N
+SECTOR  S EH1 K T ER0
+SECURE  S IH0 K Y UH1 R
+SECURITY  S IH0 K Y UH1 R AH0 T IY0
+SEE  S IY1
+SEED  S IY1 D
+SEEK  S IY1 K
+SEEM  S IY1 M
+SELECT  S AH0 L EH1 K T
+SELECTION  S AH0 L EH1 K SH AH0 N
+SELF  S EH1 L F
+SELL  S EH1 L
+SEND  S EH1 N D
+SENIOR  S IY1 N Y ER0
+SENSE  S EH1 N S
+SENSIBLE  S EH1 N S AH0 B AH0 L
+SENSITIVE  S EH1 N S AH0 T IH0 V
+SENTENCE  S EH1 N T AH0 N S
+SEPARATE  S EH1 P ER0 EY2 T
+SEPTEMBER  S EH0 P T EH1 M B ER0
+SEQUENCE  S IY1 K W AH0 N S
+SERIES  S IH1 R IY0 Z
+SERIOUS  S IH1 R IY0 AH0 S
+SERIOUSLY  S IH1 R IY0 AH0 S L IY0
+SERVANT  S ER1 V AH0 N T
+SERVE  S ER1 V
+SERVICE  S ER1 V AH0 S
+SESSION  S EH1 SH AH0 N
+SET  S EH1 T
+SETTING  S EH1 T IH0 NG
+SETTLE  S EH1 T AH0 L
+SEVEN  S EH1 V AH0 N
+SEVENTEEN  S EH1 V AH0 N T IY1 N
+SEVENTY  S EH1 V AH0 N T IY0
+SEVERAL  S EH1 V R AH0 L
+SEVERE  S AH0 V IH1 R
+SEX  S EH1 K S
+SEXUAL  S EH1 K SH UW0 AH0 L
+SHADE  SH EY1 D
+SHADOW  SH AE1 D OW2
+SHAKE  SH EY1 K
+SHALL  SH AE1 L
+SHALLOW  SH AE1 L OW0
+SHAME  SH EY1 M
+SHAPE  SH EY1 P
+SHARE  SH EH1 R
+SHARP  SH AA1 R P
+SHE  SH IY1
+SHEEP  SH IY1 P
+SHEET  SH IY1 T
+SHELF  SH EH1 L F
+SHELL  SH EH1 L
+SHELTER  SH EH1 L T ER0
+SHIFT  SH IH1 F T
+SHINE  SH AY1 N
+SHINY  SH AY1 N IY0
+SHIP  SH IH1 P
+SHIRT  SH ER1 T
+SHOCK  SH AA1 K
+SHOCKED  SH AA1 K T
+SHOE  SH UW1
+SHOOT  SH UW1 T
+SHOOTING  SH UW1 T IH0 NG
+SHOP  SH AA1 P
+SHOPPING  SH AA1 P IH0 NG
+SHORT  SH AO1 R T
+SHOT  SH AA1 T
+SHOULD  SH UH1 D
+SHOULDER  SH OW1 L D ER0
+SHOUT  SH AW1 T
+SHOW  SH OW1
+SHOWER  SH AW1 ER0
+SHUT  SH AH1 T
+SHY  SH AY1
+SICK  S IH1 K
+SIDE  S AY1 D
+SIGHT  S AY1 T
+SIGN  S AY1 N
+SIGNAL  S IH1 G N AH0 L
+SIGNIFICANT  S AH0 G N IH1 F IH0 K AH0 N T
+SIGNIFICANTLY  S IH0 G N IH1 F IH0 K AH0 N T L IY0
+SILENCE  S AY1 L AH0 N S
+SILENT  S AY1 L AH0 N T
+SILK  S IH1 L K
+SILLY  S IH1 L IY0
+SILVER  S IH1 L V ER0
+SIMILAR  S IH1 M AH0 L ER0
+SIMILARITY  S IH2 M AH0 L EH1 R AH0 T IY0
+SIMILARLY  S IH1 M AH0 L ER0 L IY0
+SIMPLE  S IH1 M P AH0 L
+SIMPLY  S IH1 M P L IY0
+SINCE  S IH1 N S
+SINCERE  S IH0 N S IH1 R
+SING  S IH1 NG
+SINGER  S IH1 NG ER0
+SINGING  S IH1 NG IH0 NG
+SINGLE  S IH1 NG G AH0 L
+SINK  S IH1 NG K
+SIR  S ER1
+SISTER  S IH1 S T ER0
+SIT  S IH1 T
+SITE  S AY1 T
+SITUATION  S IH2 CH UW0 EY1 SH AH0 N
+SIX  S IH1 K S
+SIXTEEN  S IH0 K S T IY1 N
+SIXTY  S IH1 K S T IY0
+SIZE  S AY1 Z
+SKI  S K IY1
+SKIING  S K IY1 IH0 NG
+SKILL  S K IH1 L
+SKIN  S K IH1 N
+SKIRT  S K ER1 T
+SKY  S K AY1
+SLAVE  S L EY1 V
+SLEEP  S L IY1 P
+SLICE  S L AY1 S
+SLIDE  S L AY1 D
+SLIGHT  S L AY1 T
+SLIGHTLY  S L AY1 T L IY0
+SLIP  S L IH1 P
+SLOPE  S L OW1 P
+SLOW  S L OW1
+SLOWLY  S L OW1 L IY0
+SMALL  S M AO1 L
+SMART  S M AA1 R T
+SMARTPHONE  S M AA1 R T F OW2 N
+SMELL  S M EH1 L
+SMILE  S M AY1 L
+SMOKE  S M OW1 K
+SMOKING  S M OW1 K IH0 NG
+SMOOTH  S M UW1 DH
+SNAKE  S N EY1 K
+SNOW  S N OW1
+SO  S OW1
+SOAP  S OW1 P
+SOCCER  S AA1 K ER0
+SOCIAL  S OW1 SH AH0 L
+SOCIETY  S AH0 S AY1 AH0 T IY0
+SOCK  S AA1 K
+SOFT  S AA1 F T
+SOFTWARE  S AO1 F T W EH2 R
+SOIL  S OY1 L
+SOLAR  S OW1 L ER0
+SOLDIER  S OW1 L JH ER0
+SOLID  S AA1 L AH0 D
+SOLUTION  S AH0 L UW1 SH AH0 N
+SOLVE  S AA1 L V
+SOME  S AH1 M
+SOMEBODY  S AH1 M B AA2 D IY0
+SOMEONE  S AH1 M W AH2 N
+SOMETHING  S AH1 M TH IH0 NG
+SOMETIMES  S AH0 M T AY1 M Z
+SOMEWHAT  S AH1 M W AH1 T
+SOMEWHERE  S AH1 M W EH2 R
+SON  S AH1 N
+SONG  S AO1 NG
+SOON  S UW1 N
+SORRY  S AA1 R IY0
+SORT  S AO1 R T
+SOUL  S OW1 L
+SOUND  S AW1 N D
+SOUP  S UW1 P
+SOURCE  S AO1 R S
+SOUTH  S AW1 TH
+SOUTHERN  S AH1 DH ER0 N
+SPACE  S P EY1 S
+SPEAK  S P IY1 K
+SPEAKER  S P IY1 K ER0
+SPECIAL  S P EH1 SH AH0 L
+SPECIALIST  S P EH1 SH AH0 L AH0 S T
+SPECIES  S P IY1 SH IY0 Z
+SPECIFIC  S P AH0 S IH1 F IH0 K
+SPECIFICALLY  S P AH0 S IH1 F IH0 K L IY0
+SPEECH  S P IY1 CH
+SPEED  S P IY1 D
+SPELL  S P EH1 L
+SPELLING  S P EH1 L IH0 NG
+SPEND  S P EH1 N D
+SPENDING  S P EH1 N D IH0 NG
+SPICY  S P AY1 S IY0
+SPIDER  S P AY1 D ER0
+SPIRIT  S P IH1 R AH0 T
+SPIRITUAL  S P IH1 R IH0 CH UW2 AH0 L
+SPLIT  S P L IH1 T
+SPOKEN  S P OW1 K AH0 N
+SPONSOR  S P AA1 N S ER0
+SPOON  S P UW1 N
+SPORT  S P AO1 R T
+SPOT  S P AA1 T
+SPREAD  S P R EH1 D
+SPRING  S P R IH1 NG
+SQUARE  S K W EH1 R
+STABLE  S T EY1 B AH0 L
+STADIUM  S T EY1 D IY0 AH0 M
+STAFF  S T AE1 F
+STAGE  S T EY1 JH
+STAIR  S T EH1 R
+STAMP  S T AE1 M P
+STAND  S T AE1 N D
+STANDARD  S T AE1 N D ER0 D
+STAR  S T AA1 R
+STARE  S T EH1 R
+START  S T AA1 R T
+STATE  S T EY1 T
+STATEMENT  S T EY1 T M AH0 N T
+STATION  S T EY1 SH AH0 N
+STATISTIC  S T AH0 T IH1 S T IH0 K
+STATUE  S T AE1 CH UW2
+STATUS  S T AE1 T AH0 S
+STAY  S T EY1
+STEADY  S T EH1 D IY0
+STEAL  S T IY1 L
+STEEL  S T IY1 L
+STEEP  S T IY1 P
+STEP  S T EH1 P
+STICK  S T IH1 K
+STICKY  S T IH1 K IY0
+STIFF  S T IH1 F
+STILL  S T IH1 L
+STOCK  S T AA1 K
+STOMACH  S T AH1 M AH0 K
+STONE  S T OW1 N
+STOP  S T AA1 P
+STORE  S T AO1 R
+STORM  S T AO1 R M
+STORY  S T AO1 R IY0
+STRAIGHT  S T R EY1 T
+STRANGE  S T R EY1 N JH
+STRANGER  S T R EY1 N JH ER0
+STRATEGY  S T R AE1 T AH0 JH IY0
+STREAM  S T R IY1 M
+STREET  S T R IY1 T
+STRENGTH  S T R EH1 NG K TH
+STRESS  S T R EH1 S
+STRETCH  S T R EH1 CH
+STRICT  S T R IH1 K T
+STRIKE  S T R AY1 K
+STRING  S T R IH1 NG
+STRONG  S T R AO1 NG
+STRONGLY  S T R AO1 NG L IY0
+STRUCTURE  S T R AH1 K CH ER0
+STRUGGLE  S T R AH1 G AH0 L
+STUDENT  S T UW1 D AH0 N T
+STUDIO  S T UW1 D IY0 OW2
+STUDY  S T AH1 D IY0
+STUFF  S T AH1 F
+STUPID  S T UW1 P AH0 D
+STYLE  S T AY1 L
+SUBJECT  S AH0 B JH EH1 K T
+SUBMIT  S AH0 B M IH1 T
+SUBSTANCE  S AH1 B S T AH0 N S
+SUCCEED  S AH0 K S IY1 D
+SUCCESS  S AH0 K S EH1 S
+SUCCESSFUL  S AH0 K S EH1 S F AH0 L
+SUCCESSFULLY  S AH0 K S EH1 S F AH0 L IY0
+SUCH  S AH1 CH
+SUDDEN  S AH1 D AH0 N
+SUDDENLY  S AH1 D AH0 N L IY0
+SUFFER  S AH1 F ER0
+SUGAR  SH UH1 G ER0
+SUGGEST  S AH0 JH EH1 S T
+SUGGESTION  S AH0 JH EH1 S CH AH0 N
+SUIT  S UW1 T
+SUITABLE  S UW1 T AH0 B AH0 L
+SUM  S AH1 M
+SUMMARIZE  S AH1 M ER0 AY2 Z
+SUMMARY  S AH1 M ER0 IY0
+SUMMER  S AH1 M ER0
+SUN  S AH1 N
+SUNDAY  S AH1 N D EY2
+SUPERMARKET  S UW1 P ER0 M AA2 R K IH0 T
+SUPPLY  S AH0 P L AY1
+SUPPORT  S AH0 P AO1 R T
+SUPPORTER  S AH0 P AO1 R T ER0
+SUPPOSE  S AH0 P OW1 Z
+SURE  SH UH1 R
+SURELY  SH UH1 R L IY0
+SURFACE  S ER1 F AH0 S
+SURGERY  S ER1 JH ER0 IY0
+SURPRISE  S ER0 P R AY1 Z
+SURPRISED  S ER0 P R AY1 Z D
+SURPRISING  S ER0 P R AY1 Z IH0 NG
+SURROUND  S ER0 AW1 N D
+SURROUNDING  S ER0 AW1 N D IH0 NG
+SURVEY  S ER0 V EY1
+SURVIVE  S ER0 V AY1 V
+SUSPECT  S AH0 S P EH1 K T
+SWEAR  S W EH1 R
+SWEATER  S W EH1 T ER0
+SWEEP  S W IY1 P
+SWEET  S W IY1 T
+SWIM  S W IH1 M
+SWIMMING  S W IH1 M IH0 NG
+SWITCH  S W IH1 CH
+SYMBOL  S IH1 M B AH0 L
+SYMPATHY  S IH1 M P AH0 TH IY0
+SYMPTOM  S IH1 M P T AH0 M
+SYSTEM  S IH1 S T AH0 M
+T  T IY1
+TABLE  T EY1 B AH0 L
+TABLET  T AE1 B L AH0 T
+TAIL  T EY1 L
+TAKE  T EY1 K
+TALE  T EY1 L
+TALENT  T AE1 L AH0 N T
+TALENTED  T AE1 L AH0 N T IH0 D
+TALK  T AO1 K
+TALL  T AO1 L
+TANK  T AE1 NG K
+TAPE  T EY1 P
+TARGET  T AA1 R G AH0 T
+TASK  T AE1 S K
+TASTE  T EY1 S T
+TAX  T AE1 K S
+TAXI  T AE1 K S IY0
+TEA  T IY1
+TEACH  T IY1 CH
+TEACHER  T IY1 CH ER0
+TEACHING  T IY1 CH IH0 NG
+TEAM  T IY1 M
+TEAR  T EH1 R
+TECHNICAL  T EH1 K N IH0 K AH0 L
+TECHNIQUE  T EH0 K N IY1 K
+TECHNOLOGY  T EH0 K N AA1 L AH0 JH IY0
+TEENAGE  T IY1 N EY2 JH
+TEENAGER  T IY1 N EY2 JH ER0
+TELEPHONE  T EH1 L AH0 F OW2 N
+TELEVISION  T EH1 L AH0 V IH2 ZH AH0 N
+TELL  T EH1 L
+TEMPERATURE  T EH1 M P R AH0 CH ER0
+TEMPORARY  T EH1 M P ER0 EH2 R IY0
+TEN  T EH1 N
+TEND  T EH1 N D
+TENNIS  T EH1 N AH0 S
+TENT  T EH1 N T
+TERM  T ER1 M
+TERRIBLE  T EH1 R AH0 B AH0 L
+TEST  T EH1 S T
+TEXT  T EH1 K S T
+THAN  DH AE1 N
+THANK  TH AE1 NG K
+THANKS  TH AE1 NG K S
+THAT  DH AE1 T
+THE  DH AH0
+THEATRE  TH IY1 AH0 T ER0
+THEIR  DH EH1 R
+THEIRS  DH EH1 R Z
+THEM  DH EH1 M
+THEME  TH IY1 M
+THEMSELVES  DH EH0 M S EH1 L V Z
+THEN  DH EH1 N
+THEORY  TH IH1 R IY0
+THERAPY  TH EH1 R AH0 P IY0
+THERE  DH EH1 R
+THEREFORE  DH EH1 R F AO2 R
+THEY  DH EY1
+THICK  TH IH1 K
+THIEF  TH IY1 F
+THIN  TH IH1 N
+THING  TH IH1 NG
+THINK  TH IH1 NG K
+THINKING  TH IH1 NG K IH0 NG
+THIRD  TH ER1 D
+THIRSTY  TH ER1 S T IY0
+THIRTEEN  TH ER1 T IY1 N
+THIRTY  TH ER1 D IY2
+THIS  DH IH1 S
+THOUGH  DH OW1
+THOUGHT  TH AO1 T
+THOUSAND  TH AW1 Z AH0 N D
+THREAT  TH R EH1 T
+THREATEN  TH R EH1 T AH0 N
+THREE  TH R IY1
+THROAT  TH R OW1 T
+THROUGH  TH R UW1
+THROUGHOUT  TH R UW0 AW1 T
+THROW  TH R OW1
+THURSDAY  TH ER1 Z D EY2
+THUS  DH AH1 S
+TICKET  T IH1 K AH0 T
+TIDY  T AY1 D IY0
+TIE  T AY1
+TIGHT  T AY1 T
+TILL  T IH1 L
+TIME  T AY1 M
+TIN  T IH1 N
+TINY  T AY1 N IY0
+TIP  T IH1 P
+TIRED  T AY1 ER0 D
+TITLE  T AY1 T AH0 L
+TO  T UW1
+TODAY  T AH0 D EY1
+TOE  T OW1
+TOGETHER  T AH0 G EH1 DH ER0
+TOILET  T OY1 L AH0 T
+TOMATO  T AH0 M EY1 T OW2
+TOMORROW  T AH0 M AA1 R OW2
+TONE  T OW1 N
+TONGUE  T AH1 NG
+TONIGHT  T AH0 N AY1 T
+TOO  T UW1
+TOOL  T UW1 L
+TOOTH  T UW1 TH
+TOP  T AA1 P
+TOPIC  T AA1 P IH0 K
+TOTAL  T OW1 T AH0 L
+TOTALLY  T OW1 T AH0 L IY0
+TOUCH  T AH1 CH
+TOUGH  T AH1 F
+TOUR  T UH1 R
+TOURISM  T UH1 R IH2 Z AH0 M
+TOURIST  T UH1 R AH0 S T
+TOWARDS  T AH0 W AO1 R D Z
+TOWEL  T AW1 AH0 L
+TOWER  T AW1 ER0
+TOWN  T AW1 N
+TOY  T OY1
+TRACK  T R AE1 K
+TRADE  T R EY1 D
+TRADITION  T R AH0 D IH1 SH AH0 N
+TRADITIONAL  T R AH0 D IH1 SH AH0 N AH0 L
+TRAFFIC  T R AE1 F IH0 K
+TRAIN  T R EY1 N
+TRAINER  T R EY1 N ER0
+TRAINING  T R EY1 N IH0 NG
+TRANSFER  T R AE0 N S F ER1
+TRANSFORM  T R AE0 N S F AO1 R M
+TRANSITION  T R AE0 N Z IH1 SH AH0 N
+TRANSLATE  T R AE0 N Z L EY1 T
+TRANSLATION  T R AE0 N Z L EY1 SH AH0 N
+TRANSPORT  T R AE0 N S P AO1 R T
+TRAVEL  T R AE1 V AH0 L
+TRAVELLER  T R AE1 V AH0 L ER0
+TREAT  T R IY1 T
+TREATMENT  T R IY1 T M AH0 N T
+TREE  T R IY1
+TREND  T R EH1 N D
+TRIAL  T R AY1 AH0 L
+TRICK  T R IH1 K
+TRIP  T R IH1 P
+TROPICAL  T R AA1 P IH0 K AH0 L
+TROUBLE  T R AH1 B AH0 L
+TROUSERS  T R AW1 Z ER0 Z
+TRUCK  T R AH1 K
+TRUE  T R UW1
+TRULY  T R UW1 L IY0
+TRUST  T R AH1 S T
+TRUTH  T R UW1 TH
+TRY  T R AY1
+TUBE  T UW1 B
+TUESDAY  T UW1 Z D IY0
+TUNE  T UW1 N
+TUNNEL  T AH1 N AH0 L
+TURN  T ER1 N
+TV  T IY1 V IY1
+TWELVE  T W EH1 L V
+TWENTY  T W EH1 N T IY0
+TWICE  T W AY1 S
+TWIN  T W IH1 N
+TWO  T UW1
+TYPE  T AY1 P
+TYPICAL  T IH1 P AH0 K AH0 L
+TYPICALLY  T IH1 P IH0 K L IY0
+TYRE  T AY1 R
+UGLY  AH1 G L IY0
+ULTIMATELY  AH1 L T AH0 M AH0 T L IY0
+UMBRELLA  AH0 M B R EH1 L AH0
+UNABLE  AH0 N EY1 B AH0 L
+UNCLE  AH1 NG K AH0 L
+UNCOMFORTABLE  AH0 N K AH1 M F ER0 T AH0 B AH0 L
+UNCONSCIOUS  AH2 N K AA1 N SH AH0 S
+UNDER  AH1 N D ER0
+UNDERGROUND  AH1 N D ER0 G R AW2 N D
+UNDERSTAND  AH2 N D ER0 S T AE1 N D
+UNDERSTANDING  AH2 N D ER0 S T AE1 N D IH0 NG
+UNDERWEAR  AH1 N D ER0 W EH2 R
+UNEMPLOYED  AH2 N EH0 M P L OY1 D
+UNEMPLOYMENT  AH2 N IH0 M P L OY1 M AH0 N T
+UNEXPECTED  AH2 N IH0 K S P EH1 K T IH0 D
+UNFAIR  AH0 N F EH1 R
+UNFORTUNATELY  AH0 N F AO1 R CH AH0 N AH0 T L IY0
+UNHAPPY  AH0 N HH AE1 P IY0
+UNIFORM  Y UW1 N AH0 F AO2 R M
+UNION  Y UW1 N Y AH0 N
+UNIQUE  Y UW0 N IY1 K
+UNIT  Y UW1 N AH0 T
+UNITED  Y UW0 N AY1 T IH0 D
+UNIVERSE  Y UW1 N AH0 V ER2 S
+UNIVERSITY  Y UW2 N AH0 V ER1 S AH0 T IY0
+UNKNOWN  AH0 N N OW1 N
+UNLESS  AH0 N L EH1 S
+UNLIKE  AH0 N L AY1 K
+UNLIKELY  AH0 N L AY1 K L IY0
+UNNECESSARY  AH0 N N EH1 S AH0 S EH2 R IY0
+UNPLEASANT  AH0 N P L EH1 Z AH0 N T
+UNTIL  AH0 N T IH1 L
+UNUSUAL  AH0 N Y UW1 ZH UW2 AH0 L
+UP  AH1 P
+UPDATE  AH0 P D EY1 T
+UPON  AH0 P AA1 N
+UPPER  AH1 P ER0
+UPSET  AH0 P S EH1 T
+UPSTAIRS  AH0 P S T EH1 R Z
+UPWARDS  AH1 P W ER0 D Z
+URBAN  ER1 B AH0 N
+URGE  ER1 JH
+US  AH1 S
+USE  Y UW1 S
+USED  Y UW1 Z D
+USEFUL  Y UW1 S F AH0 L
+USER  Y UW1 Z ER0
+USUAL  Y UW1 ZH AH0 W AH0 L
+USUALLY  Y UW1 ZH AH0 W AH0 L IY0
+VACATION  V EY0 K EY1 SH AH0 N
+VALLEY  V AE1 L IY0
+VALUABLE  V AE1 L Y AH0 B AH0 L
+VALUE  V AE1 L Y UW0
+VAN  V AE1 N
+VARIETY  V ER0 AY1 AH0 T IY0
+VARIOUS  V EH1 R IY0 AH0 S
+VARY  V EH1 R IY0
+VAST  V AE1 S T
+VEGETABLE  V EH1 JH T AH0 B AH0 L
+VEHICLE  V IY1 HH IH0 K AH0 L
+VENUE  V EH1 N Y UW0
+VERSION  V ER1 ZH AH0 N
+VERY  V EH1 R IY0
+VIA  V AY1 AH0
+VICTIM  V IH1 K T AH0 M
+VICTORY  V IH1 K T ER0 IY0
+VIDEO  V IH1 D IY0 OW0
+VIEW  V Y UW1
+VIEWER  V Y UW1 ER0
+VILLAGE  V IH1 L AH0 JH
+VIOLENCE  V AY1 AH0 L AH0 N S
+VIOLENT  V AY1 AH0 L AH0 N T
+VIRTUAL  V ER1 CH UW0 AH0 L
+VIRUS  V AY1 R AH0 S
+VISION  V IH1 ZH AH0 N
+VISIT  V IH1 Z IH0 T
+VISITOR  V IH1 Z IH0 T ER0
+VISUAL  V IH1 ZH AH0 W AH0 L
+VITAL  V AY1 T AH0 L
+VITAMIN  V AY1 T AH0 M AH0 N
+VOICE  V OY1 S
+VOLUME  V AA1 L Y UW0 M
+VOLUNTEER  V AA2 L AH0 N T IH1 R
+VOTE  V OW1 T
+WAGE  W EY1 JH
+WAIT  W EY1 T
+WAITER  W EY1 T ER0
+WAKE  W EY1 K
+WALK  W AO1 K
+WALL  W AO1 L
+WANT  W AA1 N T
+WAR  W AO1 R
+WARM  W AO1 R M
+WARN  W AO1 R N
+WARNING  W AO1 R N IH0 NG
+WASH  W AA1 SH
+WASHING  W AA1 SH IH0 NG
+WASTE  W EY1 S T
+WATCH  W AA1 CH
+WATER  W AO1 T ER0
+WAVE  W EY1 V
+WAY  W EY1
+WE  W IY1
+WEAK  W IY1 K
+WEAKNESS  W IY1 K N AH0 S
+WEALTH  W EH1 L TH
+WEALTHY  W EH1 L TH IY0
+WEAPON  W EH1 P AH0 N
+WEAR  W EH1 R
+WEATHER  W EH1 DH ER0
+WEB  W EH1 B
+WEBSITE  W EH1 B S AY2 T
+WEDDING  W EH1 D IH0 NG
+WEDNESDAY  W EH1 N Z D IY0
+WEEK  W IY1 K
+WEEKEND  W IY1 K EH2 N D
+WEIGH  W EY1
+WEIGHT  W EY1 T
+WELCOME  W EH1 L K AH0 M
+WELL  W EH1 L
+WEST  W EH1 S T
+WESTERN  W EH1 S T ER0 N
+WET  W EH1 T
+WHAT  W AH1 T
+WHATEVER  W AH2 T EH1 V ER0
+WHEEL  W IY1 L
+WHEN  W EH1 N
+WHENEVER  W EH0 N EH1 V ER0
+WHERE  W EH1 R
+WHEREAS  W EH0 R AE1 Z
+WHEREVER  W EH0 R EH1 V ER0
+WHETHER  W EH1 DH ER0
+WHICH  W IH1 CH
+WHILE  W AY1 L
+WHISPER  W IH1 S P ER0
+WHITE  W AY1 T
+WHO  HH UW1
+WHOLE  HH OW1 L
+WHOM  HH UW1 M
+WHOSE  HH UW1 Z
+WHY  W AY1
+WIDE  W AY1 D
+WIDELY  W AY1 D L IY0
+WIFE  W AY1 F
+WILD  W AY1 L D
+WILDLIFE  W AY1 L D L AY2 F
+WILL  W IH1 L
+WILLING  W IH1 L IH0 NG
+WIN  W IH1 N
+WIND  W AY1 N D
+WINDOW  W IH1 N D OW0
+WINE  W AY1 N
+WING  W IH1 NG
+WINNER  W IH1 N ER0
+WINTER  W IH1 N T ER0
+WIRE  W AY1 ER0
+WISE  W AY1 Z
+WISH  W IH1 SH
+WITH  W IH1 DH
+WITHIN  W IH0 DH IH1 N
+WITHOUT  W IH0 TH AW1 T
+WITNESS  W IH1 T N AH0 S
+WOMAN  W UH1 M AH0 N
+WONDER  W AH1 N D ER0
+WONDERFUL  W AH1 N D ER0 F AH0 L
+WOOD  W UH1 D
+WOODEN  W UH1 D AH0 N
+WOOL  W UH1 L
+WORD  W ER1 D
+WORK  W ER1 K
+WORKER  W ER1 K ER0
+WORKING  W ER1 K IH0 NG
+WORLD  W ER1 L D
+WORLDWIDE  W ER1 L D W AY1 D
+WORRIED  W ER1 IY0 D
+WORRY  W ER1 IY0
+WORSE  W ER1 S
+WORST  W ER1 S T
+WORTH  W ER1 TH
+WOULD  W UH1 D
+WOUND  W AW1 N D
+WOW  W AW1
+WRAP  R AE1 P
+WRITE  R AY1 T
+WRITER  R AY1 T ER0
+WRITING  R AY1 T IH0 NG
+WRITTEN  R IH1 T AH0 N
+WRONG  R AO1 NG
+YARD  Y AA1 R D
+YEAH  Y AE1
+YEAR  Y IH1 R
+YELLOW  Y EH1 L OW0
+YES  Y EH1 S
+YESTERDAY  Y EH1 S T ER0 D EY2
+YET  Y EH1 T
+YOU  Y UW1
+YOUNG  Y AH1 NG
+YOUR  Y AO1 R
+YOURS  Y UH1 R Z
+YOURSELF  Y ER0 S EH1 L F
+YOUTH  Y UW1 TH
+ZERO  Z IH1 R OW0
+ZONE  Z OW1 N
+`;
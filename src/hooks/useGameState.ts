@@ -1,13 +1,13 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { SpeechMode } from '../services/speechService';
-
-export interface Word {
-  word: string;
-  level: 'A1' | 'A2' | 'B1' | 'B2';
-  definition: string;
-  example: string;
-  partOfSpeech: string;
-}
+import { ReviewScheduler } from '../services/reviewScheduler';
+import { ProgressStore, LearnerProfile, AnswerMode, AttemptRecord, SessionWord } from '../services/progressStore';
+import { AnswerEvaluation, AnswerVerdict } from '../services/answerEvaluator';
+import { Hint } from '../services/hintEngine';
+import { ScoreBreakdown, scoreAnswer } from '../services/scoring';
+import { SessionMode, DEFAULT_SESSION_MODE, isSessionMode } from '../services/sessionModes';
+import { DeckRegistry, DEFAULT_DECK_ID } from '../services/deckRegistry';
+import { Deck, Word, WordEnrichment, LevelFilter } from '../types/vocabulary';
 
 export interface GameStats {
   totalAttempted: number;
@@ -15,6 +15,7 @@ export interface GameStats {
   incorrectAnswers: number;
   currentStreak: number;
   bestStreak: number;
+  points: number;
 }
 
 export interface GameState {
@@ -22,13 +23,24 @@ export interface GameState {
   currentClue: string;
   isPlaying: boolean;
   gameStats: GameStats;
-  selectedLevel: 'A1' | 'A2' | 'B1' | 'B2' | 'ALL';
+  selectedLevel: LevelFilter;
+  activeDeckId: string;
   showAnswer: boolean;
   lastAnswer: string;
   isCorrect: boolean | null;
+  answerVerdict: AnswerVerdict | null;
   speechMode: SpeechMode;
   multipleChoiceOptions: string[];
   selectedChoice: string | null;
+  roundStartedAt: number | null;
+  // Hints revealed this round, in order
+  revealedHints: Hint[];
+  // How the last answer was scored, shown with the feedback
+  lastScore: ScoreBreakdown | null;
+  sessionMode: SessionMode;
+  sessionStartedAt: number | null;
+  // Every word answered this session, for the summary at the end
+  sessionWords: SessionWord[];
 }
 
 const initialStats: GameStats = {
@@ -36,7 +48,8 @@ const initialStats: GameStats = {
   correctAnswers: 0,
   incorrectAnswers: 0,
   currentStreak: 0,
-  bestStreak: 0
+  bestStreak: 0,
+  points: 0
 };
 
 const initialState: GameState = {
@@ -45,41 +58,150 @@ const initialState: GameState = {
   isPlaying: false,
   gameStats: initialStats,
   selectedLevel: 'ALL',
+  activeDeckId: DEFAULT_DECK_ID,
   showAnswer: false,
   lastAnswer: '',
   isCorrect: null,
+  answerVerdict: null,
   speechMode: 'disabled',
   multipleChoiceOptions: [],
-  selectedChoice: null
+  selectedChoice: null,
+  roundStartedAt: null,
+  revealedHints: [],
+  lastScore: null,
+  sessionMode: DEFAULT_SESSION_MODE,
+  sessionStartedAt: null,
+  sessionWords: []
 };
 
 export const useGameState = () => {
   const [gameState, setGameState] = useState<GameState>(() => {
     // Load speech mode from localStorage
     const savedSpeechMode = localStorage.getItem('speechMode') as SpeechMode;
+    const savedSessionMode = localStorage.getItem('sessionMode');
     return {
       ...initialState,
-      speechMode: savedSpeechMode || 'disabled' // Default to 'disabled' if no saved preference
+      speechMode: savedSpeechMode || 'disabled', // Default to 'disabled' if no saved preference
+      activeDeckId: localStorage.getItem('activeDeck') || DEFAULT_DECK_ID,
+      sessionMode: isSessionMode(savedSessionMode) ? savedSessionMode : DEFAULT_SESSION_MODE
     };
   });
 
-  const updateGameState = useCallback((updates: Partial<GameState>) => {
+  // Built-in and user-created word decks
+  const [deckRegistry] = useState(() => new DeckRegistry());
+  const activeDeck = deckRegistry.getDeck(gameState.activeDeckId);
+  const [decks, setDecks] = useState(() => deckRegistry.listDecks());
+
+  // Spaced-repetition schedule, persisted across sessions
+  const [reviewScheduler] = useState(() => new ReviewScheduler());
+
+  // Lifetime progress, persisted in IndexedDB so it survives "go home" reloads
+  const [progressStore] = useState(() => new ProgressStore());
+  const [learnerProfile, setLearnerProfile] = useState<LearnerProfile | null>(null);
+
+  useEffect(() => {
+    progressStore.getProfile()
+      .then(setLearnerProfile)
+      .catch(error => console.warn('Failed to load learner profile:', error));
+  }, [progressStore]);
+
+  // Takes the changes, or a function of the latest state for updates that finish after an await
+  const updateGameState = useCallback((changes: Partial<GameState> | ((prev: GameState) => Partial<GameState>)) => {
     setGameState(prev => {
+      const updates = typeof changes === 'function' ? changes(prev) : changes;
       const newState = { ...prev, ...updates };
       
       // Save speech mode to localStorage when it changes
       if (updates.speechMode && updates.speechMode !== prev.speechMode) {
         localStorage.setItem('speechMode', updates.speechMode);
       }
+
+      // Save the active deck the same way
+      if (updates.activeDeckId && updates.activeDeckId !== prev.activeDeckId) {
+        localStorage.setItem('activeDeck', updates.activeDeckId);
+      }
+
+      if (updates.sessionMode && updates.sessionMode !== prev.sessionMode) {
+        localStorage.setItem('sessionMode', updates.sessionMode);
+      }
       
       return newState;
     });
   }, []);
 
-  const updateStats = useCallback((isCorrect: boolean) => {
+  const saveDeck = useCallback((deck: Omit<Deck, 'source'>): Deck => {
+    const saved = deckRegistry.saveUserDeck(deck);
+    setDecks(deckRegistry.listDecks());
+    return saved;
+  }, [deckRegistry]);
+
+  // Enrichment belongs to the deck, so the deck list and active deck pick it up straight away
+  const saveWordEnrichment = useCallback((deckId: string, word: string, enrichment: WordEnrichment) => {
+    deckRegistry.saveEnrichment(deckId, word, enrichment);
+    setDecks(deckRegistry.listDecks());
+  }, [deckRegistry]);
+
+  const deleteDeck = useCallback((deckId: string) => {
+    deckRegistry.deleteUserDeck(deckId);
+    setDecks(deckRegistry.listDecks());
+
+    // Fall back to the default deck if the active one was removed
+    if (deckId === gameState.activeDeckId) {
+      updateGameState({ activeDeckId: DEFAULT_DECK_ID, selectedLevel: 'ALL' });
+    }
+  }, [deckRegistry, gameState.activeDeckId, updateGameState]);
+
+  const updateStats = useCallback((evaluation: AnswerEvaluation, answer: string, answerMode: AnswerMode) => {
+    const { isCorrect, verdict } = evaluation;
+    const hintsUsed = gameState.revealedHints.map(hint => hint.tier);
+    const timestamp = Date.now();
+    const latencyMs = gameState.roundStartedAt ? timestamp - gameState.roundStartedAt : 0;
+    const score = gameState.currentWord
+      ? scoreAnswer({
+          level: gameState.currentWord.level,
+          isCorrect,
+          verdict,
+          answerMode,
+          latencyMs,
+          hintsUsed,
+          streak: isCorrect ? gameState.gameStats.currentStreak + 1 : 0
+        })
+      : null;
+
+    if (gameState.currentWord) {
+      reviewScheduler.recordReview(gameState.currentWord, isCorrect, hintsUsed.length);
+
+      progressStore.recordAttempt({
+        word: gameState.currentWord.word.toLowerCase(),
+        level: gameState.currentWord.level,
+        answerMode,
+        answer,
+        isCorrect,
+        verdict,
+        hintsUsed,
+        points: score?.total ?? 0,
+        timestamp,
+        latencyMs
+      })
+        .then(setLearnerProfile)
+        .catch(error => console.warn('Failed to record attempt:', error));
+    }
+
+    const sessionWord: SessionWord | null = gameState.currentWord
+      ? {
+          word: gameState.currentWord.word,
+          level: gameState.currentWord.level,
+          answer,
+          isCorrect,
+          verdict,
+          points: score?.total ?? 0
+        }
+      : null;
+
     setGameState(prev => {
       const newStats = { ...prev.gameStats };
       newStats.totalAttempted += 1;
+      newStats.points += score?.total ?? 0;
 
       if (isCorrect) {
         newStats.correctAnswers += 1;
@@ -94,15 +216,38 @@ export const useGameState = () => {
         ...prev,
         gameStats: newStats,
         isCorrect,
+        answerVerdict: verdict,
+        lastScore: score,
+        sessionWords: sessionWord ? [...prev.sessionWords, sessionWord] : prev.sessionWords,
         showAnswer: true
       };
     });
+  }, [gameState.currentWord, gameState.roundStartedAt, gameState.revealedHints, gameState.gameStats.currentStreak, reviewScheduler, progressStore]);
+
+  // Attempts from practice screens outside the main game count towards the lifetime profile too
+  const recordAttempt = useCallback((attempt: AttemptRecord) => {
+    progressStore.recordAttempt(attempt)
+      .then(setLearnerProfile)
+      .catch(error => console.warn('Failed to record attempt:', error));
+  }, [progressStore]);
+
+  // A new session starts with a clean slate of stats; lifetime totals carry on in the profile.
+  // Its clock starts when the first exercise is shown, so loading it does not eat into a sprint
+  const startSession = useCallback(() => {
+    setGameState(prev => ({
+      ...prev,
+      gameStats: initialStats,
+      sessionStartedAt: null,
+      sessionWords: []
+    }));
   }, []);
 
   const resetGame = useCallback(() => {
     setGameState(prev => ({
       ...initialState,
-      speechMode: prev.speechMode // Preserve speech mode setting
+      speechMode: prev.speechMode, // Preserve speech mode setting
+      activeDeckId: prev.activeDeckId,
+      sessionMode: prev.sessionMode
     }));
   }, []);
 
@@ -111,9 +256,12 @@ export const useGameState = () => {
       ...prev,
       showAnswer: false,
       isCorrect: null,
+      answerVerdict: null,
       lastAnswer: '',
       multipleChoiceOptions: [],
-      selectedChoice: null
+      selectedChoice: null,
+      revealedHints: [],
+      lastScore: null
     }));
   }, []);
 
@@ -121,7 +269,18 @@ export const useGameState = () => {
     gameState,
     updateGameState,
     updateStats,
+    recordAttempt,
+    startSession,
     resetGame,
-    nextWord
+    nextWord,
+    reviewScheduler,
+    progressStore,
+    learnerProfile,
+    deckRegistry,
+    activeDeck,
+    decks,
+    saveDeck,
+    saveWordEnrichment,
+    deleteDeck
   };
 };
\ No newline at end of file
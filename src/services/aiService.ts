@@ -1,14 +1,14 @@
 import { openAIConfig, getSystemPrompt, validateOpenAIConfig } from '../config/openai.config.js';
 import { handleOpenAIError, retryWithBackoff, RateLimiter } from '../utils/apiErrorHandler.js';
-import { oxford3000Words } from '../data/oxford3000';
-
-export interface Word {
-  word: string;
-  level: 'A1' | 'A2' | 'B1' | 'B2';
-  definition: string;
-  example: string;
-  partOfSpeech: string;
-}
+import { generateMultipleChoiceOptions, calculateDifficulty } from './clueEngine';
+import { ChatMessage, CompletionRequest, CompletionResult, LLMProvider, LLMProviderId, LLMProviderSettings, createLLMProvider } from './llmProviders';
+import { EXERCISE_SCHEMA, parseExercise, repairExercise, validateExercise, toDeckWord, repairClue, validateClue } from './exerciseValidator';
+import { HintExtras, HINT_SCHEMA, parseHintExtras } from './hintEngine';
+import { ExplanationGrade, EXPLANATION_SCHEMA, parseExplanationGrade } from './reverseExercise';
+import { ENRICHMENT_SCHEMA, parseWordEnrichment } from './wordEnrichment';
+import { contentCache } from './contentCache';
+import { UsageLedger, UsageBudgets } from './usageLedger';
+import { Deck, LevelFilter, Word, WordEnrichment } from '../types/vocabulary';
 
 export interface WordAndClueResponse {
   word: Word;
@@ -17,113 +17,107 @@ export interface WordAndClueResponse {
   multipleChoiceOptions: string[];
 }
 
+// Provider settings from openAIConfig, used until the learner picks something else on the setup screen
+export const getDefaultLLMSettings = (provider: LLMProviderId = openAIConfig.provider): LLMProviderSettings => {
+  const defaults = openAIConfig.providers[provider] || openAIConfig.providers.openai;
+  return {
+    provider,
+    apiKey: defaults.apiKey || '',
+    baseURL: defaults.baseURL,
+    model: defaults.model,
+    authStyle: defaults.authStyle,
+    apiVersion: defaults.apiVersion
+  };
+};
+
+// Token budgets from openAIConfig, for the usage ledger
+export const getTokenBudgets = (): Pick<UsageBudgets, 'tokensPerMinute' | 'tokensPerDay' | 'tokensPerMonth'> => ({
+  tokensPerMinute: openAIConfig.rateLimits.tokensPerMinute,
+  tokensPerDay: openAIConfig.budgets.tokensPerDay,
+  tokensPerMonth: openAIConfig.budgets.tokensPerMonth
+});
+
+// Rough token count for budget checks before a request, and for providers that report no usage
+const estimateTokens = (request: Omit<CompletionRequest, 'signal'>): number => {
+  const promptCharacters = request.messages.reduce((total, message) => total + message.content.length, 0);
+  return Math.ceil(promptCharacters / 4) + request.maxTokens;
+};
+
 export class AIService {
-  private apiKey: string;
+  private provider: LLMProvider;
   private rateLimiter: RateLimiter;
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || openAIConfig.apiKey;
+  constructor(settings: LLMProviderSettings = getDefaultLLMSettings(), private usageLedger: UsageLedger | null = null) {
+    this.provider = createLLMProvider(settings);
     this.rateLimiter = new RateLimiter(openAIConfig.rateLimits.requestsPerMinute);
     
     // Validate configuration on initialization
     const validation = validateOpenAIConfig();
     if (!validation.isValid) {
-      console.warn('OpenAI configuration issues:', validation.errors);
+      console.warn('LLM configuration issues:', validation.errors);
     }
   }
 
-  private generateMultipleChoiceOptions(correctWord: Word, level: 'A1' | 'A2' | 'B1' | 'B2' | 'ALL'): string[] {
-    // Filter words by level and part of speech for better distractors
-    const levelWords = level === 'ALL' 
-      ? oxford3000Words 
-      : oxford3000Words.filter(w => w.level === level);
-    
-    const samePartOfSpeech = levelWords.filter(w => 
-      w.partOfSpeech === correctWord.partOfSpeech && 
-      w.word !== correctWord.word
-    );
-    
-    // If we don't have enough words of the same part of speech, use any words from the level
-    const availableWords = samePartOfSpeech.length >= 3 ? samePartOfSpeech : levelWords;
-    
-    // Randomly select 3 incorrect options
-    const incorrectOptions: string[] = [];
-    const usedWords = new Set([correctWord.word.toLowerCase()]);
-    
-    while (incorrectOptions.length < 3 && availableWords.length > incorrectOptions.length) {
-      const randomWord = availableWords[Math.floor(Math.random() * availableWords.length)];
-      if (!usedWords.has(randomWord.word.toLowerCase())) {
-        incorrectOptions.push(randomWord.word);
-        usedWords.add(randomWord.word.toLowerCase());
-      }
+  get providerLabel(): string {
+    return this.provider.label;
+  }
+
+  // Requests still available this minute, so background work can leave room for the learner
+  getRemainingRequests(): number {
+    return this.rateLimiter.getRemainingRequests();
+  }
+
+  // Sends one chat completion through the active provider with a timeout, retries and rate limiting
+  private async complete(request: Omit<CompletionRequest, 'signal'>): Promise<string> {
+    const estimate = estimateTokens(request);
+    if (this.usageLedger && !this.usageLedger.canSpend('tokens', estimate)) {
+      throw new Error('The AI token budget is used up. Clues come from the offline engine until it resets.');
     }
-    
-    // If we still don't have enough options, add some generic ones
-    while (incorrectOptions.length < 3) {
-      const fallbackOptions = ['answer', 'option', 'choice', 'word', 'item', 'thing', 'place', 'time'];
-      const fallback = fallbackOptions[Math.floor(Math.random() * fallbackOptions.length)];
-      if (!usedWords.has(fallback)) {
-        incorrectOptions.push(fallback);
-        usedWords.add(fallback);
+
+    const result: CompletionResult = await retryWithBackoff(async () => {
+      this.rateLimiter.recordRequest();
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), openAIConfig.timeout);
+
+      try {
+        return await this.provider.complete({ ...request, signal: controller.signal });
+      } finally {
+        clearTimeout(timeoutId);
       }
-    }
-    
-    // Combine correct answer with incorrect options and shuffle
-    const allOptions = [correctWord.word, ...incorrectOptions.slice(0, 3)];
-    
-    // Fisher-Yates shuffle
-    for (let i = allOptions.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [allOptions[i], allOptions[j]] = [allOptions[j], allOptions[i]];
-    }
-    
-    return allOptions;
+    }, openAIConfig.rateLimits.retryAttempts, openAIConfig.rateLimits.retryDelay);
+
+    this.usageLedger?.record('tokens', result.totalTokens ?? estimate);
+    return result.content;
   }
 
-  async fetchWordAndClue(level: 'A1' | 'A2' | 'B1' | 'B2' | 'ALL'): Promise<WordAndClueResponse> {
-    // Strict validation - require valid OpenAI API key
-    if (!this.apiKey || 
-        this.apiKey === 'your_openai_api_key_here' || 
-        this.apiKey.length < 20 ||
-        !this.apiKey.startsWith('sk-')) {
-      throw new Error('Valid OpenAI API key is required for VocabAI to function. Please configure your API key.');
+  // Lets the model choose the word as well; the game itself picks words and calls fetchClueForWord
+  async fetchWordAndClue(level: LevelFilter, deck: Deck): Promise<WordAndClueResponse> {
+    // Strict validation - require usable provider settings
+    const configError = this.provider.validate();
+    if (configError) {
+      throw new Error(`${configError} VocabAI needs a configured AI provider for generated clues.`);
     }
 
-    console.log('Using OpenAI API to generate word and clue for level:', level);
+    console.log(`Using ${this.provider.label} (${this.provider.model}) to generate word and clue for level:`, level);
 
     // Check rate limits
     if (!this.rateLimiter.canMakeRequest()) {
       const waitTime = this.rateLimiter.getTimeUntilNextRequest();
-      throw new Error(`OpenAI rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds and try again.`);
+      throw new Error(`${this.provider.label} rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds and try again.`);
     }
 
     try {
-      const levelFilter = level === 'ALL' ? 'any level (A1, A2, B1, or B2)' : `${level} level`;
+      const levelFilter = level === 'ALL' ? `any level (${deck.levelScheme.join(', ')})` : `${level} level`;
       
-      const response = await retryWithBackoff(async () => {
-        this.rateLimiter.recordRequest();
-        
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), openAIConfig.timeout);
-
-        try {
-          console.log('Making OpenAI API request...');
-          const response = await fetch(`${openAIConfig.baseURL}/chat/completions`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${this.apiKey}`
-            },
-            body: JSON.stringify({
-              model: openAIConfig.model,
-              messages: [
-                {
-                  role: 'system',
-                  content: `You are an expert English vocabulary teacher creating learning exercises for students. Your task is to:
-
-1. Select a vocabulary word from the Oxford 3000 list appropriate for ${levelFilter}
+      const messages: ChatMessage[] = [
+        {
+          role: 'system',
+          content: `You are an expert English vocabulary teacher creating learning exercises for students. Your task is to:
+
+1. Select a vocabulary word from the ${deck.name} list appropriate for ${levelFilter}
 2. Create a concise, educational clue that helps students learn the word
-3. The clue should be a complete sentence or question with a blank (____) where the target word goes
+3. The clue should be a complete sentence or question with exactly one blank (____) where the target word goes, and must not contain the word itself
 4. Make the clue contextual and meaningful, not just a definition
 5. Keep the clue brief but clear - aim for 10-15 words maximum
 6. Ensure the clue provides enough context to guess the word but isn't too obvious
@@ -139,105 +133,99 @@ Return your response in this EXACT JSON format:
 }
 
 The clue should be concise and educational, helping students understand the word's usage.`
-                },
-                {
-                  role: 'user',
-                  content: `Please create a brief vocabulary learning exercise for a ${levelFilter} English learner. Select an appropriate word and create a concise clue sentence with a blank (____) where the word should go. Keep it short and clear.`
-                }
-              ],
-              max_tokens: 250, // Reduced from 300 to save tokens
-              temperature: 0.7,
-              top_p: 1.0
-            }),
-            signal: controller.signal
-          });
+        },
+        {
+          role: 'user',
+          content: `Please create a brief vocabulary learning exercise for a ${levelFilter} English learner. Select an appropriate word and create a concise clue sentence with a blank (____) where the word should go. Keep it short and clear.`
+        }
+      ];
 
-          clearTimeout(timeoutId);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('OpenAI API error response:', response.status, errorText);
-            
-            // Handle specific error cases
-            if (response.status === 401) {
-              throw new Error('Invalid OpenAI API key. Please check your API key configuration.');
-            } else if (response.status === 429) {
-              throw new Error('OpenAI rate limit exceeded. Please wait a moment and try again.');
-            } else if (response.status === 402) {
-              throw new Error('OpenAI quota exceeded. Please check your billing and usage limits.');
-            }
-            
-            throw new Error(`OpenAI API error (${response.status}): ${response.statusText}`);
-          }
+      let rejections: string[] = [];
+      for (let attempt = 1; attempt <= openAIConfig.validation.maxGenerationAttempts; attempt++) {
+        const content = await this.complete({
+          messages,
+          maxTokens: 250, // Reduced from 300 to save tokens
+          temperature: 0.7,
+          topP: 1.0,
+          jsonSchema: { name: 'vocabulary_exercise', schema: EXERCISE_SCHEMA }
+        });
 
-          return response.json();
-        } catch (error) {
-          clearTimeout(timeoutId);
-          throw error;
-        }
-      }, openAIConfig.rateLimits.retryAttempts, openAIConfig.rateLimits.retryDelay);
+        console.log(`${this.provider.label} response content:`, content);
 
-      console.log('OpenAI API response received:', response);
+        const parsed = parseExercise(content);
+        const exercise = parsed.exercise && repairExercise(parsed.exercise, deck);
+        rejections = exercise ? validateExercise(exercise, deck, level).errors : parsed.errors;
 
-      const content = response.choices[0].message.content.trim();
-      console.log('OpenAI response content:', content);
-      
-      // Parse the JSON response
-      let parsedResponse;
-      try {
-        // Clean the response in case there's extra text
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        const jsonString = jsonMatch ? jsonMatch[0] : content;
-        parsedResponse = JSON.parse(jsonString);
-      } catch (parseError) {
-        console.error('Failed to parse OpenAI response as JSON:', content);
-        console.error('Parse error:', parseError);
-        throw new Error('OpenAI returned an invalid response format. Please try again.');
-      }
+        if (exercise && !rejections.length) {
+          const word = toDeckWord(exercise, deck);
+          const multipleChoiceOptions = generateMultipleChoiceOptions(word, level, deck);
+
+          console.log(`Successfully generated word and clue from ${this.provider.label}:`, {
+            word: word.word,
+            clue: exercise.clue,
+            definition: word.definition,
+            multipleChoiceOptions
+          });
 
-      // Validate the response structure
-      if (!parsedResponse.word || !parsedResponse.definition || !parsedResponse.clue) {
-        console.error('Incomplete response from OpenAI:', parsedResponse);
-        throw new Error('OpenAI returned incomplete data. Please try again.');
+          return {
+            word,
+            clue: exercise.clue,
+            difficulty: calculateDifficulty(word.level),
+            multipleChoiceOptions
+          };
+        }
+
+        console.warn(`Rejected generated exercise (attempt ${attempt}):`, rejections);
+
+        // Show the model its own reply together with what was wrong, then ask again
+        messages.push(
+          { role: 'assistant', content },
+          { role: 'user', content: `That exercise is invalid:\n- ${rejections.join('\n- ')}\nReturn a corrected exercise as JSON in the same format.` }
+        );
       }
 
-      const word: Word = {
-        word: parsedResponse.word.toLowerCase(),
-        level: parsedResponse.level || (level === 'ALL' ? 'B1' : level),
-        definition: parsedResponse.definition,
-        example: parsedResponse.example || `This is an example with ${parsedResponse.word}.`,
-        partOfSpeech: parsedResponse.partOfSpeech || 'word'
-      };
-      
-      // Generate multiple choice options
-      const multipleChoiceOptions = this.generateMultipleChoiceOptions(word, level);
-      
-      console.log('Successfully generated word and clue from OpenAI:', { 
-        word: word.word, 
-        clue: parsedResponse.clue,
-        definition: word.definition,
-        multipleChoiceOptions
-      });
-      
-      return {
-        word,
-        clue: parsedResponse.clue,
-        difficulty: this.calculateDifficulty(word.level),
-        multipleChoiceOptions
-      };
+      throw new Error(`${this.provider.label} did not produce a valid exercise: ${rejections.join('; ')}`);
     } catch (error) {
       const apiError = handleOpenAIError(error);
-      console.error('OpenAI API Error:', apiError);
+      console.error(`${this.provider.label} API Error:`, apiError);
       
       // Re-throw the error instead of falling back
-      throw new Error(`OpenAI API Error: ${apiError.message}. VocabAI requires a working OpenAI connection.`);
+      throw new Error(`${this.provider.label} API Error: ${apiError.message}. VocabAI requires a working AI provider connection.`);
     }
   }
 
-  // Legacy method for backward compatibility
+  // Builds an exercise for a word chosen by the app from the deck or the review queue
+  async fetchClueForWord(word: Word, level: LevelFilter, deck: Deck): Promise<WordAndClueResponse> {
+    const { clue, difficulty } = await this.generateClue(word.word, word.definition, word.level);
+
+    return {
+      word,
+      clue,
+      difficulty,
+      multipleChoiceOptions: generateMultipleChoiceOptions(word, level, deck)
+    };
+  }
+
+  // Writes a clue for a given word; the model never chooses what gets practiced
   async generateClue(word: string, definition: string, level: string): Promise<{ clue: string; difficulty: number }> {
-    if (!this.apiKey || this.apiKey === 'your_openai_api_key_here' || this.apiKey.length < 20 || !this.apiKey.startsWith('sk-')) {
-      throw new Error('Valid OpenAI API key is required for clue generation.');
+    const configError = this.provider.validate();
+    if (configError) {
+      throw new Error(`${configError} A configured AI provider is required for clue generation.`);
+    }
+
+    // Clues are keyed by everything that shapes the prompt plus the model that answered it
+    const cacheKey = ['clue', this.provider.id, this.provider.model, word, definition, level];
+    const cachedClue = await contentCache.get<string>('llm', cacheKey);
+    if (cachedClue && validateClue(cachedClue, word).isValid) {
+      return {
+        clue: cachedClue,
+        difficulty: calculateDifficulty(level)
+      };
+    }
+
+    // Close to the token budget only clues generated earlier are used
+    if (this.usageLedger && this.usageLedger.getLevel('tokens') !== 'ok') {
+      throw new Error('Nearly out of AI tokens: only cached clues are used until the budget resets.');
     }
 
     // Check rate limits
@@ -247,71 +235,202 @@ The clue should be concise and educational, helping students understand the word
     }
 
     try {
-      const response = await retryWithBackoff(async () => {
-        this.rateLimiter.recordRequest();
-        
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), openAIConfig.timeout);
-
-        try {
-          const response = await fetch(`${openAIConfig.baseURL}/chat/completions`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${this.apiKey}`
-            },
-            body: JSON.stringify({
-              model: openAIConfig.model,
-              messages: [
-                {
-                  role: 'system',
-                  content: `${getSystemPrompt(level)} Be concise - use 10-15 words maximum.`
-                },
-                {
-                  role: 'user',
-                  content: `Create a brief clue sentence for "${word}" (definition: ${definition}). Replace the word with "____". Keep it short and clear for ${level} level learners.`
-                }
-              ],
-              max_tokens: 100, // Reduced from 150 to save tokens
-              temperature: openAIConfig.temperature,
-              top_p: openAIConfig.topP
-            }),
-            signal: controller.signal
-          });
+      const messages: ChatMessage[] = [
+        {
+          role: 'system',
+          content: `${getSystemPrompt(level)} Be concise - use 10-15 words maximum.`
+        },
+        {
+          role: 'user',
+          content: `Create a brief clue sentence for "${word}"${definition ? ` (definition: ${definition})` : ''}. Replace the word with "____". Keep it short and clear for ${level} level learners.`
+        }
+      ];
 
-          clearTimeout(timeoutId);
+      let rejections: string[] = [];
+      for (let attempt = 1; attempt <= openAIConfig.validation.maxGenerationAttempts; attempt++) {
+        const content = await this.complete({
+          messages,
+          maxTokens: 100, // Reduced from 150 to save tokens
+          temperature: openAIConfig.temperature,
+          topP: openAIConfig.topP
+        });
 
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-          }
+        // Models often wrap the sentence in quotes
+        const clue = repairClue(content.replace(/^["'“]+|["'”]+$/g, ''), word);
+        rejections = validateClue(clue, word).errors;
 
-          return response.json();
-        } catch (error) {
-          clearTimeout(timeoutId);
-          throw error;
+        if (!rejections.length) {
+          await contentCache.set('llm', cacheKey, clue);
+          return {
+            clue,
+            difficulty: calculateDifficulty(level)
+          };
         }
-      }, openAIConfig.rateLimits.retryAttempts, openAIConfig.rateLimits.retryDelay);
 
-      const clue = response.choices[0].message.content.trim();
-      
-      return {
-        clue,
-        difficulty: this.calculateDifficulty(level)
-      };
+        console.warn(`Rejected generated clue for "${word}" (attempt ${attempt}):`, rejections);
+        messages.push(
+          { role: 'assistant', content },
+          { role: 'user', content: `That clue is invalid:\n- ${rejections.join('\n- ')}\nReply with a corrected clue sentence only.` }
+        );
+      }
+
+      throw new Error(`${this.provider.label} did not produce a valid clue: ${rejections.join('; ')}`);
     } catch (error) {
       const apiError = handleOpenAIError(error);
-      console.error('OpenAI API Error:', apiError);
-      throw new Error(`OpenAI API Error: ${apiError.message}`);
+      console.error(`${this.provider.label} API Error:`, apiError);
+      throw new Error(`${this.provider.label} API Error: ${apiError.message}`);
     }
   }
 
-  private calculateDifficulty(level: string): number {
-    switch (level) {
-      case 'A1': return 1;
-      case 'A2': return 2;
-      case 'B1': return 3;
-      case 'B2': return 4;
-      default: return 2;
+  // A synonym and a second example sentence for the later hints, written once per word and cached
+  async generateHintExtras(word: Word, clue: string): Promise<HintExtras> {
+    const configError = this.provider.validate();
+    if (configError) {
+      throw new Error(`${configError} A configured AI provider is required for hint generation.`);
+    }
+
+    const cacheKey = ['hints', this.provider.id, this.provider.model, word.word, word.definition];
+    // Stored as the model's reply, which is checked again on the way out
+    const cachedReply = await contentCache.get<string>('llm', cacheKey);
+    if (cachedReply) {
+      return parseHintExtras(cachedReply, word.word);
+    }
+
+    // Hints are optional, so they are the first thing given up near the token budget
+    if (this.usageLedger && this.usageLedger.getLevel('tokens') !== 'ok') {
+      throw new Error('Nearly out of AI tokens: hints use the word list only until the budget resets.');
+    }
+
+    if (!this.rateLimiter.canMakeRequest()) {
+      const waitTime = this.rateLimiter.getTimeUntilNextRequest();
+      throw new Error(`Rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds.`);
+    }
+
+    try {
+      const content = await this.complete({
+        messages: [
+          {
+            role: 'system',
+            content: `${getSystemPrompt(word.level)} Reply with JSON only.`
+          },
+          {
+            role: 'user',
+            content: `For the ${word.partOfSpeech} "${word.word}"${word.definition ? ` (definition: ${word.definition})` : ''}, give one common synonym a ${word.level} learner would know, and one short new example sentence that uses "${word.word}" differently from: "${clue}".`
+          }
+        ],
+        maxTokens: 120,
+        temperature: openAIConfig.temperature,
+        topP: openAIConfig.topP,
+        jsonSchema: { name: 'word_hints', schema: HINT_SCHEMA }
+      });
+
+      const extras = parseHintExtras(content, word.word);
+      if (extras.synonym || extras.example) {
+        await contentCache.set('llm', cacheKey, content);
+      }
+      return extras;
+    } catch (error) {
+      const apiError = handleOpenAIError(error);
+      console.error(`${this.provider.label} API Error:`, apiError);
+      throw new Error(`${this.provider.label} API Error: ${apiError.message}`);
     }
   }
-}
\ No newline at end of file
+
+  // Word family, collocations, synonyms and antonyms for the word-use exercises; written once per word and cached
+  async enrichWord(word: Word): Promise<WordEnrichment> {
+    const configError = this.provider.validate();
+    if (configError) {
+      throw new Error(`${configError} A configured AI provider is required to enrich words.`);
+    }
+
+    const cacheKey = ['enrichment', this.provider.id, this.provider.model, word.word, word.partOfSpeech];
+    // Stored as the model's reply, which is checked again on the way out
+    const cachedReply = await contentCache.get<string>('llm', cacheKey);
+    const cached = cachedReply ? parseWordEnrichment(cachedReply, word) : null;
+    if (cached) {
+      return cached;
+    }
+
+    // Enrichment can wait, so it is given up near the token budget like hints are
+    if (this.usageLedger && this.usageLedger.getLevel('tokens') !== 'ok') {
+      throw new Error('Nearly out of AI tokens: words are not enriched until the budget resets.');
+    }
+
+    if (!this.rateLimiter.canMakeRequest()) {
+      const waitTime = this.rateLimiter.getTimeUntilNextRequest();
+      throw new Error(`Rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds.`);
+    }
+
+    try {
+      const content = await this.complete({
+        messages: [
+          {
+            role: 'system',
+            content: `${getSystemPrompt(word.level)} Reply with JSON only.`
+          },
+          {
+            role: 'user',
+            content: `For the ${word.partOfSpeech} "${word.word}"${word.definition ? ` (definition: ${word.definition})` : ''}, list up to 4 other common words from the same word family (not plurals or verb endings of "${word.word}"), each with its part of speech and one short sentence that uses that exact form; up to 4 common collocations that contain "${word.word}", such as "make a decision"; and up to 4 synonyms and 4 antonyms a ${word.level} learner would know. Use empty lists where there are none.`
+          }
+        ],
+        maxTokens: 400,
+        temperature: openAIConfig.temperature,
+        topP: openAIConfig.topP,
+        jsonSchema: { name: 'word_enrichment', schema: ENRICHMENT_SCHEMA }
+      });
+
+      const enrichment = parseWordEnrichment(content, word);
+      if (!enrichment) {
+        throw new Error('The word enrichment could not be read.');
+      }
+      await contentCache.set('llm', cacheKey, content);
+      return enrichment;
+    } catch (error) {
+      const apiError = handleOpenAIError(error);
+      console.error(`${this.provider.label} API Error:`, apiError);
+      throw new Error(`${this.provider.label} API Error: ${apiError.message}`);
+    }
+  }
+
+  // Grades the learner's own explanation of a word against its definition; never cached, as every answer differs
+  async gradeExplanation(word: Word, explanation: string): Promise<ExplanationGrade> {
+    const configError = this.provider.validate();
+    if (configError) {
+      throw new Error(`${configError} A configured AI provider is required to grade explanations.`);
+    }
+
+    if (!this.rateLimiter.canMakeRequest()) {
+      const waitTime = this.rateLimiter.getTimeUntilNextRequest();
+      throw new Error(`Rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds.`);
+    }
+
+    try {
+      const content = await this.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an English teacher checking whether a learner understands a word. Accept explanations in their own words, synonyms and examples of use. The explanation may be a speech transcript, so ignore grammar, spelling and recognition mistakes. Reply with JSON only.'
+          },
+          {
+            role: 'user',
+            content: `Word: "${word.word}" (${word.partOfSpeech}, ${word.level}). Reference definition: "${word.definition}". Learner's explanation: "${explanation}". Grade it "correct" if it shows the meaning, "partial" if it is close or covers only part of it, or "incorrect", with one short sentence of feedback for the learner.`
+          }
+        ],
+        maxTokens: 100,
+        temperature: 0,
+        topP: 1.0,
+        jsonSchema: { name: 'explanation_grade', schema: EXPLANATION_SCHEMA }
+      });
+
+      const grade = parseExplanationGrade(content);
+      if (!grade) {
+        throw new Error('The grade could not be read.');
+      }
+      return grade;
+    } catch (error) {
+      const apiError = handleOpenAIError(error);
+      console.error(`${this.provider.label} API Error:`, apiError);
+      throw new Error(`${this.provider.label} API Error: ${apiError.message}`);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateAnswer, evaluateHypotheses, needsConfirmation } from './answerEvaluator';
+import { oxford3000Words } from '../data/oxford3000';
+
+const DECK_WORDS = ['abandon', 'abundant', 'ability', 'absent', 'nothing', 'alpha', 'beta'];
+
+describe('evaluateAnswer', () => {
+  it('accepts the word wrapped in filler phrases', () => {
+    expect(evaluateAnswer('I think abandon', 'abandon', 'voice', DECK_WORDS).verdict).toBe('exact');
+    expect(evaluateAnswer('um, the answer is abandon please', 'abandon', 'voice', DECK_WORDS).verdict).toBe('exact');
+    expect(evaluateAnswer('to abandon', 'abandon', 'typed', DECK_WORDS).verdict).toBe('exact');
+  });
+
+  it('joins words the recognizer split', () => {
+    expect(evaluateAnswer('a bandon', 'abandon', 'voice', DECK_WORDS).verdict).toBe('exact');
+  });
+
+  it('rejects an answer that guesses more than one word', () => {
+    expect(evaluateAnswer('abandon abundant ability absent', 'abandon', 'voice', DECK_WORDS).isCorrect).toBe(false);
+    expect(evaluateAnswer('abandon or abundant', 'abandon', 'typed', DECK_WORDS).isCorrect).toBe(false);
+    expect(evaluateAnswer('alpha beta abandon', 'abandon', 'voice', DECK_WORDS).isCorrect).toBe(false);
+  });
+
+  it('does not pick the word out of a longer sentence', () => {
+    expect(evaluateAnswer('I said nothing', 'nothing', 'voice', DECK_WORDS).isCorrect).toBe(false);
+  });
+
+  it('does not count filler words the Oxford deck contains as extra guesses', () => {
+    const oxfordWords = oxford3000Words.map(word => word.word);
+
+    ['to accept', 'I think accept', 'the answer is accept', 'it is accept'].forEach(answer => {
+      expect(evaluateAnswer(answer, 'accept', 'voice', oxfordWords).verdict).toBe('exact');
+    });
+    expect(evaluateAnswer('my answer is afford', 'afford', 'typed', oxfordWords).verdict).toBe('exact');
+    expect(evaluateAnswer('accept or afford', 'accept', 'voice', oxfordWords).isCorrect).toBe(false);
+  });
+
+  it('still counts a multi-word target as one guess', () => {
+    expect(evaluateAnswer('look after', 'look after', 'typed', ['look', 'look after']).verdict).toBe('exact');
+  });
+});
+
+describe('evaluateHypotheses', () => {
+  it('ignores unscored lower alternatives', () => {
+    const answer = evaluateHypotheses(
+      [{ transcript: 'abundant', confidence: 0.9 }, { transcript: 'a band', confidence: 0 }, { transcript: 'abandon', confidence: 0 }],
+      'abandon',
+      DECK_WORDS
+    );
+
+    expect(answer.transcript).toBe('abundant');
+    expect(answer.evaluation.isCorrect).toBe(false);
+    expect(needsConfirmation(answer)).toBe(false);
+  });
+
+  it('confirms a correct first hypothesis heard with low confidence', () => {
+    const answer = evaluateHypotheses(
+      [{ transcript: 'a band on', confidence: 0.5 }, { transcript: 'abandon', confidence: 0.4 }],
+      'abandon',
+      DECK_WORDS
+    );
+
+    expect(answer.transcript).toBe('a band on');
+    expect(answer.evaluation.verdict).toBe('exact');
+    expect(needsConfirmation(answer)).toBe(true);
+  });
+
+  it('confirms a low-confidence first hypothesis whether or not it matched', () => {
+    const fromAlternative = evaluateHypotheses(
+      [{ transcript: 'absent', confidence: 0.5 }, { transcript: 'abandon', confidence: 0.3 }],
+      'abandon',
+      DECK_WORDS
+    );
+    const unsureWrong = evaluateHypotheses([{ transcript: 'absent', confidence: 0.3 }], 'abandon', DECK_WORDS);
+
+    expect(fromAlternative.evaluation.isCorrect).toBe(true);
+    expect(needsConfirmation(fromAlternative)).toBe(false);
+    expect(unsureWrong.evaluation.isCorrect).toBe(false);
+    expect(needsConfirmation(unsureWrong)).toBe(true);
+  });
+
+  it('trusts an unscored first hypothesis', () => {
+    const answer = evaluateHypotheses([{ transcript: 'abandon', confidence: 0 }], 'abandon', DECK_WORDS);
+
+    expect(answer.confidence).toBe(1);
+    expect(needsConfirmation(answer)).toBe(false);
+  });
+});
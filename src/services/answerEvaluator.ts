@@ -0,0 +1,342 @@
+import { getWordForms } from './clueEngine';
+import { AnswerMode } from './progressStore';
+import { RecognitionAlternative } from './speechService';
+
+/**
+ * exact: the word itself; close: a typo or a near-homophone of it;
+ * wrong_form: another inflection of the word; wrong: anything else.
+ */
+export type AnswerVerdict = 'exact' | 'close' | 'wrong_form' | 'wrong';
+
+export interface AnswerEvaluation {
+  verdict: AnswerVerdict;
+  // Close answers and other forms of the word still count as correct
+  isCorrect: boolean;
+  // The part of the answer that was matched, after normalization
+  matched: string;
+}
+
+// The recognizer hypothesis an answer was taken from, with the grade it earned
+export interface HeardAnswer extends RecognitionAlternative {
+  evaluation: AnswerEvaluation;
+  // Whether the answer is the recognizer's first hypothesis rather than a lower alternative
+  isTopHypothesis: boolean;
+}
+
+// Hypotheses after the first are only considered when the recognizer scored them this high
+export const MIN_HYPOTHESIS_CONFIDENCE = 0.2;
+
+// First hypotheses heard with less confidence than this are read back to the learner before they are graded
+export const CONFIRMATION_CONFIDENCE = 0.6;
+
+const VERDICT_RANK: Record<AnswerVerdict, number> = { exact: 3, close: 2, wrong_form: 1, wrong: 0 };
+
+const VOWELS = 'AEIOU';
+
+// Lowercase, no accents, punctuation or repeated spaces: "  Acquire! " -> "acquire"
+export const normalizeAnswer = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/'/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Original Metaphone (Lawrence Philips, 1990): a key that is the same for words
+ * that sound alike, so "nite" and "night" or "fizical" and "physical" match.
+ */
+export const metaphone = (word: string): string => {
+  let text = word.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!text) return '';
+
+  // Silent or changed first letters
+  if (/^(AE|GN|KN|PN|WR)/.test(text)) text = text.slice(1);
+  if (text[0] === 'X') text = `S${text.slice(1)}`;
+  if (text.startsWith('WH')) text = `W${text.slice(2)}`;
+
+  const at = (index: number) => text[index] || '';
+  const isVowel = (index: number) => VOWELS.includes(at(index));
+  let key = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const letter = text[i];
+    const next = at(i + 1);
+
+    // Doubled letters sound once, except CC as in "accept"
+    if (letter === at(i - 1) && letter !== 'C') continue;
+
+    switch (letter) {
+      case 'A': case 'E': case 'I': case 'O': case 'U':
+        if (i === 0) key += letter;
+        break;
+      case 'B':
+        if (!(at(i - 1) === 'M' && i === text.length - 1)) key += 'B';
+        break;
+      case 'C':
+        if (next === 'I' && at(i + 2) === 'A') key += 'X';
+        else if (next === 'H') key += at(i - 1) === 'S' ? 'K' : 'X';
+        else if ('IEY'.includes(next) && next) key += at(i - 1) === 'S' ? '' : 'S';
+        else key += 'K';
+        break;
+      case 'D':
+        key += next === 'G' && 'EIY'.includes(at(i + 2)) && at(i + 2) ? 'J' : 'T';
+        break;
+      case 'G':
+        if (next === 'H' && i + 2 < text.length && !isVowel(i + 2)) break;
+        if (next === 'N' && (i + 2 === text.length || text.slice(i + 2) === 'ED')) break;
+        if (at(i - 1) === 'D' && 'EIY'.includes(next) && next) break;
+        key += 'EIY'.includes(next) && next && at(i - 1) !== 'G' ? 'J' : 'K';
+        break;
+      case 'H':
+        if ('CSPTG'.includes(at(i - 1)) && at(i - 1)) break;
+        if (isVowel(i - 1) && !isVowel(i + 1)) break;
+        key += 'H';
+        break;
+      case 'K':
+        if (at(i - 1) !== 'C') key += 'K';
+        break;
+      case 'P':
+        key += next === 'H' ? 'F' : 'P';
+        break;
+      case 'Q':
+        key += 'K';
+        break;
+      case 'S':
+        if (next === 'H' || (next === 'I' && 'OA'.includes(at(i + 2)) && at(i + 2))) key += 'X';
+        else key += 'S';
+        break;
+      case 'T':
+        if (next === 'I' && 'OA'.includes(at(i + 2)) && at(i + 2)) key += 'X';
+        else if (next === 'H') key += '0';
+        else if (!(next === 'C' && at(i + 2) === 'H')) key += 'T';
+        break;
+      case 'V':
+        key += 'F';
+        break;
+      case 'W':
+      case 'Y':
+        if (isVowel(i + 1)) key += letter;
+        break;
+      case 'X':
+        key += 'KS';
+        break;
+      case 'Z':
+        key += 'S';
+        break;
+      default:
+        key += letter;
+    }
+  }
+
+  return key;
+};
+
+// Typos allowed before an answer stops being "close": none for short words
+const allowedEdits = (length: number): number => {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+};
+
+// Lead-ins learners wrap an answer in, longest first so "i think its" wins over "i think"
+const LEADING_FILLERS = [
+  'i think the answer is', 'i think the word is', 'i think its', 'i think it is', 'i think', 'i guess', 'i believe',
+  'the answer is', 'the word is', 'my answer is', 'its', 'it is', 'is it', 'maybe', 'um', 'uh', 'er', 'erm', 'hmm',
+  'okay', 'ok', 'well', 'so'
+];
+const TRAILING_FILLERS = ['i think', 'i guess', 'maybe', 'please'];
+
+// Articles and "to" in front of a noun or verb, as in "an apple" or "to abandon"
+const LEADING_PARTICLES = ['a', 'an', 'the', 'to'];
+
+// Removes the filler phrases above from both ends, as often as they repeat ("um i think abandon")
+const stripFillers = (normalized: string): string => {
+  let text = normalized;
+  let isStripping = true;
+  while (isStripping) {
+    const leading = LEADING_FILLERS.find(filler => text.startsWith(`${filler} `));
+    const trailing = TRAILING_FILLERS.find(filler => text.endsWith(` ${filler}`));
+    if (leading) text = text.slice(leading.length + 1);
+    if (trailing) text = text.slice(0, -(trailing.length + 1));
+    isStripping = Boolean(leading || trailing);
+  }
+  return text;
+};
+
+// A leading article or "to", if the answer has one
+const findParticle = (answer: string): string | undefined => {
+  return LEADING_PARTICLES.find(word => answer.startsWith(`${word} `));
+};
+
+/**
+ * Readings of an answer to compare with the target. Recognizers split words
+ * ("a bandon"), so the answer is tried both as heard and with its spaces
+ * removed, and with and without a leading article or "to". Only the filler
+ * phrases above are stripped: any other extra word makes it a different answer.
+ */
+const getCandidates = (normalized: string): string[] => {
+  const answer = stripFillers(normalized);
+  const particle = findParticle(answer);
+  const readings = particle ? [answer, answer.slice(particle.length + 1)] : [answer];
+  const candidates = new Set(readings.flatMap(reading => [reading, reading.replace(/ /g, '')]));
+
+  candidates.delete('');
+  return Array.from(candidates);
+};
+
+/**
+ * Distinct words from the target and the rest of the deck that the answer
+ * names, so "abandon or abundant" is caught as two guesses. Filler phrases and
+ * a leading particle are removed first, since decks contain words like "the",
+ * "to" and "think". Deck words that are part of the target itself ("look" in
+ * "look after") do not count separately.
+ */
+const getNamedWords = (normalized: string, normalizedTarget: string, knownWords: Set<string>): string[] => {
+  const answer = stripFillers(normalized);
+  const particle = findParticle(answer);
+  const padded = ` ${particle ? answer.slice(particle.length + 1) : answer} `;
+  const paddedTarget = ` ${normalizedTarget} `;
+  return [normalizedTarget, ...Array.from(knownWords)].filter((word, index) =>
+    word && padded.includes(` ${word} `) && (index === 0 || !paddedTarget.includes(` ${word} `))
+  );
+};
+
+/**
+ * Grades an answer against the target word. Multiple choice options are exact
+ * strings, so only typed and spoken answers get typo, phonetic and form matching.
+ * Other words from the deck are never accepted as typos of the target, so
+ * "effect" for "affect" stays wrong, and an answer that names more than one
+ * of them ("abandon or abundant") is wrong even if one is right.
+ */
+export const evaluateAnswer = (
+  answer: string,
+  target: string,
+  answerMode: AnswerMode,
+  otherWords: string[] = []
+): AnswerEvaluation => {
+  const normalized = normalizeAnswer(answer);
+  const normalizedTarget = normalizeAnswer(target);
+  const compact = (text: string) => text.replace(/ /g, '');
+
+  if (answerMode === 'multiple_choice') {
+    const isExact = normalized === normalizedTarget;
+    return { verdict: isExact ? 'exact' : 'wrong', isCorrect: isExact, matched: normalized };
+  }
+
+  const knownWords = new Set(otherWords.map(word => normalizeAnswer(word)));
+  if (getNamedWords(normalized, normalizedTarget, knownWords).length > 1) {
+    return { verdict: 'wrong', isCorrect: false, matched: normalized };
+  }
+
+  const candidates = getCandidates(normalized);
+
+  const exact = candidates.find(candidate => compact(candidate) === compact(normalizedTarget));
+  if (exact) {
+    return { verdict: 'exact', isCorrect: true, matched: exact };
+  }
+
+  const forms = getWordForms(normalizedTarget);
+  const otherForm = candidates.find(candidate => forms.includes(candidate));
+  if (otherForm) {
+    return { verdict: 'wrong_form', isCorrect: true, matched: otherForm };
+  }
+
+  const targetKey = metaphone(compact(normalizedTarget));
+  const maxEdits = allowedEdits(compact(normalizedTarget).length);
+
+  const close = candidates.find(candidate => {
+    if (knownWords.has(candidate)) {
+      return false;
+    }
+    const distance = levenshtein(compact(candidate), compact(normalizedTarget));
+    if (distance <= maxEdits) {
+      return true;
+    }
+    // Speech is heard by sound: a matching sound key allows spellings that differ in up to half the letters
+    return answerMode === 'voice' && maxEdits > 0 && metaphone(compact(candidate)) === targetKey &&
+      distance <= Math.ceil(compact(normalizedTarget).length / 2);
+  });
+  if (close) {
+    return { verdict: 'close', isCorrect: true, matched: close };
+  }
+
+  // A typo in another form ("runing") is still the wrong form rather than a wrong word
+  const closeForm = candidates.find(candidate =>
+    !knownWords.has(candidate) &&
+    forms.some(form => form !== normalizedTarget && levenshtein(candidate, form) <= allowedEdits(form.length))
+  );
+  if (closeForm) {
+    return { verdict: 'wrong_form', isCorrect: true, matched: closeForm };
+  }
+
+  return { verdict: 'wrong', isCorrect: false, matched: normalized };
+};
+
+/**
+ * Grades the recognizer's first hypothesis, and the lower alternatives it
+ * scored at least MIN_HYPOTHESIS_CONFIDENCE, and keeps the best one, so
+ * "abandon" heard as a confident second alternative still counts. Browsers
+ * often score only the first hypothesis: an unscored first hypothesis is
+ * trusted, while unscored alternatives are ignored.
+ */
+export const evaluateHypotheses = (
+  alternatives: RecognitionAlternative[],
+  target: string,
+  otherWords: string[] = []
+): HeardAnswer => {
+  let best: HeardAnswer | null = null;
+
+  alternatives.forEach((alternative, index) => {
+    const isTopHypothesis = index === 0;
+    const confidence = isTopHypothesis && alternative.confidence <= 0 ? 1 : alternative.confidence;
+    if (!isTopHypothesis && confidence < MIN_HYPOTHESIS_CONFIDENCE) {
+      return;
+    }
+
+    const evaluation = evaluateAnswer(alternative.transcript, target, 'voice', otherWords);
+    const isBetter = !best ||
+      VERDICT_RANK[evaluation.verdict] > VERDICT_RANK[best.evaluation.verdict] ||
+      (evaluation.verdict === best.evaluation.verdict && confidence > best.confidence);
+    if (isBetter) {
+      best = { transcript: alternative.transcript, confidence, evaluation, isTopHypothesis };
+    }
+  });
+
+  return best || {
+    transcript: '',
+    confidence: 0,
+    evaluation: evaluateAnswer('', target, 'voice', otherWords),
+    isTopHypothesis: true
+  };
+};
+
+/**
+ * A first hypothesis heard with low confidence is read back to the learner,
+ * whether it matched or not, since a wrong one is as likely a misrecognition.
+ * Alternatives already had to clear their own threshold, and asking about them
+ * would read the word out to a learner who said something else. Hearing
+ * nothing leaves nothing to read back.
+ */
+export const needsConfirmation = (answer: HeardAnswer): boolean => {
+  return answer.isTopHypothesis && answer.transcript.trim() !== '' && answer.confidence < CONFIRMATION_CONFIDENCE;
+};
@@ -0,0 +1,163 @@
+// Port the relay in server/classroom-relay.mjs listens on unless CLASSROOM_PORT says otherwise
+export const RELAY_PORT = 8787;
+
+// How long students have to answer each question
+export const QUESTION_DURATION_MS = 20000;
+
+// Points for an instant correct answer; a correct answer at the buzzer earns half
+const MAX_QUESTION_POINTS = 1000;
+
+const RELAY_URL_KEY = 'classroomRelay';
+
+// Option colors, in order, so students can match their phone to the shared screen at a glance
+export const OPTION_COLORS = [
+  'from-red-400 to-pink-500',
+  'from-blue-400 to-indigo-500',
+  'from-amber-400 to-orange-500',
+  'from-green-400 to-emerald-500'
+];
+
+export interface PlayerAnswer {
+  option: string;
+  isCorrect: boolean;
+  points: number;
+}
+
+export interface LeaderboardEntry {
+  name: string;
+  points: number;
+  correctAnswers: number;
+  // Time spent on correct answers, which breaks ties: the faster player ranks higher
+  correctAnswerMs: number;
+  // Shared by players whose points, correct answers and time are all equal
+  rank: number;
+}
+
+// What the host sends to every student's phone
+export type HostMessage =
+  | { kind: 'question'; questionId: number; number: number; options: string[]; durationMs: number }
+  | { kind: 'reveal'; questionId: number; answer: string; answers: Record<string, PlayerAnswer>; leaderboard: LeaderboardEntry[] }
+  | { kind: 'finished'; leaderboard: LeaderboardEntry[] };
+
+// What a student's phone sends to the host
+export type PlayerMessage = { kind: 'answer'; questionId: number; option: string };
+
+// Messages to the relay
+export type ClientMessage =
+  | { type: 'host_room' }
+  | { type: 'join_room'; code: string; name: string; rejoinToken?: string }
+  | { type: 'to_players'; payload: HostMessage }
+  | { type: 'to_host'; payload: PlayerMessage };
+
+// Messages from the relay
+export type RelayMessage =
+  | { type: 'room_created'; code: string; joinUrls: string[] }
+  // The token lets the same student back in under this name after their connection drops
+  | { type: 'joined'; code: string; name: string; rejoinToken: string }
+  | { type: 'player_joined'; name: string }
+  | { type: 'player_left'; name: string }
+  | { type: 'from_player'; name: string; payload: PlayerMessage }
+  | { type: 'from_host'; payload: HostMessage }
+  | { type: 'room_closed' }
+  | { type: 'error'; message: string };
+
+/**
+ * The relay runs on the machine that serves the app, so the page's own host
+ * name finds it from the teacher's laptop and the students' phones alike.
+ */
+export const getRelayUrl = (): string => {
+  const saved = localStorage.getItem(RELAY_URL_KEY);
+  if (saved) return saved;
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.hostname || 'localhost'}:${RELAY_PORT}`;
+};
+
+export const saveRelayUrl = (url: string) => {
+  localStorage.setItem(RELAY_URL_KEY, url.trim());
+};
+
+// Correct answers earn between half and all of the points, depending on how quickly they came in
+export const scoreClassroomAnswer = (isCorrect: boolean, latencyMs: number, durationMs: number): number => {
+  if (!isCorrect) return 0;
+  const share = Math.min(Math.max(latencyMs / durationMs, 0), 1);
+  return Math.round(MAX_QUESTION_POINTS * (1 - share / 2));
+};
+
+// Most points first, then most correct answers, then the least time spent on them
+export const rankLeaderboard = (entries: Omit<LeaderboardEntry, 'rank'>[]): LeaderboardEntry[] => {
+  const sorted = [...entries].sort((a, b) =>
+    b.points - a.points || b.correctAnswers - a.correctAnswers || a.correctAnswerMs - b.correctAnswerMs
+  );
+
+  // A tie shares the rank of the first player in it
+  let rank = 0;
+  return sorted.map((entry, index) => {
+    const previous = sorted[index - 1];
+    const isTied = previous && previous.points === entry.points && previous.correctAnswers === entry.correctAnswers
+      && previous.correctAnswerMs === entry.correctAnswerMs;
+    if (!isTied) rank = index + 1;
+    return { ...entry, rank };
+  });
+};
+
+/**
+ * One WebSocket connection to the classroom relay. Messages are JSON in both
+ * directions; anything the relay sends that is not JSON is ignored.
+ */
+export class ClassroomConnection {
+  private socket: WebSocket | null = null;
+
+  constructor(
+    private onMessage: (message: RelayMessage) => void,
+    private onClose: () => void
+  ) {}
+
+  connect(url: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let isOpen = false;
+      try {
+        this.socket = new WebSocket(url);
+      } catch {
+        reject(new Error(`"${url}" is not a valid relay address.`));
+        return;
+      }
+
+      this.socket.onopen = () => {
+        isOpen = true;
+        resolve();
+      };
+      this.socket.onerror = () => {
+        if (!isOpen) {
+          reject(new Error(`Could not reach the classroom relay at ${url}. Start it with "npm run classroom".`));
+        }
+      };
+      this.socket.onmessage = (event) => {
+        let message: RelayMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch (error) {
+          console.warn('Ignoring a relay message that is not JSON:', error);
+          return;
+        }
+        this.onMessage(message);
+      };
+      this.socket.onclose = () => {
+        if (isOpen) this.onClose();
+      };
+    });
+  }
+
+  send(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  // Closing on purpose does not count as the connection dropping
+  close() {
+    if (!this.socket) return;
+    this.socket.onclose = null;
+    this.socket.close();
+    this.socket = null;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { blankWordInText, generateMultipleChoiceOptions, getWordForms } from './clueEngine';
+import { Deck, Word } from '../types/vocabulary';
+
+const makeWord = (word: string, partOfSpeech = 'noun'): Word => ({
+  word,
+  level: 'A1',
+  definition: `the meaning of ${word}`,
+  example: `This is the ${word}.`,
+  partOfSpeech
+});
+
+const makeDeck = (words: Word[]): Deck => ({
+  id: 'tiny',
+  name: 'Tiny',
+  description: '',
+  language: 'en',
+  levelScheme: ['A1'],
+  source: 'user',
+  words
+});
+
+describe('generateMultipleChoiceOptions', () => {
+  it('fills a deck of three words or fewer with generic distractors', () => {
+    const words = [makeWord('apple'), makeWord('banana'), makeWord('cherry', 'adjective')];
+    const options = generateMultipleChoiceOptions(words[0], 'A1', makeDeck(words));
+
+    expect(options).toHaveLength(4);
+    expect(new Set(options.map(option => option.toLowerCase())).size).toBe(4);
+    expect(options).toContain('apple');
+    expect(options).toContain('banana');
+    expect(options).toContain('cherry');
+  });
+
+  it('handles a deck with only the correct word, repeated', () => {
+    const words = [makeWord('apple'), makeWord('Apple')];
+    const options = generateMultipleChoiceOptions(words[0], 'ALL', makeDeck(words));
+
+    expect(options).toHaveLength(4);
+    expect(options.filter(option => option.toLowerCase() === 'apple')).toEqual(['apple']);
+  });
+
+  it('prefers distractors with the same part of speech', () => {
+    const words = [
+      makeWord('run', 'verb'), makeWord('jump', 'verb'), makeWord('swim', 'verb'), makeWord('walk', 'verb'),
+      makeWord('table'), makeWord('chair')
+    ];
+    const options = generateMultipleChoiceOptions(words[0], 'A1', makeDeck(words));
+
+    expect(options.sort()).toEqual(['jump', 'run', 'swim', 'walk']);
+  });
+});
+
+describe('getWordForms', () => {
+  it('doubles the last consonant of one-syllable words only', () => {
+    expect(getWordForms('stop')).toEqual(expect.arrayContaining(['stopped', 'stopping']));
+    expect(getWordForms('stop')).not.toContain('stoped');
+    expect(getWordForms('strip')).toContain('stripped');
+  });
+
+  it('keeps both spellings for longer words, whose stress decides the doubling', () => {
+    expect(getWordForms('open')).toEqual(expect.arrayContaining(['opened', 'opening']));
+    expect(getWordForms('admit')).toEqual(expect.arrayContaining(['admitted', 'admitting']));
+  });
+});
+
+describe('blankWordInText', () => {
+  it('blanks inflections of unstressed two-syllable words', () => {
+    expect(blankWordInText('She opened the door.', 'open')).not.toContain('opened');
+    expect(blankWordInText('The opening was late.', 'open')).not.toContain('opening');
+  });
+});
@@ -0,0 +1,273 @@
+import { getDeckWords } from './deckRegistry';
+import { Deck, LevelFilter, Word } from '../types/vocabulary';
+import { WordAndClueResponse } from './aiService';
+
+export type ClueStyle = 'cloze' | 'definition' | 'part_of_speech';
+
+export interface LocalClue {
+  style: ClueStyle;
+  clue: string;
+}
+
+export const BLANK = '____';
+
+// Irregular forms that suffix rules cannot produce
+const IRREGULAR_FORMS: Record<string, string[]> = {
+  be: ['am', 'is', 'are', 'was', 'were', 'been', 'being'],
+  have: ['has', 'had', 'having'],
+  do: ['does', 'did', 'done', 'doing'],
+  go: ['goes', 'went', 'gone', 'going'],
+  make: ['made'],
+  take: ['took', 'taken'],
+  give: ['gave', 'given'],
+  come: ['came'],
+  see: ['saw', 'seen'],
+  know: ['knew', 'known'],
+  get: ['got', 'gotten'],
+  say: ['said'],
+  think: ['thought'],
+  buy: ['bought'],
+  bring: ['brought'],
+  catch: ['caught'],
+  teach: ['taught'],
+  find: ['found'],
+  tell: ['told'],
+  sell: ['sold'],
+  write: ['wrote', 'written'],
+  run: ['ran'],
+  eat: ['ate', 'eaten'],
+  drink: ['drank', 'drunk'],
+  begin: ['began', 'begun'],
+  swim: ['swam', 'swum'],
+  sing: ['sang', 'sung'],
+  speak: ['spoke', 'spoken'],
+  break: ['broke', 'broken'],
+  choose: ['chose', 'chosen'],
+  drive: ['drove', 'driven'],
+  ride: ['rode', 'ridden'],
+  fly: ['flew', 'flown', 'flies'],
+  grow: ['grew', 'grown'],
+  throw: ['threw', 'thrown'],
+  draw: ['drew', 'drawn'],
+  fall: ['fell', 'fallen'],
+  forget: ['forgot', 'forgotten'],
+  wear: ['wore', 'worn'],
+  win: ['won'],
+  lose: ['lost'],
+  leave: ['left'],
+  feel: ['felt'],
+  keep: ['kept'],
+  sleep: ['slept'],
+  meet: ['met'],
+  pay: ['paid'],
+  send: ['sent'],
+  spend: ['spent'],
+  build: ['built'],
+  stand: ['stood'],
+  understand: ['understood'],
+  sit: ['sat'],
+  hold: ['held'],
+  hear: ['heard'],
+  mean: ['meant'],
+  fight: ['fought'],
+  child: ['children'],
+  person: ['people'],
+  man: ['men'],
+  woman: ['women'],
+  foot: ['feet'],
+  tooth: ['teeth'],
+  mouse: ['mice'],
+  good: ['better', 'best'],
+  bad: ['worse', 'worst'],
+  far: ['further', 'farther', 'furthest', 'farthest']
+};
+
+const VOWELS = 'aeiou';
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const endsInConsonantVowelConsonant = (word: string): boolean => {
+  if (word.length < 3) return false;
+  const [a, b, c] = word.slice(-3);
+  return !VOWELS.includes(a) && VOWELS.includes(b) && !VOWELS.includes(c) && !'wxy'.includes(c);
+};
+
+/**
+ * Stems the -ed, -ing, -er and -est endings go on. A consonant-vowel-consonant
+ * ending doubles in one-syllable words (stop -> stopped, big -> bigger). Longer
+ * words double only when the last syllable is stressed (admit -> admitted, but
+ * open -> opened), which spelling does not show, so both stems are used.
+ */
+const getSuffixStems = (word: string): string[] => {
+  if (!endsInConsonantVowelConsonant(word)) return [word];
+
+  const doubled = `${word}${word[word.length - 1]}`;
+  const syllables = (word.match(/[aeiou]+/g) || []).length;
+  return syllables === 1 ? [doubled] : [word, doubled];
+};
+
+/**
+ * Every surface form the word is likely to take in an example sentence:
+ * plurals, third person, past tense, -ing, comparatives and known irregulars.
+ * All forms are lowercase.
+ */
+export const getWordForms = (word: string): string[] => {
+  const base = word.toLowerCase().trim();
+  const forms = new Set<string>([base]);
+
+  // Multi-word entries ("according to") and abbreviations are only matched as written
+  if (!/^[a-z]+$/.test(base)) {
+    return Array.from(forms);
+  }
+
+  const last = base[base.length - 1];
+  const beforeLast = base[base.length - 2] || '';
+  const stem = base.slice(0, -1);
+
+  // -s / -es
+  if (/(s|x|z|ch|sh|o)$/.test(base)) {
+    forms.add(`${base}es`);
+  } else if (last === 'y' && !VOWELS.includes(beforeLast)) {
+    forms.add(`${stem}ies`);
+  } else {
+    forms.add(`${base}s`);
+  }
+
+  // -ed / -ing / -er / -est
+  if (last === 'e') {
+    forms.add(`${base}d`);
+    forms.add(`${base}r`);
+    forms.add(`${base}st`);
+    forms.add(base.endsWith('ie') ? `${base.slice(0, -2)}ying` : `${stem}ing`);
+  } else if (last === 'y' && !VOWELS.includes(beforeLast)) {
+    forms.add(`${stem}ied`);
+    forms.add(`${stem}ier`);
+    forms.add(`${stem}iest`);
+    forms.add(`${base}ing`);
+  } else {
+    getSuffixStems(base).forEach(suffixStem => {
+      forms.add(`${suffixStem}ed`);
+      forms.add(`${suffixStem}ing`);
+      forms.add(`${suffixStem}er`);
+      forms.add(`${suffixStem}est`);
+    });
+  }
+
+  IRREGULAR_FORMS[base]?.forEach(form => forms.add(form));
+
+  return Array.from(forms);
+};
+
+/**
+ * Replaces every occurrence of the word, in any case and inflection, with a blank.
+ * Returns null when the text does not contain the word.
+ */
+export const blankWordInText = (text: string, word: string): string | null => {
+  const forms = getWordForms(word)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const pattern = new RegExp(`(^|[^A-Za-z])(${forms.join('|')})(?![A-Za-z])`, 'gi');
+
+  if (!pattern.test(text)) {
+    return null;
+  }
+  pattern.lastIndex = 0;
+  return text.replace(pattern, `$1${BLANK}`);
+};
+
+// "abandon" -> "a _ _ _ _ _ _"; spaces and hyphens in multi-word entries are kept
+export const describeLetters = (word: string): string => {
+  return word.split('').map((letter, index) => (index === 0 || !/[a-z]/i.test(letter) ? letter : '_')).join(' ');
+};
+
+// All clue styles this word's data supports, richest first
+export const generateLocalClues = (word: Word): LocalClue[] => {
+  const clues: LocalClue[] = [];
+  const article = /^[aeiou]/i.test(word.partOfSpeech) ? 'An' : 'A';
+
+  const cloze = word.example ? blankWordInText(word.example, word.word) : null;
+  if (cloze) {
+    clues.push({ style: 'cloze', clue: `Complete this sentence: "${cloze}"` });
+  }
+
+  if (word.definition) {
+    // Definitions sometimes repeat the headword, which would give the answer away
+    const definition = blankWordInText(word.definition, word.word) || word.definition;
+    clues.push({ style: 'definition', clue: `${article} ${word.partOfSpeech} that means "${definition}".` });
+  }
+
+  clues.push({
+    style: 'part_of_speech',
+    clue: `This ${word.partOfSpeech} starts with "${word.word[0]}" and has ${word.word.length} letters: ${describeLetters(word.word)}`
+  });
+
+  return clues;
+};
+
+// Picks one of the richer clue styles at random; the part-of-speech hint is the last resort
+export const pickLocalClue = (word: Word): LocalClue => {
+  const clues = generateLocalClues(word);
+  const rich = clues.filter(clue => clue.style !== 'part_of_speech');
+  const pool = rich.length ? rich : clues;
+  return pool[Math.floor(Math.random() * pool.length)];
+};
+
+export const generateMultipleChoiceOptions = (correctWord: Word, level: LevelFilter, deck: Deck): string[] => {
+  // Filter words by level and part of speech for better distractors
+  const deckLevelWords = getDeckWords(deck, level);
+  const levelWords = deckLevelWords.length ? deckLevelWords : deck.words;
+
+  // Distractors come from the same part of speech first, then the rest of the level, then
+  // generic words, so decks or levels with three words or fewer still get four options
+  const correctKey = correctWord.word.toLowerCase();
+  const samePartOfSpeech = levelWords.filter(w => w.partOfSpeech === correctWord.partOfSpeech);
+  const otherWords = levelWords.filter(w => w.partOfSpeech !== correctWord.partOfSpeech);
+  const fallbackOptions = ['answer', 'option', 'choice', 'word', 'item', 'thing', 'place', 'time'];
+
+  const incorrectOptions: string[] = [];
+  const usedWords = new Set([correctKey]);
+
+  for (const pool of [samePartOfSpeech.map(w => w.word), otherWords.map(w => w.word), fallbackOptions]) {
+    // De-duplicated and without the correct word, so every pick is usable and the loop ends when the pool does
+    const candidates = Array.from(new Set(pool.filter(word => !usedWords.has(word.toLowerCase()))));
+    while (incorrectOptions.length < 3 && candidates.length > 0) {
+      const [randomWord] = candidates.splice(Math.floor(Math.random() * candidates.length), 1);
+      if (!usedWords.has(randomWord.toLowerCase())) {
+        incorrectOptions.push(randomWord);
+        usedWords.add(randomWord.toLowerCase());
+      }
+    }
+  }
+
+  // Combine correct answer with incorrect options and shuffle
+  const allOptions = [correctWord.word, ...incorrectOptions];
+
+  // Fisher-Yates shuffle
+  for (let i = allOptions.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [allOptions[i], allOptions[j]] = [allOptions[j], allOptions[i]];
+  }
+
+  return allOptions;
+};
+
+export const calculateDifficulty = (level: string): number => {
+  switch (level) {
+    case 'A1': return 1;
+    case 'A2': return 2;
+    case 'B1': return 3;
+    case 'B2': return 4;
+    case 'C1': return 5;
+    default: return 2;
+  }
+};
+
+// A complete exercise built without any network access
+export const createOfflineExercise = (word: Word, level: LevelFilter, deck: Deck): WordAndClueResponse => {
+  return {
+    word,
+    clue: pickLocalClue(word).clue,
+    difficulty: calculateDifficulty(word.level),
+    multipleChoiceOptions: generateMultipleChoiceOptions(word, level, deck)
+  };
+};
@@ -0,0 +1,261 @@
+import { requestToPromise, transactionDone } from './indexedDb';
+
+export type CacheNamespace = 'llm' | 'audio';
+
+type CacheValue = string | Blob;
+
+// Metadata is kept apart from the values so eviction and statistics never load audio blobs
+interface CacheEntryMeta {
+  key: string;
+  namespace: CacheNamespace;
+  size: number;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+interface CacheLimits {
+  maxBytes: number;
+  maxEntries: number;
+}
+
+export interface NamespaceStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number | null;
+}
+
+type CacheCounters = Record<CacheNamespace, { hits: number; misses: number; evictions: number }>;
+
+const DB_NAME = 'vocaibulary-cache';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const VALUES_STORE = 'values';
+const COUNTERS_KEY = 'contentCacheStats';
+
+export const CACHE_LIMITS: Record<CacheNamespace, CacheLimits> = {
+  llm: { maxBytes: 2 * 1024 * 1024, maxEntries: 5000 },
+  audio: { maxBytes: 50 * 1024 * 1024, maxEntries: 2000 }
+};
+
+const createEmptyCounters = (): CacheCounters => ({
+  llm: { hits: 0, misses: 0, evictions: 0 },
+  audio: { hits: 0, misses: 0, evictions: 0 }
+});
+
+/**
+ * Content-addressed key: a SHA-256 of everything that determines the output,
+ * e.g. text + voice + model for audio. Falls back to the raw parts where
+ * SubtleCrypto is unavailable (pages served over plain http).
+ */
+export const createCacheKey = async (parts: string[]): Promise<string> => {
+  const source = JSON.stringify(parts);
+  if (!window.crypto?.subtle) {
+    return source;
+  }
+
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const getSize = (value: CacheValue): number => {
+  return typeof value === 'string' ? value.length * 2 : value.size;
+};
+
+/**
+ * Persistent cache for paid API output: generated clues and synthesized speech.
+ * Each namespace has its own size limit and evicts least recently used entries.
+ */
+export class ContentCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private counters: CacheCounters = this.loadCounters();
+
+  private loadCounters(): CacheCounters {
+    try {
+      const saved = localStorage.getItem(COUNTERS_KEY);
+      if (saved) {
+        const counters = JSON.parse(saved);
+        const empty = createEmptyCounters();
+        return { llm: { ...empty.llm, ...counters.llm }, audio: { ...empty.audio, ...counters.audio } };
+      }
+    } catch (error) {
+      console.warn('Failed to load cache statistics:', error);
+    }
+    return createEmptyCounters();
+  }
+
+  private saveCounters() {
+    localStorage.setItem(COUNTERS_KEY, JSON.stringify(this.counters));
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not supported in this browser.'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+          entries.createIndex('namespace', 'namespace');
+          entries.createIndex('lastAccessed', ['namespace', 'lastAccessedAt']);
+        }
+        if (!db.objectStoreNames.contains(VALUES_STORE)) {
+          db.createObjectStore(VALUES_STORE);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed
+    this.dbPromise.catch(() => {
+      this.dbPromise = null;
+    });
+
+    return this.dbPromise;
+  }
+
+  async get<T extends CacheValue>(namespace: CacheNamespace, keyParts: string[]): Promise<T | null> {
+    try {
+      const key = await createCacheKey([namespace, ...keyParts]);
+      const db = await this.openDatabase();
+      const transaction = db.transaction([ENTRIES_STORE, VALUES_STORE], 'readwrite');
+      const entries = transaction.objectStore(ENTRIES_STORE);
+
+      const [meta, value] = await Promise.all([
+        requestToPromise<CacheEntryMeta | undefined>(entries.get(key)),
+        requestToPromise<T | undefined>(transaction.objectStore(VALUES_STORE).get(key))
+      ]);
+
+      if (meta && value !== undefined) {
+        entries.put({ ...meta, lastAccessedAt: Date.now() });
+      }
+      await transactionDone(transaction);
+
+      const isHit = Boolean(meta && value !== undefined);
+      this.counters[namespace][isHit ? 'hits' : 'misses'] += 1;
+      this.saveCounters();
+
+      return isHit ? value! : null;
+    } catch (error) {
+      console.warn('Content cache read failed:', error);
+      return null;
+    }
+  }
+
+  async set(namespace: CacheNamespace, keyParts: string[], value: CacheValue): Promise<void> {
+    try {
+      const key = await createCacheKey([namespace, ...keyParts]);
+      const size = getSize(value);
+      if (size > CACHE_LIMITS[namespace].maxBytes) {
+        return;
+      }
+
+      const db = await this.openDatabase();
+      const transaction = db.transaction([ENTRIES_STORE, VALUES_STORE], 'readwrite');
+      const now = Date.now();
+      transaction.objectStore(ENTRIES_STORE).put({ key, namespace, size, createdAt: now, lastAccessedAt: now });
+      transaction.objectStore(VALUES_STORE).put(value, key);
+      await transactionDone(transaction);
+
+      await this.evict(namespace);
+    } catch (error) {
+      console.warn('Content cache write failed:', error);
+    }
+  }
+
+  // Removes least recently used entries until the namespace fits its limits again
+  private async evict(namespace: CacheNamespace) {
+    const { maxBytes, maxEntries } = CACHE_LIMITS[namespace];
+    const db = await this.openDatabase();
+    const transaction = db.transaction([ENTRIES_STORE, VALUES_STORE], 'readwrite');
+    const entries = transaction.objectStore(ENTRIES_STORE);
+
+    const metas = await requestToPromise<CacheEntryMeta[]>(
+      entries.index('lastAccessed').getAll(IDBKeyRange.bound([namespace, 0], [namespace, Infinity]))
+    );
+
+    let bytes = metas.reduce((total, meta) => total + meta.size, 0);
+    let count = metas.length;
+    let evicted = 0;
+
+    // Oldest access first
+    for (const meta of metas) {
+      if (bytes <= maxBytes && count <= maxEntries) {
+        break;
+      }
+      entries.delete(meta.key);
+      transaction.objectStore(VALUES_STORE).delete(meta.key);
+      bytes -= meta.size;
+      count -= 1;
+      evicted += 1;
+    }
+
+    await transactionDone(transaction);
+
+    if (evicted) {
+      this.counters[namespace].evictions += evicted;
+      this.saveCounters();
+    }
+  }
+
+  async getStats(): Promise<Record<CacheNamespace, NamespaceStats>> {
+    const totals: Record<CacheNamespace, { entries: number; bytes: number }> = {
+      llm: { entries: 0, bytes: 0 },
+      audio: { entries: 0, bytes: 0 }
+    };
+
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction(ENTRIES_STORE, 'readonly');
+      const metas = await requestToPromise<CacheEntryMeta[]>(transaction.objectStore(ENTRIES_STORE).getAll());
+      metas.forEach(meta => {
+        totals[meta.namespace].entries += 1;
+        totals[meta.namespace].bytes += meta.size;
+      });
+    } catch (error) {
+      console.warn('Failed to read content cache statistics:', error);
+    }
+
+    const stats = {} as Record<CacheNamespace, NamespaceStats>;
+    (Object.keys(totals) as CacheNamespace[]).forEach(namespace => {
+      const { hits, misses, evictions } = this.counters[namespace];
+      stats[namespace] = {
+        ...totals[namespace],
+        maxBytes: CACHE_LIMITS[namespace].maxBytes,
+        hits,
+        misses,
+        evictions,
+        hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 100) : null
+      };
+    });
+    return stats;
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([ENTRIES_STORE, VALUES_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).clear();
+    transaction.objectStore(VALUES_STORE).clear();
+    await transactionDone(transaction);
+
+    this.counters = createEmptyCounters();
+    this.saveCounters();
+  }
+}
+
+// Shared by the AI and speech services so both draw from the same storage budget
+export const contentCache = new ContentCache();
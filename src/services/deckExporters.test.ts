@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { exportDeckAnkiText } from './deckExporters';
+import { importAnkiText } from './deckImporters';
+import { Deck } from '../types/vocabulary';
+
+const deck: Deck = {
+  id: 'custom',
+  name: 'Custom',
+  description: '',
+  language: 'en',
+  levelScheme: ['A1', 'A2', 'B1', 'B2'],
+  source: 'user',
+  words: [
+    { word: 'zeitgeist', level: 'B2', definition: 'the spirit of a time', example: 'The song captured the zeitgeist.', partOfSpeech: 'noun' },
+    { word: 'ephemeral', level: 'B1', definition: 'lasting a very short time', example: '', partOfSpeech: 'adjective' }
+  ]
+};
+
+describe('exportDeckAnkiText', () => {
+  it('imports back with definitions, examples, levels and parts of speech intact', () => {
+    const result = importAnkiText(exportDeckAnkiText(deck));
+
+    expect(result.errors).toEqual([]);
+    expect(result.words).toEqual(deck.words);
+  });
+
+  it('still reads the example from cards that keep it on the back', () => {
+    const text = '#separator:tab\n#html:true\n#tags column:3\nzeitgeist\tthe spirit of a time<br><i>The song captured the zeitgeist.</i>\tB2 noun\n';
+    const result = importAnkiText(text);
+
+    expect(result.words).toEqual([deck.words[0]]);
+  });
+});
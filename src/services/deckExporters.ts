@@ -0,0 +1,75 @@
+import { Deck, WordField } from '../types/vocabulary';
+import { AttemptRecord } from './progressStore';
+import { NATIVE_DECK_FORMAT } from './deckImporters';
+
+const NATIVE_DECK_VERSION = 1;
+
+const escapeCsv = (value: string | number | boolean): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number | boolean)[][]): string => {
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
+
+export const exportDeckCsv = (deck: Deck): string => {
+  const fields: (WordField)[] = ['word', 'level', 'definition', 'example', 'partOfSpeech'];
+  return toCsv([fields, ...deck.words.map(word => fields.map(field => word[field]))]);
+};
+
+// Anki "Notes in Plain Text": word, definition and example as separate fields, level and
+// part of speech as tags, so the file can be imported back with nothing lost
+export const exportDeckAnkiText = (deck: Deck): string => {
+  const clean = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+  const tag = (value: string) => value.trim().replace(/\s+/g, '_');
+
+  const lines = deck.words.map(word => {
+    const tags = [word.level, tag(word.partOfSpeech)].filter(Boolean).join(' ');
+    return [clean(word.word), clean(word.definition), clean(word.example), tags].join('\t');
+  });
+
+  return ['#separator:tab', '#html:false', '#tags column:4', ...lines].join('\n') + '\n';
+};
+
+export const exportDeckJson = (deck: Deck): string => {
+  return JSON.stringify({
+    format: NATIVE_DECK_FORMAT,
+    version: NATIVE_DECK_VERSION,
+    deck: {
+      name: deck.name,
+      description: deck.description,
+      language: deck.language,
+      levelScheme: deck.levelScheme
+    },
+    words: deck.words
+  }, null, 2);
+};
+
+export const exportAttemptsCsv = (attempts: AttemptRecord[]): string => {
+  return toCsv([
+    ['timestamp', 'word', 'level', 'exerciseType', 'answerMode', 'answer', 'isCorrect', 'verdict', 'hintsUsed', 'points', 'latencyMs'],
+    ...attempts.map(attempt => [
+      new Date(attempt.timestamp).toISOString(),
+      attempt.word,
+      attempt.level,
+      attempt.exerciseType || 'recall',
+      attempt.answerMode,
+      attempt.answer,
+      attempt.isCorrect,
+      attempt.verdict || '',
+      (attempt.hintsUsed || []).join(' '),
+      attempt.points ?? '',
+      attempt.latencyMs
+    ])
+  ]);
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { NATIVE_DECK_FORMAT, importJson } from './deckImporters';
+
+const deckFile = (words: unknown[]): string => JSON.stringify({ format: NATIVE_DECK_FORMAT, deck: { name: 'Custom' }, words });
+
+describe('importJson', () => {
+  it('reports rows that are not word entries and imports the rest', () => {
+    const result = importJson(deckFile([
+      null,
+      { word: 'zeitgeist', level: 'B2', definition: 'the spirit of a time' },
+      'ephemeral',
+      { word: 42, level: 'B1' },
+      { word: ['serendipity'], level: 'B1' },
+      { word: 'quixotic', level: 'B1', example: { text: 'A quixotic plan.' } }
+    ]));
+
+    expect(result.words.map(word => word.word)).toEqual(['zeitgeist', '42']);
+    expect(result.errors).toEqual([
+      { row: 1, message: 'Not a word entry' },
+      { row: 3, message: 'Not a word entry' },
+      { row: 5, message: '"word" must be text' },
+      { row: 6, message: '"example" must be text' }
+    ]);
+    expect(result.deckName).toBe('Custom');
+  });
+
+  it('keeps row numbers in order when validation also fails', () => {
+    const result = importJson(deckFile([{ word: 'zeitgeist' }, null]));
+
+    expect(result.errors.map(error => error.row)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,352 @@
+import { Word, WordField, WordLevel } from '../types/vocabulary';
+import { oxford3000Words } from '../data/oxford3000';
+import { sanitizeWordEnrichment } from './wordEnrichment';
+
+export type ImportFormat = 'csv' | 'anki-text' | 'apkg' | 'json';
+
+// Column index in the source file for each Word field; undefined means "not present"
+export type CsvColumnMapping = Partial<Record<WordField, number>>;
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ImportResult {
+  words: Word[];
+  errors: ImportRowError[];
+  duplicates: string[];
+  deckName?: string;
+}
+
+export interface ImportOptions {
+  allowedLevels?: WordLevel[];
+  defaultLevel?: WordLevel;
+  mapping?: CsvColumnMapping;
+}
+
+// One source row before validation, numbered as in the file
+interface ImportRow {
+  row: number;
+  values: Partial<Record<WordField, string>>;
+}
+
+export const DEFAULT_IMPORT_LEVELS: WordLevel[] = ['A1', 'A2', 'B1', 'B2'];
+
+export const NATIVE_DECK_FORMAT = 'vocaibulary-deck';
+
+const WORD_FIELDS: (WordField)[] = ['word', 'level', 'definition', 'example', 'partOfSpeech'];
+
+// Header names recognised when guessing a CSV column mapping
+const HEADER_ALIASES: Record<WordField, string[]> = {
+  word: ['word', 'term', 'headword', 'vocabulary', 'front'],
+  level: ['level', 'cefr', 'cefr level', 'difficulty'],
+  definition: ['definition', 'meaning', 'back', 'translation'],
+  example: ['example', 'sentence', 'example sentence', 'usage'],
+  partOfSpeech: ['partofspeech', 'part of speech', 'pos', 'type', 'word class']
+};
+
+export const detectImportFormat = (fileName: string): ImportFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'csv': return 'csv';
+    case 'txt':
+    case 'tsv': return 'anki-text';
+    case 'apkg': return 'apkg';
+    case 'json': return 'json';
+    default: return null;
+  }
+};
+
+// RFC 4180 parser: quoted fields, escaped quotes and line breaks inside quotes
+export const parseDelimited = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+export const guessCsvMapping = (headers: string[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {};
+  const normalized = headers.map(header => header.trim().toLowerCase().replace(/[_-]/g, ' '));
+
+  WORD_FIELDS.forEach(field => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+};
+
+const stripHtml = (value: string): string => {
+  return value
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const findLevelTag = (tags: string): string | undefined => {
+  return tags.split(/\s+/).map(tag => tag.toUpperCase()).find(tag => /^[ABC][12]$/.test(tag));
+};
+
+// Parts of speech the Oxford 3000 uses; other tags are an Anki user's own
+const PARTS_OF_SPEECH = new Set(oxford3000Words.map(word => word.partOfSpeech.toLowerCase()));
+
+// Tags cannot hold spaces, so "modal verb" is tagged "modal_verb"
+const findPartOfSpeechTag = (tags: string): string | undefined => {
+  return tags.split(/\s+/).map(tag => tag.replace(/_/g, ' ').toLowerCase()).find(tag => PARTS_OF_SPEECH.has(tag));
+};
+
+// Backs of cards exported before the example had a field of its own: "definition<br><i>example</i>"
+const COMBINED_BACK = /^(.*?)<br\s*\/?>\s*<i>(.*)<\/i>\s*$/is;
+
+// Word, definition and example fields plus level and part of speech tags, as exportDeckAnkiText writes them
+const readAnkiNote = (fields: string[], tags: string): Partial<Record<WordField, string>> => {
+  const combinedBack = (fields[1] || '').match(COMBINED_BACK);
+  return {
+    word: stripHtml(fields[0] || ''),
+    definition: stripHtml(combinedBack ? combinedBack[1] : fields[1] || ''),
+    example: stripHtml(combinedBack ? combinedBack[2] : fields[2] || ''),
+    level: findLevelTag(tags),
+    partOfSpeech: findPartOfSpeechTag(tags)
+  };
+};
+
+/**
+ * Validates raw rows and removes duplicates, both within the file and against
+ * the Oxford 3000 list. Row numbers in errors are 1-based and match the source file.
+ */
+const finalizeRows = (
+  rows: ImportRow[],
+  options: ImportOptions
+): ImportResult => {
+  const allowedLevels = options.allowedLevels || DEFAULT_IMPORT_LEVELS;
+  const oxfordWords = new Set(oxford3000Words.map(word => word.word.toLowerCase()));
+  const seen = new Set<string>();
+  const result: ImportResult = { words: [], errors: [], duplicates: [] };
+
+  rows.forEach(({ row, values }) => {
+    const word = (values.word || '').trim();
+    const level = (values.level || options.defaultLevel || '').trim().toUpperCase();
+
+    if (!word) {
+      result.errors.push({ row, message: 'Missing word' });
+      return;
+    }
+    if (!level) {
+      result.errors.push({ row, message: `"${word}" has no level` });
+      return;
+    }
+    if (!allowedLevels.includes(level as WordLevel)) {
+      result.errors.push({ row, message: `"${word}" has invalid level "${level}" (expected ${allowedLevels.join(', ')})` });
+      return;
+    }
+
+    const key = word.toLowerCase();
+    if (seen.has(key) || oxfordWords.has(key)) {
+      result.duplicates.push(word);
+      return;
+    }
+    seen.add(key);
+
+    result.words.push({
+      word,
+      level: level as WordLevel,
+      definition: (values.definition || '').trim(),
+      example: (values.example || '').trim(),
+      partOfSpeech: (values.partOfSpeech || '').trim().toLowerCase() || 'word'
+    });
+  });
+
+  return result;
+};
+
+export const importCsv = (text: string, options: ImportOptions = {}): ImportResult => {
+  const [headers, ...rows] = parseDelimited(text.replace(/^\uFEFF/, ''));
+  if (!headers) {
+    return { words: [], errors: [{ row: 1, message: 'The file is empty' }], duplicates: [] };
+  }
+
+  const mapping = options.mapping || guessCsvMapping(headers);
+  if (mapping.word === undefined) {
+    return { words: [], errors: [{ row: 1, message: 'No column is mapped to "word"' }], duplicates: [] };
+  }
+
+  return finalizeRows(rows.map((cells, index) => {
+    const values: Partial<Record<WordField, string>> = {};
+    WORD_FIELDS.forEach(field => {
+      const column = mapping[field];
+      if (column !== undefined) {
+        values[field] = cells[column];
+      }
+    });
+    return { row: index + 2, values };
+  }), options);
+};
+
+// Anki "Notes in Plain Text" export: front, back, an optional example and optional tags separated by tabs
+export const importAnkiText = (text: string, options: ImportOptions = {}): ImportResult => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let separator = '\t';
+  let tagsColumn: number | undefined;
+
+  const rows: ImportRow[] = [];
+
+  lines.forEach((line, index) => {
+    if (line.startsWith('#')) {
+      // Header lines such as "#separator:tab" or "#tags column:3"
+      const [key, value] = line.slice(1).split(':');
+      if (key === 'separator') {
+        separator = value === 'tab' ? '\t' : value === 'comma' ? ',' : value === 'semicolon' ? ';' : value;
+      } else if (key === 'tags column') {
+        tagsColumn = Number(value) - 1;
+      }
+      return;
+    }
+    if (!line.trim()) return;
+
+    const fields = parseDelimited(line, separator)[0] || [];
+    const tagsIndex = tagsColumn ?? 2;
+    rows.push({
+      row: index + 1,
+      values: readAnkiNote(fields.filter((_, column) => column !== tagsIndex), fields[tagsIndex] || '')
+    });
+  });
+
+  return finalizeRows(rows, options);
+};
+
+// Anki package: a zip archive holding the collection as an SQLite database
+export const importApkg = async (data: ArrayBuffer, options: ImportOptions = {}): Promise<ImportResult> => {
+  const [{ default: JSZip }, { default: initSqlJs }, { default: wasmUrl }] = await Promise.all([
+    import('jszip'),
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm.wasm?url')
+  ]);
+
+  const zip = await JSZip.loadAsync(data);
+  const collection = zip.file('collection.anki21') || zip.file('collection.anki2');
+  if (!collection) {
+    const message = zip.file('collection.anki21b')
+      ? 'This package uses the newer compressed Anki format. Export it from Anki with "Support older Anki versions" enabled.'
+      : 'No Anki collection found in this package';
+    return { words: [], errors: [{ row: 0, message }], duplicates: [] };
+  }
+
+  const SQL = await initSqlJs({ locateFile: () => wasmUrl });
+  const db = new SQL.Database(new Uint8Array(await collection.async('arraybuffer')));
+
+  try {
+    const [table] = db.exec('SELECT flds, tags FROM notes ORDER BY id');
+    const rows = (table?.values || []).map((values, index) => {
+      // Note fields are separated by the unit separator character
+      const fields = String(values[0]).split('\x1f');
+      return { row: index + 1, values: readAnkiNote(fields, String(values[1] || '')) };
+    });
+    return finalizeRows(rows, options);
+  } finally {
+    db.close();
+  }
+};
+
+// A word of a JSON deck as text fields, or the reason it is not one: numbers are taken as text, other types are not
+const readJsonWord = (entry: unknown): Partial<Record<WordField, string>> | string => {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return 'Not a word entry';
+  }
+
+  const values: Partial<Record<WordField, string>> = {};
+  for (const field of WORD_FIELDS) {
+    const value = (entry as Record<string, unknown>)[field];
+    if (typeof value === 'string' || typeof value === 'number') {
+      values[field] = String(value);
+    } else if (value !== undefined && value !== null) {
+      return `"${field}" must be text`;
+    }
+  }
+  return values;
+};
+
+export const importJson = (text: string, options: ImportOptions = {}): ImportResult => {
+  let parsed;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { words: [], errors: [{ row: 0, message: 'The file is not valid JSON' }], duplicates: [] };
+  }
+
+  if (parsed?.format !== NATIVE_DECK_FORMAT || !Array.isArray(parsed.words)) {
+    return { words: [], errors: [{ row: 0, message: 'Not a VocAIbulary deck file' }], duplicates: [] };
+  }
+
+  const rows: ImportRow[] = [];
+  const rowErrors: ImportRowError[] = [];
+  const sources = new Map<string, Record<string, unknown>>();
+
+  parsed.words.forEach((entry: unknown, index: number) => {
+    const values = readJsonWord(entry);
+    if (typeof values === 'string') {
+      rowErrors.push({ row: index + 1, message: values });
+      return;
+    }
+    rows.push({ row: index + 1, values });
+    // Exported decks carry their enrichment, which is checked again like a fresh model reply
+    sources.set((values.word || '').trim(), entry as Record<string, unknown>);
+  });
+
+  const finalized = finalizeRows(rows, options);
+  const result = { ...finalized, errors: [...rowErrors, ...finalized.errors].sort((a, b) => a.row - b.row) };
+
+  const words = result.words.map(word => {
+    const source = sources.get(word.word);
+    const enrichment = source?.synonyms !== undefined ? sanitizeWordEnrichment(source, word) : null;
+    return enrichment ? { ...word, ...enrichment } : word;
+  });
+
+  return { ...result, words, deckName: parsed.deck?.name };
+};
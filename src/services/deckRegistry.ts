@@ -0,0 +1,159 @@
+import { Deck, DeckSummary, LevelFilter, Word, WordEnrichment, WordLevel } from '../types/vocabulary';
+import { oxford3000Words } from '../data/oxford3000';
+import { oxford5000Words } from '../data/oxford5000';
+
+const USER_DECKS_KEY = 'customDecks';
+// Enrichment for built-in decks, whose words ship with the app: deck id -> word -> enrichment
+const ENRICHMENTS_KEY = 'deckEnrichments';
+
+export const DEFAULT_DECK_ID = 'oxford3000';
+
+export const ALL_LEVELS: WordLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1'];
+
+const builtinDecks: Deck[] = [
+  {
+    id: DEFAULT_DECK_ID,
+    name: 'Oxford 3000',
+    description: 'The 3000 most important words to learn in English',
+    language: 'en',
+    levelScheme: ['A1', 'A2', 'B1', 'B2'],
+    source: 'builtin',
+    words: oxford3000Words
+  },
+  {
+    id: 'oxford5000',
+    name: 'Oxford 5000',
+    description: 'Advanced words beyond the Oxford 3000 (B2-C1)',
+    language: 'en',
+    levelScheme: ['B2', 'C1'],
+    source: 'builtin',
+    words: oxford5000Words
+  }
+];
+
+export const createDeckId = (name: string): string => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'deck';
+  return `user-${slug}-${Date.now().toString(36)}`;
+};
+
+// Words of a deck at the selected level, or the whole deck for 'ALL'
+export const getDeckWords = (deck: Deck, level: LevelFilter): Word[] => {
+  return level === 'ALL' ? deck.words : deck.words.filter(word => word.level === level);
+};
+
+export class DeckRegistry {
+  private decks: Map<string, Deck> = new Map();
+
+  constructor() {
+    builtinDecks.forEach(deck => this.decks.set(deck.id, deck));
+    this.loadEnrichments();
+    this.loadUserDecks();
+  }
+
+  private loadEnrichments() {
+    try {
+      Object.entries(this.getSavedEnrichments()).forEach(([deckId, enrichments]) => {
+        const deck = this.decks.get(deckId);
+        if (deck) {
+          this.decks.set(deckId, {
+            ...deck,
+            words: deck.words.map(word => enrichments[word.word] ? { ...word, ...enrichments[word.word] } : word)
+          });
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to load word enrichments:', error);
+    }
+  }
+
+  private getSavedEnrichments(): Record<string, Record<string, WordEnrichment>> {
+    const saved = localStorage.getItem(ENRICHMENTS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  }
+
+  private loadUserDecks() {
+    try {
+      const saved = localStorage.getItem(USER_DECKS_KEY);
+      if (saved) {
+        const decks: Deck[] = JSON.parse(saved);
+        decks.forEach(deck => this.decks.set(deck.id, { ...deck, source: 'user' }));
+      }
+    } catch (error) {
+      console.warn('Failed to load custom decks:', error);
+    }
+  }
+
+  private saveUserDecks() {
+    const userDecks = Array.from(this.decks.values()).filter(deck => deck.source === 'user');
+    localStorage.setItem(USER_DECKS_KEY, JSON.stringify(userDecks));
+  }
+
+  listDecks(): DeckSummary[] {
+    return Array.from(this.decks.values()).map(({ words, ...metadata }) => ({
+      ...metadata,
+      wordCount: words.length
+    }));
+  }
+
+  hasDeck(id: string): boolean {
+    return this.decks.has(id);
+  }
+
+  // Unknown ids resolve to the default deck so a deleted deck never leaves the game without words
+  getDeck(id: string): Deck {
+    return this.decks.get(id) || this.decks.get(DEFAULT_DECK_ID)!;
+  }
+
+  saveUserDeck(deck: Omit<Deck, 'source'>): Deck {
+    const existing = this.decks.get(deck.id);
+    if (existing?.source === 'builtin') {
+      throw new Error(`"${existing.name}" is a built-in deck and cannot be changed.`);
+    }
+    if (!deck.name.trim()) {
+      throw new Error('Deck name is required.');
+    }
+    if (!deck.levelScheme.length || deck.levelScheme.some(level => !ALL_LEVELS.includes(level))) {
+      throw new Error(`Deck levels must be chosen from ${ALL_LEVELS.join(', ')}.`);
+    }
+
+    const invalidWord = deck.words.find(word => !word.word.trim() || !deck.levelScheme.includes(word.level));
+    if (invalidWord) {
+      throw new Error(`"${invalidWord.word}" has level ${invalidWord.level}, which is not part of this deck.`);
+    }
+
+    const saved: Deck = { ...deck, source: 'user' };
+    this.decks.set(saved.id, saved);
+    this.saveUserDecks();
+    return saved;
+  }
+
+  /**
+   * Stores a word's enrichment with its deck. User decks keep it on the word
+   * itself; built-in decks keep it beside the shipped word list.
+   */
+  saveEnrichment(deckId: string, word: string, enrichment: WordEnrichment): Deck {
+    const deck = this.getDeck(deckId);
+    const updated: Deck = {
+      ...deck,
+      words: deck.words.map(entry => entry.word === word ? { ...entry, ...enrichment } : entry)
+    };
+    this.decks.set(deck.id, updated);
+
+    if (deck.source === 'user') {
+      this.saveUserDecks();
+    } else {
+      const saved = this.getSavedEnrichments();
+      saved[deck.id] = { ...saved[deck.id], [word]: enrichment };
+      localStorage.setItem(ENRICHMENTS_KEY, JSON.stringify(saved));
+    }
+    return updated;
+  }
+
+  deleteUserDeck(id: string) {
+    if (this.decks.get(id)?.source !== 'user') {
+      return;
+    }
+    this.decks.delete(id);
+    this.saveUserDecks();
+  }
+}
@@ -0,0 +1,178 @@
+import { AIService, WordAndClueResponse } from './aiService';
+import { SpeechService, SpeechMode } from './speechService';
+import { ReviewScheduler } from './reviewScheduler';
+import { createOfflineExercise } from './clueEngine';
+import { isDefinitionHidden } from './hintEngine';
+import { Deck, LevelFilter } from '../types/vocabulary';
+
+export interface QueuedExercise extends WordAndClueResponse {
+  isOffline: boolean;
+}
+
+interface QueueContext {
+  deck: Deck;
+  level: LevelFilter;
+  speechMode: SpeechMode;
+}
+
+// Requests left untouched each minute so the learner's own rounds never hit the rate limit
+const RESERVED_REQUESTS = 2;
+
+// What the app says when a challenge starts; prefetched audio must be made from the exact same text
+export const getChallengeSpeechText = (exercise: QueuedExercise, speechMode: SpeechMode): string => {
+  if (exercise.isOffline) {
+    return speechMode === 'concise'
+      ? `Challenge: ${exercise.clue}. Choose your answer.`
+      : `Let's begin with a vocabulary challenge. ${exercise.clue}. Please select your answer from the options or speak it clearly.`;
+  }
+
+  // Most imported words have no definition yet, so only mention the meaning when there is one;
+  // from B2 it is left for the hints
+  const { partOfSpeech, level } = exercise.word;
+  const definition = isDefinitionHidden(level) ? '' : exercise.word.definition;
+  if (speechMode === 'concise') {
+    return definition
+      ? `Challenge: ${exercise.clue}. This ${partOfSpeech} means "${definition}". Choose your answer.`
+      : `Challenge: ${exercise.clue}. Choose your answer.`;
+  }
+  if (speechMode === 'full') {
+    const context = definition
+      ? `For context: This is a ${partOfSpeech} that means "${definition}".`
+      : `For context: The missing word is a ${partOfSpeech}.`;
+    return `Let's begin. Here is your vocabulary challenge: ${exercise.clue}. ${context} Now, what word fits in the blank? You can select from the options below or speak your answer clearly.`;
+  }
+  return '';
+};
+
+/**
+ * Keeps the next few exercises (word, clue, options and spoken audio) ready in the
+ * background so a new round can start without waiting for the network.
+ */
+export class ExerciseQueue {
+  private items: QueuedExercise[] = [];
+  private context: QueueContext | null = null;
+  private aiService: AIService | null = null;
+  private speechService: SpeechService | null = null;
+  private filling: { generation: number; promise: Promise<void> } | null = null;
+  // Bumped on every invalidation so results that arrive late are thrown away
+  private generation = 0;
+
+  constructor(private reviewScheduler: ReviewScheduler, private size: number = 3) {}
+
+  setServices(aiService: AIService | null, speechService: SpeechService | null) {
+    if (aiService !== this.aiService || speechService !== this.speechService) {
+      this.invalidate();
+    }
+    this.aiService = aiService;
+    this.speechService = speechService;
+  }
+
+  // Queued exercises only fit the deck, level and speech mode they were built for
+  setContext(context: QueueContext) {
+    const previous = this.context;
+    if (previous && (
+      previous.deck.id !== context.deck.id ||
+      previous.level !== context.level ||
+      previous.speechMode !== context.speechMode
+    )) {
+      this.invalidate();
+    }
+    this.context = context;
+  }
+
+  invalidate() {
+    this.generation += 1;
+    this.items = [];
+    this.speechService?.discardPrefetched();
+  }
+
+  /**
+   * Returns the next ready exercise, or null when the round should be built on demand:
+   * the queue is empty, or a review became due after the queue was filled.
+   */
+  take(currentWord?: string): QueuedExercise | null {
+    if (!this.context || !this.items.length) {
+      return null;
+    }
+
+    // A due review is served first, from the queue if it is already there
+    const dueWord = this.reviewScheduler.getNextDueWord(this.context.deck, this.context.level, currentWord);
+    const dueIndex = dueWord ? this.items.findIndex(item => item.word.word === dueWord.word) : -1;
+    if (dueWord && dueIndex === -1) {
+      return null;
+    }
+
+    const index = dueIndex !== -1 ? dueIndex : this.items.findIndex(item => item.word.word !== currentWord);
+    if (index === -1) {
+      return null;
+    }
+    return this.items.splice(index, 1)[0];
+  }
+
+  // Words already waiting in the queue, so an on-demand round does not repeat one of them
+  getQueuedWords(): string[] {
+    return this.items.map(item => item.word.word);
+  }
+
+  // Tops the queue up in the background; calls made while a fill for the same queue is running share it
+  fill(currentWord?: string): Promise<void> {
+    if (this.filling?.generation === this.generation) {
+      return this.filling.promise;
+    }
+
+    const filling = {
+      generation: this.generation,
+      promise: this.fillQueue(currentWord).finally(() => {
+        if (this.filling === filling) {
+          this.filling = null;
+        }
+      })
+    };
+    this.filling = filling;
+    return filling.promise;
+  }
+
+  private async fillQueue(currentWord?: string) {
+    const generation = this.generation;
+
+    while (this.context && this.items.length < this.size && generation === this.generation) {
+      const { deck, level, speechMode } = this.context;
+      const exclude = [...this.getQueuedWords(), ...(currentWord ? [currentWord] : [])];
+      const word = this.reviewScheduler.getNextWord(deck, level, exclude);
+
+      let exercise: QueuedExercise;
+      if (this.aiService) {
+        if (this.aiService.getRemainingRequests() <= RESERVED_REQUESTS) {
+          console.log('Exercise prefetch paused to stay within the AI rate limit');
+          return;
+        }
+        try {
+          exercise = { ...await this.aiService.fetchClueForWord(word, level, deck), isOffline: false };
+        } catch (error) {
+          // Leave the round to the on-demand path, which falls back to offline clues
+          console.warn('Exercise prefetch failed:', error);
+          return;
+        }
+      } else {
+        exercise = { ...createOfflineExercise(word, level, deck), isOffline: true };
+      }
+
+      if (generation !== this.generation) {
+        return;
+      }
+
+      if (this.speechService && speechMode !== 'disabled' && this.speechService.getRemainingRequests() > RESERVED_REQUESTS) {
+        try {
+          await this.speechService.prefetchText(getChallengeSpeechText(exercise, speechMode));
+        } catch (error) {
+          console.warn('Audio prefetch failed:', error);
+        }
+      }
+
+      if (generation !== this.generation) {
+        return;
+      }
+      this.items.push(exercise);
+    }
+  }
+}
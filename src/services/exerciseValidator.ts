@@ -0,0 +1,155 @@
+import { Deck, LevelFilter, Word, WordLevel } from '../types/vocabulary';
+import { getDeckWords, ALL_LEVELS } from './deckRegistry';
+import { BLANK, blankWordInText } from './clueEngine';
+
+// An exercise as returned by the model, before it is matched to a deck word
+export interface GeneratedExercise {
+  word: string;
+  level: WordLevel;
+  definition: string;
+  example: string;
+  partOfSpeech: string;
+  clue: string;
+}
+
+export interface ExerciseValidation {
+  isValid: boolean;
+  errors: string[];
+}
+
+// JSON Schema sent to providers that support structured output
+export const EXERCISE_SCHEMA = {
+  type: 'object',
+  properties: {
+    word: { type: 'string', description: 'The target word, lowercase' },
+    level: { type: 'string', enum: ALL_LEVELS },
+    definition: { type: 'string' },
+    example: { type: 'string' },
+    partOfSpeech: { type: 'string' },
+    clue: { type: 'string', description: `A sentence containing exactly one ${BLANK} where the word goes` }
+  },
+  required: ['word', 'level', 'definition', 'example', 'partOfSpeech', 'clue'],
+  additionalProperties: false
+};
+
+// Blank markers models produce instead of the requested one: ___, _____, [blank], (blank), {blank}
+const BLANK_VARIANTS = /_{2,}|[[({]\s*blank\s*[\])}]/gi;
+
+const countBlanks = (clue: string): number => (clue.match(/_{2,}/g) || []).length;
+
+/**
+ * Parses a model reply into an exercise, checking every field's type.
+ * Code fences around the JSON are tolerated; any other surrounding text is not.
+ */
+export const parseExercise = (content: string): { exercise: GeneratedExercise | null; errors: string[] } => {
+  const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { exercise: null, errors: ['Reply is not valid JSON'] };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { exercise: null, errors: ['Reply must be a JSON object'] };
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const errors: string[] = [];
+
+  EXERCISE_SCHEMA.required.forEach(field => {
+    if (typeof record[field] !== 'string' || !(record[field] as string).trim()) {
+      errors.push(`"${field}" must be a non-empty string`);
+    }
+  });
+
+  const level = typeof record.level === 'string' ? record.level.trim().toUpperCase() : '';
+  if (level && !ALL_LEVELS.includes(level as WordLevel)) {
+    errors.push(`"level" must be one of ${ALL_LEVELS.join(', ')}`);
+  }
+
+  if (errors.length) {
+    return { exercise: null, errors };
+  }
+
+  return {
+    exercise: {
+      word: (record.word as string).trim(),
+      level: level as WordLevel,
+      definition: (record.definition as string).trim(),
+      example: (record.example as string).trim(),
+      partOfSpeech: (record.partOfSpeech as string).trim(),
+      clue: (record.clue as string).trim()
+    },
+    errors: []
+  };
+};
+
+// Normalizes blank markers and blanks the answer when the model forgot to
+export const repairClue = (clue: string, word: string): string => {
+  let repaired = clue.replace(BLANK_VARIANTS, BLANK);
+  if (countBlanks(repaired) === 0) {
+    repaired = blankWordInText(repaired, word) || repaired;
+  }
+  return repaired;
+};
+
+/**
+ * Fixes problems that do not need a new generation: blank markers written
+ * differently, an unblanked answer in a clue with no blank, and a level that
+ * disagrees with the deck.
+ */
+export const repairExercise = (exercise: GeneratedExercise, deck: Deck): GeneratedExercise => {
+  const word = exercise.word.toLowerCase();
+  const deckWord = deck.words.find(entry => entry.word.toLowerCase() === word);
+
+  return {
+    ...exercise,
+    word,
+    level: deckWord ? deckWord.level : exercise.level,
+    clue: repairClue(exercise.clue, word)
+  };
+};
+
+export const validateClue = (clue: string, word: string): ExerciseValidation => {
+  const errors: string[] = [];
+
+  const blanks = countBlanks(clue);
+  if (blanks !== 1) {
+    errors.push(`The clue must contain exactly one ${BLANK} blank, found ${blanks}`);
+  }
+  if (blankWordInText(clue, word) !== null) {
+    errors.push(`The clue gives away the answer "${word}"`);
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+export const validateExercise = (exercise: GeneratedExercise, deck: Deck, level: LevelFilter): ExerciseValidation => {
+  const errors = [...validateClue(exercise.clue, exercise.word).errors];
+
+  const deckWord = deck.words.find(entry => entry.word.toLowerCase() === exercise.word.toLowerCase());
+  if (!deckWord) {
+    errors.push(`"${exercise.word}" is not in the ${deck.name} list`);
+  } else if (!getDeckWords(deck, level).includes(deckWord)) {
+    errors.push(`"${exercise.word}" is ${deckWord.level}, but a ${level} word was requested`);
+  } else if (level !== 'ALL' && exercise.level !== level) {
+    errors.push(`Level must be ${level}, got ${exercise.level}`);
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// The deck's own entry wins; the model only fills in what the deck is missing
+export const toDeckWord = (exercise: GeneratedExercise, deck: Deck): Word => {
+  const deckWord = deck.words.find(entry => entry.word.toLowerCase() === exercise.word.toLowerCase());
+
+  return {
+    word: deckWord?.word || exercise.word,
+    level: deckWord?.level || exercise.level,
+    definition: deckWord?.definition || exercise.definition,
+    example: deckWord?.example || exercise.example,
+    partOfSpeech: deckWord?.partOfSpeech || exercise.partOfSpeech
+  };
+};
@@ -0,0 +1,119 @@
+import { blankWordInText, describeLetters, getWordForms } from './clueEngine';
+import { Word, WordLevel } from '../types/vocabulary';
+
+// Hints are revealed in this order, each giving away more than the last
+export type HintTier = 'first_letter' | 'pattern' | 'synonym' | 'example';
+
+export const HINT_TIERS: HintTier[] = ['first_letter', 'pattern', 'synonym', 'example'];
+
+// Points taken off a correct A1 answer for each hint used; see getHintPenalty for harder words
+export const HINT_COSTS: Record<HintTier, number> = {
+  first_letter: 2,
+  pattern: 2,
+  synonym: 3,
+  example: 3
+};
+
+export const HINT_LABELS: Record<HintTier, string> = {
+  first_letter: 'First letter',
+  pattern: 'Letters',
+  synonym: 'Synonym',
+  example: 'Another example'
+};
+
+export interface Hint {
+  tier: HintTier;
+  text: string;
+  // For the voice; only differs where the text is visual, like "a _ _ _ _"
+  speech: string;
+}
+
+// Written by the AI provider; either may be missing when the reply was unusable
+export interface HintExtras {
+  synonym: string | null;
+  // Already blanked: "The hotel can ____ 200 guests."
+  example: string | null;
+}
+
+export const HINT_SCHEMA = {
+  type: 'object',
+  properties: {
+    synonym: { type: 'string', description: 'One common word with the same meaning' },
+    example: { type: 'string', description: 'A new sentence that uses the word' }
+  },
+  required: ['synonym', 'example'],
+  additionalProperties: false
+};
+
+// From B2 the definition all but names the word, so it is kept back for the learner to earn
+export const isDefinitionHidden = (level: WordLevel): boolean => level === 'B2' || level === 'C1';
+
+// The next hint to reveal, or null when all of them have been used
+export const getNextHintTier = (used: HintTier[]): HintTier | null => {
+  return HINT_TIERS.find(tier => !used.includes(tier)) || null;
+};
+
+/**
+ * Checks a model reply for the synonym and second example. A "synonym" that is
+ * the word itself, or an example that does not use it, is dropped rather than
+ * retried; the hint falls back to the word's own data instead.
+ */
+export const parseHintExtras = (content: string, word: string): HintExtras => {
+  const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let record: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(json);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      record = parsed;
+    }
+  } catch {
+    return { synonym: null, example: null };
+  }
+
+  const synonym = typeof record.synonym === 'string' ? record.synonym.trim().toLowerCase() : '';
+  const example = typeof record.example === 'string' ? record.example.trim() : '';
+
+  return {
+    synonym: synonym && !getWordForms(word).includes(synonym) ? synonym : null,
+    example: example ? blankWordInText(example, word) : null
+  };
+};
+
+/**
+ * The text of one hint for a word. Without AI extras the synonym falls back to
+ * the word's enriched synonyms and then the definition, and the second example
+ * to the deck's example sentence when the clue was not made from it, or else to
+ * the last letter.
+ */
+export const buildHint = (tier: HintTier, word: Word, clue: string, extras: HintExtras | null): Hint => {
+  const hint = (text: string, speech: string = text): Hint => ({ tier, text, speech });
+
+  switch (tier) {
+    case 'first_letter':
+      return hint(`It starts with "${word.word[0].toUpperCase()}".`);
+
+    case 'pattern':
+      return hint(describeLetters(word.word), `It has ${word.word.replace(/[^a-z]/gi, '').length} letters.`);
+
+    case 'synonym': {
+      const synonym = extras?.synonym || word.synonyms?.[0];
+      if (synonym) {
+        return hint(`It means about the same as "${synonym}".`);
+      }
+      if (word.definition) {
+        return hint(`It means "${blankWordInText(word.definition, word.word) || word.definition}".`);
+      }
+      return hint(`It is ${/^[aeiou]/i.test(word.partOfSpeech) ? 'an' : 'a'} ${word.partOfSpeech}.`);
+    }
+
+    case 'example': {
+      const deckExample = word.example ? blankWordInText(word.example, word.word) : null;
+      const example = extras?.example || (deckExample && !clue.includes(deckExample) ? deckExample : null);
+      if (example) {
+        return hint(`Another example: "${example}"`, `Another example: ${example.replace(/_{2,}/g, 'blank')}`);
+      }
+      return hint(`It ends with "${word.word[word.word.length - 1].toUpperCase()}".`);
+    }
+  }
+};
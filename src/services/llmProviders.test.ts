@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLLMProvider, LLMProviderSettings } from './llmProviders';
+
+const azure: LLMProviderSettings = {
+  provider: 'openai-compatible',
+  apiKey: 'azure-key',
+  baseURL: 'https://example.openai.azure.com/openai/deployments/gpt-4o-mini/',
+  model: 'gpt-4o-mini',
+  authStyle: 'api-key',
+  apiVersion: '2024-10-21'
+};
+
+const stubFetch = () => {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content: 'ok' } }] })));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const request = { messages: [{ role: 'user' as const, content: 'Hi' }], maxTokens: 10, temperature: 0 };
+
+describe('OpenAICompatibleProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends an Azure key in the api-key header with the api-version', async () => {
+    const fetchMock = stubFetch();
+    await createLLMProvider(azure).complete(request);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://example.openai.azure.com/openai/deployments/gpt-4o-mini/chat/completions?api-version=2024-10-21');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json', 'api-key': 'azure-key' });
+  });
+
+  it('sends a bearer token by default', async () => {
+    const fetchMock = stubFetch();
+    await createLLMProvider({ ...azure, authStyle: undefined, apiVersion: undefined }).complete(request);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://example.openai.azure.com/openai/deployments/gpt-4o-mini/chat/completions');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json', 'Authorization': 'Bearer azure-key' });
+  });
+
+  it('requires a key for the api-key header', () => {
+    expect(createLLMProvider({ ...azure, apiKey: '' }).validate()).not.toBeNull();
+  });
+});
@@ -0,0 +1,254 @@
+export type LLMProviderId = 'openai' | 'anthropic' | 'openai-compatible';
+
+// How an OpenAI-compatible server takes the key: "Authorization: Bearer", or Azure OpenAI's "api-key" header
+export type LLMAuthStyle = 'bearer' | 'api-key';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  topP?: number;
+  // Ask for a JSON object matching this schema, using the provider's structured output support
+  jsonSchema?: { name: string; schema: object };
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  content: string;
+  // Total tokens billed for the request, when the API reports it
+  totalTokens: number | null;
+}
+
+export interface LLMProviderSettings {
+  provider: LLMProviderId;
+  apiKey: string;
+  baseURL: string;
+  model: string;
+  // OpenAI-compatible servers only; Azure OpenAI needs the "api-key" style and an api-version
+  authStyle?: LLMAuthStyle;
+  apiVersion?: string;
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly label: string;
+  readonly model: string;
+  // Returns a user-facing message when the settings cannot work, otherwise null
+  validate(): string | null;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  'openai-compatible': 'OpenAI-compatible'
+};
+
+const isPlaceholderKey = (apiKey: string): boolean => {
+  return !apiKey || apiKey.includes('your_') || apiKey.includes('_here');
+};
+
+const isValidURL = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const throwForStatus = async (label: string, response: Response): Promise<never> => {
+  const errorText = await response.text();
+  console.error(`${label} API error response:`, response.status, errorText);
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`Invalid ${label} API key. Please check your API key configuration.`);
+  } else if (response.status === 429) {
+    throw new Error(`${label} rate limit exceeded. Please wait a moment and try again.`);
+  } else if (response.status === 402) {
+    throw new Error(`${label} quota exceeded. Please check your billing and usage limits.`);
+  }
+
+  throw new Error(`${label} API error (${response.status}): ${response.statusText}`);
+};
+
+export class OpenAIProvider implements LLMProvider {
+  readonly id: LLMProviderId = 'openai';
+  readonly label: string = LLM_PROVIDER_LABELS.openai;
+
+  constructor(protected settings: LLMProviderSettings) {}
+
+  get model(): string {
+    return this.settings.model;
+  }
+
+  validate(): string | null {
+    const { apiKey } = this.settings;
+    if (isPlaceholderKey(apiKey)) {
+      return 'An OpenAI API key is required.';
+    }
+    if (!apiKey.startsWith('sk-') || apiKey.length < 20) {
+      return 'OpenAI API keys start with "sk-".';
+    }
+    return null;
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.settings.apiKey}`
+    };
+  }
+
+  protected getCompletionsURL(): string {
+    return `${this.settings.baseURL.replace(/\/$/, '')}/chat/completions`;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await fetch(this.getCompletionsURL(), {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({
+        model: this.settings.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        top_p: request.topP,
+        // JSON mode is the structured output every OpenAI-compatible server understands
+        response_format: request.jsonSchema ? { type: 'json_object' } : undefined
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      return throwForStatus(this.label, response);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error(`${this.label} returned an empty response.`);
+    }
+    return { content: content.trim(), totalTokens: data.usage?.total_tokens ?? null };
+  }
+}
+
+// Azure OpenAI, OpenRouter, Ollama, llama.cpp and other servers that speak the OpenAI API
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly id: LLMProviderId = 'openai-compatible';
+  readonly label: string = LLM_PROVIDER_LABELS['openai-compatible'];
+
+  validate(): string | null {
+    if (!isValidURL(this.settings.baseURL)) {
+      return 'Enter the server URL, e.g. http://localhost:11434/v1.';
+    }
+    if (!this.settings.model.trim()) {
+      return 'Enter the model name served by this endpoint.';
+    }
+    if (this.settings.authStyle === 'api-key' && isPlaceholderKey(this.settings.apiKey)) {
+      return 'An API key is required to send it in the "api-key" header.';
+    }
+    return null;
+  }
+
+  protected getCompletionsURL(): string {
+    const apiVersion = this.settings.apiVersion?.trim();
+    const url = super.getCompletionsURL();
+    return apiVersion ? `${url}?api-version=${encodeURIComponent(apiVersion)}` : url;
+  }
+
+  protected getHeaders(): Record<string, string> {
+    // Local servers usually run without a key, so only send one when it is set
+    if (isPlaceholderKey(this.settings.apiKey)) {
+      return { 'Content-Type': 'application/json' };
+    }
+    if (this.settings.authStyle === 'api-key') {
+      return { 'Content-Type': 'application/json', 'api-key': this.settings.apiKey };
+    }
+    return super.getHeaders();
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly id: LLMProviderId = 'anthropic';
+  readonly label: string = LLM_PROVIDER_LABELS.anthropic;
+
+  constructor(private settings: LLMProviderSettings) {}
+
+  get model(): string {
+    return this.settings.model;
+  }
+
+  validate(): string | null {
+    const { apiKey } = this.settings;
+    if (isPlaceholderKey(apiKey)) {
+      return 'An Anthropic API key is required.';
+    }
+    if (!apiKey.startsWith('sk-ant-')) {
+      return 'Anthropic API keys start with "sk-ant-".';
+    }
+    return null;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    // The Messages API takes the system prompt separately from the conversation
+    const system = request.messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    const messages = request.messages.filter(message => message.role !== 'system');
+
+    const response = await fetch(`${this.settings.baseURL.replace(/\/$/, '')}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.settings.apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify({
+        model: this.settings.model,
+        system: system || undefined,
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        // Structured output goes through a forced tool call whose input is the JSON object
+        tools: request.jsonSchema
+          ? [{ name: request.jsonSchema.name, input_schema: request.jsonSchema.schema }]
+          : undefined,
+        tool_choice: request.jsonSchema ? { type: 'tool', name: request.jsonSchema.name } : undefined
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      return throwForStatus(this.label, response);
+    }
+
+    const data = await response.json();
+    const totalTokens = data.usage ? (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0) : null;
+    const toolUse = (data.content || []).find((block: { type: string }) => block.type === 'tool_use');
+    if (request.jsonSchema && toolUse) {
+      return { content: JSON.stringify(toolUse.input), totalTokens };
+    }
+
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+    if (!text) {
+      throw new Error(`${this.label} returned an empty response.`);
+    }
+    return { content: text.trim(), totalTokens };
+  }
+}
+
+export const createLLMProvider = (settings: LLMProviderSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'anthropic': return new AnthropicProvider(settings);
+    case 'openai-compatible': return new OpenAICompatibleProvider(settings);
+    default: return new OpenAIProvider(settings);
+  }
+};
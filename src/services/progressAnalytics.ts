@@ -0,0 +1,117 @@
+import { WordLevel } from '../types/vocabulary';
+import { AttemptRecord } from './progressStore';
+import { ReviewCard } from './reviewScheduler';
+
+export interface DailyAccuracy {
+  date: string; // YYYY-MM-DD in local time
+  attempted: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface StreakRun {
+  length: number;
+  endedAt: number;
+}
+
+export interface WordDifficulty {
+  word: string;
+  level: WordLevel;
+  attempted: number;
+  failed: number;
+  failureRate: number;
+}
+
+// A word counts as mastered after two consecutive correct reviews
+const MASTERY_REPETITIONS = 2;
+
+const toDateKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Accuracy per day for the last `days` days, oldest first, including days without practice
+export const getDailyAccuracy = (attempts: AttemptRecord[], days: number = 14, now: number = Date.now()): DailyAccuracy[] => {
+  const buckets = new Map<string, DailyAccuracy>();
+
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = toDateKey(now - offset * 24 * 60 * 60 * 1000);
+    buckets.set(date, { date, attempted: 0, correct: 0, accuracy: 0 });
+  }
+
+  attempts.forEach(attempt => {
+    const bucket = buckets.get(toDateKey(attempt.timestamp));
+    if (bucket) {
+      bucket.attempted += 1;
+      if (attempt.isCorrect) {
+        bucket.correct += 1;
+      }
+    }
+  });
+
+  return Array.from(buckets.values()).map(bucket => ({
+    ...bucket,
+    accuracy: bucket.attempted > 0 ? Math.round((bucket.correct / bucket.attempted) * 100) : 0
+  }));
+};
+
+// Every run of consecutive correct answers, in the order they happened
+export const getStreakHistory = (attempts: AttemptRecord[]): StreakRun[] => {
+  const runs: StreakRun[] = [];
+  let length = 0;
+  let lastCorrectAt = 0;
+
+  attempts.forEach(attempt => {
+    if (attempt.isCorrect) {
+      length += 1;
+      lastCorrectAt = attempt.timestamp;
+    } else if (length > 0) {
+      runs.push({ length, endedAt: lastCorrectAt });
+      length = 0;
+    }
+  });
+
+  if (length > 0) {
+    runs.push({ length, endedAt: lastCorrectAt });
+  }
+
+  return runs;
+};
+
+export const getMasteredByLevel = (cards: ReviewCard[]): Record<WordLevel, number> => {
+  const mastered: Record<WordLevel, number> = { A1: 0, A2: 0, B1: 0, B2: 0, C1: 0 };
+  cards
+    .filter(card => card.lastCorrect && card.repetitions >= MASTERY_REPETITIONS)
+    .forEach(card => {
+      mastered[card.word.level] += 1;
+    });
+  return mastered;
+};
+
+// Words ranked by failure rate, ties broken by how often they were failed
+export const getHardestWords = (attempts: AttemptRecord[], limit: number = 10): WordDifficulty[] => {
+  const byWord = new Map<string, WordDifficulty>();
+
+  attempts.forEach(attempt => {
+    const entry = byWord.get(attempt.word) || {
+      word: attempt.word,
+      level: attempt.level,
+      attempted: 0,
+      failed: 0,
+      failureRate: 0
+    };
+    entry.attempted += 1;
+    if (!attempt.isCorrect) {
+      entry.failed += 1;
+    }
+    byWord.set(attempt.word, entry);
+  });
+
+  return Array.from(byWord.values())
+    .filter(entry => entry.failed > 0)
+    .map(entry => ({ ...entry, failureRate: Math.round((entry.failed / entry.attempted) * 100) }))
+    .sort((a, b) => b.failureRate - a.failureRate || b.failed - a.failed)
+    .slice(0, limit);
+};
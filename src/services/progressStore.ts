@@ -0,0 +1,296 @@
+import { LevelFilter, WordLevel } from '../types/vocabulary';
+import { requestToPromise, transactionDone } from './indexedDb';
+import { AnswerVerdict } from './answerEvaluator';
+import { HintTier } from './hintEngine';
+import { SessionMode } from './sessionModes';
+
+export type AnswerMode = 'voice' | 'typed' | 'multiple_choice';
+
+// Recall finds the word for a clue; reverse explains or picks the meaning of a given word;
+// dictation spells a word that was spoken; word_form, collocation and synonym use a word's enrichment
+export type ExerciseType = 'recall' | 'reverse' | 'dictation' | 'word_form' | 'collocation' | 'synonym';
+
+export interface AttemptRecord {
+  id?: number;
+  word: string;
+  level: WordLevel;
+  // Missing on attempts recorded before other exercise types, which were all recall
+  exerciseType?: ExerciseType;
+  answerMode: AnswerMode;
+  answer: string;
+  isCorrect: boolean;
+  // Missing on attempts recorded before answers were graded
+  verdict?: AnswerVerdict;
+  // Hints revealed before answering; missing on attempts recorded before hints existed
+  hintsUsed?: HintTier[];
+  // Points earned, see scoreAnswer; missing on attempts recorded before points existed
+  points?: number;
+  timestamp: number;
+  latencyMs: number;
+}
+
+// Pronunciation practice is scored per word and kept apart from answer attempts
+export interface PronunciationRecord {
+  word: string;
+  level: WordLevel;
+  lastScore: number;
+  bestScore: number;
+  averageScore: number;
+  attempts: number;
+  lastPracticedAt: number;
+}
+
+// One answered word in a session, for the summary at the end
+export interface SessionWord {
+  word: string;
+  level: WordLevel;
+  answer: string;
+  isCorrect: boolean;
+  verdict: AnswerVerdict;
+  points: number;
+}
+
+// A finished sprint, lesson or endless session, kept so runs can be compared
+export interface SessionRecord {
+  id?: number;
+  mode: SessionMode;
+  deckId: string;
+  level: LevelFilter;
+  startedAt: number;
+  endedAt: number;
+  words: SessionWord[];
+  correctAnswers: number;
+  points: number;
+}
+
+export interface LevelTotals {
+  attempted: number;
+  correct: number;
+}
+
+export interface LearnerProfile {
+  totalAttempted: number;
+  correctAnswers: number;
+  incorrectAnswers: number;
+  currentStreak: number;
+  bestStreak: number;
+  // Lifetime points, which decide the learner level
+  xp: number;
+  levels: Record<WordLevel, LevelTotals>;
+  firstSeenAt: number | null;
+  lastActiveAt: number | null;
+}
+
+const DB_NAME = 'vocaibulary';
+const DB_VERSION = 3;
+const ATTEMPTS_STORE = 'attempts';
+const PROFILE_STORE = 'profile';
+const PRONUNCIATION_STORE = 'pronunciation';
+const SESSIONS_STORE = 'sessions';
+const PROFILE_KEY = 'learner';
+
+export const createEmptyProfile = (): LearnerProfile => ({
+  totalAttempted: 0,
+  correctAnswers: 0,
+  incorrectAnswers: 0,
+  currentStreak: 0,
+  bestStreak: 0,
+  xp: 0,
+  levels: {
+    A1: { attempted: 0, correct: 0 },
+    A2: { attempted: 0, correct: 0 },
+    B1: { attempted: 0, correct: 0 },
+    B2: { attempted: 0, correct: 0 },
+    C1: { attempted: 0, correct: 0 }
+  },
+  firstSeenAt: null,
+  lastActiveAt: null
+});
+
+// Profiles saved before a level or XP was introduced are missing its totals
+const withAllLevels = (profile: LearnerProfile | undefined): LearnerProfile => {
+  const empty = createEmptyProfile();
+  if (!profile) {
+    return empty;
+  }
+  return { ...profile, xp: profile.xp ?? 0, levels: { ...empty.levels, ...profile.levels } };
+};
+
+export class ProgressStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not supported in this browser.'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ATTEMPTS_STORE)) {
+          const attempts = db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'id', autoIncrement: true });
+          attempts.createIndex('word', 'word');
+          attempts.createIndex('level', 'level');
+          attempts.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(PROFILE_STORE)) {
+          db.createObjectStore(PROFILE_STORE);
+        }
+        if (!db.objectStoreNames.contains(PRONUNCIATION_STORE)) {
+          db.createObjectStore(PRONUNCIATION_STORE, { keyPath: 'word' });
+        }
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id', autoIncrement: true });
+          sessions.createIndex('startedAt', 'startedAt');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed
+    this.dbPromise.catch(() => {
+      this.dbPromise = null;
+    });
+
+    return this.dbPromise;
+  }
+
+  // Stores an attempt and folds it into the lifetime profile in a single transaction
+  async recordAttempt(attempt: AttemptRecord): Promise<LearnerProfile> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([ATTEMPTS_STORE, PROFILE_STORE], 'readwrite');
+    const profileStore = transaction.objectStore(PROFILE_STORE);
+
+    transaction.objectStore(ATTEMPTS_STORE).add(attempt);
+
+    const saved = await requestToPromise<LearnerProfile | undefined>(profileStore.get(PROFILE_KEY));
+    const profile = withAllLevels(saved);
+
+    profile.totalAttempted += 1;
+    profile.xp += attempt.points ?? 0;
+    profile.levels[attempt.level].attempted += 1;
+
+    if (attempt.isCorrect) {
+      profile.correctAnswers += 1;
+      profile.currentStreak += 1;
+      profile.bestStreak = Math.max(profile.bestStreak, profile.currentStreak);
+      profile.levels[attempt.level].correct += 1;
+    } else {
+      profile.incorrectAnswers += 1;
+      profile.currentStreak = 0;
+    }
+
+    profile.firstSeenAt = profile.firstSeenAt ?? attempt.timestamp;
+    profile.lastActiveAt = attempt.timestamp;
+
+    profileStore.put(profile, PROFILE_KEY);
+    await transactionDone(transaction);
+
+    return profile;
+  }
+
+  async getProfile(): Promise<LearnerProfile> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(PROFILE_STORE, 'readonly');
+    const profile = await requestToPromise<LearnerProfile | undefined>(
+      transaction.objectStore(PROFILE_STORE).get(PROFILE_KEY)
+    );
+    return withAllLevels(profile);
+  }
+
+  // All attempts in chronological order
+  async getAttempts(): Promise<AttemptRecord[]> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(ATTEMPTS_STORE, 'readonly');
+    return requestToPromise<AttemptRecord[]>(
+      transaction.objectStore(ATTEMPTS_STORE).index('timestamp').getAll()
+    );
+  }
+
+  async getWordHistory(word: string): Promise<AttemptRecord[]> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(ATTEMPTS_STORE, 'readonly');
+    return requestToPromise<AttemptRecord[]>(
+      transaction.objectStore(ATTEMPTS_STORE).index('word').getAll(word.toLowerCase())
+    );
+  }
+
+  // Folds a pronunciation score into the word's running best and average
+  async recordPronunciation(word: string, level: WordLevel, score: number, timestamp: number): Promise<PronunciationRecord> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(PRONUNCIATION_STORE, 'readwrite');
+    const store = transaction.objectStore(PRONUNCIATION_STORE);
+    const key = word.toLowerCase();
+
+    const saved = await requestToPromise<PronunciationRecord | undefined>(store.get(key));
+    const attempts = (saved?.attempts ?? 0) + 1;
+    const record: PronunciationRecord = {
+      word: key,
+      level,
+      lastScore: score,
+      bestScore: Math.max(saved?.bestScore ?? 0, score),
+      averageScore: Math.round((((saved?.averageScore ?? 0) * (attempts - 1)) + score) / attempts),
+      attempts,
+      lastPracticedAt: timestamp
+    };
+
+    store.put(record);
+    await transactionDone(transaction);
+
+    return record;
+  }
+
+  async getPronunciation(word: string): Promise<PronunciationRecord | null> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(PRONUNCIATION_STORE, 'readonly');
+    const record = await requestToPromise<PronunciationRecord | undefined>(
+      transaction.objectStore(PRONUNCIATION_STORE).get(word.toLowerCase())
+    );
+    return record ?? null;
+  }
+
+  async recordSession(session: SessionRecord): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).add(session);
+    await transactionDone(transaction);
+  }
+
+  // All finished sessions, oldest first
+  async getSessions(): Promise<SessionRecord[]> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+    return requestToPromise<SessionRecord[]>(
+      transaction.objectStore(SESSIONS_STORE).index('startedAt').getAll()
+    );
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([ATTEMPTS_STORE, PROFILE_STORE, PRONUNCIATION_STORE, SESSIONS_STORE], 'readwrite');
+    transaction.objectStore(ATTEMPTS_STORE).clear();
+    transaction.objectStore(PROFILE_STORE).clear();
+    transaction.objectStore(PRONUNCIATION_STORE).clear();
+    transaction.objectStore(SESSIONS_STORE).clear();
+    await transactionDone(transaction);
+  }
+}
+
+// Accuracy per CEFR level as a percentage, or null when a level has no attempts yet
+export const getLevelAccuracy = (profile: LearnerProfile): Record<WordLevel, number | null> => {
+  const accuracy = {} as Record<WordLevel, number | null>;
+  (Object.keys(profile.levels) as WordLevel[]).forEach(level => {
+    const { attempted, correct } = profile.levels[level];
+    accuracy[level] = attempted > 0 ? Math.round((correct / attempted) * 100) : null;
+  });
+  return accuracy;
+};
@@ -0,0 +1,224 @@
+import { pronunciationTable } from '../data/pronunciations';
+import { normalizeAnswer } from './answerEvaluator';
+import { RecognitionResult } from './speechService';
+
+// ARPAbet phonemes without stress digits, e.g. ['AH', 'B', 'AE', 'N', 'D', 'AH', 'N']
+export type Phonemes = string[];
+
+export interface PhonemeComparison {
+  target: string;
+  // The phoneme heard in its place, or null when it was left out
+  heard: string | null;
+  matches: boolean;
+}
+
+export interface PronunciationScore {
+  // 0-100 overall score for the attempt
+  score: number;
+  // The recognizer hypothesis closest to the target word
+  heardAs: string;
+  // Each part on a 0-1 scale
+  phonemeSimilarity: number;
+  confidence: number;
+  rankScore: number;
+  comparison: PhonemeComparison[];
+}
+
+// How much each signal contributes to the overall score
+const SCORE_WEIGHTS = { phonemes: 0.6, confidence: 0.25, rank: 0.15 };
+
+// Each hypothesis further down the recognizer's list is worth this much less
+const RANK_PENALTY = 0.25;
+
+const VOWEL_PHONEMES = new Set(['AA', 'AE', 'AH', 'AO', 'AW', 'AY', 'EH', 'ER', 'EY', 'IH', 'IY', 'OW', 'OY', 'UH', 'UW']);
+
+// Consonants that differ only in voicing are easy to confuse and cost half a mistake
+const VOICING_PAIRS = [['P', 'B'], ['T', 'D'], ['K', 'G'], ['F', 'V'], ['S', 'Z'], ['TH', 'DH'], ['SH', 'ZH'], ['CH', 'JH']];
+
+const stripStress = (phoneme: string) => phoneme.replace(/\d/g, '');
+
+const parsePronunciationTable = (table: string): Map<string, Phonemes> => {
+  const entries = new Map<string, Phonemes>();
+  table.split('\n').forEach(line => {
+    const [word, phonemes] = line.trim().split(/\s{2,}/);
+    if (word && phonemes) {
+      entries.set(word.toLowerCase(), phonemes.split(' ').map(stripStress));
+    }
+  });
+  return entries;
+};
+
+const dictionary = parsePronunciationTable(pronunciationTable);
+
+// Letter groups tried longest first; vowels take their short sound
+const LETTER_SOUNDS: [string, Phonemes][] = [
+  ['tion', ['SH', 'AH', 'N']], ['sion', ['ZH', 'AH', 'N']], ['ture', ['CH', 'ER']], ['igh', ['AY']],
+  ['tch', ['CH']], ['dge', ['JH']], ['th', ['TH']], ['sh', ['SH']], ['ch', ['CH']], ['ph', ['F']],
+  ['wh', ['W']], ['ck', ['K']], ['ng', ['NG']], ['qu', ['K', 'W']], ['kn', ['N']], ['wr', ['R']],
+  ['ee', ['IY']], ['ea', ['IY']], ['ie', ['IY']], ['oo', ['UW']], ['ou', ['AW']], ['ow', ['OW']],
+  ['oi', ['OY']], ['oy', ['OY']], ['uy', ['AY']], ['ai', ['EY']], ['ay', ['EY']], ['oa', ['OW']], ['au', ['AO']],
+  ['aw', ['AO']], ['er', ['ER']], ['ir', ['ER']], ['ur', ['ER']], ['ar', ['AA', 'R']], ['or', ['AO', 'R']],
+  ['a', ['AE']], ['b', ['B']], ['d', ['D']], ['e', ['EH']], ['f', ['F']], ['h', ['HH']], ['i', ['IH']],
+  ['j', ['JH']], ['k', ['K']], ['l', ['L']], ['m', ['M']], ['n', ['N']], ['o', ['AA']], ['p', ['P']],
+  ['r', ['R']], ['s', ['S']], ['t', ['T']], ['u', ['AH']], ['v', ['V']], ['w', ['W']], ['x', ['K', 'S']],
+  ['y', ['IY']], ['z', ['Z']]
+];
+
+/**
+ * Rough letter-to-sound rules for words missing from the table, mostly what
+ * recognizers hear when a word is said wrong. A consonant-vowel-e ending makes
+ * the vowel long ("late"), c and g soften before e, i and y, and doubled
+ * consonants sound once.
+ */
+const guessPhonemes = (word: string): Phonemes => {
+  let text = word.toLowerCase().replace(/[^a-z]/g, '');
+  const phonemes: Phonemes = [];
+  const longVowels: Record<string, string> = { a: 'EY', e: 'IY', i: 'AY', o: 'OW', u: 'UW' };
+  let finalLongVowel: string | null = null;
+
+  const magicE = text.match(/([aeiou])([^aeiou])e$/);
+  if (magicE && text.length > 3) {
+    finalLongVowel = longVowels[magicE[1]];
+    text = text.slice(0, -1);
+  }
+
+  for (let i = 0; i < text.length;) {
+    const letter = text[i];
+    const next = text[i + 1] || '';
+
+    if (letter === text[i - 1] && !'aeiou'.includes(letter)) {
+      i += 1;
+      continue;
+    }
+    if (letter === 'c' || letter === 'g') {
+      const soft = 'eiy'.includes(next) && next !== '';
+      phonemes.push(letter === 'c' ? (soft ? 'S' : 'K') : (soft ? 'JH' : 'G'));
+      i += 1;
+      continue;
+    }
+    if (letter === 'y' && i === 0) {
+      phonemes.push('Y');
+      i += 1;
+      continue;
+    }
+
+    const [letters, sounds] = LETTER_SOUNDS.find(([group]) => text.startsWith(group, i)) || [letter, []];
+    const isLastVowel = finalLongVowel && i === text.length - 2 && letters.length === 1;
+    phonemes.push(...(isLastVowel ? [finalLongVowel as string] : sounds));
+    i += letters.length;
+  }
+
+  return phonemes;
+};
+
+// Phonemes for a word or phrase from the bundled table, guessed for unknown words
+export const getPhonemes = (text: string): Phonemes => {
+  return normalizeAnswer(text)
+    .split(' ')
+    .filter(Boolean)
+    .flatMap(word => dictionary.get(word) || guessPhonemes(word));
+};
+
+const substitutionCost = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (VOWEL_PHONEMES.has(a) && VOWEL_PHONEMES.has(b)) return 0.5;
+  if (VOICING_PAIRS.some(pair => pair.includes(a) && pair.includes(b))) return 0.5;
+  return 1;
+};
+
+/**
+ * Weighted edit distance between two phoneme sequences, with the alignment of
+ * each target phoneme to the one heard in its place.
+ */
+export const comparePhonemes = (target: Phonemes, heard: Phonemes): { distance: number; comparison: PhonemeComparison[] } => {
+  const costs = Array.from({ length: target.length + 1 }, (_, i) =>
+    Array.from({ length: heard.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= target.length; i++) {
+    for (let j = 1; j <= heard.length; j++) {
+      costs[i][j] = Math.min(
+        costs[i - 1][j] + 1,
+        costs[i][j - 1] + 1,
+        costs[i - 1][j - 1] + substitutionCost(target[i - 1], heard[j - 1])
+      );
+    }
+  }
+
+  // Walk back through the table to pair up phonemes
+  const comparison: PhonemeComparison[] = [];
+  let i = target.length;
+  let j = heard.length;
+  while (i > 0) {
+    if (j > 0 && costs[i][j] === costs[i - 1][j - 1] + substitutionCost(target[i - 1], heard[j - 1])) {
+      comparison.unshift({ target: target[i - 1], heard: heard[j - 1], matches: target[i - 1] === heard[j - 1] });
+      i -= 1;
+      j -= 1;
+    } else if (j > 0 && costs[i][j] === costs[i][j - 1] + 1) {
+      j -= 1;
+    } else {
+      comparison.unshift({ target: target[i - 1], heard: null, matches: false });
+      i -= 1;
+    }
+  }
+
+  return { distance: costs[target.length][heard.length], comparison };
+};
+
+// Runs of up to three words from a transcript, so "I said abandon" is compared as "abandon"
+const getSpokenRuns = (transcript: string): string[] => {
+  const tokens = normalizeAnswer(transcript).split(' ').filter(Boolean);
+  const runs: string[] = [];
+  for (let start = 0; start < tokens.length; start++) {
+    for (let end = start + 1; end <= Math.min(tokens.length, start + 3); end++) {
+      runs.push(tokens.slice(start, end).join(' '));
+    }
+  }
+  return runs;
+};
+
+/**
+ * Scores a spoken attempt at a word. Every recognizer hypothesis is compared
+ * phoneme by phoneme with the target and the closest one is kept; its
+ * recognition confidence and how far down the list it came make up the rest of
+ * the score, so a clear, first-choice match scores highest.
+ */
+export const scorePronunciation = (result: RecognitionResult, target: string): PronunciationScore => {
+  const targetPhonemes = getPhonemes(target);
+  const alternatives = result.alternatives.length
+    ? result.alternatives
+    : [{ transcript: result.transcript, confidence: result.confidence }];
+  const topConfidence = alternatives[0]?.confidence || 1;
+
+  let best: PronunciationScore = {
+    score: 0,
+    heardAs: '',
+    phonemeSimilarity: 0,
+    confidence: 0,
+    rankScore: 0,
+    comparison: targetPhonemes.map(phoneme => ({ target: phoneme, heard: null, matches: false }))
+  };
+
+  alternatives.forEach((alternative, index) => {
+    // Browsers often score only the first hypothesis; the rest get a share of it by rank
+    const confidence = alternative.confidence > 0 ? alternative.confidence : topConfidence / (index + 1);
+    const rankScore = Math.max(0, 1 - index * RANK_PENALTY);
+
+    getSpokenRuns(alternative.transcript).forEach(run => {
+      const { distance, comparison } = comparePhonemes(targetPhonemes, getPhonemes(run));
+      const phonemeSimilarity = Math.max(0, 1 - distance / Math.max(1, targetPhonemes.length));
+      // Confidence and rank only count as far as the sounds match, so a confidently heard wrong word scores low
+      const score = Math.round(100 * phonemeSimilarity * (
+        SCORE_WEIGHTS.phonemes +
+        SCORE_WEIGHTS.confidence * confidence +
+        SCORE_WEIGHTS.rank * rankScore
+      ));
+
+      if (score > best.score) {
+        best = { score, heardAs: run, phonemeSimilarity, confidence, rankScore, comparison };
+      }
+    });
+  });
+
+  return best;
+};
@@ -0,0 +1,128 @@
+import { getWordForms } from './clueEngine';
+import { getDeckWords } from './deckRegistry';
+import { AnswerVerdict, normalizeAnswer } from './answerEvaluator';
+import { Deck, LevelFilter, Word } from '../types/vocabulary';
+
+// How well a free-form explanation shows the word's meaning
+export type ExplanationVerdict = 'correct' | 'partial' | 'incorrect';
+
+export interface ExplanationGrade {
+  verdict: ExplanationVerdict;
+  // One sentence for the learner on what was right or missing
+  feedback: string;
+  // Graded by comparing key words with the definition because no AI provider was available
+  isOffline: boolean;
+}
+
+export const EXPLANATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    verdict: { type: 'string', enum: ['correct', 'partial', 'incorrect'] },
+    feedback: { type: 'string', description: 'One short sentence addressed to the learner' }
+  },
+  required: ['verdict', 'feedback'],
+  additionalProperties: false
+};
+
+// A partly right explanation counts, but is marked like a close answer
+export const EXPLANATION_VERDICTS: Record<ExplanationVerdict, AnswerVerdict> = {
+  correct: 'exact',
+  partial: 'close',
+  incorrect: 'wrong'
+};
+
+// Words that carry no meaning of their own in a definition
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'to', 'of', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'into', 'about', 'as',
+  'and', 'or', 'but', 'not', 'that', 'which', 'who', 'what', 'when', 'where', 'how', 'is', 'are', 'be',
+  'been', 'being', 'was', 'were', 'it', 'its', 'this', 'these', 'those', 'something', 'someone', 'somebody',
+  'thing', 'things', 'way', 'very', 'can', 'may', 'used', 'make', 'have', 'has', 'do', 'does', 'you', 'your'
+]);
+
+// Shares of the definition's key words an offline grade needs for "correct" and "partial"
+const OFFLINE_CORRECT_SHARE = 0.5;
+const OFFLINE_PARTIAL_SHARE = 0.25;
+
+// Only words with a definition can be asked about the other way round
+export const getReverseWords = (deck: Deck, level: LevelFilter): Word[] => {
+  const levelWords = getDeckWords(deck, level).filter(word => word.definition);
+  return levelWords.length ? levelWords : deck.words.filter(word => word.definition);
+};
+
+/**
+ * The word's definition and up to three other words' definitions, shuffled.
+ * Distractors come from the same part of speech when the level has enough of
+ * them, so the grammar of a definition does not give the answer away.
+ */
+export const getDefinitionOptions = (correctWord: Word, level: LevelFilter, deck: Deck): string[] => {
+  const correct = correctWord.definition.trim();
+  const seen = new Set([correct.toLowerCase()]);
+  const candidates = getReverseWords(deck, level).filter(word => word.word !== correctWord.word);
+  const samePartOfSpeech = candidates.filter(word => word.partOfSpeech === correctWord.partOfSpeech);
+  const pool = [...(samePartOfSpeech.length >= 3 ? samePartOfSpeech : candidates)];
+
+  const options = [correct];
+  while (options.length < 4 && pool.length) {
+    const [word] = pool.splice(Math.floor(Math.random() * pool.length), 1);
+    const definition = word.definition.trim();
+    if (!seen.has(definition.toLowerCase())) {
+      options.push(definition);
+      seen.add(definition.toLowerCase());
+    }
+  }
+
+  // Fisher-Yates shuffle
+  for (let i = options.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [options[i], options[j]] = [options[j], options[i]];
+  }
+
+  return options;
+};
+
+// Checks a model reply; null when it is unusable and the explanation should be graded offline
+export const parseExplanationGrade = (content: string): ExplanationGrade | null => {
+  const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || !['correct', 'partial', 'incorrect'].includes(parsed.verdict)) {
+      return null;
+    }
+    return {
+      verdict: parsed.verdict,
+      feedback: typeof parsed.feedback === 'string' ? parsed.feedback.trim() : '',
+      isOffline: false
+    };
+  } catch {
+    return null;
+  }
+};
+
+const getKeyWords = (text: string): string[] => {
+  return normalizeAnswer(text).split(' ').filter(word => word.length > 2 && !FUNCTION_WORDS.has(word));
+};
+
+/**
+ * A rough grade without an AI provider: the share of the definition's key words
+ * (in any inflection) that the explanation uses. Saying the word itself earns nothing.
+ */
+export const gradeExplanationOffline = (explanation: string, word: Word): ExplanationGrade => {
+  const ownForms = new Set(getWordForms(word.word));
+  const used = new Set(getKeyWords(explanation).filter(key => !ownForms.has(key)));
+  const keyWords = Array.from(new Set(getKeyWords(word.definition))).filter(key => !ownForms.has(key));
+
+  const matched = keyWords.filter(key => getWordForms(key).some(form => used.has(form)));
+  const share = keyWords.length ? matched.length / keyWords.length : 0;
+  const verdict: ExplanationVerdict = share >= OFFLINE_CORRECT_SHARE ? 'correct'
+    : share >= OFFLINE_PARTIAL_SHARE ? 'partial'
+    : 'incorrect';
+
+  return {
+    verdict,
+    feedback: matched.length
+      ? `Your explanation shares ${matched.length} of ${keyWords.length} key words with the definition.`
+      : 'Your explanation does not use any of the key words from the definition.',
+    isOffline: true
+  };
+};
@@ -0,0 +1,172 @@
+import { Deck, LevelFilter, Word } from '../types/vocabulary';
+import { getDeckWords } from './deckRegistry';
+
+export interface ReviewCard {
+  word: Word;
+  repetitions: number;
+  interval: number; // Days until the next review
+  easeFactor: number;
+  dueAt: number;
+  lapses: number;
+  lastReviewedAt: number;
+  lastCorrect: boolean;
+}
+
+const STORAGE_KEY = 'reviewSchedule';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Failed words come back within the same session instead of waiting a full day
+const RELEARN_DELAY_MS = 60 * 1000;
+
+const MIN_EASE_FACTOR = 1.3;
+const DEFAULT_EASE_FACTOR = 2.5;
+
+// SM-2 answer quality (0-5) for a plain right/wrong outcome
+const QUALITY_CORRECT = 4;
+const QUALITY_INCORRECT = 1;
+
+// Each hint lowers the quality of a correct answer; below this the word is relearned like a miss
+const QUALITY_PASSING = 3;
+
+export class ReviewScheduler {
+  private cards: Map<string, ReviewCard> = new Map();
+
+  constructor() {
+    this.load();
+  }
+
+  private key(word: string): string {
+    return word.toLowerCase().trim();
+  }
+
+  private load() {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        const cards: ReviewCard[] = JSON.parse(saved);
+        cards.forEach(card => this.cards.set(this.key(card.word.word), card));
+      }
+    } catch (error) {
+      console.warn('Failed to load review schedule:', error);
+    }
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.cards.values())));
+    } catch (error) {
+      console.warn('Failed to save review schedule:', error);
+    }
+  }
+
+  // Records an answer and reschedules the word using the SM-2 algorithm
+  recordReview(word: Word, isCorrect: boolean, hintsUsed: number = 0, now: number = Date.now()): ReviewCard {
+    const existing = this.cards.get(this.key(word.word));
+    const card: ReviewCard = existing ? { ...existing, word } : {
+      word,
+      repetitions: 0,
+      interval: 0,
+      easeFactor: DEFAULT_EASE_FACTOR,
+      dueAt: now,
+      lapses: 0,
+      lastReviewedAt: now,
+      lastCorrect: false
+    };
+
+    // Two or more hints mean the word was worked out rather than remembered
+    const quality = isCorrect ? Math.max(QUALITY_INCORRECT, QUALITY_CORRECT - hintsUsed) : QUALITY_INCORRECT;
+    const recalled = quality >= QUALITY_PASSING;
+
+    if (recalled) {
+      if (card.repetitions === 0) {
+        card.interval = 1;
+      } else if (card.repetitions === 1) {
+        card.interval = 6;
+      } else {
+        card.interval = Math.round(card.interval * card.easeFactor);
+      }
+      card.repetitions += 1;
+      card.dueAt = now + card.interval * DAY_MS;
+    } else {
+      card.repetitions = 0;
+      card.interval = 0;
+      card.lapses += 1;
+      card.dueAt = now + RELEARN_DELAY_MS;
+    }
+
+    card.easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+    card.lastReviewedAt = now;
+    card.lastCorrect = recalled;
+
+    this.cards.set(this.key(word.word), card);
+    this.save();
+    return card;
+  }
+
+  getCard(word: string): ReviewCard | undefined {
+    return this.cards.get(this.key(word));
+  }
+
+  getCards(): ReviewCard[] {
+    return Array.from(this.cards.values());
+  }
+
+  // Due cards of a deck at a level, failed words first, then the most overdue
+  getDueCards(deck: Deck, level: LevelFilter, now: number = Date.now()): ReviewCard[] {
+    const deckWords = new Set(deck.words.map(word => this.key(word.word)));
+
+    return Array.from(this.cards.values())
+      .filter(card => card.dueAt <= now && deckWords.has(this.key(card.word.word)))
+      .filter(card => level === 'ALL' || card.word.level === level)
+      .sort((a, b) => {
+        if (a.lastCorrect !== b.lastCorrect) {
+          return a.lastCorrect ? 1 : -1;
+        }
+        return a.dueAt - b.dueAt;
+      });
+  }
+
+  // Words to skip, e.g. the one just shown or ones already queued for upcoming rounds
+  private excludedKeys(exclude?: string | string[]): Set<string> {
+    const words = Array.isArray(exclude) ? exclude : exclude ? [exclude] : [];
+    return new Set(words.map(word => this.key(word)));
+  }
+
+  getNextDueWord(deck: Deck, level: LevelFilter, exclude?: string | string[]): Word | null {
+    const excluded = this.excludedKeys(exclude);
+    const due = this.getDueCards(deck, level).filter(card => !excluded.has(this.key(card.word.word)));
+    return due.length ? due[0].word : null;
+  }
+
+  // Picks the next word to practice: due or failed words first, then words never seen before,
+  // then the word whose review is closest to being due
+  getNextWord(deck: Deck, level: LevelFilter, exclude?: string | string[]): Word {
+    const dueWord = this.getNextDueWord(deck, level, exclude);
+    if (dueWord) {
+      return dueWord;
+    }
+
+    const excluded = this.excludedKeys(exclude);
+    const levelWords = getDeckWords(deck, level);
+    const pool = (levelWords.length ? levelWords : deck.words)
+      .filter(word => !excluded.has(this.key(word.word)));
+
+    const newWords = pool.filter(word => !this.cards.has(this.key(word.word)));
+    if (newWords.length) {
+      return newWords[Math.floor(Math.random() * newWords.length)];
+    }
+
+    const upcoming = pool
+      .map(word => this.cards.get(this.key(word.word))!)
+      .sort((a, b) => a.dueAt - b.dueAt);
+    return upcoming.length ? upcoming[0].word : deck.words[0];
+  }
+
+  clear() {
+    this.cards.clear();
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
@@ -0,0 +1,99 @@
+import { calculateDifficulty } from './clueEngine';
+import { AnswerVerdict } from './answerEvaluator';
+import { AnswerMode } from './progressStore';
+import { HintTier, HINT_COSTS } from './hintEngine';
+import { WordLevel } from '../types/vocabulary';
+
+export interface ScoreInput {
+  level: WordLevel;
+  isCorrect: boolean;
+  verdict: AnswerVerdict;
+  answerMode: AnswerMode;
+  latencyMs: number;
+  hintsUsed: HintTier[];
+  // Correct answers in a row including this one
+  streak: number;
+}
+
+export interface ScoreBreakdown {
+  base: number;
+  speedBonus: number;
+  hintPenalty: number;
+  // Multiple choice and not-quite-exact answers earn a share of the points
+  answerMultiplier: number;
+  streakMultiplier: number;
+  total: number;
+}
+
+export interface LearnerLevel {
+  level: number;
+  // XP earned since reaching this level, and needed to reach the next one
+  xpIntoLevel: number;
+  xpForNextLevel: number;
+}
+
+// An A1 word is worth this much; each CEFR level above adds as much again (C1 is 5x)
+const POINTS_PER_DIFFICULTY = 10;
+
+// Answers within FAST_ANSWER_MS earn up to half the base again, shrinking to nothing at SLOW_ANSWER_MS
+const FAST_ANSWER_MS = 5000;
+const SLOW_ANSWER_MS = 20000;
+const MAX_SPEED_BONUS = 0.5;
+
+// Picking from four options is easier than recalling the word
+const MODE_MULTIPLIERS: Record<AnswerMode, number> = {
+  voice: 1,
+  typed: 1,
+  multiple_choice: 0.5
+};
+
+const VERDICT_MULTIPLIERS: Record<AnswerVerdict, number> = {
+  exact: 1,
+  close: 0.8,
+  wrong_form: 0.6,
+  wrong: 0
+};
+
+// Every answer in a streak after the first adds 10%, up to double points
+const STREAK_STEP = 0.1;
+const MAX_STREAK_MULTIPLIER = 2;
+
+// XP needed to go from learner level n to n + 1
+const XP_PER_LEVEL_STEP = 100;
+
+// Hint costs are set for an A1 word and grow with the word's difficulty like its points do
+export const getHintPenalty = (tier: HintTier, level: WordLevel): number => {
+  return HINT_COSTS[tier] * calculateDifficulty(level);
+};
+
+/**
+ * Points for one answer: a base from the word's difficulty plus a bonus for
+ * answering fast, less any hints, then scaled by answer mode, how exact the
+ * answer was and the current streak. Wrong answers score nothing.
+ */
+export const scoreAnswer = (input: ScoreInput): ScoreBreakdown => {
+  const base = POINTS_PER_DIFFICULTY * calculateDifficulty(input.level);
+  if (!input.isCorrect) {
+    return { base, speedBonus: 0, hintPenalty: 0, answerMultiplier: 0, streakMultiplier: 1, total: 0 };
+  }
+
+  const speedShare = Math.min(1, Math.max(0, (SLOW_ANSWER_MS - input.latencyMs) / (SLOW_ANSWER_MS - FAST_ANSWER_MS)));
+  const speedBonus = Math.round(base * MAX_SPEED_BONUS * speedShare);
+  const hintPenalty = input.hintsUsed.reduce((total, tier) => total + getHintPenalty(tier, input.level), 0);
+  const answerMultiplier = MODE_MULTIPLIERS[input.answerMode] * VERDICT_MULTIPLIERS[input.verdict];
+  const streakMultiplier = Math.min(MAX_STREAK_MULTIPLIER, 1 + Math.max(0, input.streak - 1) * STREAK_STEP);
+
+  const total = Math.round(Math.max(0, base + speedBonus - hintPenalty) * answerMultiplier * streakMultiplier);
+  return { base, speedBonus, hintPenalty, answerMultiplier, streakMultiplier, total };
+};
+
+// Level n needs 100 XP more than level n - 1: 100 XP for level 2, 300 for 3, 600 for 4...
+export const getLearnerLevel = (xp: number): LearnerLevel => {
+  let level = 1;
+  let levelStart = 0;
+  while (xp >= levelStart + level * XP_PER_LEVEL_STEP) {
+    levelStart += level * XP_PER_LEVEL_STEP;
+    level += 1;
+  }
+  return { level, xpIntoLevel: xp - levelStart, xpForNextLevel: level * XP_PER_LEVEL_STEP };
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { isSessionMode } from './sessionModes';
+
+describe('isSessionMode', () => {
+  it('accepts the session modes', () => {
+    expect(['sprint', 'lesson_10', 'lesson_20', 'endless'].every(isSessionMode)).toBe(true);
+  });
+
+  it('rejects names inherited from Object', () => {
+    expect(isSessionMode('toString')).toBe(false);
+    expect(isSessionMode('constructor')).toBe(false);
+    expect(isSessionMode(null)).toBe(false);
+  });
+});
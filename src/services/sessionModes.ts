@@ -0,0 +1,60 @@
+import { SessionRecord, SessionWord } from './progressStore';
+import { LevelFilter } from '../types/vocabulary';
+
+export type SessionMode = 'sprint' | 'lesson_10' | 'lesson_20' | 'endless';
+
+export interface SessionModeConfig {
+  label: string;
+  description: string;
+  // A sprint ends on time, a lesson after a number of words; endless has neither
+  durationMs?: number;
+  wordCount?: number;
+}
+
+export const SESSION_MODES: Record<SessionMode, SessionModeConfig> = {
+  sprint: { label: '60s Sprint', description: 'As many words as you can in a minute', durationMs: 60000 },
+  lesson_10: { label: '10 Words', description: 'A short lesson of ten words', wordCount: 10 },
+  lesson_20: { label: '20 Words', description: 'A full lesson of twenty words', wordCount: 20 },
+  endless: { label: 'Endless', description: 'Keep going until you finish the session' }
+};
+
+export const SESSION_MODE_ORDER: SessionMode[] = ['sprint', 'lesson_10', 'lesson_20', 'endless'];
+
+export const DEFAULT_SESSION_MODE: SessionMode = 'endless';
+
+export const isSessionMode = (value: string | null): value is SessionMode => {
+  return value !== null && Object.prototype.hasOwnProperty.call(SESSION_MODES, value);
+};
+
+// Milliseconds left in a timed session, or null for modes without a clock
+export const getTimeRemaining = (mode: SessionMode, startedAt: number, now: number = Date.now()): number | null => {
+  const { durationMs } = SESSION_MODES[mode];
+  return durationMs === undefined ? null : Math.max(0, startedAt + durationMs - now);
+};
+
+// A lesson is over once its last word has been answered, a sprint once the clock runs out
+export const isSessionOver = (mode: SessionMode, startedAt: number, wordsAnswered: number, now: number = Date.now()): boolean => {
+  const { wordCount } = SESSION_MODES[mode];
+  if (wordCount !== undefined && wordsAnswered >= wordCount) {
+    return true;
+  }
+  return getTimeRemaining(mode, startedAt, now) === 0;
+};
+
+export const createSessionRecord = (
+  mode: SessionMode,
+  deckId: string,
+  level: LevelFilter,
+  startedAt: number,
+  words: SessionWord[],
+  endedAt: number = Date.now()
+): SessionRecord => ({
+  mode,
+  deckId,
+  level,
+  startedAt,
+  endedAt,
+  words,
+  correctAnswers: words.filter(word => word.isCorrect).length,
+  points: words.reduce((total, word) => total + word.points, 0)
+});
@@ -3,21 +3,56 @@ import {
   getVoiceConfig, 
   validateElevenLabsConfig 
 } from '../config/elevenlabs.config.js';
-import { handleElevenLabsError, retryWithBackoff, RateLimiter } from '../utils/apiErrorHandler.js';
+import { handleElevenLabsError, retryWithBackoff, RateLimiter, APIError, ErrorTypes } from '../utils/apiErrorHandler.js';
+import { contentCache, NamespaceStats } from './contentCache';
+import { TTSProvider, TTSProviderId, ElevenLabsTTSProvider, WebSpeechTTSProvider, SpeechDelivery } from './ttsProviders';
+import { UsageLedger, UsageBudgets } from './usageLedger';
 
 export type SpeechMode = 'full' | 'concise' | 'disabled';
 
+export interface RecognitionAlternative {
+  transcript: string;
+  // 0-1 as reported by the recognizer; 0 when it did not score this hypothesis
+  confidence: number;
+}
+
+export interface RecognitionResult {
+  // The recognizer's best guess, for commands
+  transcript: string;
+  confidence: number;
+  // Every hypothesis in the recognizer's order, best first
+  alternatives: RecognitionAlternative[];
+}
+
+// Single-word answers are often the second or third hypothesis
+const MAX_ALTERNATIVES = 5;
+
+// Character budgets from elevenLabsConfig, for the usage ledger
+export const getCharacterBudgets = (): Pick<UsageBudgets, 'charactersPerDay' | 'charactersPerMonth'> => ({
+  charactersPerDay: elevenLabsConfig.rateLimits.charactersPerDay,
+  charactersPerMonth: elevenLabsConfig.rateLimits.charactersPerMonth
+});
+
 export class SpeechService {
   private apiKey: string;
-  private synthesis: SpeechSynthesis;
   private recognition: SpeechRecognition | null = null;
   private rateLimiter: RateLimiter;
   private isRecognitionActive: boolean = false;
   private onEndPromise: Promise<void> | null = null;
   private speechMode: SpeechMode = 'full';
+
+  // Speech backends in order of preference; later ones take over when earlier ones fail
+  private elevenLabs: ElevenLabsTTSProvider;
+  private browserVoice: WebSpeechTTSProvider;
+  // Set when ElevenLabs fails in a way retrying cannot fix, such as a rejected key or used-up quota
+  private elevenLabsDisabledReason: string | null = null;
+  private activeProviderId: TTSProviderId | null = null;
   
   // Audio cache for repeated phrases
   private audioCache: Map<string, Blob> = new Map();
+
+  // Cached texts synthesized ahead of time for one upcoming challenge; dropped once played
+  private prefetchedTexts: Set<string> = new Set();
   
   // Common phrases that can be cached
   private readonly commonPhrases = {
@@ -39,9 +74,14 @@ export class SpeechService {
     sayGoHome: "Say go home to return to the main menu."
   };
 
-  constructor(apiKey?: string, speechMode: SpeechMode = 'full') {
-    this.apiKey = apiKey || elevenLabsConfig.apiKey;
-    this.synthesis = window.speechSynthesis;
+  constructor(
+    apiKey?: string,
+    speechMode: SpeechMode = 'full',
+    private usageLedger: UsageLedger | null = null
+  ) {
+    this.apiKey = apiKey || elevenLabsConfig.apiKey || '';
+    this.elevenLabs = new ElevenLabsTTSProvider(this.apiKey, (text, voiceId) => this.generateAudioBlob(text, voiceId));
+    this.browserVoice = new WebSpeechTTSProvider(elevenLabsConfig.browserFallback.voice);
     this.rateLimiter = new RateLimiter(elevenLabsConfig.rateLimits.requestsPerMinute);
     this.speechMode = speechMode;
     this.initializeSpeechRecognition();
@@ -64,12 +104,43 @@ export class SpeechService {
     return this.speechMode;
   }
 
+  // Picks one of the voices from speechSynthesis.getVoices() by its voiceURI; empty means automatic
+  setBrowserVoice(voiceURI: string) {
+    this.browserVoice.setVoice(voiceURI);
+  }
+
+  // Speed and volume requested by the learner, for every backend
+  setDelivery(delivery: SpeechDelivery) {
+    this.elevenLabs.setDelivery(delivery);
+    this.browserVoice.setDelivery(delivery);
+  }
+
+  // The backend that spoke last, or the one that will be tried first
+  getActiveProvider(): TTSProvider | null {
+    if (this.activeProviderId) {
+      return this.activeProviderId === 'elevenlabs' ? this.elevenLabs : this.browserVoice;
+    }
+    return this.getProviders()[0] || null;
+  }
+
+  private isElevenLabsUsable(): boolean {
+    return !this.elevenLabsDisabledReason && this.elevenLabs.validate() === null;
+  }
+
+  private getProviders(): TTSProvider[] {
+    const providers: TTSProvider[] = [];
+    if (this.isElevenLabsUsable()) {
+      providers.push(this.elevenLabs);
+    }
+    if (elevenLabsConfig.browserFallback.enabled && this.browserVoice.validate() === null) {
+      providers.push(this.browserVoice);
+    }
+    return providers;
+  }
+
   private async preCacheCommonPhrases() {
     // Only pre-cache if we have a valid API key and speech is not disabled
-    if (!this.apiKey || 
-        this.apiKey === 'your_elevenlabs_api_key_here' || 
-        this.apiKey.length < 10 ||
-        this.speechMode === 'disabled') {
+    if (!this.isElevenLabsUsable() || this.speechMode === 'disabled') {
       return;
     }
 
@@ -116,22 +187,9 @@ export class SpeechService {
       return false;
     }
 
-    return new Promise((resolve, reject) => {
-      const audioUrl = URL.createObjectURL(cachedBlob);
-      const audio = new Audio(audioUrl);
-      
-      audio.onended = () => {
-        URL.revokeObjectURL(audioUrl);
-        resolve(true);
-      };
-      
-      audio.onerror = (error) => {
-        URL.revokeObjectURL(audioUrl);
-        reject(error);
-      };
-      
-      audio.play().catch(reject);
-    });
+    await this.elevenLabs.play(cachedBlob);
+    this.activeProviderId = 'elevenlabs';
+    return true;
   }
 
   private optimizeTextForSpeech(text: string): string {
@@ -169,13 +227,15 @@ export class SpeechService {
       return Promise.resolve();
     }
 
-    // Check if this is a common phrase that might be cached
-    const exactMatch = Object.values(this.commonPhrases).find(phrase => phrase === optimizedText);
-    if (exactMatch) {
+    // Common phrases and prefetched challenges may already have audio
+    if (this.audioCache.has(optimizedText)) {
       try {
-        const played = await this.playFromCache(exactMatch);
+        const played = await this.playFromCache(optimizedText);
         if (played) {
-          console.log(`Played from cache: "${exactMatch}"`);
+          console.log(`Played from cache: "${optimizedText}"`);
+          if (this.prefetchedTexts.delete(optimizedText)) {
+            this.audioCache.delete(optimizedText);
+          }
           return;
         }
       } catch (error) {
@@ -183,34 +243,80 @@ export class SpeechService {
       }
     }
 
-    return new Promise((resolve, reject) => {
-      // Require valid ElevenLabs API key for production use
-      if (!this.apiKey || 
-          this.apiKey === 'your_elevenlabs_api_key_here' || 
-          this.apiKey.length < 10) {
-        reject(new Error('Valid ElevenLabs API key is required for high-quality speech synthesis.'));
+    const providers = this.getProviders();
+    if (!providers.length) {
+      throw new Error(this.elevenLabsDisabledReason || this.elevenLabs.validate() || 'No speech synthesis is available in this browser.');
+    }
+
+    let lastError: Error | null = null;
+    for (const provider of providers) {
+      try {
+        await (provider === this.elevenLabs ? this.speakWithElevenLabs(optimizedText, voiceId) : provider.speak(optimizedText, voiceId));
+        this.activeProviderId = provider.id;
         return;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        console.warn(`${provider.label} speech failed, trying the next backend:`, lastError.message);
       }
+    }
 
-      // Use ElevenLabs API for high-quality speech
-      this.speakWithElevenLabs(optimizedText, voiceId)
-        .then(resolve)
-        .catch((error) => {
-          console.error('ElevenLabs speech synthesis failed:', error);
-          reject(new Error(`ElevenLabs speech synthesis failed: ${error.message}`));
-        });
-    });
+    throw new Error(`Speech synthesis failed: ${lastError?.message}`);
+  }
+
+  // Synthesizes audio ahead of time so a later speakText call with the same text plays instantly
+  async prefetchText(text: string, voiceId?: string): Promise<void> {
+    const optimizedText = this.optimizeTextForSpeech(text);
+    if (!optimizedText || this.audioCache.has(optimizedText)) {
+      return;
+    }
+
+    // Browser voices speak instantly, so there is nothing to prefetch for them
+    if (!this.isElevenLabsUsable()) {
+      return;
+    }
+
+    // Near the character budget, audio is only made for challenges actually played
+    if (this.usageLedger && this.usageLedger.getLevel('characters') !== 'ok') {
+      return;
+    }
+
+    const audioBlob = await this.generateAudioBlob(optimizedText, voiceId);
+    this.audioCache.set(optimizedText, audioBlob);
+    this.prefetchedTexts.add(optimizedText);
+  }
+
+  // Frees audio prefetched for challenges that will no longer be played
+  discardPrefetched() {
+    this.prefetchedTexts.forEach(text => this.audioCache.delete(text));
+    this.prefetchedTexts.clear();
+  }
+
+  // Requests still available this minute, so background work can leave room for the learner
+  getRemainingRequests(): number {
+    return this.rateLimiter.getRemainingRequests();
   }
 
   private async generateAudioBlob(text: string, voiceId?: string): Promise<Blob> {
+    const voice = getVoiceConfig(voiceId || elevenLabsConfig.defaultVoice.voiceId);
+
+    // Audio synthesized in an earlier session costs nothing to replay
+    const cacheKey = ['tts', voice.id, elevenLabsConfig.model, text];
+    const cachedBlob = await contentCache.get<Blob>('audio', cacheKey);
+    if (cachedBlob) {
+      return cachedBlob;
+    }
+
+    // Over budget the browser voice takes over; the budget resets with the day or month
+    if (this.usageLedger && !this.usageLedger.canSpend('characters', text.length)) {
+      throw new Error('The ElevenLabs character budget is used up.');
+    }
+
     // Check rate limits
     if (!this.rateLimiter.canMakeRequest()) {
       const waitTime = this.rateLimiter.getTimeUntilNextRequest();
       throw new Error(`ElevenLabs rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds.`);
     }
 
-    const voice = getVoiceConfig(voiceId || elevenLabsConfig.defaultVoice.voiceId);
-    
     const response = await retryWithBackoff(async () => {
       this.rateLimiter.recordRequest();
       
@@ -247,12 +353,13 @@ export class SpeechService {
           const errorText = await response.text();
           console.error('ElevenLabs API error response:', response.status, errorText);
           
+          // Typed so retryWithBackoff gives up at once and speakText can fall back to the browser voice
           if (response.status === 401) {
-            throw new Error('Invalid ElevenLabs API key. Please check your API key configuration.');
+            throw new APIError('Invalid ElevenLabs API key. Please check your API key configuration.', ErrorTypes.AUTHENTICATION, 401);
           } else if (response.status === 429) {
             throw new Error('ElevenLabs rate limit exceeded. Please wait a moment and try again.');
           } else if (response.status === 402) {
-            throw new Error('ElevenLabs quota exceeded. Please check your billing and usage limits.');
+            throw new APIError('ElevenLabs quota exceeded. Please check your billing and usage limits.', ErrorTypes.QUOTA_EXCEEDED, 402);
           }
           
           throw new Error(`ElevenLabs API error (${response.status}): ${response.statusText}`);
@@ -265,7 +372,10 @@ export class SpeechService {
       }
     }, elevenLabsConfig.rateLimits.retryAttempts, elevenLabsConfig.rateLimits.retryDelay);
 
-    return await response.blob();
+    const audioBlob = await response.blob();
+    this.usageLedger?.record('characters', text.length);
+    await contentCache.set('audio', cacheKey, audioBlob);
+    return audioBlob;
   }
 
   private async speakWithElevenLabs(text: string, voiceId?: string): Promise<void> {
@@ -279,23 +389,16 @@ export class SpeechService {
         console.log(`Auto-cached phrase: "${exactMatch}"`);
       }
       
-      const audioUrl = URL.createObjectURL(audioBlob);
-      const audio = new Audio(audioUrl);
-      
-      return new Promise((resolve, reject) => {
-        audio.onended = () => {
-          URL.revokeObjectURL(audioUrl);
-          resolve();
-        };
-        audio.onerror = (error) => {
-          URL.revokeObjectURL(audioUrl);
-          reject(error);
-        };
-        audio.play().catch(reject);
-      });
+      await this.elevenLabs.play(audioBlob);
     } catch (error) {
       const apiError = handleElevenLabsError(error);
       console.error('ElevenLabs API Error:', apiError);
+
+      // A rejected key or an exhausted quota will not recover this session
+      if (/api key|quota/i.test(apiError.message)) {
+        this.elevenLabsDisabledReason = apiError.message;
+        this.discardPrefetched();
+      }
       throw new Error(`ElevenLabs API Error: ${apiError.message}`);
     }
   }
@@ -331,11 +434,12 @@ export class SpeechService {
     if (this.recognition) {
       this.recognition.continuous = false;
       this.recognition.interimResults = false;
+      this.recognition.maxAlternatives = MAX_ALTERNATIVES;
       this.recognition.lang = 'en-US';
     }
   }
 
-  async startListening(): Promise<string> {
+  async startListening(): Promise<RecognitionResult> {
     // Wait for any previous recognition session to fully end
     if (this.onEndPromise) {
       await this.onEndPromise;
@@ -368,7 +472,7 @@ export class SpeechService {
     });
   }
 
-  private startRecognitionSession(resolve: (value: string) => void, reject: (reason?: any) => void) {
+  private startRecognitionSession(resolve: (value: RecognitionResult) => void, reject: (reason?: any) => void) {
     if (!this.recognition) {
       reject(new Error('Speech recognition not supported'));
       return;
@@ -379,9 +483,17 @@ export class SpeechService {
 
     this.recognition.onresult = (event) => {
       hasResult = true;
-      const transcript = event.results[0][0].transcript;
+      const result = event.results[0];
+      const alternatives: RecognitionAlternative[] = Array.from({ length: result.length }, (_, index) => ({
+        transcript: result[index].transcript.toLowerCase().trim(),
+        confidence: result[index].confidence || 0
+      })).filter(alternative => alternative.transcript);
       this.isRecognitionActive = false;
-      resolve(transcript.toLowerCase().trim());
+      resolve({
+        transcript: alternatives[0]?.transcript || '',
+        confidence: alternatives[0]?.confidence || 0,
+        alternatives
+      });
     };
 
     this.recognition.onerror = (event) => {
@@ -415,22 +527,27 @@ export class SpeechService {
   }
 
   stopSpeaking() {
-    if (this.synthesis) {
-      this.synthesis.cancel();
-    }
+    this.elevenLabs.stop();
+    this.browserVoice.stop();
   }
 
-  // Clear cache if needed (for memory management)
+  // Clear cache if needed (for memory management); the persistent cache is left intact
   clearCache() {
     this.audioCache.clear();
+    this.prefetchedTexts.clear();
     console.log('Audio cache cleared');
   }
 
-  // Get cache statistics
-  getCacheStats() {
+  // Get cache statistics, including the persistent audio and clue caches
+  async getCacheStats(): Promise<{
+    cachedPhrases: number;
+    phrases: string[];
+    persistent: { audio: NamespaceStats; llm: NamespaceStats };
+  }> {
     return {
       cachedPhrases: this.audioCache.size,
-      phrases: Array.from(this.audioCache.keys())
+      phrases: Array.from(this.audioCache.keys()),
+      persistent: await contentCache.getStats()
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { RecognitionResult } from './speechService';
+
+// How one letter of the attempt lines up with the word
+export type SpellingOp = 'match' | 'wrong' | 'missing' | 'extra';
+
+export interface SpellingDiffPart {
+  op: SpellingOp;
+  // The word's letter; null for a letter the learner added
+  expected: string | null;
+  // The learner's letter; null for a letter the learner left out
+  typed: string | null;
+}
+
+// Letter names as speech recognizers tend to write them: "a bee see", "double you"
+const LETTER_NAMES: Record<string, string> = {
+  ay: 'a', eh: 'a',
+  be: 'b', bee: 'b',
+  see: 'c', sea: 'c', cee: 'c',
+  dee: 'd',
+  ef: 'f', eff: 'f',
+  gee: 'g',
+  aitch: 'h', haitch: 'h',
+  eye: 'i',
+  jay: 'j',
+  kay: 'k',
+  el: 'l', ell: 'l',
+  em: 'm',
+  en: 'n',
+  oh: 'o',
+  pee: 'p', pea: 'p',
+  queue: 'q', cue: 'q',
+  are: 'r', ar: 'r',
+  es: 's', ess: 's',
+  tee: 't', tea: 't',
+  you: 'u',
+  vee: 'v',
+  ex: 'x',
+  why: 'y',
+  zed: 'z', zee: 'z',
+  space: ' ',
+  hyphen: '-', dash: '-'
+};
+
+// Spellings are compared as written apart from case and surrounding spaces
+const normalizeSpelling = (text: string): string => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const isSpelledCorrectly = (attempt: string, word: string): boolean => {
+  return normalizeSpelling(attempt) === normalizeSpelling(word);
+};
+
+/**
+ * Lines the attempt up with the word letter by letter, with the fewest changes,
+ * so the feedback can show which letters were wrong, left out or added.
+ */
+export const diffSpelling = (attempt: string, word: string): SpellingDiffPart[] => {
+  const expected = normalizeSpelling(word);
+  const typed = normalizeSpelling(attempt);
+
+  const costs = Array.from({ length: expected.length + 1 }, (_, i) =>
+    Array.from({ length: typed.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= expected.length; i++) {
+    for (let j = 1; j <= typed.length; j++) {
+      costs[i][j] = Math.min(
+        costs[i - 1][j] + 1,
+        costs[i][j - 1] + 1,
+        costs[i - 1][j - 1] + (expected[i - 1] === typed[j - 1] ? 0 : 1)
+      );
+    }
+  }
+
+  // Walk back through the table to pair up letters
+  const parts: SpellingDiffPart[] = [];
+  let i = expected.length;
+  let j = typed.length;
+  while (i > 0 || j > 0) {
+    const isSame = i > 0 && j > 0 && expected[i - 1] === typed[j - 1];
+    if (i > 0 && j > 0 && costs[i][j] === costs[i - 1][j - 1] + (isSame ? 0 : 1)) {
+      parts.unshift({ op: isSame ? 'match' : 'wrong', expected: expected[i - 1], typed: typed[j - 1] });
+      i -= 1;
+      j -= 1;
+    } else if (j > 0 && costs[i][j] === costs[i][j - 1] + 1) {
+      parts.unshift({ op: 'extra', expected: null, typed: typed[j - 1] });
+      j -= 1;
+    } else {
+      parts.unshift({ op: 'missing', expected: expected[i - 1], typed: null });
+      i -= 1;
+    }
+  }
+
+  return parts;
+};
+
+/**
+ * Joins a spelled-out transcript into a word: "a b a n d o n", "A-B-A-N-D-O-N",
+ * "double s" and letter names like "bee" or "why" all become letters. Returns
+ * null when any part is not a letter, since a spoken word would be spelled by
+ * the recognizer rather than the learner.
+ */
+export const joinSpokenLetters = (transcript: string): string | null => {
+  const tokens = transcript.toLowerCase().replace(/[^a-z\s]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+  if (!tokens.length) return null;
+
+  let spelled = '';
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    const next = tokens[index + 1];
+
+    // "double u" and "double you" are w; "double s" is two of them
+    if (token === 'double' && next) {
+      const letter = next === 'u' || next === 'you' ? 'w' : next.length === 1 ? next : LETTER_NAMES[next];
+      if (!letter) return null;
+      spelled += letter === 'w' ? 'w' : letter + letter;
+      index += 1;
+    } else if (token.length === 1) {
+      spelled += token;
+    } else if (LETTER_NAMES[token]) {
+      spelled += LETTER_NAMES[token];
+    } else {
+      return null;
+    }
+  }
+
+  return spelled.trim() || null;
+};
+
+// The first recognizer hypothesis that is a spelling, or null when none of them are
+export const getSpokenSpelling = (result: RecognitionResult): string | null => {
+  const alternatives = result.alternatives.length ? result.alternatives : [{ transcript: result.transcript, confidence: result.confidence }];
+  for (const alternative of alternatives) {
+    const spelled = joinSpokenLetters(alternative.transcript);
+    if (spelled) return spelled;
+  }
+  return null;
+};
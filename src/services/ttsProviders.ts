@@ -0,0 +1,205 @@
+export type TTSProviderId = 'elevenlabs' | 'browser';
+
+// Utterance settings for the browser backend, from elevenLabsConfig.browserFallback
+export interface BrowserVoiceSettings {
+  rate: number;
+  pitch: number;
+  volume: number;
+  lang: string;
+}
+
+// Listener adjustments on top of each backend's own settings; 1 leaves them unchanged
+export interface SpeechDelivery {
+  rate: number;
+  volume: number;
+}
+
+export const DEFAULT_SPEECH_DELIVERY: SpeechDelivery = { rate: 1, volume: 1 };
+
+export interface TTSProvider {
+  readonly id: TTSProviderId;
+  readonly label: string;
+  // Returns a reason when the backend cannot speak right now, otherwise null
+  validate(): string | null;
+  speak(text: string, voiceId?: string): Promise<void>;
+  stop(): void;
+  setDelivery(delivery: SpeechDelivery): void;
+}
+
+export const TTS_PROVIDER_LABELS: Record<TTSProviderId, string> = {
+  elevenlabs: 'ElevenLabs',
+  browser: 'Browser voice'
+};
+
+const isPlaceholderKey = (apiKey: string): boolean => {
+  return !apiKey || apiKey === 'your_elevenlabs_api_key_here' || apiKey.length < 10;
+};
+
+/**
+ * Resolves the voices installed in the browser. Chrome fills the list
+ * asynchronously, so an empty first answer waits for voiceschanged.
+ */
+export const loadBrowserVoices = (timeout: number = 1500): Promise<SpeechSynthesisVoice[]> => {
+  if (!('speechSynthesis' in window)) {
+    return Promise.resolve([]);
+  }
+
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length) {
+    return Promise.resolve(voices);
+  }
+
+  return new Promise(resolve => {
+    const finish = () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', finish);
+      clearTimeout(timeoutId);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    const timeoutId = setTimeout(finish, timeout);
+    window.speechSynthesis.addEventListener('voiceschanged', finish);
+  });
+};
+
+export class ElevenLabsTTSProvider implements TTSProvider {
+  readonly id: TTSProviderId = 'elevenlabs';
+  readonly label: string = TTS_PROVIDER_LABELS.elevenlabs;
+  private currentAudio: HTMLAudioElement | null = null;
+  private delivery: SpeechDelivery = DEFAULT_SPEECH_DELIVERY;
+
+  // Synthesis stays with SpeechService, which owns the rate limiter and audio caches
+  constructor(private apiKey: string, private synthesize: (text: string, voiceId?: string) => Promise<Blob>) {}
+
+  setDelivery(delivery: SpeechDelivery) {
+    this.delivery = delivery;
+  }
+
+  validate(): string | null {
+    if (isPlaceholderKey(this.apiKey)) {
+      return 'Valid ElevenLabs API key is required for high-quality speech synthesis.';
+    }
+    return null;
+  }
+
+  async speak(text: string, voiceId?: string): Promise<void> {
+    const audioBlob = await this.synthesize(text, voiceId);
+    return this.play(audioBlob);
+  }
+
+  // Plays audio that was synthesized earlier, so stop() can interrupt cached playback too
+  play(audioBlob: Blob): Promise<void> {
+    this.stop();
+
+    return new Promise((resolve, reject) => {
+      const audioUrl = URL.createObjectURL(audioBlob);
+      const audio = new Audio(audioUrl);
+      audio.playbackRate = this.delivery.rate;
+      audio.volume = Math.min(1, this.delivery.volume);
+      this.currentAudio = audio;
+
+      const finish = () => {
+        URL.revokeObjectURL(audioUrl);
+        if (this.currentAudio === audio) {
+          this.currentAudio = null;
+        }
+      };
+
+      audio.onended = () => {
+        finish();
+        resolve();
+      };
+      audio.onpause = () => {
+        // Stopped by stop(); treat it like the end of speech
+        finish();
+        resolve();
+      };
+      audio.onerror = () => {
+        finish();
+        reject(new Error('The synthesized audio could not be played.'));
+      };
+      audio.play().catch(error => {
+        finish();
+        reject(error);
+      });
+    });
+  }
+
+  stop() {
+    if (this.currentAudio) {
+      this.currentAudio.pause();
+      this.currentAudio = null;
+    }
+  }
+}
+
+export class WebSpeechTTSProvider implements TTSProvider {
+  readonly id: TTSProviderId = 'browser';
+  readonly label: string = TTS_PROVIDER_LABELS.browser;
+
+  private delivery: SpeechDelivery = DEFAULT_SPEECH_DELIVERY;
+
+  constructor(private settings: BrowserVoiceSettings, private voiceURI: string = '') {}
+
+  setVoice(voiceURI: string) {
+    this.voiceURI = voiceURI;
+  }
+
+  setDelivery(delivery: SpeechDelivery) {
+    this.delivery = delivery;
+  }
+
+  validate(): string | null {
+    if (!('speechSynthesis' in window) || typeof SpeechSynthesisUtterance === 'undefined') {
+      return 'Speech synthesis is not supported in this browser.';
+    }
+    return null;
+  }
+
+  // The chosen voice if it is installed, otherwise the best match for the configured language
+  private async pickVoice(): Promise<SpeechSynthesisVoice | null> {
+    const voices = await loadBrowserVoices();
+    const chosen = voices.find(voice => voice.voiceURI === this.voiceURI);
+    if (chosen) {
+      return chosen;
+    }
+
+    const language = this.settings.lang.toLowerCase();
+    return voices.find(voice => voice.lang.toLowerCase() === language && voice.default)
+      || voices.find(voice => voice.lang.toLowerCase() === language)
+      || voices.find(voice => voice.lang.toLowerCase().startsWith(language.split('-')[0]))
+      || null;
+  }
+
+  async speak(text: string): Promise<void> {
+    const voice = await this.pickVoice();
+
+    return new Promise((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.rate = this.settings.rate * this.delivery.rate;
+      utterance.pitch = this.settings.pitch;
+      utterance.volume = Math.min(1, this.settings.volume * this.delivery.volume);
+      utterance.lang = voice?.lang || this.settings.lang;
+      if (voice) {
+        utterance.voice = voice;
+      }
+
+      utterance.onend = () => resolve();
+      utterance.onerror = (event) => {
+        // Cancelling is how stop() works, not a failure
+        if (event.error === 'canceled' || event.error === 'interrupted') {
+          resolve();
+          return;
+        }
+        reject(new Error(`Browser speech synthesis error: ${event.error}`));
+      };
+
+      window.speechSynthesis.cancel();
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+
+  stop() {
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+    }
+  }
+}
@@ -0,0 +1,159 @@
+export type UsageMetric = 'tokens' | 'characters';
+export type UsagePeriod = 'day' | 'month';
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface UsageBudgets {
+  tokensPerMinute: number;
+  tokensPerDay: number;
+  tokensPerMonth: number;
+  charactersPerDay: number;
+  charactersPerMonth: number;
+}
+
+export interface BudgetStatus {
+  metric: UsageMetric;
+  period: UsagePeriod;
+  used: number;
+  limit: number;
+  remaining: number;
+  level: BudgetLevel;
+}
+
+type DailyUsage = Record<UsageMetric, number>;
+
+const STORAGE_KEY = 'usageLedger';
+
+// Share of a budget after which the app warns and switches to cheaper modes
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+const LEVEL_ORDER: BudgetLevel[] = ['ok', 'warning', 'exceeded'];
+
+// Local dates, so "today" rolls over at the learner's midnight
+const toDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const toMonthKey = (date: Date): string => toDayKey(date).slice(0, 7);
+
+/**
+ * Records LLM tokens and TTS characters per day in localStorage and checks them
+ * against daily and monthly budgets. Keys are often shared by a whole team, so
+ * the limits are enforced before requests are sent rather than reported afterwards.
+ */
+export class UsageLedger {
+  private days: Record<string, DailyUsage> = {};
+  // Tokens spent in the last minute, kept in memory like the request rate limiter
+  private recentTokens: { time: number; amount: number }[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor(private budgets: UsageBudgets) {
+    this.load();
+  }
+
+  private load() {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        this.days = JSON.parse(saved);
+      }
+    } catch (error) {
+      console.warn('Failed to load usage ledger:', error);
+    }
+  }
+
+  private save() {
+    // Days from before the previous month can no longer affect any budget
+    const previousMonth = new Date();
+    previousMonth.setDate(1);
+    previousMonth.setMonth(previousMonth.getMonth() - 1);
+    const oldestKept = toMonthKey(previousMonth);
+
+    Object.keys(this.days).forEach(day => {
+      if (day.slice(0, 7) < oldestKept) {
+        delete this.days[day];
+      }
+    });
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.days));
+  }
+
+  record(metric: UsageMetric, amount: number) {
+    if (amount <= 0) {
+      return;
+    }
+
+    const today = toDayKey(new Date());
+    const usage = this.days[today] || { tokens: 0, characters: 0 };
+    usage[metric] += amount;
+    this.days[today] = usage;
+
+    if (metric === 'tokens') {
+      this.recentTokens.push({ time: Date.now(), amount });
+    }
+
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  getUsage(metric: UsageMetric, period: UsagePeriod): number {
+    const now = new Date();
+    if (period === 'day') {
+      return this.days[toDayKey(now)]?.[metric] || 0;
+    }
+
+    const month = toMonthKey(now);
+    return Object.entries(this.days)
+      .filter(([day]) => day.startsWith(month))
+      .reduce((total, [, usage]) => total + (usage[metric] || 0), 0);
+  }
+
+  private getLimit(metric: UsageMetric, period: UsagePeriod): number {
+    if (metric === 'tokens') {
+      return period === 'day' ? this.budgets.tokensPerDay : this.budgets.tokensPerMonth;
+    }
+    return period === 'day' ? this.budgets.charactersPerDay : this.budgets.charactersPerMonth;
+  }
+
+  getStatus(metric: UsageMetric): BudgetStatus[] {
+    return (['day', 'month'] as UsagePeriod[]).map(period => {
+      const used = this.getUsage(metric, period);
+      const limit = this.getLimit(metric, period);
+      const level: BudgetLevel = used >= limit
+        ? 'exceeded'
+        : used >= limit * BUDGET_WARNING_THRESHOLD ? 'warning' : 'ok';
+
+      return { metric, period, used, limit, remaining: Math.max(0, limit - used), level };
+    });
+  }
+
+  // The worst level across the daily and monthly budgets
+  getLevel(metric: UsageMetric): BudgetLevel {
+    return this.getStatus(metric).reduce<BudgetLevel>(
+      (worst, status) => LEVEL_ORDER.indexOf(status.level) > LEVEL_ORDER.indexOf(worst) ? status.level : worst,
+      'ok'
+    );
+  }
+
+  // Whether spending `amount` more stays within every budget, including tokens per minute
+  canSpend(metric: UsageMetric, amount: number = 0): boolean {
+    const withinBudgets = this.getStatus(metric).every(status => status.used + amount <= status.limit && status.level !== 'exceeded');
+    if (!withinBudgets || metric !== 'tokens') {
+      return withinBudgets;
+    }
+
+    const oneMinuteAgo = Date.now() - 60000;
+    this.recentTokens = this.recentTokens.filter(entry => entry.time > oneMinuteAgo);
+    const lastMinute = this.recentTokens.reduce((total, entry) => total + entry.amount, 0);
+    return lastMinute + amount <= this.budgets.tokensPerMinute;
+  }
+
+  // Notifies after every recorded use; returns the unsubscribe function
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
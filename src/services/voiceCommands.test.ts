@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { adjustDelivery, parseVoiceCommand } from './voiceCommands';
+import { DEFAULT_SPEECH_DELIVERY } from './ttsProviders';
+
+describe('adjustDelivery', () => {
+  it('is already at full volume by default, so "louder" has nowhere to go', () => {
+    expect(DEFAULT_SPEECH_DELIVERY.volume).toBe(1);
+    expect(adjustDelivery(DEFAULT_SPEECH_DELIVERY, 'louder')).toBeNull();
+    expect(adjustDelivery(DEFAULT_SPEECH_DELIVERY, 'quieter')).toEqual({ ...DEFAULT_SPEECH_DELIVERY, volume: 0.8 });
+  });
+
+  it('stops at the slowest rate', () => {
+    const slowest = { ...DEFAULT_SPEECH_DELIVERY, rate: 0.6 };
+
+    expect(adjustDelivery(slowest, 'slower')).toBeNull();
+    expect(adjustDelivery(slowest, 'faster')).toEqual({ ...slowest, rate: 0.8 });
+  });
+});
+
+describe('parseVoiceCommand', () => {
+  it('takes single words as navigation between words', () => {
+    expect(parseVoiceCommand('quit')).toEqual({ intent: 'go_home' });
+    expect(parseVoiceCommand('continue')).toEqual({ intent: 'next_word' });
+    expect(parseVoiceCommand('pass')).toEqual({ intent: 'skip' });
+  });
+
+  it('grades single-word navigation as an answer while one is expected', () => {
+    ['quit', 'exit', 'continue', 'pass', 'skip', 'another one'].forEach(transcript => {
+      expect(parseVoiceCommand(transcript, true)).toBeNull();
+    });
+  });
+
+  it('still takes navigation phrases while an answer is expected', () => {
+    expect(parseVoiceCommand('go home', true)).toEqual({ intent: 'go_home' });
+    expect(parseVoiceCommand('quit the game', true)).toEqual({ intent: 'go_home' });
+    expect(parseVoiceCommand('next word please', true)).toEqual({ intent: 'next_word' });
+    expect(parseVoiceCommand('skip this one', true)).toEqual({ intent: 'skip' });
+    expect(parseVoiceCommand('hint', true)).toEqual({ intent: 'hint' });
+  });
+});
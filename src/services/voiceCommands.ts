@@ -0,0 +1,109 @@
+import { normalizeAnswer } from './answerEvaluator';
+import { SpeechDelivery } from './ttsProviders';
+import { WordLevel } from '../types/vocabulary';
+
+export type VoiceIntent =
+  | 'next_word'
+  | 'go_home'
+  | 'repeat'
+  | 'spell'
+  | 'hint'
+  | 'skip'
+  | 'slower'
+  | 'faster'
+  | 'louder'
+  | 'quieter'
+  | 'meaning'
+  | 'pause'
+  | 'score'
+  | 'change_level';
+
+export interface VoiceCommand {
+  intent: VoiceIntent;
+  // Only for change_level
+  level?: WordLevel;
+}
+
+export type DeliveryIntent = 'slower' | 'faster' | 'louder' | 'quieter';
+
+/**
+ * Phrases for each intent, matched against the normalized transcript (lowercase,
+ * no punctuation, so "don't" is "dont"). Checked in order, so more specific
+ * phrases come first. Single words that are likely answers ("home", "next")
+ * only count as commands with the words around them; while an answer is
+ * expected, ANSWERING_PATTERNS replaces the patterns of intents that leave the word.
+ */
+const INTENT_PATTERNS: [VoiceIntent, RegExp][] = [
+  ['go_home', /\b(go home|go back home|main menu|back to (the )?menu|quit( the game)?|exit( the game)?|stop (the )?game)\b/],
+  ['next_word', /\b(next word|next one|next please|another word|another one|move on|continue)\b/],
+  ['skip', /\b(skip( it| this( one)?| the word)?|pass)\b/],
+  ['repeat', /\b(repeat( that| it| the clue)?|say (it|that) again|one more time|come again|pardon|what did you say)\b/],
+  ['spell', /\b(spell( it| that| the word)?|how do you spell|spelling)\b/],
+  ['hint', /\b(hint|give me a clue|another clue|help me|i need help)\b/],
+  ['meaning', /\b(what does (it|that|this|the word) mean|meaning|definition|define( it)?)\b/],
+  ['slower', /\b(slower|slow down|too fast|more slowly)\b/],
+  ['faster', /\b(faster|speed up|too slow|more quickly)\b/],
+  ['louder', /\b(louder|speak up|volume up|turn it up|cant hear( you)?)\b/],
+  ['quieter', /\b(quieter|softer|volume down|turn it down|too loud)\b/],
+  ['pause', /\b(pause|hold on|take a break|wait a (moment|minute|second))\b/],
+  ['score', /\b((what is |whats |show )?my score|how am i doing|my (points|stats|progress))\b/]
+];
+
+/**
+ * Going home or moving on loses the word, and going home the whole session, so
+ * while an answer is expected those intents need a phrase no answer looks like:
+ * a learner answering "quit", "continue" or "pass" is graded instead.
+ */
+const ANSWERING_PATTERNS: Partial<Record<VoiceIntent, RegExp>> = {
+  go_home: /\b(go home|go back home|main menu|back to (the )?menu|quit the game|exit the game|stop the game)\b/,
+  next_word: /\b(next word|next one|next please|another word|move on to the next)\b/,
+  skip: /\b(skip (it|this( one)?|the word)|i pass)\b/
+};
+
+const LEVEL_DIGITS: Record<string, string> = { '1': '1', one: '1', won: '1', '2': '2', two: '2', to: '2', too: '2' };
+
+// "change level to B2", "level b two", "switch to level c 1"
+const LEVEL_PATTERN = /\blevel (?:to )?(a|b|c|be|see|sea) ?(1|2|one|won|two|to|too)\b/;
+
+const parseLevel = (text: string): WordLevel | null => {
+  const match = text.match(LEVEL_PATTERN);
+  if (!match) return null;
+
+  const letter = { be: 'b', see: 'c', sea: 'c' }[match[1]] || match[1];
+  const level = `${letter.toUpperCase()}${LEVEL_DIGITS[match[2]]}`;
+  return ['A1', 'A2', 'B1', 'B2', 'C1'].includes(level) ? level as WordLevel : null;
+};
+
+// The command in a spoken phrase, or null when it is not one (and may be an answer)
+export const parseVoiceCommand = (transcript: string, isAnswering = false): VoiceCommand | null => {
+  const text = normalizeAnswer(transcript);
+  if (!text) return null;
+
+  const level = parseLevel(text);
+  if (level) {
+    return { intent: 'change_level', level };
+  }
+
+  const match = INTENT_PATTERNS.find(([intent, pattern]) =>
+    ((isAnswering && ANSWERING_PATTERNS[intent]) || pattern).test(text)
+  );
+  return match ? { intent: match[0] } : null;
+};
+
+const DELIVERY_LIMITS = { rate: { min: 0.6, max: 1.4, step: 0.2 }, volume: { min: 0.4, max: 1, step: 0.2 } };
+
+/**
+ * The speech delivery after a "slower", "faster", "louder" or "quieter" command,
+ * or null when it is already at its limit.
+ */
+export const adjustDelivery = (delivery: SpeechDelivery, intent: DeliveryIntent): SpeechDelivery | null => {
+  const property = intent === 'slower' || intent === 'faster' ? 'rate' : 'volume';
+  const { min, max, step } = DELIVERY_LIMITS[property];
+  const direction = intent === 'faster' || intent === 'louder' ? 1 : -1;
+  const value = Math.round((delivery[property] + direction * step) * 10) / 10;
+
+  if (value < min || value > max) {
+    return null;
+  }
+  return { ...delivery, [property]: value };
+};
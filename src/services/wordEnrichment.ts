@@ -0,0 +1,267 @@
+import { BLANK, blankWordInText, getWordForms } from './clueEngine';
+import { getDeckWords } from './deckRegistry';
+import { Deck, LevelFilter, Word, WordEnrichment, WordFamilyMember } from '../types/vocabulary';
+
+// Exercises that need an enriched word
+export type EnrichedExerciseType = 'word_form' | 'collocation' | 'synonym';
+
+export interface EnrichedExercise {
+  type: EnrichedExerciseType;
+  word: Word;
+  // What to do: "Pick the form that fits the sentence."
+  instruction: string;
+  // The sentence, phrase or word the question is about, blanked where the answer goes
+  text: string;
+  // For the voice, which cannot read a blank
+  speech: string;
+  answer: string;
+  options: string[];
+}
+
+export const ENRICHMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    family: {
+      type: 'array',
+      description: 'Other words built on the same root, each with a short sentence that uses it exactly as written',
+      items: {
+        type: 'object',
+        properties: {
+          word: { type: 'string' },
+          partOfSpeech: { type: 'string' },
+          example: { type: 'string' }
+        },
+        required: ['word', 'partOfSpeech', 'example'],
+        additionalProperties: false
+      }
+    },
+    collocations: { type: 'array', items: { type: 'string' }, description: 'Short common phrases that use the word' },
+    synonyms: { type: 'array', items: { type: 'string' } },
+    antonyms: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['family', 'collocations', 'synonyms', 'antonyms'],
+  additionalProperties: false
+};
+
+export const ENRICHED_EXERCISE_LABELS: Record<EnrichedExerciseType, string> = {
+  word_form: 'Word form',
+  collocation: 'Collocation',
+  synonym: 'Synonyms'
+};
+
+// Most entries kept of each kind, so one talkative reply cannot crowd out the rest of the deck
+const MAX_FAMILY = 4;
+const MAX_COLLOCATIONS = 4;
+const MAX_RELATED = 4;
+
+// Options shown for a question, the answer included
+const OPTION_COUNT = 4;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  // Fisher-Yates shuffle
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Blanks the form exactly as written; null when the text does not contain it
+const blankExactForm = (text: string, form: string): string | null => {
+  const pattern = new RegExp(`(^|[^A-Za-z])${escapeRegExp(form)}(?![A-Za-z])`, 'gi');
+  if (!pattern.test(text)) {
+    return null;
+  }
+  pattern.lastIndex = 0;
+  return text.replace(pattern, `$1${BLANK}`);
+};
+
+const toStringList = (value: unknown): string[] => {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+};
+
+/**
+ * Checks enrichment from a model reply or a deck file against the word. Family
+ * members that are only inflections of the word, examples that do not use their
+ * form, collocations without the word and "synonyms" that are the word itself
+ * are all dropped. Returns null when the data is not an enrichment at all.
+ */
+export const sanitizeWordEnrichment = (value: unknown, word: Word): WordEnrichment | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const ownForms = new Set(getWordForms(word.word));
+  const seen = new Set(ownForms);
+
+  const family: WordFamilyMember[] = [];
+  (Array.isArray(record.family) ? record.family : []).forEach(entry => {
+    const member = entry && typeof entry === 'object' ? entry as Record<string, unknown> : {};
+    const form = typeof member.word === 'string' ? member.word.trim().toLowerCase() : '';
+    const example = typeof member.example === 'string' ? member.example.trim() : '';
+    if (family.length >= MAX_FAMILY || !/^[a-z][a-z-]*$/.test(form) || seen.has(form) || !blankExactForm(example, form)) {
+      return;
+    }
+    seen.add(form);
+    family.push({
+      word: form,
+      partOfSpeech: typeof member.partOfSpeech === 'string' ? member.partOfSpeech.trim().toLowerCase() || 'word' : 'word',
+      example
+    });
+  });
+
+  const collocations = Array.from(new Set(toStringList(record.collocations).map(phrase => phrase.trim().replace(/\s+/g, ' '))))
+    .filter(phrase => phrase.split(' ').length > 1 && phrase.split(' ').length <= 6 && blankWordInText(phrase, word.word))
+    .slice(0, MAX_COLLOCATIONS);
+
+  // A word listed as both a synonym and an antonym is kept as neither
+  const synonymList = toStringList(record.synonyms).map(item => item.trim().toLowerCase());
+  const antonymList = toStringList(record.antonyms).map(item => item.trim().toLowerCase());
+  const isRelatedWord = (item: string) => /^[a-z][a-z' -]*$/.test(item) && item.split(' ').length <= 3 && !ownForms.has(item);
+  const synonyms = Array.from(new Set(synonymList))
+    .filter(item => isRelatedWord(item) && !antonymList.includes(item))
+    .slice(0, MAX_RELATED);
+  const antonyms = Array.from(new Set(antonymList))
+    .filter(item => isRelatedWord(item) && !synonymList.includes(item))
+    .slice(0, MAX_RELATED);
+
+  return { family, collocations, synonyms, antonyms };
+};
+
+// Checks a model reply; null when it is unusable
+export const parseWordEnrichment = (content: string, word: Word): WordEnrichment | null => {
+  const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    return sanitizeWordEnrichment(JSON.parse(json), word);
+  } catch {
+    return null;
+  }
+};
+
+// Enrichment always sets every list, so any one of them being there means it has run
+export const isEnriched = (word: Word): boolean => word.synonyms !== undefined;
+
+// Up to `count` candidates that are not excluded, at random
+const pickDistractors = (candidates: string[], exclude: string[], count: number): string[] => {
+  const used = new Set(exclude.map(item => item.toLowerCase()));
+  return shuffle(candidates).filter(candidate => {
+    const key = candidate.toLowerCase();
+    if (used.has(key)) return false;
+    used.add(key);
+    return true;
+  }).slice(0, count);
+};
+
+// Other words of the level with the same part of speech, so grammar does not give the answer away
+const getDeckDistractors = (word: Word, deck: Deck, level: LevelFilter): string[] => {
+  const levelWords = getDeckWords(deck, level);
+  const pool = levelWords.length ? levelWords : deck.words;
+  const samePartOfSpeech = pool.filter(candidate => candidate.partOfSpeech === word.partOfSpeech);
+  return (samePartOfSpeech.length > OPTION_COUNT ? samePartOfSpeech : pool).map(candidate => candidate.word);
+};
+
+// "Pick the correct form": a sentence from the word family with its form blanked
+const buildWordFormExercise = (word: Word): EnrichedExercise | null => {
+  const family = word.family || [];
+  if (!family.length) {
+    return null;
+  }
+
+  const forms = [word.word.toLowerCase(), ...family.map(member => member.word)];
+  const headwordSentence = word.example ? blankExactForm(word.example, word.word.toLowerCase()) : null;
+  const questions = [
+    ...family.map(member => ({ answer: member.word, sentence: blankExactForm(member.example, member.word) })),
+    ...(headwordSentence ? [{ answer: word.word.toLowerCase(), sentence: headwordSentence }] : [])
+  ].filter(question => question.sentence);
+
+  if (!questions.length) {
+    return null;
+  }
+  const question = questions[Math.floor(Math.random() * questions.length)];
+
+  return {
+    type: 'word_form',
+    word,
+    instruction: `Pick the form of "${word.word}" that fits the sentence.`,
+    text: question.sentence!,
+    speech: `Which form of ${word.word} fits this sentence? ${question.sentence!.split(BLANK).join('blank')}`,
+    answer: question.answer,
+    options: shuffle([question.answer, ...pickDistractors(forms, [question.answer], OPTION_COUNT - 1)])
+  };
+};
+
+// "Which word goes with make a ____": a collocation with the word blanked
+const buildCollocationExercise = (word: Word, deck: Deck, level: LevelFilter): EnrichedExercise | null => {
+  const phrases = (word.collocations || [])
+    .map(phrase => blankWordInText(phrase, word.word))
+    .filter((phrase): phrase is string => phrase !== null);
+  if (!phrases.length) {
+    return null;
+  }
+  const phrase = phrases[Math.floor(Math.random() * phrases.length)];
+
+  return {
+    type: 'collocation',
+    word,
+    instruction: 'Which word goes in this phrase?',
+    text: phrase,
+    speech: `Which word goes with: ${phrase.split(BLANK).join('blank')}`,
+    answer: word.word,
+    options: shuffle([word.word, ...pickDistractors(getDeckDistractors(word, deck, level), [word.word], OPTION_COUNT - 1)])
+  };
+};
+
+/**
+ * Synonym or antonym matching. The opposite relation makes the best distractor,
+ * since it shares the topic but not the meaning; the rest come from the deck.
+ */
+const buildSynonymExercise = (word: Word, deck: Deck, level: LevelFilter): EnrichedExercise | null => {
+  const synonyms = word.synonyms || [];
+  const antonyms = word.antonyms || [];
+  const kinds = [
+    ...(synonyms.length ? ['synonym' as const] : []),
+    ...(antonyms.length ? ['antonym' as const] : [])
+  ];
+  if (!kinds.length) {
+    return null;
+  }
+
+  const kind = kinds[Math.floor(Math.random() * kinds.length)];
+  const [matches, opposites] = kind === 'synonym' ? [synonyms, antonyms] : [antonyms, synonyms];
+  const answer = matches[Math.floor(Math.random() * matches.length)];
+  const exclude = [answer, word.word, ...synonyms, ...antonyms];
+  const opposite = pickDistractors(opposites, [answer], 1);
+  const fromDeck = pickDistractors(getDeckDistractors(word, deck, level), exclude, OPTION_COUNT - 1 - opposite.length);
+  const relation = kind === 'synonym' ? 'means the same as' : 'means the opposite of';
+
+  return {
+    type: 'synonym',
+    word,
+    instruction: `Which word ${relation} "${word.word}"?`,
+    text: word.word,
+    speech: `Which word ${relation} ${word.word}?`,
+    answer,
+    options: shuffle([answer, ...opposite, ...fromDeck])
+  };
+};
+
+// One exercise of a type the word's enrichment supports, chosen at random; null when it supports none
+export const createEnrichedExercise = (word: Word, deck: Deck, level: LevelFilter): EnrichedExercise | null => {
+  const builders = shuffle([
+    () => buildWordFormExercise(word),
+    () => buildCollocationExercise(word, deck, level),
+    () => buildSynonymExercise(word, deck, level)
+  ]);
+
+  for (const build of builders) {
+    const exercise = build();
+    if (exercise && exercise.options.length > 1) {
+      return exercise;
+    }
+  }
+  return null;
+};
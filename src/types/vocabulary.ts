@@ -0,0 +1,48 @@
+export type WordLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1';
+
+// Level selection in the UI, where 'ALL' mixes every level of the active deck
+export type LevelFilter = WordLevel | 'ALL';
+
+// Another word built on the same root ("acceptance" for "accept"), with a sentence that needs it
+export interface WordFamilyMember {
+  word: string;
+  partOfSpeech: string;
+  example: string;
+}
+
+export interface Word {
+  word: string;
+  level: WordLevel;
+  definition: string;
+  example: string;
+  partOfSpeech: string;
+  // Filled in by AI enrichment and saved with the deck; missing until the word has been enriched
+  family?: WordFamilyMember[];
+  // Phrases the word is commonly used in, such as "make a decision"
+  collocations?: string[];
+  synonyms?: string[];
+  antonyms?: string[];
+}
+
+// What AI enrichment adds to a word; empty lists mean the model had nothing usable
+export type WordEnrichment = Required<Pick<Word, 'family' | 'collocations' | 'synonyms' | 'antonyms'>>;
+
+// The plain text fields of a word, which deck files import and export as columns
+export type WordField = 'word' | 'level' | 'definition' | 'example' | 'partOfSpeech';
+
+export interface DeckMetadata {
+  id: string;
+  name: string;
+  description: string;
+  language: string;
+  levelScheme: WordLevel[];
+  source: 'builtin' | 'user';
+}
+
+export interface Deck extends DeckMetadata {
+  words: Word[];
+}
+
+export interface DeckSummary extends DeckMetadata {
+  wordCount: number;
+}
@@ -220,6 +220,15 @@ export class RateLimiter {
     this.requests.push(Date.now());
   }
   
+  /**
+   * Gets how many more requests fit in the current one-minute window
+   * @returns {number} Remaining requests
+   */
+  getRemainingRequests() {
+    this.canMakeRequest(); // Drops timestamps older than a minute
+    return Math.max(0, this.requestsPerMinute - this.requests.length);
+  }
+  
   /**
    * Gets time until next request is allowed
    * @returns {number} Milliseconds until next request
@@ -248,10 +257,11 @@ export const retryWithBackoff = async (fn, maxAttempts = 3, baseDelay = 1000) =>
     } catch (error) {
       lastError = error;
       
-      // Don't retry on authentication or validation errors
+      // Don't retry on authentication, validation or quota errors
       if (error instanceof APIError && 
           (error.type === ErrorTypes.AUTHENTICATION || 
-           error.type === ErrorTypes.VALIDATION)) {
+           error.type === ErrorTypes.VALIDATION ||
+           error.type === ErrorTypes.QUOTA_EXCEEDED)) {
         throw error;
       }
       